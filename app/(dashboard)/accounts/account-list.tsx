@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { Landmark, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { BalanceLineChart } from '@/components/charts/balance-line-chart';
+import { createBankAccountAction } from '@/lib/core/bank-account/create-bank-account-action';
+import { deleteBankAccountAction } from '@/lib/core/bank-account/delete-bank-account-action';
+import {
+  ACCOUNT_TYPES,
+  ACCOUNT_TYPE_LABELS,
+  type AccountType
+} from '@/lib/core/bank-account/account-types';
+import type { BalancePoint } from '@/lib/core/bank-account/queries';
+
+type Account = {
+  id: string;
+  name: string;
+  bankName: string | null;
+  currency: string;
+  type: AccountType;
+  balance: number | null;
+  transactionCount: number;
+  history: BalancePoint[];
+};
+
+type Props = {
+  accounts: Account[];
+  banks: { id: string; name: string }[];
+};
+
+const formatBalance = (balance: number, currency: string) =>
+  new Intl.NumberFormat('sv-SE', { style: 'currency', currency }).format(balance);
+
+export function AccountList({ accounts: initialAccounts, banks }: Props) {
+  const [accounts, setAccounts] = useState(initialAccounts);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Create state
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newBank, setNewBank] = useState<string | null>(null);
+  const [newCurrency, setNewCurrency] = useState('SEK');
+  const [newType, setNewType] = useState<AccountType>('checking');
+
+  // Delete confirmation state
+  const [deleteTarget, setDeleteTarget] = useState<Account | null>(null);
+
+  const resetCreate = () => {
+    setNewName('');
+    setNewBank(null);
+    setNewCurrency('SEK');
+    setNewType('checking');
+    setIsCreating(false);
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      toast.error('Account name is required');
+      return;
+    }
+
+    setPendingAction('create');
+    startTransition(async () => {
+      const result = await createBankAccountAction({
+        name: newName.trim(),
+        bank: newBank,
+        currency: newCurrency.trim().toUpperCase(),
+        type: newType
+      });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      const { account } = result;
+      setAccounts(prev =>
+        [
+          ...prev,
+          {
+            id: account.id,
+            name: account.name,
+            bankName: banks.find(b => b.id === account.bank)?.name ?? account.bank,
+            currency: account.currency,
+            type: account.type,
+            balance: null,
+            transactionCount: 0,
+            history: []
+          }
+        ].sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      resetCreate();
+      setPendingAction(null);
+      toast.success(`Created account "${account.name}"`);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    setPendingAction(id);
+    startTransition(async () => {
+      const result = await deleteBankAccountAction({ id });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        setDeleteTarget(null);
+        return;
+      }
+
+      setAccounts(prev => prev.filter(a => a.id !== id));
+      setPendingAction(null);
+      setDeleteTarget(null);
+      toast.success(`Deleted account "${result.name}"`);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="size-5" />
+              Bank accounts
+            </CardTitle>
+            <CardDescription>
+              Assign uploads to an account to track its balance and detect transfers
+            </CardDescription>
+          </div>
+          {!isCreating && (
+            <Button size="sm" onClick={() => setIsCreating(true)}>
+              <Plus className="size-4" />
+              Add account
+            </Button>
+          )}
+        </CardHeader>
+        {isCreating && (
+          <CardContent>
+            <form
+              className="grid gap-4 sm:grid-cols-2"
+              onSubmit={e => {
+                e.preventDefault();
+                handleCreate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="accountName">Name</Label>
+                <Input
+                  id="accountName"
+                  value={newName}
+                  onChange={e => setNewName(e.target.value)}
+                  placeholder="e.g. Everyday account"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accountBank">Bank</Label>
+                <Select
+                  value={newBank ?? '__none__'}
+                  onValueChange={v => setNewBank(v === '__none__' || v === null ? null : v)}
+                >
+                  <SelectTrigger id="accountBank" className="w-full">
+                    <SelectValue>{banks.find(b => b.id === newBank)?.name ?? 'Other'}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">Other</SelectItem>
+                    {banks.map(bank => (
+                      <SelectItem key={bank.id} value={bank.id}>
+                        {bank.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accountType">Type</Label>
+                <Select
+                  value={newType}
+                  onValueChange={v => {
+                    const type = ACCOUNT_TYPES.find(t => t === v);
+                    if (type) setNewType(type);
+                  }}
+                >
+                  <SelectTrigger id="accountType" className="w-full">
+                    <SelectValue>{ACCOUNT_TYPE_LABELS[newType]}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>
+                        {ACCOUNT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accountCurrency">Currency</Label>
+                <Input
+                  id="accountCurrency"
+                  value={newCurrency}
+                  onChange={e => setNewCurrency(e.target.value)}
+                  maxLength={3}
+                  className="uppercase"
+                />
+              </div>
+              <div className="flex gap-2 sm:col-span-2">
+                <Button type="submit" disabled={isPending}>
+                  {pendingAction === 'create' && <Loader2 className="size-4 animate-spin" />}
+                  Create
+                </Button>
+                <Button type="button" variant="outline" onClick={resetCreate}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+
+      {accounts.length === 0 ? (
+        <div className="text-muted-foreground py-8 text-center text-sm">No accounts yet.</div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {accounts.map(account => (
+            <Card key={account.id}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <span className="truncate">{account.name}</span>
+                    <Badge variant="outline">{ACCOUNT_TYPE_LABELS[account.type]}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {account.bankName ?? 'Other bank'} · {account.transactionCount} transactions
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  aria-label={`Delete ${account.name}`}
+                  disabled={isPending}
+                  onClick={() => setDeleteTarget(account)}
+                >
+                  {pendingAction === account.id ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="size-4" />
+                  )}
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-2xl font-semibold tabular-nums">
+                  {account.balance === null
+                    ? '-'
+                    : formatBalance(account.balance, account.currency)}
+                </div>
+                <BalanceLineChart data={account.history} currency={account.currency} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete &quot;{deleteTarget?.name}&quot;. Its {deleteTarget?.transactionCount ?? 0}{' '}
+              transactions are kept but no longer assigned to an account.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              onClick={() => deleteTarget && handleDelete(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
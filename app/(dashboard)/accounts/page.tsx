@@ -0,0 +1,67 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getAccountBalances, getBankAccounts } from '@/lib/core/bank-account/queries';
+import { BANK_PARSERS, bankDisplayName } from '@/lib/core/import/registry';
+import { AccountList } from './account-list';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const [accounts, balances] = yield* Effect.all([
+        getBankAccounts(session.user.id),
+        getAccountBalances(session.user.id)
+      ]);
+
+      const balanceByAccount = new Map(balances.map(b => [b.accountId, b]));
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Accounts</h1>
+              <p className="text-muted-foreground mt-1">
+                Your bank accounts and their balances over time. Confirmed transfers between them
+                are not counted as income or expenses.
+              </p>
+            </div>
+
+            <AccountList
+              accounts={accounts.map(account => {
+                const balance = balanceByAccount.get(account.id);
+                return {
+                  id: account.id,
+                  name: account.name,
+                  bankName: bankDisplayName(account.bank),
+                  currency: account.currency,
+                  type: account.type,
+                  balance: balance?.balance ?? null,
+                  transactionCount: balance?.transactionCount ?? 0,
+                  history: balance?.history ?? []
+                };
+              })}
+              banks={BANK_PARSERS.map(p => ({ id: p.id, name: p.name }))}
+            />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function AccountsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
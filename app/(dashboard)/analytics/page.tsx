@@ -2,8 +2,10 @@ import { Suspense } from 'react';
 import type { SearchParams } from 'nuqs/server';
 import { Effect } from 'effect';
 import { cookies } from 'next/headers';
+import Link from 'next/link';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import {
   getTransactionSummary,
   getPeriodTrends,
@@ -12,7 +14,8 @@ import {
   findMerchantMappingId,
   getTopMerchants
 } from '@/lib/core/transaction/queries';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getTagTotals } from '@/lib/core/tag/queries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CategoryPieChart } from '@/components/charts/category-pie-chart';
 import { CategoryLineChart } from '@/components/charts/category-line-chart';
 import { TrendLineChart } from '@/components/charts/trend-line-chart';
@@ -21,6 +24,7 @@ import { TopMerchantsChart } from '@/components/charts/top-merchants-chart';
 import { loadSearchParams, getDateRange } from '../search-params';
 import { TimeframeSelector } from '../timeframe-selector';
 import { ExpenseHighlights } from '@/components/expense-highlights';
+import { formatCurrency } from '@/lib/utils';
 
 export const dynamic = 'force-dynamic';
 
@@ -34,16 +38,19 @@ async function Content({ searchParams }: Props) {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
+      const session = yield* getSession();
+      const userId = session.user.id;
       const dateRange = getDateRange(timeframe, period);
 
       // Fetch all analytics data in parallel
-      const [categorySummary, periodTrends, categoryTrends, transactions, topMerchants] =
+      const [categorySummary, periodTrends, categoryTrends, transactions, topMerchants, tagTotals] =
         yield* Effect.all([
-          getTransactionSummary(dateRange),
-          getPeriodTrends(timeframe, 12, period), // Last 12 periods ending at selected
-          getCategoryPeriodTrends(timeframe, 6, period), // Last 6 periods ending at selected
-          getTransactionsWithCategory(dateRange),
-          getTopMerchants(dateRange, 10) // Top 10 merchants
+          getTransactionSummary(userId, dateRange),
+          getPeriodTrends(userId, timeframe, 12, period), // Last 12 periods ending at selected
+          getCategoryPeriodTrends(userId, timeframe, 6, period), // Last 6 periods ending at selected
+          getTransactionsWithCategory(userId, dateRange),
+          getTopMerchants(userId, dateRange, 10), // Top 10 merchants
+          getTagTotals(userId, dateRange)
         ]);
 
       // Dynamic labels based on timeframe
@@ -66,7 +73,7 @@ async function Content({ searchParams }: Props) {
         }
       }
       const highestMerchantId = highestMerchantName
-        ? yield* findMerchantMappingId(highestMerchantName)
+        ? yield* findMerchantMappingId(userId, highestMerchantName)
         : null;
 
       return (
@@ -135,6 +142,48 @@ async function Content({ searchParams }: Props) {
                 <TopMerchantsChart data={topMerchants} height={400} />
               </CardContent>
             </Card>
+
+            {/* Tag Totals */}
+            {tagTotals.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Spending by Tag</CardTitle>
+                  <CardDescription>
+                    Transactions with several tags count toward each of them
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {tagTotals.map(tag => (
+                    <div key={tag.tagId} className="space-y-1">
+                      <div className="flex items-center justify-between gap-4 text-sm">
+                        <Link href={`/tags/${tag.tagId}`} className="truncate hover:underline">
+                          {tag.name}
+                        </Link>
+                        <span className="shrink-0 tabular-nums">
+                          <span className="font-medium">{formatCurrency(tag.expenses)}</span>
+                          {tag.income > 0 && (
+                            <span className="ml-2 text-green-600 dark:text-green-400">
+                              +{formatCurrency(tag.income)}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      <div className="bg-muted h-1.5 w-full rounded-full">
+                        <div
+                          className="h-1.5 rounded-full bg-red-500 dark:bg-red-400"
+                          style={{
+                            width: `${tagTotals[0].expenses > 0 ? (tag.expenses / tagTotals[0].expenses) * 100 : 0}%`
+                          }}
+                        />
+                      </div>
+                      <p className="text-muted-foreground text-xs">
+                        {tag.transactionCount} transaction{tag.transactionCount !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </div>
         </main>
       );
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Pencil, PiggyBank, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { BudgetProgress } from '@/components/budget-progress';
+import { saveBudgetAction } from '@/lib/core/budget/save-budget-action';
+import { deleteBudgetAction } from '@/lib/core/budget/delete-budget-action';
+import {
+  BUDGET_PERIODS,
+  BUDGET_PERIOD_LABELS,
+  type BudgetPeriod,
+  type BudgetStatus
+} from '@/lib/core/budget/budget';
+import { formatCurrency } from '@/lib/utils';
+
+type Category = {
+  id: string;
+  name: string;
+  icon: string | null;
+};
+
+type Props = {
+  categories: Category[];
+  budgets: BudgetStatus[];
+};
+
+export function BudgetList({ categories, budgets: initialBudgets }: Props) {
+  const [budgets, setBudgets] = useState(initialBudgets);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Edit state, keyed by category
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly');
+  const [rollover, setRollover] = useState(false);
+
+  const budgetByCategory = new Map(budgets.map(b => [b.categoryId, b]));
+
+  const startEdit = (categoryId: string) => {
+    const budget = budgetByCategory.get(categoryId);
+    setEditingId(categoryId);
+    setAmount(budget ? String(budget.limit) : '');
+    setPeriod(budget?.period ?? 'monthly');
+    setRollover(budget?.rollover ?? false);
+  };
+
+  const handleSave = (categoryId: string) => {
+    const value = Number(amount.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error('Budget amount must be a positive number');
+      return;
+    }
+
+    setPendingAction(categoryId);
+    startTransition(async () => {
+      const result = await saveBudgetAction({ categoryId, period, amount: value, rollover });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      const { status } = result;
+      if (status) {
+        setBudgets(prev => [...prev.filter(b => b.categoryId !== categoryId), status]);
+      }
+      setEditingId(null);
+      toast.success('Budget saved');
+    });
+  };
+
+  const handleDelete = (budget: BudgetStatus) => {
+    setPendingAction(budget.categoryId);
+    startTransition(async () => {
+      const result = await deleteBudgetAction({ id: budget.budgetId });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setBudgets(prev => prev.filter(b => b.budgetId !== budget.budgetId));
+      toast.success(`Removed budget for "${budget.categoryName}"`);
+    });
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PiggyBank className="size-5" />
+            Categories
+          </CardTitle>
+          <CardDescription>Budgets apply to spending in the category</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {categories.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center text-sm">No categories yet.</div>
+          ) : (
+            <ul className="divide-y">
+              {categories.map(category => {
+                const budget = budgetByCategory.get(category.id);
+                const isEditing = editingId === category.id;
+
+                return (
+                  <li key={category.id} className="space-y-3 py-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex min-w-0 items-center gap-2">
+                        <span className="truncate font-medium">
+                          {category.icon && `${category.icon} `}
+                          {category.name}
+                        </span>
+                        {budget && (
+                          <Badge variant="outline">
+                            {formatCurrency(budget.limit)} {BUDGET_PERIOD_LABELS[budget.period]}
+                          </Badge>
+                        )}
+                        {budget?.rollover && <Badge variant="secondary">Rollover</Badge>}
+                      </div>
+                      {!isEditing && (
+                        <div className="flex shrink-0 gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            aria-label={budget ? 'Edit budget' : 'Set budget'}
+                            disabled={isPending}
+                            onClick={() => startEdit(category.id)}
+                          >
+                            <Pencil className="size-4" />
+                          </Button>
+                          {budget && (
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              aria-label="Remove budget"
+                              disabled={isPending}
+                              onClick={() => handleDelete(budget)}
+                            >
+                              {pendingAction === category.id ? (
+                                <Loader2 className="size-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="size-4" />
+                              )}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {isEditing && (
+                      <form
+                        className="flex flex-wrap items-end gap-3"
+                        onSubmit={e => {
+                          e.preventDefault();
+                          handleSave(category.id);
+                        }}
+                      >
+                        <div className="space-y-2">
+                          <Label htmlFor={`amount-${category.id}`}>Limit</Label>
+                          <Input
+                            id={`amount-${category.id}`}
+                            inputMode="decimal"
+                            value={amount}
+                            onChange={e => setAmount(e.target.value)}
+                            className="w-32"
+                            autoFocus
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`period-${category.id}`}>Period</Label>
+                          <Select
+                            value={period}
+                            onValueChange={v => {
+                              const next = BUDGET_PERIODS.find(p => p === v);
+                              if (next) setPeriod(next);
+                            }}
+                          >
+                            <SelectTrigger id={`period-${category.id}`} className="w-32">
+                              <SelectValue>{BUDGET_PERIOD_LABELS[period]}</SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              {BUDGET_PERIODS.map(p => (
+                                <SelectItem key={p} value={p}>
+                                  {BUDGET_PERIOD_LABELS[p]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <label className="flex h-9 items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            className="accent-primary size-4"
+                            checked={rollover}
+                            onChange={e => setRollover(e.target.checked)}
+                          />
+                          Roll over unspent
+                        </label>
+                        <div className="flex gap-2">
+                          <Button type="submit" size="sm" disabled={isPending}>
+                            {pendingAction === category.id && (
+                              <Loader2 className="size-4 animate-spin" />
+                            )}
+                            Save
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setEditingId(null)}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </form>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>This period</CardTitle>
+          <CardDescription>
+            The marker shows where spending would be if spread evenly over the period
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BudgetProgress budgets={budgets} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
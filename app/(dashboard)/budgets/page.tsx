@@ -0,0 +1,53 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getAllCategories } from '@/lib/core/transaction/queries';
+import { getBudgetStatuses } from '@/lib/core/budget/queries';
+import { BudgetList } from './budget-list';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const [categories, budgets] = yield* Effect.all([
+        getAllCategories(session.user.id),
+        getBudgetStatuses(session.user.id)
+      ]);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Budgets</h1>
+              <p className="text-muted-foreground mt-1">
+                Set a monthly or weekly limit per category. You get an email when a category reaches
+                80% and 100% of its budget.
+              </p>
+            </div>
+
+            <BudgetList
+              categories={categories.map(c => ({ id: c.id, name: c.name, icon: c.icon }))}
+              budgets={budgets}
+            />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function BudgetsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
@@ -5,6 +5,7 @@ import { cookies } from 'next/headers';
 import { notFound } from 'next/navigation';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import {
   getCategoryById,
   getCategoryStats,
@@ -31,7 +32,9 @@ async function Content({ params, searchParams }: Props) {
 
   const result = await NextEffect.runPromise(
     Effect.gen(function* () {
-      const category = yield* getCategoryById(id);
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const category = yield* getCategoryById(userId, id);
 
       if (!category) {
         return null;
@@ -54,11 +57,11 @@ async function Content({ params, searchParams }: Props) {
       // Fetch all data in parallel
       const [stats, topMerchants, trends, recentTransactions, merchantMappings] = yield* Effect.all(
         [
-          getCategoryStats(id, dateRange),
-          getCategoryTopMerchants(id, 10, dateRange),
-          getSingleCategoryPeriodTrends(id, 'month', 12, null, dateRange),
-          getCategoryTransactions(id, 1, 10, dateRange),
-          getCategoryMerchantMappings(id)
+          getCategoryStats(userId, id, dateRange),
+          getCategoryTopMerchants(userId, id, 10, dateRange),
+          getSingleCategoryPeriodTrends(userId, id, 'month', 12, null, dateRange),
+          getCategoryTransactions(userId, id, 1, 10, dateRange),
+          getCategoryMerchantMappings(userId, id)
         ]
       );
 
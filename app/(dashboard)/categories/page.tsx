@@ -3,6 +3,7 @@ import { Effect } from 'effect';
 import { cookies } from 'next/headers';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import { getCategoriesWithDetails } from '@/lib/core/transaction/queries';
 import { CategoryList } from './category-list';
 import { LoadingFallback } from '../loading-fallback';
@@ -14,7 +15,8 @@ async function Content() {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
-      const categories = yield* getCategoriesWithDetails();
+      const session = yield* getSession();
+      const categories = yield* getCategoriesWithDetails(session.user.id);
 
       return (
         <main className="min-h-screen p-4 sm:p-8">
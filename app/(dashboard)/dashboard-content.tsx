@@ -4,6 +4,7 @@ import Link from 'next/link';
 import { ArrowUp, ArrowDown } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
 import { MonthPicker } from './month-picker';
 import { CategoryFilter, type Category } from './category-filter';
 
@@ -17,6 +18,11 @@ import {
 import { ComparisonChart } from '@/components/comparison-chart';
 import { CategoryHorizontalBarChart } from '@/components/category-horizontal-bar-chart';
 import { IncomeExpenseRadialChart } from '@/components/income-expense-radial-chart';
+import { BudgetProgress } from '@/components/budget-progress';
+import { BalanceReconciliation } from '@/components/balance-reconciliation';
+import type { Reconciliation } from '@/lib/core/bank-account/queries';
+import type { BudgetStatus } from '@/lib/core/budget/budget';
+import type { CategorySource } from '@/lib/core/transaction/category-source';
 
 type MonthData = {
   period: string;
@@ -34,17 +40,34 @@ type CategorySummaryItem = {
 
 type Transaction = {
   id: string;
+  userId: string;
   date: Date;
   merchant: string;
   amount: string;
   balance: string | null;
   categoryId: string | null;
+  categorySource: CategorySource | null;
+  categoryRuleId: string | null;
+  categorizedAt: Date | null;
+  accountId: string | null;
+  transferPeerId: string | null;
+  transferConfirmed: boolean;
+  markedTransfer: boolean;
+  excludedFromReports: boolean;
+  note: string | null;
   uploadId: string | null;
   originalHash: string;
+  externalId: string | null;
+  bookingDate: Date | null;
+  status: 'booked' | 'pending' | 'expired';
+  pendingHash: string | null;
+  bookedUploadId: string | null;
+  pendingVersion: { date: string; merchant: string } | null;
   createdAt: Date;
   updatedAt: Date;
   category: {
     id: string;
+    userId: string;
     name: string;
     description: string | null;
     icon: string | null;
@@ -52,6 +75,8 @@ type Transaction = {
     createdAt: Date;
     updatedAt: Date;
   } | null;
+  /** Category and amount of each split part, or of the whole transaction */
+  parts: Array<{ categoryId: string | null; amount: string }>;
 };
 
 type CategoryTrendItem = {
@@ -84,6 +109,9 @@ type Props = {
   transactions: Transaction[];
   highestMerchantId: string | null;
   categories: Category[];
+  budgets: BudgetStatus[];
+  /** Running-balance check per account */
+  reconciliation: Array<Reconciliation & { accountId: string; name: string }>;
   totals: {
     current: PeriodTotals;
     prev: PeriodTotals;
@@ -100,16 +128,21 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-// Helper to compute totals from transactions
-function computeTotalsFromTransactions(transactions: Transaction[]) {
+// Helper to compute totals from the split parts in the selected categories
+function computeTotalsFromTransactions(
+  transactions: Transaction[],
+  selectedIds: readonly string[] | null
+) {
   let income = 0;
   let expenses = 0;
   for (const t of transactions) {
-    const amount = Number(t.amount);
-    if (amount > 0) {
-      income += amount;
-    } else {
-      expenses += Math.abs(amount);
+    for (const part of filterByCategory(t.parts, selectedIds)) {
+      const amount = Number(part.amount);
+      if (amount > 0) {
+        income += amount;
+      } else {
+        expenses += Math.abs(amount);
+      }
     }
   }
   return { income, expenses, net: income - expenses };
@@ -130,6 +163,8 @@ export function DashboardContent({
   transactions,
   highestMerchantId,
   categories,
+  budgets,
+  reconciliation,
   totals
 }: Props) {
   const [selectedIds, setSelectedIds] = useCategoryFilter();
@@ -149,8 +184,12 @@ export function DashboardContent({
     selectedIds
   );
 
-  // Filter then sort transactions
-  const filteredTransactions = filterByCategory(sortedTransactions, selectedIds);
+  const filteredBudgets = filterByCategory(budgets, selectedIds);
+
+  // Filter then sort transactions; a split transaction shows when any part matches
+  const filteredTransactions = sortedTransactions.filter(
+    t => filterByCategory(t.parts, selectedIds).length > 0
+  );
 
   const handleSort = (field: SortField) => {
     if (sortState.field === field) {
@@ -184,7 +223,7 @@ export function DashboardContent({
   const hasFilter = selectedIds !== null && selectedIds.length > 0;
 
   const current = hasFilter
-    ? computeTotalsFromTransactions(filteredTransactions)
+    ? computeTotalsFromTransactions(filteredTransactions, selectedIds)
     : {
         income: totals.current.income,
         expenses: totals.current.expenses,
@@ -220,6 +259,11 @@ export function DashboardContent({
   // Destructure for convenience
   const { income, expenses } = current;
 
+  // Preliminary charges included in the expenses, until the bank books them
+  const pendingExpenses = filteredTransactions
+    .filter(t => t.status === 'pending' && Number(t.amount) < 0)
+    .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
+
   // Find highest merchant from filtered transactions
   const expenseTransactions = filteredTransactions.filter(t => Number(t.amount) < 0);
   const merchantTotals = new Map<string, number>();
@@ -271,12 +315,37 @@ export function DashboardContent({
           />
         </div>
 
-        {/* Category Chart */}
-        <CategoryHorizontalBarChart
-          currentLabel={currentLabel}
-          categorySummary={filteredCategorySummary}
-          categories={categories}
-        />
+        {/* Category Chart + Budgets */}
+        <div className="grid gap-8 lg:grid-cols-2">
+          <CategoryHorizontalBarChart
+            currentLabel={currentLabel}
+            categorySummary={filteredCategorySummary}
+            categories={categories}
+          />
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium">Budgets</h2>
+              <Link
+                href="/budgets"
+                className="text-muted-foreground hover:text-foreground text-sm transition-colors"
+              >
+                Manage
+              </Link>
+            </div>
+            <BudgetProgress budgets={filteredBudgets} />
+
+            <div className="flex items-center justify-between pt-4">
+              <h2 className="text-lg font-medium">Balances</h2>
+              <Link
+                href="/uploads"
+                className="text-muted-foreground hover:text-foreground text-sm transition-colors"
+              >
+                Uploads
+              </Link>
+            </div>
+            <BalanceReconciliation accounts={reconciliation} />
+          </div>
+        </div>
 
         {/* Expense Highlights */}
         <ExpenseHighlights transactions={filteredTransactions} merchantId={highestMerchantId} />
@@ -288,6 +357,7 @@ export function DashboardContent({
             <span className="text-muted-foreground text-sm">
               {filteredTransactions.length} transaction
               {filteredTransactions.length !== 1 ? 's' : ''}
+              {pendingExpenses > 0 && ` · ${formatCurrency(pendingExpenses)} pending`}
             </span>
           </div>
 
@@ -427,6 +497,11 @@ export function DashboardContent({
                               >
                                 {tx.merchant}
                               </Link>
+                              {tx.status === 'pending' && (
+                                <Badge variant="outline" className="ml-2">
+                                  Pending
+                                </Badge>
+                              )}
                             </div>
                             <Link
                               href={`/transactions/${tx.id}`}
@@ -434,7 +509,8 @@ export function DashboardContent({
                                 'w-28 shrink-0 text-right font-mono text-sm hover:underline',
                                 isExpense
                                   ? 'text-red-600 dark:text-red-400'
-                                  : 'text-green-600 dark:text-green-400'
+                                  : 'text-green-600 dark:text-green-400',
+                                tx.status === 'pending' && 'italic opacity-70'
                               )}
                             >
                               {formatCurrency(amount)}
@@ -451,6 +527,11 @@ export function DashboardContent({
                                 >
                                   {tx.merchant}
                                 </Link>
+                                {tx.status === 'pending' && (
+                                  <Badge variant="outline" className="ml-2">
+                                    Pending
+                                  </Badge>
+                                )}
                                 <p className="text-muted-foreground text-xs">
                                   {new Date(tx.date).toLocaleDateString('sv-SE')}
                                   {' · '}
@@ -465,7 +546,8 @@ export function DashboardContent({
                                   'shrink-0 font-mono text-sm hover:underline',
                                   isExpense
                                     ? 'text-red-600 dark:text-red-400'
-                                    : 'text-green-600 dark:text-green-400'
+                                    : 'text-green-600 dark:text-green-400',
+                                  tx.status === 'pending' && 'italic opacity-70'
                                 )}
                               >
                                 {formatCurrency(amount)}
@@ -5,6 +5,7 @@ import { usePathname } from 'next/navigation';
 import {
   MenuIcon,
   UploadIcon,
+  HistoryIcon,
   SettingsIcon,
   LogOutIcon,
   HomeIcon,
@@ -12,7 +13,14 @@ import {
   ListChecksIcon,
   StoreIcon,
   ReceiptIcon,
-  TagIcon
+  TagIcon,
+  LandmarkIcon,
+  ArrowLeftRightIcon,
+  PiggyBankIcon,
+  ListOrderedIcon,
+  TagsIcon,
+  BookmarkIcon,
+  RepeatIcon
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -23,12 +31,14 @@ import {
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
 import { authClient } from '@/lib/services/auth/auth-client';
+import type { PinnedView } from '@/lib/core/saved-view/queries';
 
 type Props = {
   uncategorizedCount: number;
+  pinnedViews: PinnedView[];
 };
 
-export function Header({ uncategorizedCount }: Props) {
+export function Header({ uncategorizedCount, pinnedViews }: Props) {
   const pathname = usePathname();
 
   const isActive = (href: string) => (href === '/' ? pathname === '/' : pathname.startsWith(href));
@@ -94,6 +104,16 @@ export function Header({ uncategorizedCount }: Props) {
                 </span>
               )}
             </Link>
+            {pinnedViews.map(view => (
+              <Link
+                key={view.id}
+                href={view.href}
+                className="text-muted-foreground hover:text-foreground flex max-w-40 items-center gap-1 text-sm transition-colors"
+              >
+                <BookmarkIcon className="size-3.5 shrink-0" />
+                <span className="truncate">{view.name}</span>
+              </Link>
+            ))}
           </nav>
 
           <DropdownMenu>
@@ -131,10 +151,52 @@ export function Header({ uncategorizedCount }: Props) {
                   </span>
                 )}
               </DropdownMenuItem>
+              {pinnedViews.map(view => (
+                <DropdownMenuItem
+                  key={view.id}
+                  render={<Link href={view.href} />}
+                  className="sm:hidden"
+                >
+                  <BookmarkIcon />
+                  <span className="truncate">{view.name}</span>
+                </DropdownMenuItem>
+              ))}
               <DropdownMenuItem render={<Link href="/upload" />}>
                 <UploadIcon />
                 Upload
               </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/uploads" />}>
+                <HistoryIcon />
+                Upload history
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/rules" />}>
+                <ListOrderedIcon />
+                Rules
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/tags" />}>
+                <TagsIcon />
+                Tags
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/views" />}>
+                <BookmarkIcon />
+                Saved views
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/subscriptions" />}>
+                <RepeatIcon />
+                Subscriptions
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/budgets" />}>
+                <PiggyBankIcon />
+                Budgets
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/accounts" />}>
+                <LandmarkIcon />
+                Accounts
+              </DropdownMenuItem>
+              <DropdownMenuItem render={<Link href="/transfers" />}>
+                <ArrowLeftRightIcon />
+                Transfers
+              </DropdownMenuItem>
               <DropdownMenuItem render={<Link href="/settings" />}>
                 <SettingsIcon />
                 Settings
@@ -4,6 +4,7 @@ import { headers } from 'next/headers';
 import { Header } from './header';
 import { getSession } from '@/lib/services/auth/get-session';
 import { getUncategorizedCount } from '@/lib/core/transaction/queries';
+import { getPinnedViews } from '@/lib/core/saved-view/queries';
 import { AppLayer } from '@/lib/layers';
 import { LandingPage } from '../landing-page';
 
@@ -19,8 +20,11 @@ export default async function DashboardLayout({ children }: { children: React.Re
       if (session._tag === 'None') {
         return { authenticated: false as const };
       }
-      const uncategorizedCount = yield* getUncategorizedCount();
-      return { authenticated: true as const, uncategorizedCount };
+      const [uncategorizedCount, pinnedViews] = yield* Effect.all([
+        getUncategorizedCount(session.value.user.id),
+        getPinnedViews(session.value.user.id)
+      ]);
+      return { authenticated: true as const, uncategorizedCount, pinnedViews };
     }).pipe(Effect.provide(AppLayer), Effect.scoped)
   );
 
@@ -36,7 +40,7 @@ export default async function DashboardLayout({ children }: { children: React.Re
 
   return (
     <>
-      <Header uncategorizedCount={result.uncategorizedCount} />
+      <Header uncategorizedCount={result.uncategorizedCount} pinnedViews={result.pinnedViews} />
       {children}
     </>
   );
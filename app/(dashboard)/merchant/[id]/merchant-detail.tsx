@@ -17,6 +17,7 @@ import {
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button, buttonVariants } from '@/components/ui/button';
+import { ActivityTimeline } from '@/components/activity-timeline';
 import { cn } from '@/lib/utils';
 import {
   Select,
@@ -36,6 +37,7 @@ import type {
   MerchantStats,
   MerchantPeriodTrend
 } from '@/lib/core/transaction/queries';
+import type { ActivityItem } from '@/lib/core/activity/queries';
 import { timeframeValues, type Timeframe } from './search-params';
 
 type Transaction = {
@@ -69,6 +71,7 @@ type Props = {
   transactions: PaginatedTransactions;
   trends: MerchantPeriodTrend[];
   categories: Category[];
+  history: ActivityItem[];
   currentParams: {
     timeframe: Timeframe;
     page: number;
@@ -83,6 +86,7 @@ export function MerchantDetail({
   transactions,
   trends,
   categories,
+  history,
   currentParams
 }: Props) {
   const [merchant, setMerchant] = useState(initialMerchant);
@@ -170,6 +174,25 @@ export function MerchantDetail({
     });
   };
 
+  // Reflect a reverted rule change in the header without a reload
+  const handleReverted = (item: ActivityItem) => {
+    if (item.field === 'categoryId') {
+      const category = categories.find(c => c.id === item.oldValue);
+      setMerchant(prev => ({
+        ...prev,
+        categoryId: category?.id ?? null,
+        categoryName: category?.name ?? null,
+        categoryIcon: category?.icon ?? null
+      }));
+    }
+    if (item.field === 'isMultiMerchant') {
+      setMerchant(prev => ({ ...prev, isMultiMerchant: item.oldValue === true }));
+    }
+    if (item.field === 'merchantPattern') {
+      setMerchant(prev => ({ ...prev, merchantPattern: String(item.oldValue) }));
+    }
+  };
+
   const handlePageChange = (newPage: number) => {
     setPage(newPage);
   };
@@ -484,6 +507,13 @@ export function MerchantDetail({
             onPageSizeChange={handlePageSizeChange}
           />
         )}
+
+        <ActivityTimeline
+          key={history[0]?.id}
+          history={history}
+          categories={categories}
+          onReverted={handleReverted}
+        />
       </div>
     </main>
   );
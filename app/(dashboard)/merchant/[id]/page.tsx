@@ -5,6 +5,7 @@ import { cookies } from 'next/headers';
 import { notFound } from 'next/navigation';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import {
   getMerchantById,
   getMerchantStats,
@@ -12,6 +13,7 @@ import {
   getMerchantPeriodTrends,
   getAllCategories
 } from '@/lib/core/transaction/queries';
+import { getEntityHistory } from '@/lib/core/activity/queries';
 import { loadSearchParams } from './search-params';
 import { MerchantDetail } from './merchant-detail';
 
@@ -29,7 +31,9 @@ async function Content({ params, searchParams }: Props) {
 
   const result = await NextEffect.runPromise(
     Effect.gen(function* () {
-      const merchant = yield* getMerchantById(id);
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const merchant = yield* getMerchantById(userId, id);
 
       if (!merchant) {
         return null;
@@ -49,14 +53,28 @@ async function Content({ params, searchParams }: Props) {
             }
           : undefined;
 
-      const [stats, transactions, trends, categories] = yield* Effect.all([
-        getMerchantStats(merchant.merchantPattern, dateRange),
-        getMerchantTransactions(merchant.merchantPattern, dateRange ?? null, urlParams.page, 20),
-        getMerchantPeriodTrends(merchant.merchantPattern, urlParams.timeframe, 12, null, dateRange),
-        getAllCategories()
+      const [stats, transactions, trends, categories, history] = yield* Effect.all([
+        getMerchantStats(userId, merchant.merchantPattern, dateRange),
+        getMerchantTransactions(
+          userId,
+          merchant.merchantPattern,
+          dateRange ?? null,
+          urlParams.page,
+          20
+        ),
+        getMerchantPeriodTrends(
+          userId,
+          merchant.merchantPattern,
+          urlParams.timeframe,
+          12,
+          null,
+          dateRange
+        ),
+        getAllCategories(userId),
+        getEntityHistory(userId, 'merchantMapping', merchant.id)
       ]);
 
-      return { merchant, stats, transactions, trends, categories };
+      return { merchant, stats, transactions, trends, categories, history };
     }).pipe(Effect.provide(AppLayer), Effect.scoped)
   );
 
@@ -71,6 +89,7 @@ async function Content({ params, searchParams }: Props) {
       transactions={result.transactions}
       trends={result.trends}
       categories={result.categories}
+      history={result.history}
       currentParams={urlParams}
     />
   );
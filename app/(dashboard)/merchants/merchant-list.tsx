@@ -3,7 +3,7 @@
 import { useState, useTransition, useMemo } from 'react';
 import Link from 'next/link';
 import { toast } from 'sonner';
-import { useQueryState, parseAsString, parseAsStringLiteral } from 'nuqs';
+import { useQueryState, useQueryStates, parseAsString, parseAsStringLiteral } from 'nuqs';
 import {
   Search,
   Loader2,
@@ -30,7 +30,14 @@ import {
 import { Pagination, usePageSize } from '@/components/ui/pagination';
 import { updateMerchantCategoryAction } from '@/lib/core/merchant/update-merchant-category-action';
 import { toggleMultiMerchantAction } from '@/lib/core/merchant/toggle-multi-merchant-action';
-import { timeframeValues, type Timeframe } from './search-params';
+import {
+  timeframeValues,
+  sortValues,
+  sortDirValues,
+  type Timeframe,
+  type SortKey
+} from './search-params';
+import { SaveViewButton } from '../views/save-view-button';
 import { getPeriodOffset, isCurrentPeriod } from '@/app/(dashboard)/search-params';
 import type { MerchantWithTotal } from '@/lib/core/transaction/queries';
 
@@ -54,9 +61,6 @@ type Props = {
   };
 };
 
-type SortKey = 'name' | 'total' | 'count';
-type SortDir = 'asc' | 'desc';
-
 export function MerchantList({
   merchants: initialMerchants,
   categories,
@@ -67,8 +71,11 @@ export function MerchantList({
   const [merchants, setMerchants] = useState(initialMerchants);
   const [pendingPattern, setPendingPattern] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
-  const [sortKey, setSortKey] = useState<SortKey>('total');
-  const [sortDir, setSortDir] = useState<SortDir>('desc');
+  // Sorting happens here, but lives in the URL so saved views keep it
+  const [{ sort: sortKey, dir: sortDir }, setSorting] = useQueryStates({
+    sort: parseAsStringLiteral(sortValues).withDefault('total'),
+    dir: parseAsStringLiteral(sortDirValues).withDefault('desc')
+  });
 
   // Pagination state
   const [pageSizeHydrated, pageSize, setPageSize] = usePageSize('merchants');
@@ -198,10 +205,9 @@ export function MerchantList({
 
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
-      setSortDir(prev => (prev === 'asc' ? 'desc' : 'asc'));
+      setSorting({ dir: sortDir === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortKey(key);
-      setSortDir(key === 'name' ? 'asc' : 'desc');
+      setSorting({ sort: key, dir: key === 'name' ? 'asc' : 'desc' });
     }
   };
 
@@ -313,28 +319,31 @@ export function MerchantList({
             </div>
           </div>
 
-          {/* Search - only submits on enter or blur */}
-          <div className="relative w-full sm:w-64">
-            <Search className="text-muted-foreground absolute left-2.5 top-1/2 size-4 -translate-y-1/2" />
-            <Input
-              value={localSearch}
-              onChange={e => setLocalSearch(e.target.value)}
-              onKeyDown={e => {
-                if (e.key === 'Enter') handleSearchSubmit();
-              }}
-              onBlur={handleSearchSubmit}
-              placeholder="Search merchants..."
-              className="pl-8"
-            />
-            {localSearch && (
-              <button
-                type="button"
-                onClick={handleSearchClear}
-                className="text-muted-foreground hover:text-foreground absolute right-2.5 top-1/2 -translate-y-1/2"
-              >
-                <X className="size-4" />
-              </button>
-            )}
+          <div className="flex items-center gap-2">
+            {/* Search - only submits on enter or blur */}
+            <div className="relative w-full sm:w-64">
+              <Search className="text-muted-foreground absolute left-2.5 top-1/2 size-4 -translate-y-1/2" />
+              <Input
+                value={localSearch}
+                onChange={e => setLocalSearch(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleSearchSubmit();
+                }}
+                onBlur={handleSearchSubmit}
+                placeholder="Search merchants..."
+                className="pl-8"
+              />
+              {localSearch && (
+                <button
+                  type="button"
+                  onClick={handleSearchClear}
+                  className="text-muted-foreground hover:text-foreground absolute right-2.5 top-1/2 -translate-y-1/2"
+                >
+                  <X className="size-4" />
+                </button>
+              )}
+            </div>
+            <SaveViewButton page="merchants" />
           </div>
         </CardContent>
       </Card>
@@ -4,6 +4,7 @@ import { Effect } from 'effect';
 import { cookies } from 'next/headers';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import { getMerchantsWithTotals, getAllCategories } from '@/lib/core/transaction/queries';
 import { getDateRange } from '../search-params';
 import { loadSearchParams } from './search-params';
@@ -23,9 +24,10 @@ async function Content({ searchParams }: Props) {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
+      const session = yield* getSession();
       const [merchants, categories] = yield* Effect.all([
-        getMerchantsWithTotals({ startDate, endDate }),
-        getAllCategories()
+        getMerchantsWithTotals(session.user.id, { startDate, endDate }),
+        getAllCategories(session.user.id)
       ]);
 
       // Filter by search if provided
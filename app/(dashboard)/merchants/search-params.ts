@@ -3,16 +3,25 @@ import { createLoader, parseAsString, parseAsStringLiteral } from 'nuqs/server';
 export const timeframeValues = ['week', 'month', 'year'] as const;
 export type Timeframe = (typeof timeframeValues)[number];
 
+export const sortValues = ['name', 'total', 'count'] as const;
+export type SortKey = (typeof sortValues)[number];
+
+export const sortDirValues = ['asc', 'desc'] as const;
+export type SortDir = (typeof sortDirValues)[number];
+
 /**
  * URL state for /merchants page:
  * - timeframe: week, month, or year
  * - period: ISO period string (e.g., "2026-01" for month, null = current)
  * - search: filter merchants by name
+ * - sort, dir: list order (sorted in the browser)
  */
 export const searchParams = {
   timeframe: parseAsStringLiteral(timeframeValues).withDefault('month'),
   period: parseAsString,
-  search: parseAsString
+  search: parseAsString,
+  sort: parseAsStringLiteral(sortValues).withDefault('total'),
+  dir: parseAsStringLiteral(sortDirValues).withDefault('desc')
 };
 
 export const loadSearchParams = createLoader(searchParams);
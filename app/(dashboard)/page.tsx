@@ -4,6 +4,7 @@ import { Effect } from 'effect';
 import { cookies } from 'next/headers';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import {
   getTransactionSummary,
   getTransactionsWithCategory,
@@ -13,6 +14,9 @@ import {
   getTotalIncome,
   getTotalExpenses
 } from '@/lib/core/transaction/queries';
+import { getBudgetStatuses } from '@/lib/core/budget/queries';
+import { getBalanceReconciliation, getBankAccounts } from '@/lib/core/bank-account/queries';
+import { getMonthProgress } from '@/lib/core/budget/budget';
 import {
   loadSearchParams,
   getDateRange,
@@ -46,43 +50,24 @@ function buildCategoryTrends(
   return trends;
 }
 
-function getMonthProgress(dateRange: { startDate: Date; endDate: Date }): {
-  daysElapsed: number;
-  daysTotal: number;
-  percentComplete: number;
-} {
-  const now = new Date();
-  const start = dateRange.startDate;
-  const end = dateRange.endDate;
-
-  // If viewing a past month, it's 100% complete
-  if (now >= end) {
-    const daysTotal = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    return { daysElapsed: daysTotal, daysTotal, percentComplete: 100 };
-  }
-
-  // If viewing a future month, 0% complete
-  if (now < start) {
-    const daysTotal = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    return { daysElapsed: 0, daysTotal, percentComplete: 0 };
-  }
-
-  const daysTotal = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-  const daysElapsed = Math.round((now.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-  const percentComplete = Math.round((daysElapsed / daysTotal) * 100);
-
-  return { daysElapsed, daysTotal, percentComplete };
-}
-
 async function Content({ searchParams }: Props) {
   await cookies();
   const { period } = await loadSearchParams(searchParams);
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
+      const session = yield* getSession();
+      const userId = session.user.id;
       const dateRange = getDateRange('month', period);
       const prevRange = getPreviousPeriodRange('month', period);
       const yearAgoRange = getYearAgoRange('month', period);
+      // Budgets for the viewed month: today, or its last moment for past months
+      const budgetDate = new Date(
+        Math.min(
+          Math.max(Date.now(), dateRange.startDate.getTime()),
+          dateRange.endDate.getTime() - 1
+        )
+      );
 
       // Fetch current + comparison data in parallel
       const [
@@ -97,20 +82,26 @@ async function Content({ searchParams }: Props) {
         prevIncome,
         prevExpenses,
         yearAgoIncome,
-        yearAgoExpenses
+        yearAgoExpenses,
+        budgets,
+        accounts,
+        reconciliation
       ] = yield* Effect.all([
-        getTransactionSummary(dateRange),
-        getTransactionSummary(prevRange),
-        getTransactionSummary(yearAgoRange),
-        getTransactionsWithCategory(dateRange),
-        getAvailableMonths(),
-        getAllCategories(),
-        getTotalIncome(dateRange),
-        getTotalExpenses(dateRange),
-        getTotalIncome(prevRange),
-        getTotalExpenses(prevRange),
-        getTotalIncome(yearAgoRange),
-        getTotalExpenses(yearAgoRange)
+        getTransactionSummary(userId, dateRange),
+        getTransactionSummary(userId, prevRange),
+        getTransactionSummary(userId, yearAgoRange),
+        getTransactionsWithCategory(userId, dateRange),
+        getAvailableMonths(userId),
+        getAllCategories(userId),
+        getTotalIncome(userId, dateRange),
+        getTotalExpenses(userId, dateRange),
+        getTotalIncome(userId, prevRange),
+        getTotalExpenses(userId, prevRange),
+        getTotalIncome(userId, yearAgoRange),
+        getTotalExpenses(userId, yearAgoRange),
+        getBudgetStatuses(userId, budgetDate),
+        getBankAccounts(userId),
+        getBalanceReconciliation(userId, dateRange)
       ]);
 
       // Build category trends
@@ -132,7 +123,7 @@ async function Content({ searchParams }: Props) {
         }
       }
       const highestMerchantId = highestMerchantName
-        ? yield* findMerchantMappingId(highestMerchantName)
+        ? yield* findMerchantMappingId(userId, highestMerchantName)
         : null;
 
       // Month progress
@@ -161,6 +152,8 @@ async function Content({ searchParams }: Props) {
         dateRange.startDate
       );
 
+      const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+
       // Convert Map to array for serialization
       const categoryTrendsArray = Array.from(categoryTrends.entries()).map(([key, value]) => ({
         categoryId: key,
@@ -183,6 +176,11 @@ async function Content({ searchParams }: Props) {
           transactions={transactions}
           highestMerchantId={highestMerchantId}
           categories={categories.map(c => ({ id: c.id, name: c.name, icon: c.icon }))}
+          budgets={budgets}
+          reconciliation={reconciliation.map(account => ({
+            ...account,
+            name: accountNames.get(account.accountId) ?? 'Account'
+          }))}
           totals={{
             current: { income: currentIncome, expenses: currentExpenses },
             prev: { income: prevIncome, expenses: prevExpenses },
@@ -3,6 +3,7 @@ import { Effect } from 'effect';
 import { cookies } from 'next/headers';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import {
   getUncategorizedTransactions,
   getAllCategories,
@@ -18,10 +19,11 @@ async function Content() {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
+      const session = yield* getSession();
       const [transactions, categories, multiMerchantPatterns] = yield* Effect.all([
-        getUncategorizedTransactions(),
-        getAllCategories(),
-        getMultiMerchantPatterns()
+        getUncategorizedTransactions(session.user.id),
+        getAllCategories(session.user.id),
+        getMultiMerchantPatterns(session.user.id)
       ]);
 
       return (
@@ -149,7 +149,13 @@ export function ReviewList({
     setPendingId(transactionId);
 
     startTransition(async () => {
-      const result = await categorizeTransactionAction({ transactionId, categoryId });
+      const result = await categorizeTransactionAction({
+        transactionId,
+        categoryId,
+        // Picking the suggested category accepts the suggestion
+        source:
+          suggestionMap.get(transactionId)?.suggestedCategoryId === categoryId ? 'ai' : 'manual'
+      });
 
       if (result._tag === 'Error') {
         toast.error(result.message);
@@ -0,0 +1,55 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getAllCategories } from '@/lib/core/transaction/queries';
+import { getMerchantRules } from '@/lib/core/merchant/queries';
+import { RuleList } from './rule-list';
+import { RerunRules } from './rerun-rules';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const [categories, rules] = yield* Effect.all([
+        getAllCategories(session.user.id),
+        getMerchantRules(session.user.id)
+      ]);
+
+      const categoryOptions = categories.map(c => ({ id: c.id, name: c.name, icon: c.icon }));
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Rules</h1>
+              <p className="text-muted-foreground mt-1">
+                Merchant rules categorize uploaded transactions. The first matching rule in the list
+                applies: higher priority first, then the more specific rule.
+              </p>
+            </div>
+
+            <RuleList categories={categoryOptions} rules={rules} />
+
+            <RerunRules categories={categoryOptions} />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function RulesPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
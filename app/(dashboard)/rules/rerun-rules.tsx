@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { ArrowRight, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { previewRerunRulesAction } from '@/lib/core/merchant/preview-rerun-rules-action';
+import { applyRerunRulesAction } from '@/lib/core/merchant/apply-rerun-rules-action';
+import type { RuleChange } from '@/lib/core/merchant/match';
+import { cn, formatCurrency } from '@/lib/utils';
+
+type Category = {
+  id: string;
+  name: string;
+  icon: string | null;
+};
+
+type Props = {
+  categories: Category[];
+};
+
+export function RerunRules({ categories }: Props) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [changes, setChanges] = useState<RuleChange[] | null>(null);
+  const [overwriteManual, setOverwriteManual] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<'preview' | 'apply' | null>(null);
+
+  const categoryById = new Map(categories.map(c => [c.id, c]));
+  const manualCount = changes?.filter(change => change.manual).length ?? 0;
+  const applyCount = (changes?.length ?? 0) - (overwriteManual ? 0 : manualCount);
+
+  const range = { startDate: startDate || null, endDate: endDate || null };
+
+  const handlePreview = () => {
+    setPendingAction('preview');
+    startTransition(async () => {
+      const result = await previewRerunRulesAction(range);
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setChanges(result.changes);
+      setOverwriteManual(false);
+    });
+  };
+
+  const handleApply = () => {
+    setPendingAction('apply');
+    startTransition(async () => {
+      const result = await applyRerunRulesAction({ ...range, overwriteManual });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setChanges(null);
+      toast.success(
+        `Recategorized ${result.updatedCount} transaction${result.updatedCount !== 1 ? 's' : ''}`
+      );
+    });
+  };
+
+  const categoryLabel = (categoryId: string | null) => {
+    const category = categoryId ? categoryById.get(categoryId) : undefined;
+    if (!category) return 'Uncategorized';
+    return category.icon ? `${category.icon} ${category.name}` : category.name;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="size-5" />
+          Re-run rules
+        </CardTitle>
+        <CardDescription>
+          Apply the current rules to existing transactions. Split transactions are left as they are.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap items-end gap-4"
+          onSubmit={e => {
+            e.preventDefault();
+            handlePreview();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="rerun-start">From (optional)</Label>
+            <Input
+              id="rerun-start"
+              type="date"
+              value={startDate}
+              onChange={e => {
+                setStartDate(e.target.value);
+                setChanges(null);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rerun-end">To (optional)</Label>
+            <Input
+              id="rerun-end"
+              type="date"
+              value={endDate}
+              onChange={e => {
+                setEndDate(e.target.value);
+                setChanges(null);
+              }}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isPending}>
+            {pendingAction === 'preview' && <Loader2 className="size-4 animate-spin" />}
+            Preview changes
+          </Button>
+        </form>
+
+        {changes !== null &&
+          (changes.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              Every transaction already has the category its rule assigns.
+            </p>
+          ) : (
+            <>
+              <ul className="max-h-96 divide-y overflow-y-auto rounded-lg border">
+                {changes.map(change => (
+                  <li
+                    key={change.id}
+                    className={cn(
+                      'flex flex-wrap items-center justify-between gap-x-4 gap-y-1 px-3 py-2 text-sm',
+                      change.manual && !overwriteManual && 'opacity-50'
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="flex items-center gap-2 truncate font-medium">
+                        {change.merchant}
+                        {change.manual && <Badge variant="outline">Manual</Badge>}
+                      </p>
+                      <p className="text-muted-foreground text-xs">
+                        {new Date(change.date).toLocaleDateString('sv-SE')} ·{' '}
+                        {formatCurrency(change.amount)} · rule &quot;{change.rulePattern}&quot;
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">
+                        {categoryLabel(change.fromCategoryId)}
+                      </span>
+                      <ArrowRight className="text-muted-foreground size-4" />
+                      <span>{categoryLabel(change.toCategoryId)}</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                {manualCount > 0 ? (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="accent-primary size-4"
+                      checked={overwriteManual}
+                      onChange={e => setOverwriteManual(e.target.checked)}
+                    />
+                    Overwrite {manualCount} manual categor{manualCount !== 1 ? 'ies' : 'y'}
+                  </label>
+                ) : (
+                  <span />
+                )}
+                <Button onClick={handleApply} disabled={isPending || applyCount === 0}>
+                  {pendingAction === 'apply' && <Loader2 className="size-4 animate-spin" />}
+                  Apply {applyCount} change{applyCount !== 1 ? 's' : ''}
+                </Button>
+              </div>
+            </>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
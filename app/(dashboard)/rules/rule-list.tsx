@@ -0,0 +1,539 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { FlaskConical, Layers, ListOrdered, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { saveMerchantRuleAction } from '@/lib/core/merchant/save-merchant-rule-action';
+import { deleteMerchantRuleAction } from '@/lib/core/merchant/delete-merchant-rule-action';
+import {
+  AMOUNT_SIGNS,
+  AMOUNT_SIGN_LABELS,
+  MATCH_TYPES,
+  MATCH_TYPE_LABELS,
+  compileRules,
+  findMatchingRules,
+  regexError,
+  type AmountSign,
+  type MatchType,
+  type MerchantRule
+} from '@/lib/core/merchant/match';
+import type { MerchantRuleWithCategory } from '@/lib/core/merchant/queries';
+import { cn, formatCurrency } from '@/lib/utils';
+
+type Category = {
+  id: string;
+  name: string;
+  icon: string | null;
+};
+
+type Props = {
+  categories: Category[];
+  rules: MerchantRuleWithCategory[];
+};
+
+type RuleForm = {
+  merchantPattern: string;
+  matchType: MatchType;
+  amountSign: AmountSign | null;
+  minAmount: string;
+  maxAmount: string;
+  priority: string;
+  categoryId: string | null;
+  isMultiMerchant: boolean;
+};
+
+const emptyForm: RuleForm = {
+  merchantPattern: '',
+  matchType: 'contains',
+  amountSign: null,
+  minAmount: '',
+  maxAmount: '',
+  priority: '0',
+  categoryId: null,
+  isMultiMerchant: false
+};
+
+const toForm = (rule: MerchantRule): RuleForm => ({
+  merchantPattern: rule.merchantPattern,
+  matchType: rule.matchType,
+  amountSign: rule.amountSign,
+  minAmount: rule.minAmount?.toString() ?? '',
+  maxAmount: rule.maxAmount?.toString() ?? '',
+  priority: rule.priority.toString(),
+  categoryId: rule.categoryId,
+  isMultiMerchant: rule.isMultiMerchant
+});
+
+const parseAmount = (value: string) =>
+  value.trim() === '' ? null : Number(value.replace(',', '.'));
+
+function describeAmount(rule: MerchantRule): string | null {
+  const parts: string[] = [];
+  if (rule.amountSign) parts.push(AMOUNT_SIGN_LABELS[rule.amountSign].toLowerCase());
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    parts.push(`${formatCurrency(rule.minAmount)}–${formatCurrency(rule.maxAmount)}`);
+  } else if (rule.minAmount !== null) {
+    parts.push(`at least ${formatCurrency(rule.minAmount)}`);
+  } else if (rule.maxAmount !== null) {
+    parts.push(`at most ${formatCurrency(rule.maxAmount)}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function RuleSummary({ rule }: { rule: MerchantRuleWithCategory }) {
+  const amount = describeAmount(rule);
+  return (
+    <div className="min-w-0 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-muted-foreground text-xs">{MATCH_TYPE_LABELS[rule.matchType]}</span>
+        <span className="truncate font-mono text-sm font-medium">{rule.merchantPattern}</span>
+        {rule.priority !== 0 && <Badge variant="outline">Priority {rule.priority}</Badge>}
+      </div>
+      <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-xs">
+        {amount && <span>{amount}</span>}
+        {rule.isMultiMerchant ? (
+          <Badge variant="secondary">
+            <Layers className="size-3" />
+            Multi-merchant
+          </Badge>
+        ) : (
+          <span>
+            →{' '}
+            {rule.categoryName
+              ? `${rule.categoryIcon ?? ''} ${rule.categoryName}`.trim()
+              : 'No category'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function RuleList({ categories, rules: initialRules }: Props) {
+  const [rules, setRules] = useState(initialRules);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Editor state: null when closed, 'new' or a rule id while editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+
+  // Test panel state
+  const [testMerchant, setTestMerchant] = useState('');
+  const [testAmount, setTestAmount] = useState('');
+
+  const compiled = useMemo(() => compileRules(rules), [rules]);
+  const parsedTestAmount = parseAmount(testAmount);
+  const testMatches =
+    testMerchant.trim() === ''
+      ? []
+      : findMatchingRules(
+          compiled,
+          testMerchant,
+          parsedTestAmount !== null && Number.isFinite(parsedTestAmount)
+            ? parsedTestAmount
+            : undefined
+        );
+
+  const patternError = form.matchType === 'regex' ? regexError(form.merchantPattern) : null;
+
+  const updateForm = (patch: Partial<RuleForm>) => setForm(prev => ({ ...prev, ...patch }));
+
+  const startEdit = (rule: MerchantRule | null) => {
+    setEditingId(rule ? rule.id : 'new');
+    setForm(rule ? toForm(rule) : emptyForm);
+  };
+
+  const handleSave = () => {
+    const minAmount = parseAmount(form.minAmount);
+    const maxAmount = parseAmount(form.maxAmount);
+    const priority = Number(form.priority);
+    if (
+      (minAmount !== null && !Number.isFinite(minAmount)) ||
+      (maxAmount !== null && !Number.isFinite(maxAmount))
+    ) {
+      toast.error('Amounts must be numbers');
+      return;
+    }
+    if (!Number.isInteger(priority)) {
+      toast.error('Priority must be a whole number');
+      return;
+    }
+
+    setPendingAction('save');
+    startTransition(async () => {
+      const result = await saveMerchantRuleAction({
+        id: editingId === 'new' ? null : editingId,
+        merchantPattern: form.merchantPattern,
+        matchType: form.matchType,
+        amountSign: form.amountSign,
+        minAmount,
+        maxAmount,
+        priority,
+        categoryId: form.categoryId,
+        isMultiMerchant: form.isMultiMerchant
+      });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setRules(result.rules);
+      setEditingId(null);
+      toast.success('Rule saved');
+    });
+  };
+
+  const handleDelete = (rule: MerchantRule) => {
+    setPendingAction(rule.id);
+    startTransition(async () => {
+      const result = await deleteMerchantRuleAction({ id: rule.id });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      toast.success(`Deleted rule for "${result.merchantPattern}"`);
+    });
+  };
+
+  const editor = (
+    <form
+      className="bg-muted/40 space-y-4 rounded-lg border p-4"
+      onSubmit={e => {
+        e.preventDefault();
+        handleSave();
+      }}
+    >
+      <div className="grid gap-4 sm:grid-cols-[10rem_1fr]">
+        <div className="space-y-2">
+          <Label htmlFor="rule-match-type">Merchant</Label>
+          <Select
+            value={form.matchType}
+            onValueChange={v => {
+              const next = MATCH_TYPES.find(t => t === v);
+              if (next) updateForm({ matchType: next });
+            }}
+          >
+            <SelectTrigger id="rule-match-type" className="w-full">
+              <SelectValue>{MATCH_TYPE_LABELS[form.matchType]}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {MATCH_TYPES.map(t => (
+                <SelectItem key={t} value={t}>
+                  {MATCH_TYPE_LABELS[t]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-pattern">Pattern</Label>
+          <Input
+            id="rule-pattern"
+            value={form.merchantPattern}
+            onChange={e => updateForm({ merchantPattern: e.target.value })}
+            placeholder={form.matchType === 'regex' ? '^SWISH\\b' : 'ICA'}
+            className="font-mono"
+            aria-invalid={patternError !== null}
+            required
+            autoFocus
+          />
+          {patternError && <p className="text-xs text-red-600 dark:text-red-400">{patternError}</p>}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="rule-sign">Amount</Label>
+          <Select
+            value={form.amountSign ?? '__none__'}
+            onValueChange={v => updateForm({ amountSign: AMOUNT_SIGNS.find(s => s === v) ?? null })}
+          >
+            <SelectTrigger id="rule-sign" className="w-full">
+              <SelectValue>
+                {form.amountSign ? AMOUNT_SIGN_LABELS[form.amountSign] : 'Any sign'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__none__">Any sign</SelectItem>
+              {AMOUNT_SIGNS.map(s => (
+                <SelectItem key={s} value={s}>
+                  {AMOUNT_SIGN_LABELS[s]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-min">At least</Label>
+          <Input
+            id="rule-min"
+            inputMode="decimal"
+            value={form.minAmount}
+            onChange={e => updateForm({ minAmount: e.target.value })}
+            placeholder="No minimum"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-max">At most</Label>
+          <Input
+            id="rule-max"
+            inputMode="decimal"
+            value={form.maxAmount}
+            onChange={e => updateForm({ maxAmount: e.target.value })}
+            placeholder="No maximum"
+          />
+        </div>
+      </div>
+      <p className="text-muted-foreground -mt-2 text-xs">
+        Limits apply to the amount without sign, so 200 matches both -200 and 200.
+      </p>
+
+      <div className="grid gap-4 sm:grid-cols-[1fr_8rem]">
+        <div className="space-y-2">
+          <Label htmlFor="rule-category">Category</Label>
+          <Select
+            value={form.categoryId ?? '__none__'}
+            onValueChange={v =>
+              updateForm({ categoryId: v === '__none__' || v === null ? null : v })
+            }
+            disabled={form.isMultiMerchant}
+          >
+            <SelectTrigger id="rule-category" className="w-full">
+              <SelectValue>
+                {form.categoryId
+                  ? (() => {
+                      const cat = categories.find(c => c.id === form.categoryId);
+                      return cat ? `${cat.icon ?? ''} ${cat.name}`.trim() : 'Select category';
+                    })()
+                  : 'No category'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__none__">No category</SelectItem>
+              {categories.map(cat => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  {cat.icon && <span>{cat.icon}</span>}
+                  {cat.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-priority">Priority</Label>
+          <Input
+            id="rule-priority"
+            type="number"
+            step="1"
+            value={form.priority}
+            onChange={e => updateForm({ priority: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="accent-primary size-4"
+            checked={form.isMultiMerchant}
+            onChange={e => updateForm({ isMultiMerchant: e.target.checked })}
+          />
+          Multi-merchant (always review manually)
+        </label>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={isPending || patternError !== null}>
+            {pendingAction === 'save' && <Loader2 className="size-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="size-5" />
+              Rules
+            </CardTitle>
+            <CardDescription>
+              {rules.length} rule{rules.length !== 1 ? 's' : ''}, in the order they are tried
+            </CardDescription>
+          </div>
+          <Button size="sm" disabled={editingId !== null} onClick={() => startEdit(null)}>
+            <Plus className="size-4" />
+            New rule
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {editingId === 'new' && editor}
+          {rules.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center text-sm">
+              No rules yet. Categorizing a transaction on the review page creates one.
+            </div>
+          ) : (
+            <ol className="divide-y">
+              {rules.map((rule, index) =>
+                editingId === rule.id ? (
+                  <li key={rule.id} className="py-3">
+                    {editor}
+                  </li>
+                ) : (
+                  <li key={rule.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="flex min-w-0 items-start gap-3">
+                      <span className="text-muted-foreground w-6 shrink-0 text-right text-sm tabular-nums">
+                        {index + 1}
+                      </span>
+                      <RuleSummary rule={rule} />
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label="Edit rule"
+                        disabled={isPending || editingId !== null}
+                        onClick={() => startEdit(rule)}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger
+                          render={
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              aria-label="Delete rule"
+                              disabled={isPending}
+                            >
+                              {pendingAction === rule.id ? (
+                                <Loader2 className="size-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="size-4" />
+                              )}
+                            </Button>
+                          }
+                        />
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete rule?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Future uploads will no longer be categorized by &quot;
+                              {rule.merchantPattern}&quot;. Existing transactions keep their
+                              category.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              variant="destructive"
+                              onClick={() => handleDelete(rule)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </li>
+                )
+              )}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="self-start">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="size-5" />
+            Test
+          </CardTitle>
+          <CardDescription>See which rule would categorize a transaction</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="test-merchant">Merchant</Label>
+            <Input
+              id="test-merchant"
+              value={testMerchant}
+              onChange={e => setTestMerchant(e.target.value)}
+              placeholder="SWISH ANNA ANDERSSON"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="test-amount">Amount (optional)</Label>
+            <Input
+              id="test-amount"
+              inputMode="decimal"
+              value={testAmount}
+              onChange={e => setTestAmount(e.target.value)}
+              placeholder="-150"
+            />
+            <p className="text-muted-foreground text-xs">
+              Rules with amount conditions only match when an amount is given
+            </p>
+          </div>
+
+          {testMerchant.trim() !== '' &&
+            (testMatches.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No rule matches.</p>
+            ) : (
+              <ul className="space-y-2">
+                {testMatches.map((rule, index) => (
+                  <li
+                    key={rule.id}
+                    className={cn(
+                      'space-y-1 rounded-lg border p-3',
+                      index === 0 ? 'border-foreground' : 'opacity-60'
+                    )}
+                  >
+                    <p className="text-xs font-medium">
+                      {index === 0 ? 'Applies' : 'Also matches, not applied'}
+                    </p>
+                    <RuleSummary rule={rule} />
+                  </li>
+                ))}
+              </ul>
+            ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getRecurringSeries, getUpcomingExpenses } from '@/lib/core/recurring/queries';
+import { SubscriptionList } from './subscription-list';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const [series, upcoming] = yield* Effect.all([
+        getRecurringSeries(session.user.id),
+        getUpcomingExpenses(session.user.id)
+      ]);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Subscriptions</h1>
+              <p className="text-muted-foreground mt-1">
+                Recurring charges detected in your transactions, weekly to yearly
+              </p>
+            </div>
+
+            <SubscriptionList series={series} upcoming={upcoming} />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function SubscriptionsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
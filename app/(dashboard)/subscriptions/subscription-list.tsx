@@ -0,0 +1,399 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import {
+  Check,
+  CalendarClock,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  RefreshCw,
+  Repeat,
+  RotateCcw,
+  TrendingUp,
+  Wallet,
+  X
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { CADENCE_LABELS } from '@/lib/core/recurring/detect';
+import { detectRecurringSeriesAction } from '@/lib/core/recurring/detect-recurring-series-action';
+import { updateRecurringSeriesAction } from '@/lib/core/recurring/update-recurring-series-action';
+import type {
+  RecurringSeriesItem,
+  SeriesStatus,
+  UpcomingExpense
+} from '@/lib/core/recurring/queries';
+import { formatCurrency } from '@/lib/utils';
+
+type Props = {
+  series: RecurringSeriesItem[];
+  upcoming: UpcomingExpense[];
+};
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('sv-SE', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  }).format(date);
+}
+
+function formatMonth(date: Date): string {
+  return new Intl.DateTimeFormat('sv-SE', { year: 'numeric', month: 'short' }).format(date);
+}
+
+// The list search with the series' merchant
+const transactionsHref = (merchant: string) =>
+  `/transactions?search=${encodeURIComponent(`merchant:"${merchant.replaceAll('"', '')}"`)}`;
+
+export function SubscriptionList({ series: initialSeries, upcoming }: Props) {
+  const [series, setSeries] = useState(initialSeries);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Edit state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const visible = series.filter(s => s.status !== 'dismissed');
+  const active = visible.filter(s => !s.stopped);
+  const stopped = visible.filter(s => s.stopped);
+  const dismissed = series.filter(s => s.status === 'dismissed');
+
+  const totalMonthly = active.reduce((sum, s) => sum + s.monthlyCost, 0);
+
+  const handleDetect = () => {
+    setPendingAction('detect');
+    startTransition(async () => {
+      const result = await detectRecurringSeriesAction();
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      setSeries(result.series);
+      setPendingAction(null);
+      toast.success(`Found ${result.found} recurring series in your transactions`);
+    });
+  };
+
+  const handleUpdate = (
+    item: RecurringSeriesItem,
+    update: { name?: string | null; status?: SeriesStatus },
+    message: string
+  ) => {
+    setPendingAction(item.id);
+    startTransition(async () => {
+      const result = await updateRecurringSeriesAction({ id: item.id, ...update });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      setSeries(prev =>
+        prev.map(s =>
+          s.id === item.id ? { ...s, name: result.series.name, status: result.series.status } : s
+        )
+      );
+      setEditingId(null);
+      setEditName('');
+      setPendingAction(null);
+      toast.success(message);
+    });
+  };
+
+  const startEdit = (item: RecurringSeriesItem) => {
+    setEditingId(item.id);
+    setEditName(item.name ?? item.merchant);
+  };
+
+  const handleRename = (item: RecurringSeriesItem) => {
+    const name = editName.trim();
+    handleUpdate(
+      item,
+      { name: name === item.merchant ? null : name || null },
+      `Renamed to "${name || item.merchant}"`
+    );
+  };
+
+  const renderRow = (item: RecurringSeriesItem) => {
+    const isEditing = editingId === item.id;
+    const isProcessing = isPending && pendingAction === item.id;
+    const displayName = item.name ?? item.merchant;
+    const firstPrice = item.priceHistory[0];
+    const latestPrice = item.priceHistory[item.priceHistory.length - 1];
+
+    return (
+      <div key={item.id} className="border-border space-y-1.5 rounded-lg border p-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="min-w-0 flex-1">
+            {isEditing ? (
+              <Input
+                value={editName}
+                onChange={e => setEditName(e.target.value)}
+                className="h-8"
+                maxLength={80}
+                autoFocus
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleRename(item);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+              />
+            ) : (
+              <>
+                <Link
+                  href={transactionsHref(item.merchant)}
+                  className="hover:text-foreground block truncate font-medium transition-colors"
+                >
+                  {displayName}
+                </Link>
+                <p className="text-muted-foreground truncate text-xs">
+                  {item.name !== null && `${item.merchant} · `}
+                  {item.categoryName ?? 'Uncategorized'} · {item.transactionCount} charges since{' '}
+                  {formatMonth(item.firstDate)}
+                </p>
+              </>
+            )}
+          </div>
+
+          <Badge variant="outline">{CADENCE_LABELS[item.cadence]}</Badge>
+          {item.status === 'confirmed' ? (
+            <Badge variant="secondary">
+              <Check className="size-3" />
+              Confirmed
+            </Badge>
+          ) : (
+            item.status === 'detected' && <Badge variant="outline">Detected</Badge>
+          )}
+
+          <div className="w-28 text-right">
+            <p className="font-medium tabular-nums">{formatCurrency(item.amount)}</p>
+            <p className="text-muted-foreground text-xs tabular-nums">
+              {item.stopped
+                ? `Last ${formatDate(item.lastDate)}`
+                : `${formatCurrency(item.monthlyCost)}/mo`}
+            </p>
+          </div>
+
+          {isEditing ? (
+            <>
+              <Button size="sm" onClick={() => handleRename(item)} disabled={isProcessing}>
+                {isProcessing ? <Loader2 className="size-4 animate-spin" /> : 'Save'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                render={<Button variant="ghost" size="icon-sm" disabled={isProcessing} />}
+              >
+                {isProcessing ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  <MoreHorizontal className="size-4" />
+                )}
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {item.status === 'detected' && (
+                  <DropdownMenuItem
+                    onClick={() =>
+                      handleUpdate(item, { status: 'confirmed' }, `Confirmed "${displayName}"`)
+                    }
+                  >
+                    <Check />
+                    Confirm
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => startEdit(item)}>
+                  <Pencil />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {item.status === 'dismissed' ? (
+                  <DropdownMenuItem
+                    onClick={() =>
+                      handleUpdate(item, { status: 'detected' }, `Restored "${displayName}"`)
+                    }
+                  >
+                    <RotateCcw />
+                    Restore
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem
+                    variant="destructive"
+                    onClick={() =>
+                      handleUpdate(item, { status: 'dismissed' }, `Dismissed "${displayName}"`)
+                    }
+                  >
+                    <X />
+                    Not recurring
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        {item.priceHistory.length > 1 && firstPrice && latestPrice && (
+          <p className="text-muted-foreground flex flex-wrap items-center gap-1 text-xs">
+            <TrendingUp className="size-3" />
+            Price {latestPrice.amount >= firstPrice.amount ? 'up' : 'down'}{' '}
+            {formatCurrency(Math.abs(latestPrice.amount - firstPrice.amount))}:
+            {item.priceHistory.map((point, i) => (
+              <span key={point.date.toISOString()} title={formatDate(point.date)}>
+                {i > 0 && '→ '}
+                {formatCurrency(point.amount)} ({formatMonth(point.date)})
+              </span>
+            ))}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Overview */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card size="sm">
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <Wallet className="size-4" />
+              Monthly cost
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-semibold">{formatCurrency(totalMonthly)}</p>
+          </CardContent>
+        </Card>
+
+        <Card size="sm">
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <CalendarClock className="size-4" />
+              Yearly cost
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-semibold">{formatCurrency(totalMonthly * 12)}</p>
+          </CardContent>
+        </Card>
+
+        <Card size="sm">
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <Repeat className="size-4" />
+              Active
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-semibold">{active.length}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Upcoming charges */}
+      {upcoming.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming</CardTitle>
+            <CardDescription>Charges expected in the next 60 days</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {upcoming.map(charge => (
+              <div key={charge.seriesId} className="flex items-center gap-3 text-sm">
+                <span className="min-w-0 flex-1 truncate">{charge.merchant}</span>
+                <span className="text-muted-foreground">
+                  {formatDate(charge.expectedDate)}
+                  {charge.daysUntil === 0
+                    ? ' (today)'
+                    : ` (in ${charge.daysUntil} day${charge.daysUntil !== 1 ? 's' : ''})`}
+                </span>
+                <span className="w-24 text-right font-medium tabular-nums">
+                  {formatCurrency(charge.expectedAmount)}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Active series */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Active</CardTitle>
+            <CardDescription>
+              Detected after each upload. Confirm the ones you know, dismiss the rest.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleDetect}
+            disabled={isPending && pendingAction === 'detect'}
+          >
+            {isPending && pendingAction === 'detect' ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 size-4" />
+            )}
+            Scan transactions
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {active.map(renderRow)}
+
+          {active.length === 0 && (
+            <div className="text-muted-foreground py-8 text-center text-sm">
+              No active subscriptions found. Upload a few months of transactions, then scan.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stopped series */}
+      {stopped.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Stopped</CardTitle>
+            <CardDescription>
+              No charge since the expected date; cancelled, or paid another way
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">{stopped.map(renderRow)}</CardContent>
+        </Card>
+      )}
+
+      {/* Dismissed series */}
+      {dismissed.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Not recurring</CardTitle>
+            <CardDescription>
+              Dismissed series stay hidden when detection runs again
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">{dismissed.map(renderRow)}</CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
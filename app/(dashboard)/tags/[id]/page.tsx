@@ -0,0 +1,95 @@
+import { Suspense } from 'react';
+import type { SearchParams } from 'nuqs/server';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import {
+  getTagById,
+  getTagStats,
+  getTagTopMerchants,
+  getTagMonthlyTrends,
+  getTagTransactions
+} from '@/lib/core/tag/queries';
+import { loadSearchParams } from './search-params';
+import { TagDetail } from './tag-detail';
+import { LoadingFallback } from '../../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
+};
+
+async function Content({ params, searchParams }: Props) {
+  await cookies();
+  const { id } = await params;
+  const urlParams = await loadSearchParams(searchParams);
+
+  const result = await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const tag = yield* getTagById(userId, id);
+
+      if (!tag) {
+        return null;
+      }
+
+      // endDate is set to start of next day to include all transactions on the selected end date
+      const dateRange =
+        urlParams.from && urlParams.to
+          ? {
+              startDate: urlParams.from,
+              endDate: new Date(
+                urlParams.to.getFullYear(),
+                urlParams.to.getMonth(),
+                urlParams.to.getDate() + 1
+              )
+            }
+          : undefined;
+
+      const [stats, topMerchants, trends, recentTransactions] = yield* Effect.all([
+        getTagStats(userId, id, dateRange),
+        getTagTopMerchants(userId, id, 10, dateRange),
+        getTagMonthlyTrends(userId, id, dateRange),
+        getTagTransactions(userId, id, 1, 10, dateRange)
+      ]);
+
+      return { tag, stats, topMerchants, trends, recentTransactions };
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+
+  if (!result) {
+    notFound();
+  }
+
+  return (
+    <TagDetail
+      tag={result.tag}
+      stats={result.stats}
+      topMerchants={result.topMerchants}
+      trends={result.trends}
+      recentTransactions={result.recentTransactions}
+      currentParams={{
+        from: urlParams.from,
+        to: urlParams.to
+      }}
+    />
+  );
+}
+
+export default async function TagDetailPage({ params, searchParams }: Props) {
+  const urlParams = await loadSearchParams(searchParams);
+  const { id } = await params;
+  const key = `${id}-${urlParams.from?.toISOString()}-${urlParams.to?.toISOString()}`;
+
+  return (
+    <Suspense key={key} fallback={<LoadingFallback />}>
+      <Content params={params} searchParams={searchParams} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,18 @@
+import { createLoader, parseAsIsoDate } from 'nuqs/server';
+
+/**
+ * URL state for /tags/[id] page:
+ * - from: start date for filtering stats
+ * - to: end date for filtering stats
+ */
+export const searchParams = {
+  from: parseAsIsoDate,
+  to: parseAsIsoDate
+};
+
+export const loadSearchParams = createLoader(searchParams);
+
+export type TagDetailSearchParams = {
+  from: Date | null;
+  to: Date | null;
+};
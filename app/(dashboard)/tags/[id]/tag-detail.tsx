@@ -0,0 +1,326 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Calendar,
+  Store,
+  TrendingDown,
+  TrendingUp,
+  Hash,
+  Receipt,
+  Tags,
+  X
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CategoryTrendChart } from '@/components/charts/category-trend-chart';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
+import { useDateRangeFilter } from '@/lib/hooks/use-date-range-filter';
+import { cn } from '@/lib/utils';
+import type { TagOption, TagStats, TagTopMerchant, TagMonthlyTrend } from '@/lib/core/tag/queries';
+
+type Transaction = {
+  id: string;
+  date: Date;
+  merchant: string;
+  amount: number;
+  categoryName: string | null;
+};
+
+type PaginatedTransactions = {
+  items: Transaction[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+type Props = {
+  tag: TagOption;
+  stats: TagStats;
+  topMerchants: TagTopMerchant[];
+  trends: TagMonthlyTrend[];
+  recentTransactions: PaginatedTransactions;
+  currentParams: {
+    from: Date | null;
+    to: Date | null;
+  };
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('sv-SE', {
+    style: 'currency',
+    currency: 'SEK',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('sv-SE', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  }).format(date);
+}
+
+export function TagDetail({
+  tag,
+  stats,
+  topMerchants,
+  trends,
+  recentTransactions,
+  currentParams
+}: Props) {
+  const { dateRange, setDateRange, clearDateRange, hasDateFilter } =
+    useDateRangeFilter(currentParams);
+
+  return (
+    <main className="min-h-screen p-4 sm:p-8">
+      <div className="mx-auto max-w-6xl space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-2">
+            <Link
+              href="/tags"
+              className="text-muted-foreground hover:text-foreground inline-flex items-center gap-1 text-sm transition-colors"
+            >
+              <ArrowLeft className="size-4" />
+              Back to tags
+            </Link>
+            <div className="flex items-center gap-3">
+              <Tags className="text-muted-foreground size-6" />
+              <h1 className="text-2xl font-semibold tracking-tight">{tag.name}</h1>
+            </div>
+          </div>
+
+          {/* Date Range Picker */}
+          <div className="flex items-center gap-2">
+            <DateRangePicker
+              value={dateRange}
+              onChange={setDateRange}
+              placeholder="Filter by date"
+              className="w-[280px]"
+            />
+            {hasDateFilter && (
+              <Button variant="ghost" size="icon-sm" onClick={clearDateRange} title="Clear filter">
+                <X className="size-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Stats Overview */}
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          <Card size="sm">
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <TrendingDown className="size-4" />
+                Total Expenses
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-semibold text-red-600 dark:text-red-400">
+                {formatCurrency(stats.totalExpenses)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card size="sm">
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <TrendingUp className="size-4" />
+                Total Income
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-semibold text-green-600 dark:text-green-400">
+                {formatCurrency(stats.totalIncome)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card size="sm">
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Hash className="size-4" />
+                Transactions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-semibold">{stats.transactionCount}</p>
+            </CardContent>
+          </Card>
+
+          <Card size="sm">
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Receipt className="size-4" />
+                Avg Transaction
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-semibold">{formatCurrency(stats.avgTransaction)}</p>
+            </CardContent>
+          </Card>
+
+          <Card size="sm">
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Store className="size-4" />
+                Unique Merchants
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-semibold">{stats.merchantCount}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Timeline */}
+        {stats.firstTransaction && stats.lastTransaction && (
+          <div className="text-muted-foreground flex items-center gap-2 text-sm">
+            <Calendar className="size-4" />
+            <span>
+              {formatDate(stats.firstTransaction)} - {formatDate(stats.lastTransaction)}
+            </span>
+          </div>
+        )}
+
+        {/* Spending Trends */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Spending Trends</CardTitle>
+            <CardDescription>
+              {hasDateFilter
+                ? `${trends.length} month${trends.length !== 1 ? 's' : ''}`
+                : 'Last 12 months'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {trends.every(t => t.expenses === 0 && t.income === 0) ? (
+              <p className="text-muted-foreground py-4 text-center text-sm">No data available</p>
+            ) : (
+              <CategoryTrendChart data={trends} height={250} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Two Column Layout */}
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Top Merchants */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Store className="size-5" />
+                Top Merchants
+              </CardTitle>
+              <CardDescription>By total spending</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {topMerchants.length === 0 ? (
+                <p className="text-muted-foreground py-4 text-center text-sm">
+                  No merchant data available
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {topMerchants.map((merchant, index) => {
+                    const maxTotal = topMerchants[0].total;
+                    const widthPercent = merchant.total / maxTotal;
+
+                    return (
+                      <div key={merchant.merchant} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="text-muted-foreground w-5 text-right text-xs">
+                              {index + 1}.
+                            </span>
+                            <span className="truncate">{merchant.merchant}</span>
+                          </div>
+                          <span className="shrink-0 font-medium">
+                            {formatCurrency(merchant.total)}
+                          </span>
+                        </div>
+                        <div className="ml-7">
+                          <div className="bg-muted h-1.5 w-full rounded-full">
+                            <div
+                              className="h-1.5 rounded-full bg-red-500 transition-all dark:bg-red-400"
+                              style={{ width: `${widthPercent * 100}%` }}
+                            />
+                          </div>
+                          <p className="text-muted-foreground mt-0.5 text-xs">
+                            {merchant.transactionCount} transaction
+                            {merchant.transactionCount !== 1 ? 's' : ''}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recent Transactions */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Recent Transactions</CardTitle>
+                  <CardDescription>
+                    Showing {recentTransactions.items.length} of {recentTransactions.total}
+                  </CardDescription>
+                </div>
+                {recentTransactions.total > 10 && (
+                  <Link
+                    href={`/transactions?tag=${tag.id}`}
+                    className="text-muted-foreground hover:text-foreground text-sm underline-offset-4 hover:underline"
+                  >
+                    View all
+                  </Link>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {recentTransactions.items.length === 0 ? (
+                <p className="text-muted-foreground py-4 text-center text-sm">
+                  No transactions with this tag
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {recentTransactions.items.map(tx => (
+                    <Link
+                      key={tx.id}
+                      href={`/transactions/${tx.id}`}
+                      className="border-border hover:bg-muted/50 flex items-center justify-between gap-3 rounded-lg border p-3 transition-colors"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium">{tx.merchant}</p>
+                        <p className="text-muted-foreground text-sm">{formatDate(tx.date)}</p>
+                      </div>
+                      <Badge variant="secondary" className="shrink-0 font-normal">
+                        {tx.categoryName ?? 'Uncategorized'}
+                      </Badge>
+                      <p
+                        className={cn(
+                          'shrink-0 font-semibold',
+                          tx.amount < 0
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-green-600 dark:text-green-400'
+                        )}
+                      >
+                        {formatCurrency(Math.abs(tx.amount))}
+                      </p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  );
+}
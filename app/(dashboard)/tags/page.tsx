@@ -0,0 +1,45 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getTags } from '@/lib/core/tag/queries';
+import { TagList } from './tag-list';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const tags = yield* getTags(session.user.id);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Tags</h1>
+              <p className="text-muted-foreground mt-1">
+                Free-form labels like trips or projects, across categories
+              </p>
+            </div>
+
+            <TagList tags={tags} />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function TagsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
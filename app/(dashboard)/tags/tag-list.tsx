@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Plus, Pencil, Trash2, Loader2, MoreHorizontal } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { createTagAction } from '@/lib/core/tag/create-tag-action';
+import { updateTagAction } from '@/lib/core/tag/update-tag-action';
+import { deleteTagAction } from '@/lib/core/tag/delete-tag-action';
+import type { TagWithCount } from '@/lib/core/tag/queries';
+
+type Props = {
+  tags: TagWithCount[];
+};
+
+export function TagList({ tags: initialTags }: Props) {
+  const [tags, setTags] = useState(initialTags);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Create state
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  // Edit state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  // Delete confirmation state
+  const [deleteTarget, setDeleteTarget] = useState<TagWithCount | null>(null);
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      toast.error('Tag name is required');
+      return;
+    }
+
+    setPendingAction('create');
+    startTransition(async () => {
+      const result = await createTagAction({ name: newName });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      setTags(prev =>
+        [...prev, { ...result.tag, transactionCount: 0 }].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+
+      setNewName('');
+      setIsCreating(false);
+      setPendingAction(null);
+      toast.success(`Created tag "${result.tag.name}"`);
+    });
+  };
+
+  const handleUpdate = (id: string) => {
+    if (!editName.trim()) {
+      toast.error('Tag name is required');
+      return;
+    }
+
+    setPendingAction(id);
+    startTransition(async () => {
+      const result = await updateTagAction({ id, name: editName });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      setTags(prev =>
+        prev
+          .map(t => (t.id === id ? { ...t, name: result.tag.name } : t))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      setEditingId(null);
+      setEditName('');
+      setPendingAction(null);
+      toast.success(`Renamed tag to "${result.tag.name}"`);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    setPendingAction(id);
+    startTransition(async () => {
+      const result = await deleteTagAction({ id });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        setDeleteTarget(null);
+        return;
+      }
+
+      setTags(prev => prev.filter(t => t.id !== id));
+      setPendingAction(null);
+      setDeleteTarget(null);
+      toast.success(`Deleted tag "${result.name}"`);
+    });
+  };
+
+  const startEdit = (tag: TagWithCount) => {
+    setEditingId(tag.id);
+    setEditName(tag.name);
+    setIsCreating(false);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Create new tag */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Add Tag</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isCreating ? (
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                placeholder="Tag name, e.g. Italy 2025"
+                className="flex-1"
+                autoFocus
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleCreate();
+                  if (e.key === 'Escape') {
+                    setIsCreating(false);
+                    setNewName('');
+                  }
+                }}
+              />
+              <Button onClick={handleCreate} disabled={isPending && pendingAction === 'create'}>
+                {isPending && pendingAction === 'create' ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  'Create'
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIsCreating(false);
+                  setNewName('');
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setIsCreating(true);
+                setEditingId(null);
+              }}
+              className="w-full"
+            >
+              <Plus className="mr-2 size-4" />
+              Add new tag
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tag list */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>
+            {tags.length} tag{tags.length !== 1 ? 's' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {tags.map(tag => {
+            const isEditing = editingId === tag.id;
+            const isProcessing = isPending && pendingAction === tag.id;
+
+            return (
+              <div
+                key={tag.id}
+                className="border-border flex items-center gap-3 rounded-lg border p-3"
+              >
+                <div className="w-48 shrink-0">
+                  {isEditing ? (
+                    <Input
+                      value={editName}
+                      onChange={e => setEditName(e.target.value)}
+                      className="h-8"
+                      autoFocus
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') handleUpdate(tag.id);
+                        if (e.key === 'Escape') cancelEdit();
+                      }}
+                    />
+                  ) : (
+                    <Link
+                      href={`/tags/${tag.id}`}
+                      className="hover:text-foreground block truncate font-medium transition-colors"
+                    >
+                      {tag.name}
+                    </Link>
+                  )}
+                </div>
+
+                <Link
+                  href={`/transactions?tag=${tag.id}`}
+                  className="text-muted-foreground hover:text-foreground w-32 shrink-0 text-sm transition-colors"
+                >
+                  {tag.transactionCount} txn{tag.transactionCount !== 1 ? 's' : ''}
+                </Link>
+
+                <div className="flex-1" />
+
+                {isEditing ? (
+                  <>
+                    <Button size="sm" onClick={() => handleUpdate(tag.id)} disabled={isProcessing}>
+                      {isProcessing ? <Loader2 className="size-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={cancelEdit}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      render={<Button variant="ghost" size="icon-sm" disabled={isProcessing} />}
+                    >
+                      {isProcessing ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <MoreHorizontal className="size-4" />
+                      )}
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => startEdit(tag)}>
+                        <Pencil />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem variant="destructive" onClick={() => setDeleteTarget(tag)}>
+                        <Trash2 />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            );
+          })}
+
+          {tags.length === 0 && (
+            <div className="text-muted-foreground py-8 text-center text-sm">
+              No tags yet. Create one above or from a transaction.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete &quot;{deleteTarget?.name}&quot;? It will be removed from{' '}
+              {deleteTarget?.transactionCount ?? 0} transaction
+              {deleteTarget?.transactionCount !== 1 ? 's' : ''}; the transactions are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              onClick={() => deleteTarget && handleDelete(deleteTarget.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,7 +4,11 @@ import { cookies } from 'next/headers';
 import { notFound } from 'next/navigation';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import { getTransactionById, getAllCategories } from '@/lib/core/transaction/queries';
+import { getBankAccounts } from '@/lib/core/bank-account/queries';
+import { getEntityHistory } from '@/lib/core/activity/queries';
+import { getTags } from '@/lib/core/tag/queries';
 import { TransactionForm } from './transaction-form';
 import { LoadingFallback } from '../../loading-fallback';
 
@@ -20,16 +24,31 @@ async function Content({ params }: Props) {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
-      const [transaction, categories] = yield* Effect.all([
-        getTransactionById(id),
-        getAllCategories()
+      const session = yield* getSession();
+      const [transaction, categories, accounts, history, tags] = yield* Effect.all([
+        getTransactionById(session.user.id, id),
+        getAllCategories(session.user.id),
+        getBankAccounts(session.user.id),
+        getEntityHistory(session.user.id, 'transaction', id),
+        getTags(session.user.id)
       ]);
 
       if (!transaction) {
         notFound();
       }
 
-      return <TransactionForm transaction={transaction} categories={categories} isNew={false} />;
+      // Remount after a change (such as a revert) so the form shows the saved values
+      return (
+        <TransactionForm
+          key={transaction.updatedAt.getTime()}
+          transaction={transaction}
+          categories={categories}
+          accounts={accounts}
+          isNew={false}
+          history={history}
+          tags={tags}
+        />
+      );
     }).pipe(Effect.provide(AppLayer), Effect.scoped)
   );
 }
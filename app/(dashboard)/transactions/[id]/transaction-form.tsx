@@ -3,11 +3,25 @@
 import { useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
-import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import {
+  ArrowLeft,
+  Download,
+  FileText,
+  Paperclip,
+  Plus,
+  Save,
+  Split,
+  Tags,
+  Trash2,
+  X
+} from 'lucide-react';
 import Link from 'next/link';
-import { Button } from '@/components/ui/button';
+import { ActivityTimeline } from '@/components/activity-timeline';
+import { Badge } from '@/components/ui/badge';
+import { Button, buttonVariants } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import {
   Select,
@@ -30,7 +44,17 @@ import {
 import { updateTransactionDetailAction } from '@/lib/core/transaction/update-transaction-detail-action';
 import { deleteTransactionAction } from '@/lib/core/transaction/delete-transaction-action';
 import { createTransactionAction } from '@/lib/core/transaction/create-transaction-action';
-import type { TransactionDetail } from '@/lib/core/transaction/queries';
+import { saveTransactionSplitsAction } from '@/lib/core/transaction/save-transaction-splits-action';
+import { createTagAction } from '@/lib/core/tag/create-tag-action';
+import { setTransactionTagsAction } from '@/lib/core/tag/set-transaction-tags-action';
+import { uploadAttachmentAction } from '@/lib/core/attachment/upload-attachment-action';
+import { deleteAttachmentAction } from '@/lib/core/attachment/delete-attachment-action';
+import type { TransactionDetail, TransactionSplitPart } from '@/lib/core/transaction/queries';
+import type { TagOption } from '@/lib/core/tag/queries';
+import type { ActivityItem } from '@/lib/core/activity/queries';
+import { CATEGORY_SOURCE_LABELS } from '@/lib/core/transaction/category-source';
+import { splitRemainder } from '@/lib/core/transaction/split';
+import { cn, formatCurrency } from '@/lib/utils';
 
 type Category = {
   id: string;
@@ -38,12 +62,42 @@ type Category = {
   icon: string | null;
 };
 
+type Account = {
+  id: string;
+  name: string;
+};
+
 type Props = {
   transaction: TransactionDetail | null;
   categories: Category[];
+  accounts: Account[];
   isNew: boolean;
+  /** Audit trail of an existing transaction */
+  history?: ActivityItem[];
+  /** All of the user's tags, to add to an existing transaction */
+  tags?: TagOption[];
+};
+
+type SplitRow = {
+  categoryId: string | null;
+  amount: string;
 };
 
+const toSplitRows = (splits: TransactionSplitPart[]): SplitRow[] =>
+  splits.map(part => ({ categoryId: part.categoryId, amount: part.amount.toString() }));
+
+const categoryLabel = (categories: Category[], id: string | null) => {
+  if (id === null) return 'Uncategorized';
+  const cat = categories.find(c => c.id === id);
+  return cat ? `${cat.icon ?? ''} ${cat.name}`.trim() : 'Select category';
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function formatDateForInput(date: Date): string {
   // Use local date parts to avoid timezone shift
   const year = date.getFullYear();
@@ -52,7 +106,14 @@ function formatDateForInput(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
-export function TransactionForm({ transaction, categories, isNew }: Props) {
+export function TransactionForm({
+  transaction,
+  categories,
+  accounts,
+  isNew,
+  history,
+  tags = []
+}: Props) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
 
@@ -64,6 +125,21 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
   const [amount, setAmount] = useState(transaction?.amount.toString() ?? '');
   const [balance, setBalance] = useState(transaction?.balance?.toString() ?? '');
   const [categoryId, setCategoryId] = useState<string | null>(transaction?.categoryId ?? null);
+  const [accountId, setAccountId] = useState<string | null>(transaction?.accountId ?? null);
+  const [note, setNote] = useState(transaction?.note ?? '');
+
+  // Split state: saved parts and the rows being edited (null when not editing)
+  const [savedSplits, setSavedSplits] = useState(transaction?.splits ?? []);
+  const [splitRows, setSplitRows] = useState<SplitRow[] | null>(null);
+  const isSplit = savedSplits.length > 0;
+
+  // Tag state
+  const [allTags, setAllTags] = useState(tags);
+  const [transactionTags, setTransactionTags] = useState(transaction?.tags ?? []);
+  const [newTagName, setNewTagName] = useState('');
+  const unusedTags = allTags.filter(tag => !transactionTags.some(t => t.id === tag.id));
+
+  const [attachments, setAttachments] = useState(transaction?.attachments ?? []);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -93,7 +169,9 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
           merchant,
           amount: parsedAmount,
           balance: parsedBalance,
-          categoryId
+          categoryId,
+          accountId,
+          note
         });
 
         if (result._tag === 'Error') {
@@ -109,7 +187,9 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
           date,
           merchant,
           amount: parsedAmount,
-          categoryId
+          categoryId,
+          accountId,
+          note
         });
 
         if (result._tag === 'Error') {
@@ -122,6 +202,131 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
     });
   };
 
+  const startSplit = () => {
+    if (!transaction) return;
+    setSplitRows(
+      isSplit
+        ? toSplitRows(savedSplits)
+        : [
+            { categoryId, amount: transaction.amount.toString() },
+            { categoryId: null, amount: '' }
+          ]
+    );
+  };
+
+  const updateSplitRow = (index: number, row: Partial<SplitRow>) => {
+    setSplitRows(prev => prev && prev.map((r, i) => (i === index ? { ...r, ...row } : r)));
+  };
+
+  const splitParts = (splitRows ?? []).map(row => ({
+    categoryId: row.categoryId,
+    amount: parseFloat(row.amount) || 0
+  }));
+  const remaining = transaction ? splitRemainder(transaction.amount, splitParts) : 0;
+
+  const saveSplits = (parts: Array<{ categoryId: string | null; amount: number }>) => {
+    if (!transaction) return;
+
+    startTransition(async () => {
+      const result = await saveTransactionSplitsAction({
+        transactionId: transaction.id,
+        splits: parts
+      });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setSavedSplits(result.splits);
+      setSplitRows(null);
+      if (result.splits.length > 0) {
+        setCategoryId(result.splits[0].categoryId);
+      }
+      toast.success(result.splits.length > 0 ? 'Split saved' : 'Split removed');
+    });
+  };
+
+  const saveTags = (next: TagOption[]) => {
+    if (!transaction) return;
+
+    startTransition(async () => {
+      const result = await setTransactionTagsAction({
+        transactionId: transaction.id,
+        tagIds: next.map(tag => tag.id)
+      });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setTransactionTags(result.tags);
+    });
+  };
+
+  const createTag = () => {
+    if (!transaction || !newTagName.trim()) return;
+
+    startTransition(async () => {
+      const created = await createTagAction({ name: newTagName });
+
+      if (created._tag === 'Error') {
+        toast.error(created.message);
+        return;
+      }
+
+      setAllTags(prev => [...prev, created.tag].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewTagName('');
+
+      const result = await setTransactionTagsAction({
+        transactionId: transaction.id,
+        tagIds: [...transactionTags.map(tag => tag.id), created.tag.id]
+      });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setTransactionTags(result.tags);
+    });
+  };
+
+  const uploadAttachment = (file: File) => {
+    if (!transaction) return;
+
+    const formData = new FormData();
+    formData.append('transactionId', transaction.id);
+    formData.append('file', file);
+
+    startTransition(async () => {
+      const result = await uploadAttachmentAction(formData);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setAttachments(prev => [...prev, result.attachment]);
+      toast.success(`Attached ${result.attachment.fileName}`);
+    });
+  };
+
+  const deleteAttachment = (id: string) => {
+    startTransition(async () => {
+      const result = await deleteAttachmentAction({ id });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setAttachments(prev => prev.filter(a => a.id !== result.id));
+      toast.success('Attachment deleted');
+    });
+  };
+
   const handleDelete = () => {
     if (!transaction) return;
 
@@ -157,6 +362,9 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
             <p className="text-muted-foreground text-sm">
               Created {transaction.createdAt.toLocaleDateString()}
               {transaction.uploadId ? ' (from upload)' : ' (manual entry)'}
+              {transaction.bookingDate &&
+                ` · Booked ${transaction.bookingDate.toLocaleDateString('sv-SE')}`}
+              {transaction.externalId && ` · Bank ref ${transaction.externalId}`}
             </p>
           )}
         </div>
@@ -230,6 +438,7 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
                 <Select
                   value={categoryId ?? '__none__'}
                   onValueChange={v => setCategoryId(v === '__none__' ? null : v)}
+                  disabled={isSplit}
                 >
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="Select category">
@@ -251,6 +460,73 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
                     ))}
                   </SelectContent>
                 </Select>
+                {isSplit && (
+                  <p className="text-muted-foreground text-xs">
+                    Split across {savedSplits.length} categories below
+                  </p>
+                )}
+                {!isSplit &&
+                  transaction?.categorySource &&
+                  categoryId === transaction.categoryId && (
+                    <p className="text-muted-foreground text-xs">
+                      {CATEGORY_SOURCE_LABELS[transaction.categorySource]}
+                      {transaction.categoryRulePattern && (
+                        <>
+                          {' · '}
+                          <Link href="/rules" className="hover:underline">
+                            rule &quot;{transaction.categoryRulePattern}&quot;
+                          </Link>
+                        </>
+                      )}
+                      {transaction.categorizedAt &&
+                        ` · ${transaction.categorizedAt.toLocaleString('sv-SE')}`}
+                    </p>
+                  )}
+              </div>
+
+              {accounts.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="account">Account</Label>
+                  <Select
+                    value={accountId ?? '__none__'}
+                    onValueChange={v => setAccountId(v === '__none__' || v === null ? null : v)}
+                  >
+                    <SelectTrigger id="account" className="w-full">
+                      <SelectValue>
+                        {accounts.find(a => a.id === accountId)?.name ?? 'No account'}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__none__">No account</SelectItem>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {transaction?.transferPeerId && (
+                    <p className="text-muted-foreground text-xs">
+                      {transaction.transferConfirmed
+                        ? 'Transfer between your own accounts, not counted as income or expense. '
+                        : 'Looks like a transfer between your own accounts. '}
+                      <Link href="/transfers" className="underline underline-offset-2">
+                        {transaction.transferConfirmed ? 'Manage transfers' : 'Review transfers'}
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="note">Note</Label>
+                <Textarea
+                  id="note"
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  placeholder="Warranty until 2027, reimbursed by work, ..."
+                  maxLength={2000}
+                />
               </div>
 
               <div className="flex items-center justify-between pt-4">
@@ -292,6 +568,311 @@ export function TransactionForm({ transaction, categories, isNew }: Props) {
             </form>
           </CardContent>
         </Card>
+
+        {!isNew && transaction && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Split className="size-5" />
+                Split
+              </CardTitle>
+              <CardDescription>
+                Divide the amount across categories. Parts must add up to{' '}
+                {formatCurrency(transaction.amount)}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {splitRows === null ? (
+                <div className="space-y-4">
+                  {isSplit && (
+                    <ul className="divide-y text-sm">
+                      {savedSplits.map(part => (
+                        <li key={part.id} className="flex justify-between gap-4 py-2">
+                          <span className="truncate">
+                            {categoryLabel(categories, part.categoryId)}
+                          </span>
+                          <span className="tabular-nums">{formatCurrency(part.amount)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={startSplit}
+                    >
+                      <Split className="size-4" />
+                      {isSplit ? 'Edit split' : 'Split transaction'}
+                    </Button>
+                    {isSplit && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        disabled={isPending}
+                        onClick={() => saveSplits([])}
+                      >
+                        Remove split
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <form
+                  className="space-y-4"
+                  onSubmit={e => {
+                    e.preventDefault();
+                    saveSplits(splitParts);
+                  }}
+                >
+                  {splitRows.map((row, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Select
+                        value={row.categoryId ?? '__none__'}
+                        onValueChange={v =>
+                          updateSplitRow(index, {
+                            categoryId: v === '__none__' || v === null ? null : v
+                          })
+                        }
+                      >
+                        <SelectTrigger className="min-w-0 flex-1" aria-label="Part category">
+                          <SelectValue>{categoryLabel(categories, row.categoryId)}</SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">Uncategorized</SelectItem>
+                          {categories.map(cat => (
+                            <SelectItem key={cat.id} value={cat.id}>
+                              {cat.icon && <span>{cat.icon}</span>}
+                              {cat.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        aria-label="Part amount"
+                        value={row.amount}
+                        onChange={e => updateSplitRow(index, { amount: e.target.value })}
+                        className="w-32"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label="Remove part"
+                        disabled={splitRows.length <= 2}
+                        onClick={() =>
+                          setSplitRows(prev => prev && prev.filter((_, i) => i !== index))
+                        }
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <div className="flex items-center justify-between gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setSplitRows(
+                          prev =>
+                            prev && [
+                              ...prev,
+                              {
+                                categoryId: null,
+                                amount: remaining !== 0 ? remaining.toString() : ''
+                              }
+                            ]
+                        )
+                      }
+                    >
+                      <Plus className="size-4" />
+                      Add part
+                    </Button>
+                    <span
+                      className={cn(
+                        'text-sm tabular-nums',
+                        remaining === 0 ? 'text-muted-foreground' : 'text-red-600 dark:text-red-400'
+                      )}
+                    >
+                      {remaining === 0 ? 'Fully allocated' : `${formatCurrency(remaining)} left`}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-end gap-2 pt-2">
+                    <Button type="button" variant="outline" onClick={() => setSplitRows(null)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={isPending || remaining !== 0}>
+                      <Save className="size-4" />
+                      {isPending ? 'Saving...' : 'Save split'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {!isNew && transaction && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Tags className="size-5" />
+                Tags
+              </CardTitle>
+              <CardDescription>
+                Label transactions across categories, such as a trip or a project
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {transactionTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {transactionTags.map(tag => (
+                    <Badge key={tag.id} variant="secondary" className="gap-1 pr-1 font-normal">
+                      <Link href={`/tags/${tag.id}`} className="hover:underline">
+                        {tag.name}
+                      </Link>
+                      <button
+                        type="button"
+                        aria-label={`Remove tag ${tag.name}`}
+                        disabled={isPending}
+                        onClick={() => saveTags(transactionTags.filter(t => t.id !== tag.id))}
+                        className="hover:text-foreground text-muted-foreground rounded-sm"
+                      >
+                        <X className="size-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-col gap-2 sm:flex-row">
+                {unusedTags.length > 0 && (
+                  <Select
+                    value={null}
+                    onValueChange={v => {
+                      const tag = unusedTags.find(t => t.id === v);
+                      if (tag) saveTags([...transactionTags, tag]);
+                    }}
+                    disabled={isPending}
+                  >
+                    <SelectTrigger className="sm:w-48" aria-label="Add tag">
+                      <SelectValue>Add tag</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unusedTags.map(tag => (
+                        <SelectItem key={tag.id} value={tag.id}>
+                          {tag.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <form
+                  className="flex flex-1 gap-2"
+                  onSubmit={e => {
+                    e.preventDefault();
+                    createTag();
+                  }}
+                >
+                  <Input
+                    value={newTagName}
+                    onChange={e => setNewTagName(e.target.value)}
+                    placeholder="New tag"
+                    aria-label="New tag name"
+                    maxLength={50}
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={isPending || !newTagName.trim()}
+                  >
+                    <Plus className="size-4" />
+                    Create
+                  </Button>
+                </form>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isNew && transaction && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Paperclip className="size-5" />
+                Attachments
+              </CardTitle>
+              <CardDescription>Receipt images or PDFs, up to 10 MB each</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {attachments.length > 0 && (
+                <ul className="divide-y text-sm">
+                  {attachments.map(attachment => (
+                    <li key={attachment.id} className="flex items-center gap-3 py-2">
+                      <FileText className="text-muted-foreground size-4 shrink-0" />
+                      <a
+                        href={`/api/attachments/${attachment.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="min-w-0 flex-1 truncate hover:underline"
+                      >
+                        {attachment.fileName}
+                      </a>
+                      <span className="text-muted-foreground shrink-0 text-xs tabular-nums">
+                        {formatFileSize(attachment.size)}
+                      </span>
+                      <a
+                        href={`/api/attachments/${attachment.id}?download`}
+                        aria-label={`Download ${attachment.fileName}`}
+                        className={buttonVariants({ variant: 'ghost', size: 'icon-sm' })}
+                      >
+                        <Download className="size-4" />
+                      </a>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={`Delete ${attachment.fileName}`}
+                        disabled={isPending}
+                        onClick={() => deleteAttachment(attachment.id)}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="attachment">Add attachment</Label>
+                <Input
+                  id="attachment"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/heic,application/pdf"
+                  disabled={isPending}
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) uploadAttachment(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {history && (
+          <ActivityTimeline
+            key={history[0]?.id}
+            history={history}
+            categories={categories}
+            accounts={accounts}
+          />
+        )}
       </div>
     </main>
   );
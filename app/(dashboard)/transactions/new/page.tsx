@@ -3,7 +3,9 @@ import { Effect } from 'effect';
 import { cookies } from 'next/headers';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import { getAllCategories } from '@/lib/core/transaction/queries';
+import { getBankAccounts } from '@/lib/core/bank-account/queries';
 import { TransactionForm } from '../[id]/transaction-form';
 import { LoadingFallback } from '../../loading-fallback';
 
@@ -14,8 +16,19 @@ async function Content() {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
-      const categories = yield* getAllCategories();
-      return <TransactionForm transaction={null} categories={categories} isNew={true} />;
+      const session = yield* getSession();
+      const [categories, accounts] = yield* Effect.all([
+        getAllCategories(session.user.id),
+        getBankAccounts(session.user.id)
+      ]);
+      return (
+        <TransactionForm
+          transaction={null}
+          categories={categories}
+          accounts={accounts}
+          isNew={true}
+        />
+      );
     }).pipe(Effect.provide(AppLayer), Effect.scoped)
   );
 }
@@ -6,7 +6,9 @@ import Link from 'next/link';
 import { Plus } from 'lucide-react';
 import { NextEffect } from '@/lib/next-effect';
 import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
 import { getTransactions, getAllCategories } from '@/lib/core/transaction/queries';
+import { getTags } from '@/lib/core/tag/queries';
 import { loadSearchParams, parseDate } from './search-params';
 import { TransactionList } from './transaction-list';
 import { LoadingFallback } from '../loading-fallback';
@@ -24,17 +26,21 @@ async function Content({ searchParams }: Props) {
 
   return await NextEffect.runPromise(
     Effect.gen(function* () {
+      const session = yield* getSession();
       const filter = {
         categoryId: params.category,
+        categorySource: params.source,
+        tagId: params.tag,
         search: params.search,
         startDate: parseDate(params.startDate),
         endDate: parseDate(params.endDate)
       };
 
       const pageSize = parseInt(params.pageSize, 10);
-      const [transactionsResult, categories] = yield* Effect.all([
-        getTransactions(filter, params.page, pageSize),
-        getAllCategories()
+      const [transactionsResult, categories, tags] = yield* Effect.all([
+        getTransactions(session.user.id, filter, params.page, pageSize),
+        getAllCategories(session.user.id),
+        getTags(session.user.id)
       ]);
 
       return (
@@ -60,11 +66,14 @@ async function Content({ searchParams }: Props) {
             <TransactionList
               transactions={transactionsResult.items}
               categories={categories}
+              tags={tags}
               total={transactionsResult.total}
               page={transactionsResult.page}
               totalPages={transactionsResult.totalPages}
               currentFilter={{
                 category: params.category,
+                source: params.source,
+                tag: params.tag,
                 search: params.search,
                 startDate: params.startDate,
                 endDate: params.endDate
@@ -79,7 +88,7 @@ async function Content({ searchParams }: Props) {
 
 export default async function TransactionsPage({ searchParams }: Props) {
   const params = await loadSearchParams(searchParams);
-  const key = `${params.category}-${params.search}-${params.startDate}-${params.endDate}-${params.page}-${params.pageSize}`;
+  const key = `${params.category}-${params.source}-${params.tag}-${params.search}-${params.startDate}-${params.endDate}-${params.page}-${params.pageSize}`;
 
   return (
     <Suspense key={key} fallback={<LoadingFallback />}>
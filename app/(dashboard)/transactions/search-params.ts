@@ -1,4 +1,5 @@
 import { createLoader, parseAsString, parseAsInteger, parseAsStringLiteral } from 'nuqs/server';
+import { CATEGORY_SOURCES, type CategorySource } from '@/lib/core/transaction/category-source';
 
 const PAGE_SIZE_OPTIONS = ['10', '20', '50', '100'] as const;
 export const DEFAULT_PAGE_SIZE = 20;
@@ -6,6 +7,8 @@ export const DEFAULT_PAGE_SIZE = 20;
 /**
  * URL state for /transactions page:
  * - category: filter by category ID (null = all categories)
+ * - source: filter by how the category was set (null = any)
+ * - tag: filter by tag ID (null = any tags)
  * - search: merchant name search (case-insensitive)
  * - startDate: filter transactions on or after this date (YYYY-MM-DD)
  * - endDate: filter transactions before this date (YYYY-MM-DD)
@@ -14,6 +17,8 @@ export const DEFAULT_PAGE_SIZE = 20;
  */
 export const searchParams = {
   category: parseAsString, // null = all
+  source: parseAsStringLiteral(CATEGORY_SOURCES), // null = any
+  tag: parseAsString, // null = any tags
   search: parseAsString, // null = no search
   startDate: parseAsString, // YYYY-MM-DD format
   endDate: parseAsString, // YYYY-MM-DD format
@@ -25,6 +30,8 @@ export const loadSearchParams = createLoader(searchParams);
 
 export type TransactionsSearchParams = {
   category: string | null;
+  source: CategorySource | null;
+  tag: string | null;
   search: string | null;
   startDate: string | null;
   endDate: string | null;
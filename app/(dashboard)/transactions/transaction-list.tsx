@@ -2,12 +2,23 @@
 
 import { useQueryStates } from 'nuqs';
 import { useState, useTransition } from 'react';
-import { Search, X, Loader2, Trash2 } from 'lucide-react';
+import { Search, X, Loader2, Trash2, MoreHorizontal, StickyNote, CircleHelp } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,10 +38,24 @@ import {
   SelectValue
 } from '@/components/ui/select';
 import { Pagination, type PageSize } from '@/components/ui/pagination';
+import {
+  Popover,
+  PopoverContent,
+  PopoverHeader,
+  PopoverTitle,
+  PopoverTrigger
+} from '@/components/ui/popover';
 import { searchParams, DEFAULT_PAGE_SIZE } from './search-params';
+import { SaveViewButton } from '../views/save-view-button';
 import { cn } from '@/lib/utils';
 import { updateTransactionAction } from '@/lib/core/transaction/update-transaction-action';
+import {
+  CATEGORY_SOURCES,
+  CATEGORY_SOURCE_LABELS,
+  type CategorySource
+} from '@/lib/core/transaction/category-source';
 import { deleteTransactionAction } from '@/lib/core/transaction/delete-transaction-action';
+import { bulkEditTransactionsAction } from '@/lib/core/transaction/bulk-edit-transactions-action';
 
 type PageSizeParam = '10' | '20' | '50' | '100';
 const PAGE_SIZE_MAP: Record<PageSize, PageSizeParam> = {
@@ -48,8 +73,20 @@ type Transaction = {
   balance: number | null;
   categoryId: string | null;
   categoryName: string | null;
+  markedTransfer: boolean;
+  excludedFromReports: boolean;
+  status: 'booked' | 'pending' | 'expired';
+  note: string | null;
+  tags: Tag[];
+};
+
+type Tag = {
+  id: string;
+  name: string;
 };
 
+type BulkOperation = Parameters<typeof bulkEditTransactionsAction>[0]['operation'];
+
 type Category = {
   id: string;
   name: string;
@@ -59,6 +96,8 @@ type Category = {
 
 type FilterState = {
   category: string | null;
+  source: CategorySource | null;
+  tag: string | null;
   search: string | null;
   startDate: string | null;
   endDate: string | null;
@@ -67,15 +106,31 @@ type FilterState = {
 type Props = {
   transactions: Transaction[];
   categories: Category[];
+  tags: Tag[];
   total: number;
   page: number;
   totalPages: number;
   currentFilter: FilterState;
 };
 
+// Search syntax examples; see lib/core/transaction/search-query.ts
+const SEARCH_EXAMPLES = [
+  { query: 'ica "ica maxi"', description: 'Merchant or note contains' },
+  { query: '349  349,50', description: 'Exact amount, expense or income' },
+  { query: '>500  80..120', description: 'Amount comparison or range' },
+  { query: '-120..-80', description: 'Signed amount range (expenses)' },
+  { query: '2025-03  2025-Q3', description: 'Month, quarter or day' },
+  { query: '2025-03..2025-05', description: 'Date range' },
+  { query: 'last:30d  last:3m', description: 'Recent days, weeks, months or years' },
+  { query: 'category:food  tag:trip', description: 'Category or tag name' },
+  { query: 'note:warranty  merchant:ica', description: 'Only the note or merchant' },
+  { query: '-category:food', description: 'Exclude a term' }
+];
+
 export function TransactionList({
   transactions: initialTransactions,
   categories,
+  tags,
   total,
   page,
   totalPages,
@@ -84,6 +139,11 @@ export function TransactionList({
   const [transactions, setTransactions] = useState(initialTransactions);
   const [pendingId, setPendingId] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+
+  // Bulk selection: picked rows, or every transaction matching the filter
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const [isBulkPending, startBulkTransition] = useTransition();
   const [params, setParams] = useQueryStates(searchParams, {
     shallow: false,
     history: 'push'
@@ -117,6 +177,21 @@ export function TransactionList({
     });
   };
 
+  const handleSourceFilterChange = (value: string | null) => {
+    startTransition(() => {
+      setParams({
+        source: CATEGORY_SOURCES.find(source => source === value) ?? null,
+        page: 1
+      });
+    });
+  };
+
+  const handleTagFilterChange = (value: string | null) => {
+    startTransition(() => {
+      setParams({ tag: value === 'all' ? null : value, page: 1 });
+    });
+  };
+
   const handleDateChange = (field: 'startDate' | 'endDate', value: string) => {
     startTransition(() => {
       setParams({ [field]: value || null, page: 1 });
@@ -128,6 +203,8 @@ export function TransactionList({
     startTransition(() => {
       setParams({
         category: null,
+        source: null,
+        tag: null,
         search: null,
         startDate: null,
         endDate: null,
@@ -202,8 +279,97 @@ export function TransactionList({
     });
   };
 
+  const pageIds = transactions.map(tx => tx.id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.has(id));
+  const selectedCount = allMatching ? total : selectedIds.size;
+
+  const toggleSelected = (transactionId: string) => {
+    setAllMatching(false);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setAllMatching(false);
+    setSelectedIds(allOnPageSelected ? new Set() : new Set(pageIds));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatching(false);
+  };
+
+  const handleBulk = (operation: BulkOperation) => {
+    startBulkTransition(async () => {
+      const result = await bulkEditTransactionsAction({
+        selection: allMatching ? { filter: currentFilter } : { ids: [...selectedIds] },
+        operation
+      });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      const changed = new Set(result.ids);
+      setTransactions(prev =>
+        operation.type === 'delete'
+          ? prev.filter(tx => !changed.has(tx.id))
+          : prev.map(tx => {
+              if (!changed.has(tx.id)) return tx;
+              switch (operation.type) {
+                case 'setCategory':
+                  return {
+                    ...tx,
+                    categoryId: operation.categoryId,
+                    categoryName: categories.find(c => c.id === operation.categoryId)?.name ?? null
+                  };
+                case 'addTag': {
+                  const tag = tags.find(t => t.id === operation.tagId);
+                  return tag
+                    ? {
+                        ...tx,
+                        tags: [...tx.tags, tag].sort((a, b) => a.name.localeCompare(b.name))
+                      }
+                    : tx;
+                }
+                case 'removeTag':
+                  return { ...tx, tags: tx.tags.filter(t => t.id !== operation.tagId) };
+                case 'markTransfer':
+                  return { ...tx, markedTransfer: operation.value };
+                case 'excludeFromReports':
+                  return { ...tx, excludedFromReports: operation.value };
+              }
+            })
+      );
+      clearSelection();
+
+      const noun = `transaction${result.ids.length !== 1 ? 's' : ''}`;
+      toast.success(
+        operation.type === 'delete'
+          ? `Deleted ${result.ids.length} ${noun}`
+          : `Updated ${result.ids.length} ${noun}` +
+              (result.skipped > 0 ? ` (${result.skipped} split skipped)` : '')
+      );
+    });
+  };
+
+  const handleBulkCategory = (value: string | null) => {
+    if (value === null) return;
+    handleBulk({ type: 'setCategory', categoryId: value === '__none__' ? null : value });
+  };
+
   const hasFilters =
     currentFilter.category !== null ||
+    currentFilter.source !== null ||
+    currentFilter.tag !== null ||
     currentFilter.search !== null ||
     currentFilter.startDate !== null ||
     currentFilter.endDate !== null;
@@ -227,8 +393,9 @@ export function TransactionList({
     <div className="space-y-4">
       {/* Filters */}
       <Card>
-        <CardHeader className="pb-4">
+        <CardHeader className="flex flex-row items-center justify-between pb-4">
           <CardTitle className="text-base font-medium">Filters</CardTitle>
+          <SaveViewButton page="transactions" />
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Search */}
@@ -237,12 +404,37 @@ export function TransactionList({
               <Search className="text-muted-foreground absolute left-2.5 top-1/2 size-4 -translate-y-1/2" />
               <Input
                 type="text"
-                placeholder="Search by merchant..."
+                placeholder="Search, e.g. 349 2025-03..2025-05"
                 value={searchInput}
                 onChange={e => setSearchInput(e.target.value)}
                 className="pl-8"
               />
             </div>
+            <Popover>
+              <PopoverTrigger
+                render={
+                  <Button type="button" variant="ghost" size="icon" aria-label="Search syntax" />
+                }
+              >
+                <CircleHelp className="size-4" />
+              </PopoverTrigger>
+              <PopoverContent className="w-96" align="end">
+                <PopoverHeader>
+                  <PopoverTitle>Search syntax</PopoverTitle>
+                </PopoverHeader>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-sm">
+                  {SEARCH_EXAMPLES.map(example => (
+                    <div key={example.query} className="contents">
+                      <dt className="font-mono text-xs leading-5">{example.query}</dt>
+                      <dd className="text-muted-foreground">{example.description}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <p className="text-muted-foreground text-xs">
+                  All terms must match. Numbers without a sign compare the absolute amount.
+                </p>
+              </PopoverContent>
+            </Popover>
             <Button type="submit" variant="outline">
               Search
             </Button>
@@ -266,6 +458,42 @@ export function TransactionList({
               </SelectContent>
             </Select>
 
+            <Select value={params.source ?? 'all'} onValueChange={handleSourceFilterChange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue>
+                  {params.source ? CATEGORY_SOURCE_LABELS[params.source] : 'Any source'}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any source</SelectItem>
+                {CATEGORY_SOURCES.map(source => (
+                  <SelectItem key={source} value={source}>
+                    {CATEGORY_SOURCE_LABELS[source]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {tags.length > 0 && (
+              <Select value={params.tag ?? 'all'} onValueChange={handleTagFilterChange}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue>
+                    {params.tag
+                      ? (tags.find(t => t.id === params.tag)?.name ?? 'Unknown tag')
+                      : 'Any tags'}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any tags</SelectItem>
+                  {tags.map(tag => (
+                    <SelectItem key={tag.id} value={tag.id}>
+                      {tag.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             <Input
               type="date"
               value={params.startDate ?? ''}
@@ -292,6 +520,144 @@ export function TransactionList({
         </CardContent>
       </Card>
 
+      {/* Bulk actions */}
+      {selectedCount > 0 && (
+        <Card>
+          <CardContent className="flex flex-wrap items-center gap-3 py-3">
+            <div className="text-sm">
+              {allMatching ? (
+                <span>All {total} matching transactions selected</span>
+              ) : (
+                <span>{selectedCount} selected</span>
+              )}
+              {!allMatching && allOnPageSelected && total > transactions.length && (
+                <button
+                  onClick={() => setAllMatching(true)}
+                  className="text-primary ml-2 underline underline-offset-4 hover:no-underline"
+                >
+                  Select all {total} matching
+                </button>
+              )}
+            </div>
+
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              {isBulkPending && <Loader2 className="size-4 animate-spin" />}
+
+              <Select value={null} onValueChange={handleBulkCategory}>
+                <SelectTrigger className="w-[180px]" disabled={isBulkPending}>
+                  <SelectValue>Set category</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__" className="text-muted-foreground">
+                    Uncategorized
+                  </SelectItem>
+                  {categories.map(cat => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      {cat.icon ? `${cat.icon} ` : ''}
+                      {cat.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger
+                  render={<Button variant="outline" size="sm" disabled={isBulkPending} />}
+                >
+                  <MoreHorizontal className="size-4" />
+                  More
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-52">
+                  {tags.length > 0 && (
+                    <>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {tags.map(tag => (
+                            <DropdownMenuItem
+                              key={tag.id}
+                              onClick={() => handleBulk({ type: 'addTag', tagId: tag.id })}
+                            >
+                              {tag.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {tags.map(tag => (
+                            <DropdownMenuItem
+                              key={tag.id}
+                              onClick={() => handleBulk({ type: 'removeTag', tagId: tag.id })}
+                            >
+                              {tag.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  <DropdownMenuItem
+                    onClick={() => handleBulk({ type: 'markTransfer', value: true })}
+                  >
+                    Mark as transfer
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => handleBulk({ type: 'markTransfer', value: false })}
+                  >
+                    Unmark transfer
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => handleBulk({ type: 'excludeFromReports', value: true })}
+                  >
+                    Exclude from reports
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => handleBulk({ type: 'excludeFromReports', value: false })}
+                  >
+                    Include in reports
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <AlertDialog>
+                <AlertDialogTrigger
+                  render={<Button variant="destructive" size="sm" disabled={isBulkPending} />}
+                >
+                  <Trash2 className="size-4" />
+                  Delete
+                </AlertDialogTrigger>
+                <AlertDialogContent size="sm">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {selectedCount} transactions?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Every selected transaction is deleted. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      variant="destructive"
+                      onClick={() => handleBulk({ type: 'delete' })}
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+
+              <Button variant="ghost" size="sm" onClick={clearSelection}>
+                <X className="mr-1 size-3" />
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Transaction List */}
       {transactions.length === 0 ? (
         <Card>
@@ -310,6 +676,16 @@ export function TransactionList({
       ) : (
         <Card>
           <CardContent className="p-0">
+            <label className="text-muted-foreground flex items-center gap-3 border-b px-4 py-2 text-xs font-medium uppercase tracking-wide">
+              <input
+                type="checkbox"
+                className="accent-primary size-4"
+                checked={allOnPageSelected}
+                onChange={togglePageSelected}
+                aria-label="Select all on this page"
+              />
+              Select page
+            </label>
             <div className="divide-border divide-y">
               {transactions.map(tx => {
                 const isProcessing = pendingId === tx.id && isPending;
@@ -318,19 +694,45 @@ export function TransactionList({
                   <div key={tx.id} className="p-4">
                     {/* Desktop layout */}
                     <div className="hidden items-center gap-4 sm:flex">
+                      <input
+                        type="checkbox"
+                        className="accent-primary size-4 shrink-0"
+                        checked={allMatching || selectedIds.has(tx.id)}
+                        onChange={() => toggleSelected(tx.id)}
+                        aria-label={`Select ${tx.merchant}`}
+                      />
+
                       {/* Date */}
                       <div className="text-muted-foreground w-24 shrink-0 text-sm">
                         {formatDate(tx.date)}
                       </div>
 
                       {/* Merchant */}
-                      <div className="min-w-0 flex-1">
+                      <div className="flex min-w-0 flex-1 items-center gap-2">
                         <a
                           href={`/merchants?search=${encodeURIComponent(tx.merchant)}`}
                           className="truncate font-medium hover:underline"
                         >
                           {tx.merchant}
                         </a>
+                        {tx.status === 'pending' && <Badge variant="outline">Pending</Badge>}
+                        {tx.status === 'expired' && <Badge variant="destructive">Expired</Badge>}
+                        {tx.markedTransfer && <Badge variant="secondary">Transfer</Badge>}
+                        {tx.excludedFromReports && <Badge variant="outline">Excluded</Badge>}
+                        {tx.tags.map(tag => (
+                          <Badge
+                            key={tag.id}
+                            variant="outline"
+                            render={<Link href={`/tags/${tag.id}`} />}
+                          >
+                            {tag.name}
+                          </Badge>
+                        ))}
+                        {tx.note && (
+                          <span title={tx.note} className="text-muted-foreground shrink-0">
+                            <StickyNote className="size-3.5" />
+                          </span>
+                        )}
                       </div>
 
                       {/* Amount */}
@@ -340,7 +742,9 @@ export function TransactionList({
                           'w-28 shrink-0 text-right font-mono text-sm hover:underline',
                           tx.amount < 0
                             ? 'text-red-600 dark:text-red-400'
-                            : 'text-green-600 dark:text-green-400'
+                            : 'text-green-600 dark:text-green-400',
+                          tx.status === 'pending' && 'italic opacity-70',
+                          tx.status === 'expired' && 'line-through opacity-50'
                         )}
                       >
                         {formatAmount(tx.amount)}
@@ -419,6 +823,13 @@ export function TransactionList({
                     <div className="space-y-3 sm:hidden">
                       {/* Row 1: date + merchant + amount */}
                       <div className="flex items-start justify-between gap-2">
+                        <input
+                          type="checkbox"
+                          className="accent-primary mt-1 size-4 shrink-0"
+                          checked={allMatching || selectedIds.has(tx.id)}
+                          onChange={() => toggleSelected(tx.id)}
+                          aria-label={`Select ${tx.merchant}`}
+                        />
                         <div className="min-w-0 flex-1">
                           <a
                             href={`/merchants?search=${encodeURIComponent(tx.merchant)}`}
@@ -426,7 +837,17 @@ export function TransactionList({
                           >
                             {tx.merchant}
                           </a>
-                          <p className="text-muted-foreground text-xs">{formatDate(tx.date)}</p>
+                          <p className="text-muted-foreground text-xs">
+                            {formatDate(tx.date)}
+                            {tx.status === 'pending' && ' · Pending'}
+                            {tx.status === 'expired' && ' · Expired'}
+                            {tx.markedTransfer && ' · Transfer'}
+                            {tx.excludedFromReports && ' · Excluded'}
+                            {tx.tags.length > 0 && ` · ${tx.tags.map(t => t.name).join(', ')}`}
+                          </p>
+                          {tx.note && (
+                            <p className="text-muted-foreground truncate text-xs">{tx.note}</p>
+                          )}
                         </div>
                         <Link
                           href={`/transactions/${tx.id}`}
@@ -434,7 +855,9 @@ export function TransactionList({
                             'shrink-0 font-mono text-sm hover:underline',
                             tx.amount < 0
                               ? 'text-red-600 dark:text-red-400'
-                              : 'text-green-600 dark:text-green-400'
+                              : 'text-green-600 dark:text-green-400',
+                            tx.status === 'pending' && 'italic opacity-70',
+                            tx.status === 'expired' && 'line-through opacity-50'
                           )}
                         >
                           {formatAmount(tx.amount)}
@@ -0,0 +1,48 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getTransferPairs } from '@/lib/core/bank-account/queries';
+import { TRANSFER_WINDOW_DAYS } from '@/lib/core/bank-account/transfers';
+import { TransferReview } from './transfer-review';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const pairs = yield* getTransferPairs(session.user.id);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Transfers</h1>
+              <p className="text-muted-foreground mt-1">
+                Equal and opposite amounts in two of your accounts within {TRANSFER_WINDOW_DAYS}{' '}
+                days are flagged as transfers. Confirmed transfers are left out of income, expenses
+                and trends.
+              </p>
+            </div>
+
+            <TransferReview pairs={pairs} />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function TransfersPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeftRight, ArrowRight, Check, Loader2, ScanSearch, Unlink } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { confirmTransferAction } from '@/lib/core/bank-account/confirm-transfer-action';
+import { unlinkTransferAction } from '@/lib/core/bank-account/unlink-transfer-action';
+import { detectTransfersAction } from '@/lib/core/bank-account/detect-transfers-action';
+import type { TransferLeg, TransferPair } from '@/lib/core/bank-account/queries';
+import { formatCurrency } from '@/lib/utils';
+
+type Props = {
+  pairs: TransferPair[];
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('sv-SE');
+
+function Leg({ leg }: { leg: TransferLeg }) {
+  return (
+    <Link href={`/transactions/${leg.id}`} className="min-w-0 flex-1 hover:underline">
+      <div className="truncate text-sm font-medium">{leg.merchant}</div>
+      <div className="text-muted-foreground text-xs">
+        {leg.accountName ?? 'No account'} · {formatDate(leg.date)}
+      </div>
+    </Link>
+  );
+}
+
+export function TransferReview({ pairs: initialPairs }: Props) {
+  const [pairs, setPairs] = useState(initialPairs);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const suggested = pairs.filter(pair => !pair.confirmed);
+  const confirmed = pairs.filter(pair => pair.confirmed);
+
+  const handleDetect = () => {
+    setPendingAction('detect');
+    startTransition(async () => {
+      const result = await detectTransfersAction();
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setPairs(result.pairs);
+      toast.success(
+        result.linkedCount === 0
+          ? 'No new transfers found'
+          : `Found ${result.linkedCount} new transfer${result.linkedCount === 1 ? '' : 's'}`
+      );
+    });
+  };
+
+  const handleConfirm = (id: string) => {
+    setPendingAction(id);
+    startTransition(async () => {
+      const result = await confirmTransferAction({ id });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setPairs(prev => prev.map(p => (p.from.id === id ? { ...p, confirmed: true } : p)));
+      toast.success('Transfer confirmed');
+    });
+  };
+
+  const handleUnlink = (id: string) => {
+    setPendingAction(id);
+    startTransition(async () => {
+      const result = await unlinkTransferAction({ id });
+      setPendingAction(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setPairs(prev => prev.filter(p => p.from.id !== id));
+      toast.success('Transfer unlinked');
+    });
+  };
+
+  const renderPair = (pair: TransferPair) => (
+    <li
+      key={pair.from.id}
+      className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between"
+    >
+      <div className="flex min-w-0 flex-1 items-center gap-3">
+        <Leg leg={pair.from} />
+        <div className="flex shrink-0 flex-col items-center">
+          <span className="text-sm font-medium tabular-nums">
+            {formatCurrency(Math.abs(pair.from.amount))}
+          </span>
+          <ArrowRight className="text-muted-foreground size-4" />
+        </div>
+        <Leg leg={pair.to} />
+      </div>
+      <div className="flex gap-2">
+        {!pair.confirmed && (
+          <Button size="sm" disabled={isPending} onClick={() => handleConfirm(pair.from.id)}>
+            {pendingAction === pair.from.id ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Check className="size-4" />
+            )}
+            Confirm
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => handleUnlink(pair.from.id)}
+        >
+          <Unlink className="size-4" />
+          Unlink
+        </Button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="size-5" />
+              Suggested transfers
+            </CardTitle>
+            <CardDescription>
+              Still counted as income and expenses until you confirm them
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" disabled={isPending} onClick={handleDetect}>
+            {pendingAction === 'detect' ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <ScanSearch className="size-4" />
+            )}
+            Scan for transfers
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {suggested.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center text-sm">
+              No transfers to review.
+            </div>
+          ) : (
+            <ul className="divide-y">{suggested.map(renderPair)}</ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Confirmed transfers</CardTitle>
+          <CardDescription>Excluded from income, expenses and trends</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {confirmed.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center text-sm">
+              No confirmed transfers yet.
+            </div>
+          ) : (
+            <ul className="divide-y">{confirmed.map(renderPair)}</ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Table2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  DATE_FORMATS,
+  mapCsvRow,
+  type CsvMapping,
+  type DateFormat,
+  type DecimalSeparator,
+  type SignConvention
+} from '@/lib/core/import/csv-mapping';
+import { isRejection } from '@/lib/core/import/bank-parser';
+
+type Props = {
+  fileName: string;
+  preview: string[][];
+  isSubmitting: boolean;
+  onSubmit: (mapping: CsvMapping, profileName: string | null) => void;
+  onCancel: () => void;
+};
+
+const NONE = '__none__';
+
+const SIGN_LABELS: Record<SignConvention, string> = {
+  expensesNegative: 'Expenses are negative (-100)',
+  expensesPositive: 'Expenses are positive (100)'
+};
+
+/**
+ * Guess a column from common header names so the wizard starts close to right.
+ */
+function guessColumn(headers: string[], candidates: string[]): number | null {
+  const index = headers.findIndex(h => candidates.some(c => h.toLowerCase().includes(c)));
+  return index === -1 ? null : index;
+}
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('sv-SE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount);
+}
+
+export function CsvMappingWizard({ fileName, preview, isSubmitting, onSubmit, onCancel }: Props) {
+  const columnCount = Math.max(0, ...preview.map(row => row.length));
+
+  const [headerRow, setHeaderRow] = useState<number | null>(0);
+  const headers = headerRow === null ? [] : (preview[headerRow] ?? []);
+
+  const [dateColumn, setDateColumn] = useState<number | null>(() =>
+    guessColumn(preview[0] ?? [], ['date', 'datum', 'dag'])
+  );
+  const [merchantColumn, setMerchantColumn] = useState<number | null>(() =>
+    guessColumn(preview[0] ?? [], ['description', 'beskrivning', 'text', 'merchant', 'namn'])
+  );
+  const [amountColumn, setAmountColumn] = useState<number | null>(() =>
+    guessColumn(preview[0] ?? [], ['amount', 'belopp'])
+  );
+  const [balanceColumn, setBalanceColumn] = useState<number | null>(() =>
+    guessColumn(preview[0] ?? [], ['balance', 'saldo'])
+  );
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(',');
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD');
+  const [signConvention, setSignConvention] = useState<SignConvention>('expensesNegative');
+  const [profileName, setProfileName] = useState('');
+
+  const columnLabel = (index: number) => headers[index] || `Column ${index + 1}`;
+  const columns = Array.from({ length: columnCount }, (_, i) => i);
+
+  const mapping: CsvMapping | null =
+    dateColumn === null || merchantColumn === null || amountColumn === null
+      ? null
+      : {
+          headerRow,
+          dateColumn,
+          merchantColumn,
+          amountColumn,
+          balanceColumn,
+          decimalSeparator,
+          dateFormat,
+          signConvention
+        };
+
+  // Parse the preview rows with the current mapping so mistakes are visible immediately
+  const parsed = mapping
+    ? preview.slice((headerRow ?? -1) + 1).map(row => mapCsvRow(row, mapping))
+    : [];
+  const validRows = parsed.flatMap(row => (isRejection(row) ? [] : [row]));
+
+  const columnSelect = (
+    id: string,
+    label: string,
+    value: number | null,
+    onChange: (value: number | null) => void,
+    optional = false
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={value === null ? NONE : String(value)}
+        onValueChange={v => onChange(v === NONE || v === null ? null : Number(v))}
+      >
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue>
+            {value === null ? (optional ? 'None' : 'Select column') : columnLabel(value)}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>None</SelectItem>}
+          {columns.map(i => (
+            <SelectItem key={i} value={String(i)}>
+              {columnLabel(i)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start gap-3">
+        <Table2 className="text-muted-foreground mt-0.5 size-5" />
+        <div>
+          <p className="font-medium">Map columns for {fileName}</p>
+          <p className="text-muted-foreground text-sm">
+            This file doesn&apos;t match a known bank. Tell us which columns hold what.
+          </p>
+        </div>
+      </div>
+
+      {/* Raw preview */}
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-xs">
+          <tbody>
+            {preview.map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={rowIndex === headerRow ? 'bg-muted font-medium' : 'border-t'}
+              >
+                <td className="text-muted-foreground px-2 py-1 tabular-nums">{rowIndex + 1}</td>
+                {columns.map(i => (
+                  <td key={i} className="max-w-40 truncate px-2 py-1" title={row[i]}>
+                    {row[i]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="headerRow">Header row</Label>
+          <Select
+            value={headerRow === null ? NONE : String(headerRow)}
+            onValueChange={v => setHeaderRow(v === NONE || v === null ? null : Number(v))}
+          >
+            <SelectTrigger id="headerRow" className="w-full">
+              <SelectValue>
+                {headerRow === null ? 'No header row' : `Row ${headerRow + 1}`}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No header row</SelectItem>
+              {preview.map((_, i) => (
+                <SelectItem key={i} value={String(i)}>
+                  Row {i + 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {columnSelect('dateColumn', 'Date', dateColumn, setDateColumn)}
+        {columnSelect('merchantColumn', 'Merchant', merchantColumn, setMerchantColumn)}
+        {columnSelect('amountColumn', 'Amount', amountColumn, setAmountColumn)}
+        {columnSelect('balanceColumn', 'Balance (optional)', balanceColumn, setBalanceColumn, true)}
+
+        <div className="space-y-2">
+          <Label htmlFor="dateFormat">Date format</Label>
+          <Select
+            value={dateFormat}
+            onValueChange={v => {
+              const format = DATE_FORMATS.find(f => f === v);
+              if (format) setDateFormat(format);
+            }}
+          >
+            <SelectTrigger id="dateFormat" className="w-full">
+              <SelectValue>{dateFormat}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map(format => (
+                <SelectItem key={format} value={format}>
+                  {format}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="decimalSeparator">Decimal separator</Label>
+          <Select
+            value={decimalSeparator}
+            onValueChange={v => setDecimalSeparator(v === '.' ? '.' : ',')}
+          >
+            <SelectTrigger id="decimalSeparator" className="w-full">
+              <SelectValue>
+                {decimalSeparator === ',' ? 'Comma (1 234,56)' : 'Period (1,234.56)'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=",">Comma (1 234,56)</SelectItem>
+              <SelectItem value=".">Period (1,234.56)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="signConvention">Sign convention</Label>
+          <Select
+            value={signConvention}
+            onValueChange={v =>
+              setSignConvention(v === 'expensesPositive' ? 'expensesPositive' : 'expensesNegative')
+            }
+          >
+            <SelectTrigger id="signConvention" className="w-full">
+              <SelectValue>{SIGN_LABELS[signConvention]}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="expensesNegative">{SIGN_LABELS.expensesNegative}</SelectItem>
+              <SelectItem value="expensesPositive">{SIGN_LABELS.expensesPositive}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Parsed preview */}
+      {mapping && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Parsed preview{' '}
+            <span className="text-muted-foreground font-normal">
+              ({validRows.length} of {parsed.length} rows readable)
+            </span>
+          </p>
+          <div className="divide-y rounded-lg border text-sm">
+            {validRows.slice(0, 5).map((row, i) => (
+              <div key={i} className="flex items-center justify-between gap-4 px-3 py-2">
+                <span className="text-muted-foreground tabular-nums">
+                  {row.date.toISOString().slice(0, 10)}
+                </span>
+                <span className="flex-1 truncate">{row.merchant}</span>
+                <span
+                  className={
+                    row.amount < 0
+                      ? 'text-red-600 tabular-nums dark:text-red-400'
+                      : 'text-green-600 tabular-nums dark:text-green-400'
+                  }
+                >
+                  {formatAmount(row.amount)}
+                </span>
+              </div>
+            ))}
+            {validRows.length === 0 && (
+              <p className="text-muted-foreground px-3 py-2">
+                No rows could be read. Check the date format and decimal separator.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="profileName">Save as profile (optional)</Label>
+        <Input
+          id="profileName"
+          value={profileName}
+          onChange={e => setProfileName(e.target.value)}
+          placeholder="e.g. Eurocard"
+          maxLength={100}
+        />
+        <p className="text-muted-foreground text-xs">
+          {headerRow === null
+            ? 'Only files with a header row can be recognized automatically.'
+            : 'Files with the same headers will be imported with this profile, skipping this step.'}
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <Button onClick={onCancel} variant="outline" className="flex-1" disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          disabled={!mapping || validRows.length === 0 || isSubmitting}
+          onClick={() => mapping && onSubmit(mapping, profileName.trim() || null)}
+        >
+          {isSubmitting && <Loader2 className="size-4 animate-spin" />}
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { deleteImportProfileAction } from '@/lib/core/import/delete-import-profile-action';
+
+type ImportProfileItem = {
+  id: string;
+  name: string;
+  autoDetect: boolean;
+  createdAt: Date;
+};
+
+type Props = {
+  profiles: ImportProfileItem[];
+};
+
+export function ImportProfileList({ profiles: initialProfiles }: Props) {
+  const [profiles, setProfiles] = useState(initialProfiles);
+  const [isPending, startTransition] = useTransition();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleDelete = (profile: ImportProfileItem) => {
+    setPendingId(profile.id);
+    startTransition(async () => {
+      const result = await deleteImportProfileAction({ id: profile.id });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingId(null);
+        return;
+      }
+
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      setPendingId(null);
+      toast.success(`Deleted profile "${profile.name}"`);
+    });
+  };
+
+  if (profiles.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>CSV Import Profiles</CardTitle>
+        <CardDescription>Saved column mappings for csv files from other sources</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center justify-between gap-4 py-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{profile.name}</span>
+                {!profile.autoDetect && <Badge variant="outline">No header</Badge>}
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-muted-foreground text-sm">
+                  {profile.createdAt.toLocaleDateString('sv-SE')}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Delete ${profile.name}`}
+                  disabled={isPending}
+                  onClick={() => handleDelete(profile)}
+                >
+                  {pendingId === profile.id ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="size-4" />
+                  )}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
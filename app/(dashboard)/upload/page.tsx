@@ -1,27 +1,59 @@
 import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getImportProfiles } from '@/lib/core/import/queries';
+import { getBankAccounts } from '@/lib/core/bank-account/queries';
 import { UploadForm } from './upload-form';
+import { ImportProfileList } from './import-profile-list';
 import { LoadingFallback } from '../loading-fallback';
 
 export const dynamic = 'force-dynamic';
 
-function Content() {
-  return (
-    <main className="min-h-screen p-4 sm:p-8">
-      <div className="mx-auto max-w-6xl space-y-6">
-        <div>
-          <h1 className="text-2xl font-semibold tracking-tight">Upload Transactions</h1>
-          <p className="text-muted-foreground mt-1">
-            Import transactions from a Handelsbanken Excel export
-          </p>
-        </div>
-
-        <UploadForm />
-
-        <p className="text-muted-foreground text-center text-sm">
-          Duplicates are automatically detected and skipped based on date, merchant, and amount.
-        </p>
-      </div>
-    </main>
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const [profiles, accounts] = yield* Effect.all([
+        getImportProfiles(session.user.id),
+        getBankAccounts(session.user.id)
+      ]);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Upload Transactions</h1>
+              <p className="text-muted-foreground mt-1">
+                Import transactions from a bank export. The bank is detected automatically.
+              </p>
+            </div>
+
+            <UploadForm accounts={accounts.map(a => ({ id: a.id, name: a.name }))} />
+
+            <p className="text-muted-foreground text-center text-sm">
+              Duplicates are automatically detected and skipped based on the bank&apos;s transaction
+              id when the file has one, otherwise on date, merchant, and amount.
+            </p>
+
+            {profiles.length > 0 && (
+              <ImportProfileList
+                profiles={profiles.map(p => ({
+                  id: p.id,
+                  name: p.name,
+                  autoDetect: p.headerSignature !== null,
+                  createdAt: p.createdAt
+                }))}
+              />
+            )}
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
   );
 }
 
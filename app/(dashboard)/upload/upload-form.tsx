@@ -1,46 +1,129 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { Upload, FileSpreadsheet, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { Upload, FileSpreadsheet, Check, AlertCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import Link from 'next/link';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { uploadTransactionsAction } from '@/lib/core/transaction/upload-transactions-action';
+import {
+  uploadTransactionsAction,
+  type AmbiguousRows
+} from '@/lib/core/transaction/upload-transactions-action';
+import {
+  previewUploadAction,
+  type UploadPreviewRow
+} from '@/lib/core/transaction/preview-upload-action';
+import { createImportProfileAction } from '@/lib/core/import/create-import-profile-action';
+import type { CsvMapping } from '@/lib/core/import/csv-mapping';
+import type { ImportReportRow } from '@/lib/core/import/report';
+import { ImportReport } from '../uploads/import-report';
+import { CsvMappingWizard } from './csv-mapping-wizard';
+import { UploadPreview } from './upload-preview';
+
+type SelectedMapping = { mapping: CsvMapping; profileName: string | null };
+
+type Account = { id: string; name: string };
 
 type UploadState =
   | { status: 'idle' }
   | { status: 'processing'; fileName: string }
+  | { status: 'mapping'; file: File; preview: string[][]; isSubmitting: boolean }
+  | {
+      status: 'preview';
+      file: File;
+      mapping: SelectedMapping | null;
+      bank: string;
+      accountId: string | null;
+      rows: UploadPreviewRow[];
+      isSubmitting: boolean;
+    }
   | {
       status: 'success';
       fileName: string;
+      bank: string;
       newCount: number;
+      reconciledCount: number;
+      expiredCount: number;
       skippedCount: number;
+      excludedCount: number;
       categorizedCount: number;
+      transferCount: number;
+      ambiguous: AmbiguousRows[];
+      uploadId: string;
+      report: ImportReportRow[];
       dateRangeStart: Date | null;
       dateRangeEnd: Date | null;
     }
   | { status: 'error'; message: string };
 
-export function UploadForm() {
+type Props = {
+  accounts: Account[];
+};
+
+export function UploadForm({ accounts }: Props) {
   const [state, setState] = useState<UploadState>({ status: 'idle' });
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const toFormData = (
+    file: File,
+    mapping: SelectedMapping | null,
+    accountId: string | null | undefined
+  ) => {
+    // Send file directly to server action via FormData
+    const formData = new FormData();
+    formData.append('file', file);
+    // An empty id is an upload without account; leaving it out lets the preview pick one
+    if (accountId !== undefined) formData.append('accountId', accountId ?? '');
+    if (mapping) {
+      formData.append('mapping', JSON.stringify(mapping.mapping));
+      if (mapping.profileName) formData.append('profileName', mapping.profileName);
+    }
+    return formData;
+  };
 
-    // Validate file type
-    if (!file.name.endsWith('.xlsx')) {
-      setState({ status: 'error', message: 'Please select an Excel file (.xlsx)' });
-      return;
+  // Step 1: parse the file and show what would be imported, again when the account changes
+  const requestPreview = async (
+    file: File,
+    mapping: SelectedMapping | null,
+    accountId?: string | null
+  ) => {
+    try {
+      const result = await previewUploadAction(toFormData(file, mapping, accountId));
+
+      if (result._tag === 'Error') {
+        setState({ status: 'error', message: result.message });
+        return;
+      }
+
+      if (result._tag === 'NeedsMapping') {
+        setState({ status: 'mapping', file, preview: result.preview, isSubmitting: false });
+        return;
+      }
+
+      setState({
+        status: 'preview',
+        file,
+        mapping,
+        bank: result.bank,
+        accountId: result.accountId,
+        rows: result.rows,
+        isSubmitting: false
+      });
+    } catch {
+      setState({ status: 'error', message: 'An unexpected error occurred' });
     }
+  };
 
-    setState({ status: 'processing', fileName: file.name });
+  // Step 2: import the confirmed rows
+  const handleConfirm = async (rowIndexes: number[]) => {
+    if (state.status !== 'preview') return;
+    const { file, mapping, accountId } = state;
+    setState({ ...state, isSubmitting: true });
 
     try {
-      // Send file directly to server action via FormData
-      const formData = new FormData();
-      formData.append('file', file);
+      const formData = toFormData(file, mapping, accountId);
+      formData.append('rows', JSON.stringify(rowIndexes));
 
       const result = await uploadTransactionsAction(formData);
 
@@ -49,20 +132,58 @@ export function UploadForm() {
         return;
       }
 
+      if (result._tag === 'NeedsMapping') {
+        setState({ status: 'mapping', file, preview: result.preview, isSubmitting: false });
+        return;
+      }
+
       setState({
         status: 'success',
         fileName: file.name,
+        bank: result.bank,
         newCount: result.newCount,
+        reconciledCount: result.reconciledCount,
+        expiredCount: result.expiredCount,
         skippedCount: result.skippedCount,
+        excludedCount: result.excludedCount,
         categorizedCount: result.categorizedCount,
+        transferCount: result.transferCount,
+        ambiguous: result.ambiguous,
+        uploadId: result.uploadId,
+        report: result.report,
         dateRangeStart: result.dateRangeStart,
         dateRangeEnd: result.dateRangeEnd
       });
 
-      toast.success(`Imported ${result.newCount} transactions`);
+      toast.success(`Imported ${result.newCount} ${result.bank} transactions`);
     } catch {
       setState({ status: 'error', message: 'An unexpected error occurred' });
     }
+  };
+
+  // Pending matches depend on the account, so the preview is planned again
+  const handleAccountChange = async (accountId: string | null) => {
+    if (state.status !== 'preview') return;
+    const { file, mapping } = state;
+    setState({ ...state, isSubmitting: true });
+    await requestPreview(file, mapping, accountId);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // Validate file type (bank format is detected on the server)
+    if (!/\.(xlsx|csv|txt|xml|ofx|qfx)$/i.test(file.name)) {
+      setState({
+        status: 'error',
+        message: 'Please select a bank export (.xlsx, .csv, .xml, .ofx or .qfx)'
+      });
+      return;
+    }
+
+    setState({ status: 'processing', fileName: file.name });
+    await requestPreview(file, null);
 
     // Reset input so same file can be selected again
     if (inputRef.current) {
@@ -70,6 +191,29 @@ export function UploadForm() {
     }
   };
 
+  const handleMappingSubmit = async (mapping: CsvMapping, profileName: string | null) => {
+    if (state.status !== 'mapping') return;
+    const { file, preview } = state;
+    setState({ ...state, isSubmitting: true });
+
+    // Save the profile first so the next upload from this source skips the wizard
+    if (profileName) {
+      const result = await createImportProfileAction({
+        name: profileName,
+        mapping,
+        headerCells: mapping.headerRow === null ? null : (preview[mapping.headerRow] ?? null)
+      });
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setState({ status: 'mapping', file, preview, isSubmitting: false });
+        return;
+      }
+      toast.success(`Saved import profile "${profileName}"`);
+    }
+
+    await requestPreview(file, { mapping, profileName });
+  };
+
   const handleReset = () => {
     setState({ status: 'idle' });
   };
@@ -84,10 +228,11 @@ export function UploadForm() {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <FileSpreadsheet className="size-5" />
-          Excel File
+          Bank Export
         </CardTitle>
         <CardDescription>
-          Export your transactions from Handelsbanken and upload the .xlsx file
+          Upload an .xlsx or .csv export from Handelsbanken, SEB, Swedbank, Nordea, ICA Banken,
+          Revolut or American Express, or a camt.053 (.xml) or OFX/QFX statement from any bank
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -101,7 +246,7 @@ export function UploadForm() {
             <input
               ref={inputRef}
               type="file"
-              accept=".xlsx"
+              accept=".xlsx,.csv,.txt,.xml,.ofx,.qfx"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -118,13 +263,40 @@ export function UploadForm() {
           </div>
         )}
 
+        {state.status === 'mapping' && (
+          <CsvMappingWizard
+            fileName={state.file.name}
+            preview={state.preview}
+            isSubmitting={state.isSubmitting}
+            onSubmit={handleMappingSubmit}
+            onCancel={handleReset}
+          />
+        )}
+
+        {state.status === 'preview' && (
+          <UploadPreview
+            key={state.accountId ?? ''}
+            fileName={state.file.name}
+            bank={state.bank}
+            rows={state.rows}
+            accounts={accounts}
+            accountId={state.accountId}
+            isSubmitting={state.isSubmitting}
+            onAccountChange={handleAccountChange}
+            onConfirm={handleConfirm}
+            onCancel={handleReset}
+          />
+        )}
+
         {state.status === 'success' && (
           <div className="space-y-4">
             <div className="flex items-start gap-3 rounded-lg bg-green-50 p-4 dark:bg-green-950/30">
               <Check className="mt-0.5 size-5 text-green-600 dark:text-green-400" />
               <div className="flex-1">
                 <p className="font-medium text-green-900 dark:text-green-100">Import successful</p>
-                <p className="text-sm text-green-700 dark:text-green-300">{state.fileName}</p>
+                <p className="text-sm text-green-700 dark:text-green-300">
+                  {state.fileName} · {state.bank}
+                </p>
               </div>
             </div>
 
@@ -132,16 +304,38 @@ export function UploadForm() {
               <div className="rounded-lg border p-3">
                 <p className="text-muted-foreground text-xs uppercase tracking-wide">New</p>
                 <p className="text-2xl font-semibold">{state.newCount}</p>
+                {state.reconciledCount > 0 && (
+                  <p className="text-muted-foreground text-xs">
+                    + {state.reconciledCount} replaced pending
+                  </p>
+                )}
+                {state.expiredCount > 0 && (
+                  <p className="text-muted-foreground text-xs">
+                    {state.expiredCount} stale pending expired
+                  </p>
+                )}
               </div>
               <div className="rounded-lg border p-3">
                 <p className="text-muted-foreground text-xs uppercase tracking-wide">Skipped</p>
                 <p className="text-2xl font-semibold">{state.skippedCount}</p>
+                {state.excludedCount > 0 && (
+                  <p className="text-muted-foreground text-xs">+ {state.excludedCount} left out</p>
+                )}
               </div>
               <div className="rounded-lg border p-3">
                 <p className="text-muted-foreground text-xs uppercase tracking-wide">
                   Auto-categorized
                 </p>
                 <p className="text-2xl font-semibold">{state.categorizedCount}</p>
+                {state.transferCount > 0 && (
+                  <Link
+                    href="/transfers"
+                    className="text-muted-foreground text-xs underline underline-offset-2"
+                  >
+                    {state.transferCount} possible transfer{state.transferCount === 1 ? '' : 's'} to
+                    review
+                  </Link>
+                )}
               </div>
               <div className="rounded-lg border p-3">
                 <p className="text-muted-foreground text-xs uppercase tracking-wide">Date Range</p>
@@ -151,6 +345,40 @@ export function UploadForm() {
               </div>
             </div>
 
+            {state.ambiguous.length > 0 && (
+              <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-900 dark:bg-amber-950/30">
+                <p className="flex items-center gap-1.5 text-sm font-medium text-amber-900 dark:text-amber-100">
+                  <AlertTriangle className="size-4" />
+                  Identical same-day transactions matched by count
+                </p>
+                <ul className="space-y-1 text-sm text-amber-800 dark:text-amber-200">
+                  {state.ambiguous.map(group => (
+                    <li
+                      key={`${new Date(group.date).toISOString()}|${group.amount}|${group.merchant}`}
+                    >
+                      {formatDate(group.date)} · {group.merchant} · {group.amount.toFixed(2)}:{' '}
+                      {group.fileCount} in file, {group.importedCount} imported as new
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {state.report.length > state.newCount && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Row report{' '}
+                  <Link
+                    href={`/uploads/${state.uploadId}`}
+                    className="text-muted-foreground text-xs font-normal underline underline-offset-2"
+                  >
+                    kept in upload history
+                  </Link>
+                </p>
+                <ImportReport report={state.report} />
+              </div>
+            )}
+
             <div className="flex gap-3 pt-2">
               <Button onClick={handleReset} variant="outline" className="flex-1">
                 Upload Another
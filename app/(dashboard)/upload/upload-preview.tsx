@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ListChecks, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import type { UploadPreviewRow } from '@/lib/core/transaction/preview-upload-action';
+
+type Props = {
+  fileName: string;
+  bank: string;
+  rows: UploadPreviewRow[];
+  accounts: { id: string; name: string }[];
+  /** Account the rows were planned for; pending matches depend on it */
+  accountId: string | null;
+  isSubmitting: boolean;
+  onAccountChange: (accountId: string | null) => void;
+  onConfirm: (rowIndexes: number[]) => void;
+  onCancel: () => void;
+};
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('sv-SE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount);
+}
+
+export function UploadPreview({
+  fileName,
+  bank,
+  rows,
+  accounts,
+  accountId,
+  isSubmitting,
+  onAccountChange,
+  onConfirm,
+  onCancel
+}: Props) {
+  const newRows = rows.filter(row => !row.duplicate);
+  const duplicateCount = rows.length - newRows.length;
+  const ambiguousCount = rows.filter(row => row.ambiguous).length;
+  const reconciledCount = newRows.filter(row => row.replacesPendingDate !== null).length;
+  // Ambiguous duplicates may be real repeats, so they can be selected too
+  const selectable = rows.filter(row => !row.duplicate || row.ambiguous);
+
+  // All new rows start selected; other duplicates can never be selected
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(newRows.map(row => row.index))
+  );
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const allSelected = selectable.length > 0 && selected.size === selectable.length;
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(selectable.map(row => row.index)));
+  };
+
+  const categorizedCount = selectable.filter(
+    row => selected.has(row.index) && row.categoryId !== null
+  ).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3">
+        <ListChecks className="text-muted-foreground mt-0.5 size-5" />
+        <div>
+          <p className="font-medium">Review {fileName}</p>
+          <p className="text-muted-foreground text-sm">
+            {bank} · {newRows.length} new, {duplicateCount} already imported. Nothing is saved until
+            you confirm.
+            {reconciledCount > 0 &&
+              ` ${reconciledCount} new ${reconciledCount === 1 ? 'row replaces a' : 'rows replace'} pending ${reconciledCount === 1 ? 'transaction' : 'transactions'}.`}
+          </p>
+          {ambiguousCount > 0 && (
+            <p className="mt-1 flex items-center gap-1.5 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="size-4 shrink-0" />
+              {ambiguousCount} identical same-day {ambiguousCount === 1 ? 'row was' : 'rows were'}{' '}
+              matched by count only. Check whether they are repeat purchases.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0 text-left text-xs">
+            <tr>
+              <th className="w-8 px-3 py-2">
+                <input
+                  type="checkbox"
+                  aria-label="Select all new transactions"
+                  className="accent-primary size-4 align-middle"
+                  checked={allSelected}
+                  disabled={selectable.length === 0 || isSubmitting}
+                  onChange={toggleAll}
+                />
+              </th>
+              <th className="px-3 py-2 font-medium">Date</th>
+              <th className="px-3 py-2 font-medium">Merchant</th>
+              <th className="px-3 py-2 font-medium">Category</th>
+              <th className="px-3 py-2 text-right font-medium">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.index}
+                className={row.duplicate ? 'text-muted-foreground border-t' : 'border-t'}
+              >
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    aria-label={`Import ${row.merchant}`}
+                    className="accent-primary size-4 align-middle"
+                    checked={selected.has(row.index)}
+                    disabled={(row.duplicate && !row.ambiguous) || isSubmitting}
+                    onChange={() => toggle(row.index)}
+                  />
+                </td>
+                <td className="px-3 py-2 tabular-nums whitespace-nowrap">
+                  {new Date(row.date).toLocaleDateString('sv-SE')}
+                </td>
+                <td className="max-w-48 truncate px-3 py-2" title={row.merchant}>
+                  {row.ambiguous && (
+                    <AlertTriangle
+                      className="mr-1.5 inline size-3.5 text-amber-600 dark:text-amber-400"
+                      aria-label="Identical to another row of the same day"
+                    />
+                  )}
+                  {row.merchant}
+                  {row.pending && (
+                    <Badge variant="outline" className="ml-1.5">
+                      Pending
+                    </Badge>
+                  )}
+                  {row.replacesPendingDate && (
+                    <Badge
+                      variant="secondary"
+                      className="ml-1.5"
+                      title={`Replaces the pending row from ${new Date(row.replacesPendingDate).toLocaleDateString('sv-SE')}`}
+                    >
+                      Replaces pending
+                    </Badge>
+                  )}
+                  {row.possiblyReplaces && (
+                    <Badge
+                      variant="outline"
+                      className="ml-1.5"
+                      title={`Same amount as the pending row "${row.possiblyReplaces.merchant}" from ${new Date(row.possiblyReplaces.date).toLocaleDateString('sv-SE')}, but too unlike to replace it. Imported as new; the pending row expires if the bank never books it.`}
+                    >
+                      Possibly pending
+                    </Badge>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  {row.duplicate ? (
+                    <Badge variant="outline">
+                      {row.ambiguous ? 'Possible duplicate' : 'Duplicate'}
+                    </Badge>
+                  ) : row.categoryName ? (
+                    <span className="whitespace-nowrap">
+                      {row.categoryIcon} {row.categoryName}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">Uncategorized</span>
+                  )}
+                </td>
+                <td
+                  className={
+                    row.duplicate
+                      ? 'px-3 py-2 text-right tabular-nums'
+                      : row.amount < 0
+                        ? 'px-3 py-2 text-right text-red-600 tabular-nums dark:text-red-400'
+                        : 'px-3 py-2 text-right text-green-600 tabular-nums dark:text-green-400'
+                  }
+                >
+                  {formatAmount(row.amount)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {accounts.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="uploadAccount">Account</Label>
+          <Select
+            value={accountId ?? '__none__'}
+            onValueChange={v => onAccountChange(v === '__none__' || v === null ? null : v)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="uploadAccount" className="w-full sm:w-72">
+              <SelectValue>
+                {accounts.find(a => a.id === accountId)?.name ?? 'No account'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__none__">No account</SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <p className="text-muted-foreground text-sm">
+        {selected.size} selected, {categorizedCount} will be auto-categorized
+      </p>
+
+      <div className="flex gap-3">
+        <Button onClick={onCancel} variant="outline" className="flex-1" disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          disabled={selected.size === 0 || isSubmitting}
+          onClick={() => onConfirm([...selected].sort((a, b) => a - b))}
+        >
+          {isSubmitting && <Loader2 className="size-4 animate-spin" />}
+          Import {selected.size} {selected.size === 1 ? 'transaction' : 'transactions'}
+        </Button>
+      </div>
+    </div>
+  );
+}
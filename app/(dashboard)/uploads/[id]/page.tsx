@@ -0,0 +1,87 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getUploadReport } from '@/lib/core/import/queries';
+import { bankDisplayName } from '@/lib/core/import/registry';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ImportReport } from '../import-report';
+import { LoadingFallback } from '../../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+const formatDate = (date: Date | null) => (date ? date.toLocaleDateString('sv-SE') : 'N/A');
+
+async function Content({ params }: Props) {
+  await cookies();
+  const { id } = await params;
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const upload = yield* getUploadReport(session.user.id, id);
+
+      if (!upload) {
+        notFound();
+      }
+
+      const bankName = bankDisplayName(upload.bank);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <Link
+                href="/uploads"
+                className="text-muted-foreground hover:text-foreground inline-flex items-center gap-1 text-sm transition-colors"
+              >
+                <ArrowLeft className="size-4" />
+                Upload History
+              </Link>
+              <h1 className="mt-2 text-2xl font-semibold tracking-tight">{upload.fileName}</h1>
+              <p className="text-muted-foreground mt-1">
+                {bankName && `${bankName} · `}Uploaded {formatDate(upload.createdAt)} ·{' '}
+                {formatDate(upload.dateRangeStart)} - {formatDate(upload.dateRangeEnd)}
+              </p>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Import report</CardTitle>
+                <CardDescription>
+                  What happened to every row of the file, with the values as the bank exported them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {upload.report ? (
+                  <ImportReport report={upload.report} />
+                ) : (
+                  <div className="text-muted-foreground py-8 text-center text-sm">
+                    This upload was made before import reports were kept.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function UploadReportPage({ params }: Props) {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content params={params} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  countOutcomes,
+  IMPORT_OUTCOMES,
+  IMPORT_OUTCOME_LABELS,
+  type ImportOutcome,
+  type ImportReportRow
+} from '@/lib/core/import/report';
+
+type Props = {
+  report: ImportReportRow[];
+};
+
+const OUTCOME_VARIANTS: Record<ImportOutcome, 'default' | 'secondary' | 'outline' | 'destructive'> =
+  {
+    inserted: 'default',
+    reconciled: 'default',
+    duplicate: 'secondary',
+    excluded: 'outline',
+    preliminary: 'outline',
+    invalid: 'destructive'
+  };
+
+/**
+ * Per-row import report, filterable by outcome. Links inserted and reconciled
+ * rows to their transaction.
+ */
+export function ImportReport({ report }: Props) {
+  const counts = countOutcomes(report);
+  const [filter, setFilter] = useState<ImportOutcome | 'all'>('all');
+
+  const rows = filter === 'all' ? report : report.filter(row => row.outcome === filter);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={filter === 'all' ? 'default' : 'outline'}
+          onClick={() => setFilter('all')}
+        >
+          All {report.length}
+        </Button>
+        {IMPORT_OUTCOMES.filter(outcome => counts[outcome] > 0).map(outcome => (
+          <Button
+            key={outcome}
+            size="sm"
+            variant={filter === outcome ? 'default' : 'outline'}
+            onClick={() => setFilter(outcome)}
+          >
+            {IMPORT_OUTCOME_LABELS[outcome]} {counts[outcome]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0 text-left text-xs">
+            <tr>
+              <th className="px-3 py-2 text-right font-medium">Row</th>
+              <th className="px-3 py-2 font-medium">Outcome</th>
+              <th className="px-3 py-2 font-medium">Values in the file</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.line} className="border-t align-top">
+                <td className="text-muted-foreground px-3 py-2 text-right tabular-nums">
+                  {row.line}
+                </td>
+                <td className="px-3 py-2">
+                  {row.transactionId ? (
+                    <Link href={`/transactions/${row.transactionId}`}>
+                      <Badge variant={OUTCOME_VARIANTS[row.outcome]}>
+                        {IMPORT_OUTCOME_LABELS[row.outcome]}
+                      </Badge>
+                    </Link>
+                  ) : (
+                    <Badge variant={OUTCOME_VARIANTS[row.outcome]}>
+                      {IMPORT_OUTCOME_LABELS[row.outcome]}
+                    </Badge>
+                  )}
+                  {row.reason && (
+                    <p className="text-muted-foreground mt-1 max-w-64 text-xs">{row.reason}</p>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  <dl className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs">
+                    {Object.entries(row.raw).map(([column, value]) => (
+                      <div key={column} className="flex gap-1">
+                        <dt className="text-muted-foreground">{column}:</dt>
+                        <dd className="max-w-64 truncate" title={value}>
+                          {value}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getUploadHistory } from '@/lib/core/import/queries';
+import { bankDisplayName } from '@/lib/core/import/registry';
+import { UploadHistory } from './upload-history';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const uploads = yield* getUploadHistory(session.user.id);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div className="flex items-end justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-semibold tracking-tight">Upload History</h1>
+                <p className="text-muted-foreground mt-1">
+                  Past imports and the transactions they created
+                </p>
+              </div>
+              <Link
+                href="/upload"
+                className="bg-primary text-primary-foreground hover:bg-primary/80 inline-flex items-center justify-center rounded-md px-4 py-2 text-sm font-medium transition-colors"
+              >
+                Upload
+              </Link>
+            </div>
+
+            <UploadHistory
+              uploads={uploads.map(upload => ({
+                ...upload,
+                bankName: bankDisplayName(upload.bank)
+              }))}
+            />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function UploadsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
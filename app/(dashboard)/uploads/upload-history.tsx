@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { History, Loader2, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { rollbackUploadAction } from '@/lib/core/import/rollback-upload-action';
+import type { UploadHistoryItem } from '@/lib/core/import/queries';
+import { describeGap, ReconciliationBadge } from '@/components/balance-reconciliation';
+
+type Upload = UploadHistoryItem & {
+  bankName: string | null;
+};
+
+type Props = {
+  uploads: Upload[];
+};
+
+const formatDate = (date: Date | null) => (date ? date.toLocaleDateString('sv-SE') : 'N/A');
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export function UploadHistory({ uploads: initialUploads }: Props) {
+  const [uploads, setUploads] = useState(initialUploads);
+  const [isPending, startTransition] = useTransition();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<Upload | null>(null);
+
+  const handleRollback = (id: string) => {
+    setPendingId(id);
+    startTransition(async () => {
+      const result = await rollbackUploadAction({ id });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingId(null);
+        setRollbackTarget(null);
+        return;
+      }
+
+      setUploads(prev => prev.filter(u => u.id !== id));
+      setPendingId(null);
+      setRollbackTarget(null);
+      const restored =
+        result.restoredCount > 0
+          ? `, ${plural(result.restoredCount, 'transaction')} back to pending`
+          : '';
+      toast.success(
+        `Rolled back ${result.fileName}, removed ${plural(result.deletedCount, 'transaction')}${restored}`
+      );
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="size-5" />
+          Imports
+        </CardTitle>
+        <CardDescription>
+          Rolling back an upload removes exactly the transactions it created
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {uploads.length === 0 ? (
+          <div className="text-muted-foreground py-8 text-center text-sm">No uploads yet.</div>
+        ) : (
+          <ul className="divide-y">
+            {uploads.map(upload => (
+              <li
+                key={upload.id}
+                className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    {upload.hasReport ? (
+                      <Link
+                        href={`/uploads/${upload.id}`}
+                        className="truncate font-medium hover:underline"
+                      >
+                        {upload.fileName}
+                      </Link>
+                    ) : (
+                      <span className="truncate font-medium">{upload.fileName}</span>
+                    )}
+                    {upload.bankName && <Badge variant="outline">{upload.bankName}</Badge>}
+                    <ReconciliationBadge reconciliation={upload.reconciliation} />
+                  </div>
+                  <p className="text-muted-foreground text-sm">
+                    Uploaded {formatDate(upload.createdAt)} · {formatDate(upload.dateRangeStart)} -{' '}
+                    {formatDate(upload.dateRangeEnd)}
+                  </p>
+                  <p className="text-muted-foreground text-sm">
+                    {plural(upload.transactionCount, 'transaction')} imported
+                    {upload.remainingCount !== upload.transactionCount &&
+                      `, ${upload.remainingCount} remaining`}
+                    {upload.editedCount > 0 && ` · ${upload.editedCount} edited since`}
+                  </p>
+                  {upload.reconciliation?.gaps.slice(0, 3).map(gap => (
+                    <p key={gap.id} className="text-sm text-red-600 dark:text-red-400">
+                      Balance breaks on {describeGap(gap)}
+                    </p>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => setRollbackTarget(upload)}
+                >
+                  {pendingId === upload.id ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <Undo2 className="size-4" />
+                  )}
+                  Roll back
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Rollback confirmation dialog */}
+      <AlertDialog open={rollbackTarget !== null} onOpenChange={() => setRollbackTarget(null)}>
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back upload?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the {plural(rollbackTarget?.remainingCount ?? 0, 'transaction')} imported from
+              &quot;{rollbackTarget?.fileName}&quot;.
+              {(rollbackTarget?.editedCount ?? 0) > 0 && (
+                <>
+                  {' '}
+                  {plural(rollbackTarget?.editedCount ?? 0, 'row')} edited since the import
+                  {(rollbackTarget?.categorizedCount ?? 0) > 0 &&
+                    ` (${rollbackTarget?.categorizedCount} categorized)`}{' '}
+                  will be lost.
+                </>
+              )}{' '}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              onClick={() => rollbackTarget && handleRollback(rollbackTarget.id)}
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { Loader2, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { addHouseholdMemberAction } from '@/lib/core/household/add-household-member-action';
+import { removeHouseholdMemberAction } from '@/lib/core/household/remove-household-member-action';
+import type { HouseholdEntry } from '@/lib/core/household/queries';
+
+type Props = {
+  entries: HouseholdEntry[];
+};
+
+export function HouseholdList({ entries: initialEntries }: Props) {
+  const [entries, setEntries] = useState(initialEntries);
+  const [email, setEmail] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const handleAdd = () => {
+    if (!email.trim()) {
+      toast.error('Email is required');
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await addHouseholdMemberAction({ email });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      const { entry } = result;
+      setEntries(prev =>
+        [...prev.filter(e => e.email !== entry.email), entry].sort((a, b) =>
+          a.email.localeCompare(b.email)
+        )
+      );
+      setEmail('');
+      toast.success(
+        entry.member
+          ? `${entry.member.name} is now in your household`
+          : `Added ${entry.email}; ask them to add your email too`
+      );
+    });
+  };
+
+  const handleRemove = (entry: HouseholdEntry) => {
+    startTransition(async () => {
+      const result = await removeHouseholdMemberAction({ email: entry.email });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setEntries(prev => prev.filter(e => e.email !== entry.email));
+      toast.success(`Removed ${entry.member?.name ?? entry.email} from your household`);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Household</CardTitle>
+        <CardDescription>
+          Add the emails your household signs in with. Views can be shared with someone once they
+          have added your email too.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {entries.map(entry => (
+              <Badge
+                key={entry.email}
+                variant={entry.member ? 'secondary' : 'outline'}
+                title={entry.member ? entry.email : 'Waiting for them to add your email'}
+              >
+                {entry.member?.name ?? entry.email}
+                {!entry.member && <span className="text-muted-foreground">(waiting)</span>}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(entry)}
+                  disabled={isPending}
+                  aria-label={`Remove ${entry.member?.name ?? entry.email} from your household`}
+                  className="hover:text-foreground text-muted-foreground"
+                >
+                  <X className="size-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="Household member's email"
+            className="h-8 flex-1"
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={isPending}>
+            {isPending ? <Loader2 className="size-4 animate-spin" /> : 'Add'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
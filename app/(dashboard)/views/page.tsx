@@ -0,0 +1,52 @@
+import { Suspense } from 'react';
+import { Effect } from 'effect';
+import { cookies } from 'next/headers';
+import { NextEffect } from '@/lib/next-effect';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getSavedViews } from '@/lib/core/saved-view/queries';
+import { getHouseholdMembers } from '@/lib/core/household/queries';
+import { HouseholdList } from './household-list';
+import { ViewList } from './view-list';
+import { LoadingFallback } from '../loading-fallback';
+
+export const dynamic = 'force-dynamic';
+
+async function Content() {
+  await cookies();
+
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const [views, household] = yield* Effect.all([
+        getSavedViews(session.user.id),
+        getHouseholdMembers(session.user.id)
+      ]);
+
+      return (
+        <main className="min-h-screen p-4 sm:p-8">
+          <div className="mx-auto max-w-6xl space-y-6">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">Saved views</h1>
+              <p className="text-muted-foreground mt-1">
+                Named filters of the transactions and merchants pages, pinned to the header or
+                shared with your household
+              </p>
+            </div>
+
+            <ViewList views={views} />
+            <HouseholdList entries={household} />
+          </div>
+        </main>
+      );
+    }).pipe(Effect.provide(AppLayer), Effect.scoped)
+  );
+}
+
+export default async function ViewsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <Content />
+    </Suspense>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
+import { BookmarkPlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverDescription,
+  PopoverHeader,
+  PopoverTitle,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import { createSavedViewAction } from '@/lib/core/saved-view/create-saved-view-action';
+import type { SavedViewPage } from '@/lib/core/saved-view/view';
+
+type Props = {
+  page: SavedViewPage;
+};
+
+/**
+ * Save the page's current URL filters as a named view.
+ */
+export function SaveViewButton({ page }: Props) {
+  const searchParams = useSearchParams();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const handleSave = (pinned: boolean) => {
+    if (!name.trim()) {
+      toast.error('View name is required');
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await createSavedViewAction({
+        name,
+        page,
+        query: searchParams.toString(),
+        pinned
+      });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setOpen(false);
+      setName('');
+      toast.success(
+        pinned
+          ? `Saved and pinned "${result.view.name}"`
+          : `Saved "${result.view.name}" to your views`
+      );
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger render={<Button type="button" variant="outline" />}>
+        <BookmarkPlus className="mr-2 size-4" />
+        Save view
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <PopoverHeader>
+          <PopoverTitle>Save view</PopoverTitle>
+          <PopoverDescription>Keeps the current filters under a name.</PopoverDescription>
+        </PopoverHeader>
+        <Input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="e.g. Uncategorized over 1000 kr"
+          maxLength={50}
+          autoFocus
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleSave(false);
+          }}
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleSave(false)}
+            disabled={isPending}
+          >
+            Save
+          </Button>
+          <Button size="sm" onClick={() => handleSave(true)} disabled={isPending}>
+            {isPending ? <Loader2 className="size-4 animate-spin" /> : 'Save and pin'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,408 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Pencil, Trash2, Loader2, MoreHorizontal, Pin, PinOff, Share2, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { updateSavedViewAction } from '@/lib/core/saved-view/update-saved-view-action';
+import { deleteSavedViewAction } from '@/lib/core/saved-view/delete-saved-view-action';
+import { shareSavedViewAction } from '@/lib/core/saved-view/share-saved-view-action';
+import { unshareSavedViewAction } from '@/lib/core/saved-view/unshare-saved-view-action';
+import { SAVED_VIEW_PAGE_LABELS } from '@/lib/core/saved-view/view';
+import type { SavedViewItem } from '@/lib/core/saved-view/queries';
+
+type Props = {
+  views: SavedViewItem[];
+};
+
+export function ViewList({ views: initialViews }: Props) {
+  const [views, setViews] = useState(initialViews);
+  const [isPending, startTransition] = useTransition();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  // Edit state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  // Share state
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [shareEmail, setShareEmail] = useState('');
+
+  // Delete confirmation state
+  const [deleteTarget, setDeleteTarget] = useState<SavedViewItem | null>(null);
+
+  const ownViews = views.filter(view => view.sharedBy === null);
+  const sharedViews = views.filter(view => view.sharedBy !== null);
+
+  const updateView = (id: string, update: Partial<SavedViewItem>) =>
+    setViews(prev => prev.map(view => (view.id === id ? { ...view, ...update } : view)));
+
+  const handlePin = (view: SavedViewItem) => {
+    setPendingAction(view.id);
+    startTransition(async () => {
+      const result = await updateSavedViewAction({ id: view.id, pinned: !view.pinned });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      updateView(view.id, { pinned: !view.pinned });
+      setPendingAction(null);
+      toast.success(
+        view.pinned ? `Unpinned "${view.name}"` : `Pinned "${view.name}" to the header`
+      );
+    });
+  };
+
+  const handleRename = (id: string) => {
+    if (!editName.trim()) {
+      toast.error('View name is required');
+      return;
+    }
+
+    setPendingAction(id);
+    startTransition(async () => {
+      const result = await updateSavedViewAction({ id, name: editName });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      updateView(id, { name: editName.trim() });
+      setEditingId(null);
+      setEditName('');
+      setPendingAction(null);
+      toast.success(`Renamed view to "${editName.trim()}"`);
+    });
+  };
+
+  const handleShare = (view: SavedViewItem) => {
+    if (!shareEmail.trim()) {
+      toast.error('Email is required');
+      return;
+    }
+
+    setPendingAction(view.id);
+    startTransition(async () => {
+      const result = await shareSavedViewAction({ id: view.id, email: shareEmail });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      const member = result.member;
+      updateView(view.id, {
+        sharedWith: [...view.sharedWith.filter(m => m.userId !== member.userId), member].sort(
+          (a, b) => a.name.localeCompare(b.name)
+        )
+      });
+      setSharingId(null);
+      setShareEmail('');
+      setPendingAction(null);
+      toast.success(`Shared "${view.name}" with ${member.name}`);
+    });
+  };
+
+  const handleUnshare = (view: SavedViewItem, userId: string) => {
+    setPendingAction(view.id);
+    startTransition(async () => {
+      const result = await unshareSavedViewAction({ id: view.id, userId });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        return;
+      }
+
+      updateView(view.id, { sharedWith: view.sharedWith.filter(m => m.userId !== userId) });
+      setPendingAction(null);
+    });
+  };
+
+  const handleDelete = (view: SavedViewItem) => {
+    setPendingAction(view.id);
+    startTransition(async () => {
+      const result = await deleteSavedViewAction({ id: view.id });
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        setPendingAction(null);
+        setDeleteTarget(null);
+        return;
+      }
+
+      setViews(prev => prev.filter(v => v.id !== view.id));
+      setPendingAction(null);
+      setDeleteTarget(null);
+      toast.success(
+        view.sharedBy === null ? `Deleted view "${view.name}"` : `Removed view "${view.name}"`
+      );
+    });
+  };
+
+  const startEdit = (view: SavedViewItem) => {
+    setEditingId(view.id);
+    setEditName(view.name);
+    setSharingId(null);
+  };
+
+  const startShare = (view: SavedViewItem) => {
+    setSharingId(view.id);
+    setShareEmail('');
+    setEditingId(null);
+  };
+
+  const renderPinButton = (view: SavedViewItem) => (
+    <Button
+      variant="ghost"
+      size="icon-sm"
+      onClick={() => handlePin(view)}
+      disabled={isPending && pendingAction === view.id}
+      aria-label={view.pinned ? 'Unpin from header' : 'Pin to header'}
+      title={view.pinned ? 'Unpin from header' : 'Pin to header'}
+    >
+      {view.pinned ? <PinOff className="size-4" /> : <Pin className="size-4" />}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Your views</CardTitle>
+          <CardDescription>
+            Save a view with the Save view button on the transactions or merchants page
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {ownViews.map(view => {
+            const isEditing = editingId === view.id;
+            const isSharing = sharingId === view.id;
+            const isProcessing = isPending && pendingAction === view.id;
+
+            return (
+              <div key={view.id} className="border-border space-y-2 rounded-lg border p-3">
+                <div className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    {isEditing ? (
+                      <Input
+                        value={editName}
+                        onChange={e => setEditName(e.target.value)}
+                        className="h-8"
+                        maxLength={50}
+                        autoFocus
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleRename(view.id);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                      />
+                    ) : (
+                      <Link
+                        href={view.href}
+                        className="hover:text-foreground block truncate font-medium transition-colors"
+                      >
+                        {view.name}
+                      </Link>
+                    )}
+                  </div>
+
+                  <Badge variant="secondary">{SAVED_VIEW_PAGE_LABELS[view.page]}</Badge>
+
+                  {isEditing ? (
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() => handleRename(view.id)}
+                        disabled={isProcessing}
+                      >
+                        {isProcessing ? <Loader2 className="size-4 animate-spin" /> : 'Save'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      {renderPinButton(view)}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger
+                          render={<Button variant="ghost" size="icon-sm" disabled={isProcessing} />}
+                        >
+                          {isProcessing ? (
+                            <Loader2 className="size-4 animate-spin" />
+                          ) : (
+                            <MoreHorizontal className="size-4" />
+                          )}
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => startEdit(view)}>
+                            <Pencil />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => startShare(view)}>
+                            <Share2 />
+                            Share
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            variant="destructive"
+                            onClick={() => setDeleteTarget(view)}
+                          >
+                            <Trash2 />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </div>
+
+                {view.sharedWith.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                    <span className="text-muted-foreground">Shared with</span>
+                    {view.sharedWith.map(member => (
+                      <Badge key={member.userId} variant="outline" title={member.email}>
+                        {member.name}
+                        <button
+                          type="button"
+                          onClick={() => handleUnshare(view, member.userId)}
+                          disabled={isProcessing}
+                          aria-label={`Stop sharing with ${member.name}`}
+                          className="hover:text-foreground text-muted-foreground"
+                        >
+                          <X className="size-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {isSharing && (
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      value={shareEmail}
+                      onChange={e => setShareEmail(e.target.value)}
+                      placeholder="Household member's email"
+                      className="h-8 flex-1"
+                      autoFocus
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') handleShare(view);
+                        if (e.key === 'Escape') setSharingId(null);
+                      }}
+                    />
+                    <Button size="sm" onClick={() => handleShare(view)} disabled={isProcessing}>
+                      {isProcessing ? <Loader2 className="size-4 animate-spin" /> : 'Share'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setSharingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {ownViews.length === 0 && (
+            <div className="text-muted-foreground py-8 text-center text-sm">
+              No saved views yet.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {sharedViews.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Shared with you</CardTitle>
+            <CardDescription>
+              Categories and tags are matched by name against your own
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {sharedViews.map(view => (
+              <div
+                key={view.id}
+                className="border-border flex items-center gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={view.href}
+                    className="hover:text-foreground block truncate font-medium transition-colors"
+                  >
+                    {view.name}
+                  </Link>
+                  <p className="text-muted-foreground text-xs">Shared by {view.sharedBy}</p>
+                </div>
+
+                <Badge variant="secondary">{SAVED_VIEW_PAGE_LABELS[view.page]}</Badge>
+                {renderPinButton(view)}
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setDeleteTarget(view)}
+                  aria-label="Remove view"
+                  title="Remove view"
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent size="sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTarget?.sharedBy === null ? 'Delete view?' : 'Remove view?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.sharedBy === null
+                ? `Delete "${deleteTarget?.name}"? Members it is shared with lose it too.`
+                : `Remove "${deleteTarget?.name}" from your views? ${deleteTarget?.sharedBy} keeps it.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              onClick={() => deleteTarget && handleDelete(deleteTarget)}
+            >
+              {deleteTarget?.sharedBy === null ? 'Delete' : 'Remove'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Effect, Match } from 'effect';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Storage } from '@/lib/services/storage/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError } from '@/lib/core/errors';
+import { isInlineContentType } from '@/lib/core/attachment/files';
+
+type Context = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Serve an attachment of the signed-in user. Plain images (JPEG, PNG, WebP) are
+ * shown inline unless `?download` is given; anything else is always a download.
+ * The sandbox policy keeps any content from running script on the app's origin.
+ */
+export async function GET(request: Request, { params }: Context) {
+  const { id } = await params;
+  const download = new URL(request.url).searchParams.has('download');
+
+  return await Effect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const db = yield* Db;
+      const storage = yield* Storage;
+
+      const [attachment] = yield* db
+        .select({
+          fileName: schema.attachment.fileName,
+          contentType: schema.attachment.contentType,
+          storageKey: schema.attachment.storageKey
+        })
+        .from(schema.attachment)
+        .where(and(eq(schema.attachment.id, id), eq(schema.attachment.userId, session.user.id)))
+        .limit(1);
+
+      if (!attachment) {
+        return yield* new NotFoundError({
+          message: 'Attachment not found',
+          entity: 'attachment',
+          id
+        });
+      }
+
+      const data = yield* storage.get(attachment.storageKey);
+      const inline = !download && isInlineContentType(attachment.contentType);
+
+      return new Response(new Uint8Array(data), {
+        headers: {
+          'Content-Type': attachment.contentType,
+          'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+          'Cache-Control': 'private, no-store',
+          'X-Content-Type-Options': 'nosniff',
+          'Content-Security-Policy': 'sandbox'
+        }
+      });
+    }).pipe(
+      Effect.withSpan('api.attachment.get', {
+        attributes: { 'attachment.id': id }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.catchAll(error =>
+        Effect.succeed(
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => new Response('Unauthorized', { status: 401 })),
+            Match.when('NotFoundError', () => new Response('Not found', { status: 404 })),
+            Match.orElse(() => new Response('Failed to load attachment', { status: 500 }))
+          )
+        )
+      )
+    )
+  );
+}
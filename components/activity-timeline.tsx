@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { History, Undo2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FIELD_LABELS } from '@/lib/core/activity/activity';
+import type { ActivityItem } from '@/lib/core/activity/queries';
+import { revertActivityAction } from '@/lib/core/activity/revert-activity-action';
+import {
+  AMOUNT_SIGNS,
+  AMOUNT_SIGN_LABELS,
+  MATCH_TYPES,
+  MATCH_TYPE_LABELS
+} from '@/lib/core/merchant/match';
+
+type Option = {
+  id: string;
+  name: string;
+};
+
+type Props = {
+  history: ActivityItem[];
+  categories: Option[];
+  accounts?: Option[];
+  /** Called with the reverted entry after a successful revert */
+  onReverted?: (item: ActivityItem) => void;
+};
+
+const ACTION_LABELS: Record<ActivityItem['action'], string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted'
+};
+
+const formatValue = (field: string, value: unknown, categories: Option[], accounts: Option[]) => {
+  if (value === null || value === undefined) {
+    if (field === 'categoryId') return 'Uncategorized';
+    if (field === 'accountId') return 'No account';
+    if (field === 'amountSign') return 'Any';
+    if (field === 'transferPeerId') return 'Not linked';
+    return '—';
+  }
+
+  switch (field) {
+    case 'categoryId':
+      return categories.find(c => c.id === value)?.name ?? 'Deleted category';
+    case 'accountId':
+      return accounts.find(a => a.id === value)?.name ?? 'Deleted account';
+    case 'date':
+      return String(value).slice(0, 10);
+    case 'amount':
+    case 'minAmount':
+    case 'maxAmount':
+      return `${Number(value).toLocaleString('sv-SE', { maximumFractionDigits: 2 })} kr`;
+    case 'matchType': {
+      const matchType = MATCH_TYPES.find(t => t === value);
+      return matchType ? MATCH_TYPE_LABELS[matchType] : String(value);
+    }
+    case 'amountSign': {
+      const amountSign = AMOUNT_SIGNS.find(s => s === value);
+      return amountSign ? AMOUNT_SIGN_LABELS[amountSign] : String(value);
+    }
+    case 'isMultiMerchant':
+    case 'markedTransfer':
+    case 'excludedFromReports':
+    case 'transferConfirmed':
+      return value ? 'Yes' : 'No';
+    case 'transferPeerId':
+      return 'Linked';
+    default:
+      return String(value);
+  }
+};
+
+export function ActivityTimeline({
+  history: initialHistory,
+  categories,
+  accounts = [],
+  onReverted
+}: Props) {
+  const [history, setHistory] = useState(initialHistory);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevert = (item: ActivityItem) => {
+    setRevertingId(item.id);
+    startTransition(async () => {
+      const result = await revertActivityAction({ id: item.id });
+      setRevertingId(null);
+
+      if (result._tag === 'Error') {
+        toast.error(result.message);
+        return;
+      }
+
+      setHistory(result.history);
+      onReverted?.(item);
+      toast.success(`Reverted ${(FIELD_LABELS[item.field ?? ''] ?? 'change').toLowerCase()}`);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="size-4" />
+          History
+        </CardTitle>
+        <CardDescription>Every recorded change, newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No changes recorded yet.</p>
+        ) : (
+          <ol className="space-y-3">
+            {history.map(item => (
+              <li
+                key={item.id}
+                className="flex items-start justify-between gap-3 border-l-2 pl-3 text-sm"
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">
+                      {item.action === 'update' && item.field
+                        ? (FIELD_LABELS[item.field] ?? item.field)
+                        : ACTION_LABELS[item.action]}
+                    </span>
+                    {item.revertOf && <Badge variant="outline">Revert</Badge>}
+                    {item.reverted && <Badge variant="secondary">Reverted</Badge>}
+                  </div>
+                  {item.action === 'update' && item.field && (
+                    <p className="text-muted-foreground break-words">
+                      <span className="line-through">
+                        {formatValue(item.field, item.oldValue, categories, accounts)}
+                      </span>
+                      {' → '}
+                      <span className="text-foreground">
+                        {formatValue(item.field, item.newValue, categories, accounts)}
+                      </span>
+                    </p>
+                  )}
+                  <p className="text-muted-foreground text-xs">
+                    {item.actorName} · {item.createdAt.toLocaleString('sv-SE')}
+                  </p>
+                </div>
+                {item.revertible && !item.reverted && (
+                  <Button
+                    variant="ghost"
+                    size="xs"
+                    disabled={isPending}
+                    onClick={() => handleRevert(item)}
+                  >
+                    <Undo2 />
+                    {revertingId === item.id ? 'Reverting...' : 'Revert'}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
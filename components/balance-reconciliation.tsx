@@ -0,0 +1,92 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { BalanceGap, Reconciliation } from '@/lib/core/bank-account/queries';
+
+type AccountStatus = Reconciliation & { accountId: string; name: string };
+
+type Props = {
+  accounts: AccountStatus[];
+};
+
+const formatDate = (date: Date) => new Date(date).toLocaleDateString('sv-SE');
+
+const formatBalance = (amount: number) =>
+  new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK' }).format(amount);
+
+/**
+ * One line per break in the balance chain: the difference is what the missing
+ * rows would add up to.
+ */
+export const describeGap = (gap: BalanceGap) =>
+  `${formatDate(gap.date)}: expected ${formatBalance(gap.expected)}, opens at ${formatBalance(gap.actual)} (${formatBalance(gap.actual - gap.expected)} unaccounted)`;
+
+/**
+ * Reconciliation status of an upload or account; nothing without bank balances.
+ */
+export function ReconciliationBadge({ reconciliation }: { reconciliation: Reconciliation | null }) {
+  if (!reconciliation || reconciliation.checked === 0) return null;
+
+  if (reconciliation.gaps.length === 0) {
+    return (
+      <Badge variant="secondary" title={`${reconciliation.checked} balances checked`}>
+        <CheckCircle2 className="size-3" />
+        Balances reconcile
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="destructive" title={reconciliation.gaps.map(describeGap).join('\n')}>
+      <AlertTriangle className="size-3" />
+      {reconciliation.gaps.length} balance {reconciliation.gaps.length === 1 ? 'gap' : 'gaps'}
+    </Badge>
+  );
+}
+
+/**
+ * Per-account reconciliation of the bank's running balance, listing where the
+ * chain breaks.
+ */
+export function BalanceReconciliation({ accounts }: Props) {
+  const checked = accounts.filter(account => account.checked > 0);
+
+  if (checked.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No bank balances to check yet.{' '}
+        <Link href="/accounts" className="underline underline-offset-2">
+          Add an account
+        </Link>{' '}
+        and assign uploads to it.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {checked.map(account => (
+        <li key={account.accountId} className="space-y-1">
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span className="truncate font-medium">{account.name}</span>
+            <ReconciliationBadge reconciliation={account} />
+          </div>
+          {account.gaps.length > 0 && (
+            <ul className="text-muted-foreground space-y-0.5 text-xs">
+              {account.gaps.slice(0, 3).map(gap => (
+                <li key={gap.id}>
+                  <Link href={`/transactions/${gap.id}`} className="hover:underline">
+                    {describeGap(gap)}
+                  </Link>
+                </li>
+              ))}
+              {account.gaps.length > 3 && <li>and {account.gaps.length - 3} more</li>}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import Link from 'next/link';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { BudgetStatus } from '@/lib/core/budget/budget';
+
+type Props = {
+  budgets: BudgetStatus[];
+  currency?: 'SEK' | 'EUR';
+};
+
+const barColor = (percentUsed: number) =>
+  percentUsed >= 100 ? 'bg-red-500' : percentUsed >= 80 ? 'bg-amber-500' : 'bg-foreground';
+
+export function BudgetProgress({ budgets, currency = 'SEK' }: Props) {
+  const fmt = (amount: number) => formatCurrency(amount, currency);
+
+  if (budgets.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No budgets yet.{' '}
+        <Link href="/budgets" className="underline underline-offset-2">
+          Set a budget
+        </Link>{' '}
+        to track spending against it.
+      </p>
+    );
+  }
+
+  const sorted = [...budgets].sort((a, b) => b.percentUsed - a.percentUsed);
+
+  return (
+    <ul className="space-y-4">
+      {sorted.map(budget => {
+        const overPace = budget.projected > budget.available;
+        return (
+          <li key={budget.budgetId} className="space-y-1.5">
+            <div className="flex items-baseline justify-between gap-4 text-sm">
+              <span className="truncate font-medium">
+                {budget.categoryIcon && `${budget.categoryIcon} `}
+                {budget.categoryName}
+                {budget.period === 'weekly' && (
+                  <span className="text-muted-foreground font-normal"> · this week</span>
+                )}
+              </span>
+              <span className="shrink-0 tabular-nums">
+                {fmt(budget.spent)}
+                <span className="text-muted-foreground"> / {fmt(budget.available)}</span>
+              </span>
+            </div>
+            <div className="bg-muted relative h-2 rounded-full">
+              <div
+                className={cn('h-full rounded-full', barColor(budget.percentUsed))}
+                style={{ width: `${Math.min(100, budget.percentUsed)}%` }}
+              />
+              {/* Even-pace marker: where spending would be if spread over the period */}
+              {budget.progress.percentComplete < 100 && (
+                <div
+                  className="bg-foreground/60 absolute -top-0.5 h-3 w-0.5 rounded"
+                  style={{ left: `${budget.progress.percentComplete}%` }}
+                />
+              )}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {Math.round(budget.percentUsed)}% used
+              {budget.progress.percentComplete < 100 && (
+                <span className={cn(overPace && 'text-red-600 dark:text-red-400')}>
+                  {' '}
+                  · on pace for {fmt(budget.projected)}
+                  {overPace && ` (${fmt(budget.projected - budget.available)} over)`}
+                </span>
+              )}
+              {budget.carry > 0 && ` · incl. ${fmt(budget.carry)} rolled over`}
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
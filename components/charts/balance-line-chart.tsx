@@ -0,0 +1,71 @@
+'use client';
+
+import ReactECharts from 'echarts-for-react';
+import type { EChartsOption } from 'echarts';
+import { useMemo } from 'react';
+import { formatAxisCurrency } from '@/lib/utils';
+
+type BalancePoint = {
+  /** Format: YYYY-MM-DD */
+  date: string;
+  balance: number;
+};
+
+type Props = {
+  data: BalancePoint[];
+  currency: string;
+  height?: number;
+};
+
+export function BalanceLineChart({ data, currency, height = 200 }: Props) {
+  const option = useMemo((): EChartsOption => {
+    if (data.length === 0) return {};
+
+    const formatter = new Intl.NumberFormat('sv-SE', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0
+    });
+
+    return {
+      tooltip: {
+        trigger: 'axis',
+        valueFormatter: value => formatter.format(Number(value))
+      },
+      grid: { top: 10, bottom: 30, left: 60, right: 10, containLabel: false },
+      xAxis: {
+        type: 'time',
+        axisLabel: { fontSize: 10 },
+        splitLine: { show: false }
+      },
+      yAxis: {
+        type: 'value',
+        scale: true,
+        axisLabel: { fontSize: 10, formatter: formatAxisCurrency },
+        splitLine: { lineStyle: { color: 'rgba(128, 128, 128, 0.15)' } }
+      },
+      series: [
+        {
+          name: 'Balance',
+          type: 'line',
+          step: 'end',
+          data: data.map(d => [d.date, d.balance]),
+          lineStyle: { color: '#3b82f6', width: 2 },
+          itemStyle: { color: '#3b82f6' },
+          symbol: 'none',
+          areaStyle: { color: 'rgba(59, 130, 246, 0.08)' }
+        }
+      ]
+    };
+  }, [data, currency]);
+
+  if (data.length === 0) {
+    return (
+      <div className="text-muted-foreground flex items-center justify-center" style={{ height }}>
+        No transactions in this account yet
+      </div>
+    );
+  }
+
+  return <ReactECharts option={option} style={{ height, width: '100%' }} />;
+}
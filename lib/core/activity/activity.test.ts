@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@effect/vitest';
+import { fieldChanges } from './activity';
+
+describe('fieldChanges', () => {
+  it('records changed tracked fields only', () => {
+    const before = {
+      date: new Date('2026-03-01T00:00:00.000Z'),
+      merchant: 'ICA NARA',
+      amount: -120,
+      categoryId: null,
+      accountId: 'account-1',
+      updatedAt: new Date('2026-03-02T00:00:00.000Z')
+    };
+
+    const changes = fieldChanges('transaction', 'tx-1', before, {
+      date: new Date('2026-03-01T00:00:00.000Z'),
+      merchant: 'ICA NARA',
+      amount: -125,
+      categoryId: 'groceries',
+      updatedAt: new Date('2026-03-03T00:00:00.000Z')
+    });
+
+    expect(changes).toEqual([
+      {
+        entity: 'transaction',
+        entityId: 'tx-1',
+        action: 'update',
+        field: 'amount',
+        oldValue: -120,
+        newValue: -125
+      },
+      {
+        entity: 'transaction',
+        entityId: 'tx-1',
+        action: 'update',
+        field: 'categoryId',
+        oldValue: null,
+        newValue: 'groceries'
+      }
+    ]);
+  });
+
+  it('compares dates by value', () => {
+    const changes = fieldChanges(
+      'transaction',
+      'tx-1',
+      { date: new Date('2026-03-01T00:00:00.000Z') },
+      { date: new Date('2026-03-02T00:00:00.000Z') }
+    );
+
+    expect(changes.map(c => [c.oldValue, c.newValue])).toEqual([
+      ['2026-03-01T00:00:00.000Z', '2026-03-02T00:00:00.000Z']
+    ]);
+  });
+});
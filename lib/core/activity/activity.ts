@@ -0,0 +1,141 @@
+/**
+ * Audit trail helpers shared by the actions that record activity and the
+ * history timeline. Pure functions without server-only imports.
+ */
+import type { ActivityEntity, ActivityEntry } from '@/lib/services/activity/live-layer';
+
+/**
+ * Fields whose changes are recorded one by one by `fieldChanges`.
+ * Amounts are recorded as numbers, dates as ISO strings.
+ */
+export const TRACKED_FIELDS: Record<ActivityEntity, ReadonlyArray<string>> = {
+  transaction: [
+    'date',
+    'merchant',
+    'amount',
+    'categoryId',
+    'accountId',
+    'note',
+    'markedTransfer',
+    'excludedFromReports'
+  ],
+  category: ['name'],
+  merchantMapping: [
+    'merchantPattern',
+    'matchType',
+    'amountSign',
+    'minAmount',
+    'maxAmount',
+    'priority',
+    'categoryId',
+    'isMultiMerchant'
+  ],
+  tag: ['name'],
+  bankAccount: ['name', 'bank', 'currency', 'type'],
+  recurringSeries: ['name', 'status'],
+  upload: []
+};
+
+// Entities with a history timeline, whose tracked field changes can be reverted
+const REVERTIBLE_ENTITIES: ReadonlyArray<ActivityEntity> = [
+  'transaction',
+  'category',
+  'merchantMapping'
+];
+
+export const FIELD_LABELS: Record<string, string> = {
+  date: 'Date',
+  merchant: 'Merchant',
+  amount: 'Amount',
+  categoryId: 'Category',
+  accountId: 'Account',
+  note: 'Note',
+  markedTransfer: 'Marked as transfer',
+  excludedFromReports: 'Excluded from reports',
+  // Recorded on transactions but not tracked: tag and attachment names, transfer links
+  tag: 'Tag',
+  attachment: 'Attachment',
+  transferPeerId: 'Transfer',
+  transferConfirmed: 'Transfer confirmed',
+  name: 'Name',
+  merchantPattern: 'Pattern',
+  matchType: 'Match type',
+  amountSign: 'Amount sign',
+  minAmount: 'Minimum amount',
+  maxAmount: 'Maximum amount',
+  priority: 'Priority',
+  isMultiMerchant: 'Multi-merchant',
+  bank: 'Bank',
+  currency: 'Currency',
+  type: 'Type',
+  status: 'Status'
+};
+
+export const isTrackedField = (entity: ActivityEntity, field: string | null) =>
+  field !== null && TRACKED_FIELDS[entity].includes(field);
+
+export const isRevertible = (entity: ActivityEntity, field: string | null) =>
+  REVERTIBLE_ENTITIES.includes(entity) && isTrackedField(entity, field);
+
+// Values as they are stored in the audit trail (jsonb)
+const toStored = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : (value ?? null);
+
+/**
+ * Update entries for the tracked fields that differ between two versions of a
+ * record. Fields missing from `after` are unchanged.
+ */
+export function fieldChanges(
+  entity: ActivityEntity,
+  entityId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ActivityEntry[] {
+  return TRACKED_FIELDS[entity].flatMap(field => {
+    if (!(field in after)) return [];
+    const oldValue = toStored(before[field]);
+    const newValue = toStored(after[field]);
+    if (oldValue === newValue) return [];
+    return [{ entity, entityId, action: 'update' as const, field, oldValue, newValue }];
+  });
+}
+
+/**
+ * Entry for a tag added to (`newValue`) or removed from (`oldValue`) a
+ * transaction. Tags are recorded by name, since history outlives them.
+ */
+export const tagChange = (
+  transactionId: string,
+  oldValue: string | null,
+  newValue: string | null
+): ActivityEntry => ({
+  entity: 'transaction',
+  entityId: transactionId,
+  action: 'update',
+  field: 'tag',
+  oldValue,
+  newValue
+});
+
+/**
+ * Merchant mapping fields recorded when a mapping is created or deleted.
+ */
+export const mappingSnapshot = (mapping: {
+  merchantPattern: string;
+  matchType: string;
+  amountSign: string | null;
+  minAmount: string | null;
+  maxAmount: string | null;
+  priority: number;
+  categoryId: string | null;
+  isMultiMerchant: boolean;
+}) => ({
+  merchantPattern: mapping.merchantPattern,
+  matchType: mapping.matchType,
+  amountSign: mapping.amountSign,
+  minAmount: mapping.minAmount === null ? null : parseFloat(mapping.minAmount),
+  maxAmount: mapping.maxAmount === null ? null : parseFloat(mapping.maxAmount),
+  priority: mapping.priority,
+  categoryId: mapping.categoryId,
+  isMultiMerchant: mapping.isMultiMerchant
+});
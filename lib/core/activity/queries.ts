@@ -0,0 +1,61 @@
+import { Effect } from 'effect';
+import { and, desc, eq } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import type { ActivityEntity } from '@/lib/services/activity/live-layer';
+import { isRevertible } from './activity';
+
+export type ActivityItem = {
+  id: string;
+  action: schema.Activity['action'];
+  field: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+  revertOf: string | null;
+  createdAt: Date;
+  actorName: string;
+  /** A later entry reverts this one */
+  reverted: boolean;
+  /** A single field change that `revertActivityAction` can undo */
+  revertible: boolean;
+};
+
+/**
+ * Get the audit trail of one record, newest first.
+ */
+export const getEntityHistory = (userId: string, entity: ActivityEntity, entityId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({
+        id: schema.activity.id,
+        action: schema.activity.action,
+        field: schema.activity.field,
+        oldValue: schema.activity.oldValue,
+        newValue: schema.activity.newValue,
+        revertOf: schema.activity.revertOf,
+        createdAt: schema.activity.createdAt,
+        actorName: schema.user.name
+      })
+      .from(schema.activity)
+      .innerJoin(schema.user, eq(schema.activity.userId, schema.user.id))
+      .where(
+        and(
+          eq(schema.activity.userId, userId),
+          eq(schema.activity.entity, entity),
+          eq(schema.activity.entityId, entityId)
+        )
+      )
+      .orderBy(desc(schema.activity.createdAt), desc(schema.activity.id));
+
+    const revertedIds = new Set(rows.flatMap(row => (row.revertOf ? [row.revertOf] : [])));
+
+    return rows.map(
+      (row): ActivityItem => ({
+        ...row,
+        reverted: revertedIds.has(row.id),
+        revertible: row.action === 'update' && isRevertible(entity, row.field)
+      })
+    );
+  }).pipe(Effect.withSpan('Activity.getEntityHistory'));
@@ -0,0 +1,366 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, count, eq, isNull } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { getBankAccountById } from '@/lib/core/bank-account/queries';
+import { linkTransfers } from '@/lib/core/bank-account/transfers';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { categorization } from '@/lib/core/transaction/category-source';
+import { fieldChanges, isRevertible, mappingSnapshot } from './activity';
+import { getEntityHistory } from './queries';
+
+const RevertActivityInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type RevertActivityInput = S.Schema.Type<typeof RevertActivityInput>;
+
+// Stored decimals are numbers; the columns take strings
+const toDecimal = (value: unknown) => (value === null ? null : String(value));
+
+const toId = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const verifyCategory = (userId: string, categoryId: unknown) =>
+  Effect.gen(function* () {
+    if (categoryId === null) return;
+    const db = yield* Db;
+
+    const [existing] = yield* db
+      .select({ id: schema.category.id })
+      .from(schema.category)
+      .where(and(eq(schema.category.id, String(categoryId)), eq(schema.category.userId, userId)))
+      .limit(1);
+
+    if (!existing) {
+      return yield* new NotFoundError({
+        message: 'The category no longer exists',
+        entity: 'category',
+        id: String(categoryId)
+      });
+    }
+  });
+
+const prepareTransactionRevert = (userId: string, id: string, field: string, value: unknown) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [existing] = yield* db
+      .select({
+        date: schema.transaction.date,
+        merchant: schema.transaction.merchant,
+        amount: schema.transaction.amount,
+        categoryId: schema.transaction.categoryId,
+        accountId: schema.transaction.accountId,
+        note: schema.transaction.note,
+        markedTransfer: schema.transaction.markedTransfer,
+        excludedFromReports: schema.transaction.excludedFromReports
+      })
+      .from(schema.transaction)
+      .where(and(eq(schema.transaction.id, id), eq(schema.transaction.userId, userId)))
+      .limit(1);
+
+    if (!existing) {
+      return yield* new NotFoundError({
+        message: 'Transaction not found',
+        entity: 'transaction',
+        id
+      });
+    }
+
+    // Split parts carry the categories and must keep summing to the amount
+    if (field === 'amount' || field === 'categoryId') {
+      const [splitCount] = yield* db
+        .select({ count: count() })
+        .from(schema.transactionSplit)
+        .where(eq(schema.transactionSplit.transactionId, id));
+
+      if (splitCount && splitCount.count > 0) {
+        return yield* new ValidationError({
+          message: 'Remove the split before reverting this change',
+          field
+        });
+      }
+    }
+
+    if (field === 'categoryId') yield* verifyCategory(userId, value);
+
+    if (field === 'accountId' && value !== null) {
+      if (!(yield* getBankAccountById(userId, String(value)))) {
+        return yield* new NotFoundError({
+          message: 'The account no longer exists',
+          entity: 'bankAccount',
+          id: String(value)
+        });
+      }
+    }
+
+    const restored = Match.value(field).pipe(
+      Match.when('date', () => ({ date: new Date(String(value)) })),
+      Match.when('merchant', () => ({ merchant: String(value) })),
+      Match.when('amount', () => ({ amount: String(value) })),
+      Match.when('categoryId', () => categorization(toId(value), 'manual')),
+      Match.when('note', () => ({ note: typeof value === 'string' ? value : null })),
+      Match.when('markedTransfer', () => ({ markedTransfer: value === true })),
+      Match.when('excludedFromReports', () => ({ excludedFromReports: value === true })),
+      Match.orElse(() => ({ accountId: toId(value) }))
+    );
+
+    return {
+      update: db
+        .update(schema.transaction)
+        .set(restored)
+        .where(and(eq(schema.transaction.id, id), eq(schema.transaction.userId, userId))),
+      changes: fieldChanges(
+        'transaction',
+        id,
+        { ...existing, amount: parseFloat(existing.amount) },
+        { [field]: 'date' in restored ? restored.date : value }
+      )
+    };
+  });
+
+const prepareCategoryRevert = (userId: string, id: string, value: unknown) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [existing] = yield* db
+      .select({ name: schema.category.name })
+      .from(schema.category)
+      .where(and(eq(schema.category.id, id), eq(schema.category.userId, userId)))
+      .limit(1);
+
+    if (!existing) {
+      return yield* new NotFoundError({
+        message: 'Category not found',
+        entity: 'category',
+        id
+      });
+    }
+
+    return {
+      update: db
+        .update(schema.category)
+        .set({ name: String(value) })
+        .where(and(eq(schema.category.id, id), eq(schema.category.userId, userId))),
+      changes: fieldChanges('category', id, existing, { name: value })
+    };
+  });
+
+const prepareMappingRevert = (userId: string, id: string, field: string, value: unknown) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [existing] = yield* db
+      .select()
+      .from(schema.merchantMapping)
+      .where(and(eq(schema.merchantMapping.id, id), eq(schema.merchantMapping.userId, userId)))
+      .limit(1);
+
+    if (!existing) {
+      return yield* new NotFoundError({
+        message: 'Merchant mapping not found',
+        entity: 'merchantMapping',
+        id
+      });
+    }
+
+    if (field === 'categoryId') yield* verifyCategory(userId, value);
+
+    const restored =
+      field === 'minAmount' || field === 'maxAmount'
+        ? { [field]: toDecimal(value) }
+        : { [field]: value };
+
+    const after = { ...existing, ...restored };
+    if (
+      after.minAmount !== null &&
+      after.maxAmount !== null &&
+      parseFloat(after.minAmount) > parseFloat(after.maxAmount)
+    ) {
+      return yield* new ValidationError({
+        message: 'Reverting would make the minimum amount exceed the maximum',
+        field
+      });
+    }
+
+    return {
+      update: db
+        .update(schema.merchantMapping)
+        .set(restored)
+        .where(and(eq(schema.merchantMapping.id, id), eq(schema.merchantMapping.userId, userId))),
+      changes: fieldChanges(
+        'merchantMapping',
+        id,
+        mappingSnapshot(existing),
+        mappingSnapshot(after)
+      )
+    };
+  });
+
+/**
+ * Server action to revert a single recorded field change by restoring the
+ * old value. The revert is recorded as a new change; history is never
+ * rewritten. Creates and deletes cannot be reverted.
+ *
+ * Returns the record's updated history.
+ */
+export const revertActivityAction = async (input: RevertActivityInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(RevertActivityInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Change id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      const [entry] = yield* db
+        .select()
+        .from(schema.activity)
+        .where(and(eq(schema.activity.id, parsed.id), eq(schema.activity.userId, userId)))
+        .limit(1);
+
+      if (!entry) {
+        return yield* new NotFoundError({
+          message: 'Change not found',
+          entity: 'activity',
+          id: parsed.id
+        });
+      }
+
+      yield* Effect.annotateCurrentSpan({
+        'activity.entity': entry.entity,
+        'activity.field': entry.field ?? 'null'
+      });
+
+      const field = entry.field;
+      if (entry.action !== 'update' || field === null || !isRevertible(entry.entity, field)) {
+        return yield* new ValidationError({
+          message: 'Only changes to a single field can be reverted',
+          field: 'id'
+        });
+      }
+
+      const { update, changes } = yield* Match.value(entry.entity).pipe(
+        Match.when('transaction', () =>
+          prepareTransactionRevert(userId, entry.entityId, field, entry.oldValue)
+        ),
+        Match.when('category', () => prepareCategoryRevert(userId, entry.entityId, entry.oldValue)),
+        Match.when('merchantMapping', () =>
+          prepareMappingRevert(userId, entry.entityId, field, entry.oldValue)
+        ),
+        Match.orElse(
+          () =>
+            new ValidationError({
+              message: 'Changes to this record cannot be reverted',
+              field: 'id'
+            })
+        )
+      );
+
+      // Claiming the change and reverting it commit together, so two reverts
+      // of the same change cannot both apply
+      const status = yield* db.transaction(() =>
+        Effect.gen(function* () {
+          const claimed = yield* db
+            .update(schema.activity)
+            .set({ revertedAt: new Date() })
+            .where(and(eq(schema.activity.id, entry.id), isNull(schema.activity.revertedAt)))
+            .returning({ id: schema.activity.id });
+          if (claimed.length === 0) return 'alreadyReverted' as const;
+
+          yield* update;
+          yield* activity.record(
+            userId,
+            changes.map(change => ({ ...change, revertOf: entry.id }))
+          );
+          return 'reverted' as const;
+        })
+      );
+
+      if (status === 'alreadyReverted') {
+        return yield* new ValidationError({
+          message: 'This change was already reverted',
+          field: 'id'
+        });
+      }
+
+      if (entry.entity === 'transaction' && field === 'accountId' && entry.oldValue !== null) {
+        yield* linkTransfers(userId, [entry.entityId]);
+      }
+
+      if (entry.entity === 'transaction' || field === 'categoryId') {
+        yield* checkBudgetAlerts(userId, session.user.email);
+      }
+
+      return {
+        entity: entry.entity,
+        entityId: entry.entityId,
+        history: yield* getEntityHistory(userId, entry.entity, entry.entityId)
+      };
+    }).pipe(
+      Effect.withSpan('action.activity.revert', {
+        attributes: {
+          'activity.id': input.id,
+          operation: 'activity.revert'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to revert change'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/transactions');
+            revalidatePath('/categories');
+            revalidatePath('/rules');
+            if (result.entity === 'transaction') {
+              revalidatePath(`/transactions/${result.entityId}`);
+            }
+            if (result.entity === 'merchantMapping') {
+              revalidatePath(`/merchant/${result.entityId}`);
+            }
+            return { _tag: 'Success' as const, history: result.history };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,118 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { removeAttachmentFiles } from './files';
+
+const DeleteAttachmentInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteAttachmentInput = S.Schema.Type<typeof DeleteAttachmentInput>;
+
+/**
+ * Server action to delete an attachment and its stored file.
+ */
+export const deleteAttachmentAction = async (input: DeleteAttachmentInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteAttachmentInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Attachment id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'attachment.id': parsed.id
+      });
+
+      const [deleted] = yield* db
+        .delete(schema.attachment)
+        .where(
+          and(eq(schema.attachment.id, parsed.id), eq(schema.attachment.userId, session.user.id))
+        )
+        .returning({
+          id: schema.attachment.id,
+          transactionId: schema.attachment.transactionId,
+          fileName: schema.attachment.fileName,
+          storageKey: schema.attachment.storageKey
+        });
+
+      if (!deleted) {
+        return yield* new NotFoundError({
+          message: 'Attachment not found',
+          entity: 'attachment',
+          id: parsed.id
+        });
+      }
+
+      yield* activity.record(session.user.id, [
+        {
+          entity: 'transaction',
+          entityId: deleted.transactionId,
+          action: 'update',
+          field: 'attachment',
+          oldValue: deleted.fileName,
+          newValue: null
+        }
+      ]);
+      yield* removeAttachmentFiles([deleted.storageKey]);
+
+      return { id: deleted.id, transactionId: deleted.transactionId };
+    }).pipe(
+      Effect.withSpan('action.attachment.delete', {
+        attributes: {
+          'attachment.id': input.id,
+          operation: 'attachment.delete'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete attachment'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath(`/transactions/${result.transactionId}`);
+            return { _tag: 'Success' as const, id: result.id };
+          })
+      })
+    )
+  );
+};
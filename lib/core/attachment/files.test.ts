@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@effect/vitest';
+import { detectContentType, isInlineContentType } from './files';
+
+const bytes = (...parts: Array<string | number[]>) =>
+  new Uint8Array(
+    parts.flatMap(part => (typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part))
+  );
+
+describe('detectContentType', () => {
+  it('detects allowed types from the leading bytes', () => {
+    expect(detectContentType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectContentType(bytes([0x89], 'PNG\r\n\x1a\n'))).toBe('image/png');
+    expect(detectContentType(bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toBe('image/webp');
+    expect(detectContentType(bytes([0, 0, 0, 24], 'ftypheic'))).toBe('image/heic');
+    expect(detectContentType(bytes('%PDF-1.7'))).toBe('application/pdf');
+  });
+
+  it('refuses anything else, whatever the browser claimed', () => {
+    expect(detectContentType(bytes('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull();
+    expect(detectContentType(bytes('<html><script>'))).toBeNull();
+    expect(detectContentType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe('isInlineContentType', () => {
+  it('shows only plain images inline', () => {
+    expect(isInlineContentType('image/png')).toBe(true);
+    expect(isInlineContentType('application/pdf')).toBe(false);
+    expect(isInlineContentType('image/svg+xml')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { Effect } from 'effect';
+import { Storage } from '@/lib/services/storage/live-layer';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/** Receipt images and PDFs. Anything else (e.g. SVG, which can carry script) is refused */
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf'
+] as const;
+export type AttachmentContentType = (typeof ATTACHMENT_CONTENT_TYPES)[number];
+
+/** Types browsers render as plain images, safe to show inline */
+const INLINE_CONTENT_TYPES: ReadonlySet<string> = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp'
+]);
+
+// ISO-BMFF brands of HEIF/HEIC photos (after `ftyp` at byte 4)
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * The attachment type of a file from its leading bytes, or null if it is not an
+ * allowed type. The browser-supplied type is never trusted.
+ */
+export function detectContentType(bytes: Uint8Array): AttachmentContentType | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 8) === 'ftyp' && HEIC_BRANDS.has(ascii(bytes, 8, 12))) return 'image/heic';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf';
+  return null;
+}
+
+/**
+ * Whether a stored attachment may be shown inline. Everything else, including
+ * PDFs and rows stored before types were checked, is served as a download.
+ */
+export const isInlineContentType = (contentType: string) => INLINE_CONTENT_TYPES.has(contentType);
+
+export const attachmentKey = (userId: string, attachmentId: string) =>
+  `attachments/${userId}/${attachmentId}`;
+
+/**
+ * Remove stored files of deleted attachments, after the deletion is committed.
+ * A failure only leaves an orphaned file behind, so it is logged, not raised.
+ */
+export const removeAttachmentFiles = (keys: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    const storage = yield* Storage;
+
+    yield* Effect.forEach(
+      keys,
+      key =>
+        storage
+          .remove(key)
+          .pipe(Effect.catchAll(error => Effect.logWarning('Attachment file not removed', error))),
+      { concurrency: 10, discard: true }
+    );
+  }).pipe(Effect.withSpan('Attachment.removeFiles', { attributes: { 'file.count': keys.length } }));
@@ -0,0 +1,51 @@
+import { Effect } from 'effect';
+import { asc, eq, type SQL } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+
+export type AttachmentItem = {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: Date;
+};
+
+/**
+ * Get the attachments of a transaction, oldest first.
+ * Callers must check that the transaction belongs to the user.
+ */
+export const getTransactionAttachments = (transactionId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    return yield* db
+      .select({
+        id: schema.attachment.id,
+        fileName: schema.attachment.fileName,
+        contentType: schema.attachment.contentType,
+        size: schema.attachment.size,
+        createdAt: schema.attachment.createdAt
+      })
+      .from(schema.attachment)
+      .where(eq(schema.attachment.transactionId, transactionId))
+      .orderBy(asc(schema.attachment.createdAt));
+  }).pipe(Effect.withSpan('Attachment.getForTransaction'));
+
+/**
+ * Get the storage keys of the attachments on transactions matching a
+ * where-clause. Read them before deleting the transactions, whose attachment
+ * rows are removed with them.
+ */
+export const getAttachmentKeys = (transactionWhere: SQL | undefined) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({ storageKey: schema.attachment.storageKey })
+      .from(schema.attachment)
+      .innerJoin(schema.transaction, eq(schema.attachment.transactionId, schema.transaction.id))
+      .where(transactionWhere);
+
+    return rows.map(row => row.storageKey);
+  }).pipe(Effect.withSpan('Attachment.getKeys'));
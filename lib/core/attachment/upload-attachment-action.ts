@@ -0,0 +1,172 @@
+'use server';
+
+import { Effect, Match } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import { Storage } from '@/lib/services/storage/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import {
+  MAX_ATTACHMENT_SIZE,
+  attachmentKey,
+  detectContentType,
+  removeAttachmentFiles
+} from './files';
+
+/**
+ * Server action to attach a file (receipt image or PDF, up to 10 MB) to a
+ * transaction. Takes FormData with `transactionId` and `file`; the file type is
+ * detected from its contents.
+ *
+ * The file is stored before its row is inserted, and removed again if the
+ * insert fails.
+ */
+export const uploadAttachmentAction = async (formData: FormData) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const transactionId = formData.get('transactionId');
+      const file = formData.get('file');
+
+      if (typeof transactionId !== 'string' || !transactionId) {
+        return yield* new ValidationError({
+          message: 'Transaction id is required',
+          field: 'transactionId'
+        });
+      }
+
+      if (!file || !(file instanceof File) || file.size === 0) {
+        return yield* new ValidationError({
+          message: 'No file provided',
+          field: 'file'
+        });
+      }
+
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        return yield* new ValidationError({
+          message: 'Attachments can be at most 10 MB',
+          field: 'file'
+        });
+      }
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+      const storage = yield* Storage;
+
+      yield* Effect.annotateCurrentSpan({
+        'transaction.id': transactionId,
+        'file.size': file.size
+      });
+
+      const [existing] = yield* db
+        .select({ id: schema.transaction.id })
+        .from(schema.transaction)
+        .where(and(eq(schema.transaction.id, transactionId), eq(schema.transaction.userId, userId)))
+        .limit(1);
+
+      if (!existing) {
+        return yield* new NotFoundError({
+          message: 'Transaction not found',
+          entity: 'transaction',
+          id: transactionId
+        });
+      }
+
+      const arrayBuffer = yield* Effect.tryPromise({
+        try: () => file.arrayBuffer(),
+        catch: () => new ValidationError({ message: 'Failed to read file', field: 'file' })
+      });
+
+      // The type comes from the file's contents, not the browser's claim
+      const contentType = detectContentType(new Uint8Array(arrayBuffer));
+      if (!contentType) {
+        return yield* new ValidationError({
+          message: 'Attach a JPEG, PNG, WebP or HEIC image, or a PDF',
+          field: 'file'
+        });
+      }
+      yield* Effect.annotateCurrentSpan({ 'file.type': contentType });
+
+      const id = createId();
+      const storageKey = attachmentKey(userId, id);
+      yield* storage.put(storageKey, new Uint8Array(arrayBuffer));
+
+      const [attachment] = yield* db
+        .insert(schema.attachment)
+        .values({
+          id,
+          userId,
+          transactionId,
+          fileName: file.name,
+          contentType,
+          size: file.size,
+          storageKey
+        })
+        .returning({
+          id: schema.attachment.id,
+          fileName: schema.attachment.fileName,
+          contentType: schema.attachment.contentType,
+          size: schema.attachment.size,
+          createdAt: schema.attachment.createdAt
+        })
+        .pipe(Effect.tapError(() => removeAttachmentFiles([storageKey])));
+
+      yield* activity.record(userId, [
+        {
+          entity: 'transaction',
+          entityId: transactionId,
+          action: 'update',
+          field: 'attachment',
+          oldValue: null,
+          newValue: attachment.fileName
+        }
+      ]);
+
+      return { transactionId, attachment };
+    }).pipe(
+      Effect.withSpan('action.attachment.upload', {
+        attributes: {
+          operation: 'attachment.upload'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to upload attachment'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath(`/transactions/${result.transactionId}`);
+            return { _tag: 'Success' as const, attachment: result.attachment };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,11 @@
+/**
+ * Bank account types. Kept free of server-only imports so forms can list them.
+ */
+export const ACCOUNT_TYPES = ['checking', 'savings', 'creditCard'] as const;
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  creditCard: 'Credit card'
+};
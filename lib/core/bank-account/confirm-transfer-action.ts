@@ -0,0 +1,137 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const ConfirmTransferInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type ConfirmTransferInput = S.Schema.Type<typeof ConfirmTransferInput>;
+
+/**
+ * Server action to confirm a suggested transfer. Takes either leg; both legs
+ * are marked confirmed and drop out of income/expense totals.
+ */
+export const confirmTransferAction = async (input: ConfirmTransferInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(ConfirmTransferInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Transaction id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      const [leg] = yield* db
+        .select({
+          id: schema.transaction.id,
+          peerId: schema.transaction.transferPeerId,
+          confirmed: schema.transaction.transferConfirmed
+        })
+        .from(schema.transaction)
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.id),
+            eq(schema.transaction.userId, userId),
+            isNotNull(schema.transaction.transferPeerId)
+          )
+        )
+        .limit(1);
+
+      if (!leg?.peerId) {
+        return yield* new NotFoundError({
+          message: 'Transfer not found',
+          entity: 'transaction',
+          id: parsed.id
+        });
+      }
+      const peerId = leg.peerId;
+
+      yield* db.transaction(() =>
+        Effect.gen(function* () {
+          yield* db
+            .update(schema.transaction)
+            .set({ transferConfirmed: true })
+            .where(and(eq(schema.transaction.id, leg.id), eq(schema.transaction.userId, userId)));
+          yield* db
+            .update(schema.transaction)
+            .set({ transferConfirmed: true })
+            .where(and(eq(schema.transaction.id, peerId), eq(schema.transaction.userId, userId)));
+
+          if (!leg.confirmed) {
+            yield* activity.record(
+              userId,
+              [leg.id, peerId].map(id => ({
+                entity: 'transaction' as const,
+                entityId: id,
+                action: 'update' as const,
+                field: 'transferConfirmed',
+                oldValue: false,
+                newValue: true
+              }))
+            );
+          }
+        })
+      );
+
+      return { id: leg.id, peerId };
+    }).pipe(
+      Effect.withSpan('action.transfer.confirm', {
+        attributes: {
+          'transaction.id': input.id,
+          operation: 'transfer.confirm'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to confirm transfer'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/analytics');
+            revalidatePath('/transfers');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,129 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ConstraintError, ValidationError } from '@/lib/core/errors';
+import { ACCOUNT_TYPES } from './account-types';
+
+const CreateBankAccountInput = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(100)),
+  bank: S.NullOr(S.String.pipe(S.maxLength(50))),
+  currency: S.String.pipe(S.pattern(/^[A-Z]{3}$/)),
+  type: S.Literal(...ACCOUNT_TYPES)
+});
+
+type CreateBankAccountInput = S.Schema.Type<typeof CreateBankAccountInput>;
+
+/**
+ * Server action to create a bank account.
+ */
+export const createBankAccountAction = async (input: CreateBankAccountInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(CreateBankAccountInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Account name (1-100 chars) and a 3-letter currency code are required',
+              field: 'name'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'account.name': parsed.name
+      });
+
+      const [existing] = yield* db
+        .select({ id: schema.bankAccount.id })
+        .from(schema.bankAccount)
+        .where(and(eq(schema.bankAccount.userId, userId), eq(schema.bankAccount.name, parsed.name)))
+        .limit(1);
+
+      if (existing) {
+        return yield* new ConstraintError({
+          message: `An account named "${parsed.name}" already exists`,
+          constraint: 'name'
+        });
+      }
+
+      const [account] = yield* db
+        .insert(schema.bankAccount)
+        .values({
+          userId,
+          name: parsed.name,
+          bank: parsed.bank,
+          currency: parsed.currency,
+          type: parsed.type
+        })
+        .returning();
+
+      yield* activity.record(userId, [
+        {
+          entity: 'bankAccount',
+          entityId: account.id,
+          action: 'create',
+          newValue: {
+            name: account.name,
+            bank: account.bank,
+            currency: account.currency,
+            type: account.type
+          }
+        }
+      ]);
+
+      return account;
+    }).pipe(
+      Effect.withSpan('action.account.create', {
+        attributes: {
+          'account.name': input.name,
+          operation: 'account.create'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ConstraintError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to create account'
+              })
+            )
+          ),
+        onSuccess: account =>
+          Effect.sync(() => {
+            revalidatePath('/accounts');
+            revalidatePath('/upload');
+            return { _tag: 'Success' as const, account };
+          })
+      })
+    )
+  );
+};
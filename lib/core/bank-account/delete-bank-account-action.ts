@@ -0,0 +1,108 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const DeleteBankAccountInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteBankAccountInput = S.Schema.Type<typeof DeleteBankAccountInput>;
+
+/**
+ * Server action to delete a bank account. Its transactions and uploads are kept
+ * and become unassigned; transfer links to other accounts are kept as well.
+ */
+export const deleteBankAccountAction = async (input: DeleteBankAccountInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteBankAccountInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Account id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      const [deleted] = yield* db
+        .delete(schema.bankAccount)
+        .where(and(eq(schema.bankAccount.id, parsed.id), eq(schema.bankAccount.userId, userId)))
+        .returning({
+          id: schema.bankAccount.id,
+          name: schema.bankAccount.name,
+          bank: schema.bankAccount.bank,
+          currency: schema.bankAccount.currency,
+          type: schema.bankAccount.type
+        });
+
+      if (!deleted) {
+        return yield* new NotFoundError({
+          message: 'Account not found',
+          entity: 'bankAccount',
+          id: parsed.id
+        });
+      }
+
+      const { id, ...snapshot } = deleted;
+      yield* activity.record(userId, [
+        { entity: 'bankAccount', entityId: id, action: 'delete', oldValue: snapshot }
+      ]);
+
+      return { id, name: deleted.name };
+    }).pipe(
+      Effect.withSpan('action.account.delete', {
+        attributes: {
+          'account.id': input.id,
+          operation: 'account.delete'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete account'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/accounts');
+            revalidatePath('/upload');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,51 @@
+'use server';
+
+import { Effect, Match } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getTransferPairs } from './queries';
+import { detectAllTransfers } from './transfers';
+
+/**
+ * Server action to scan all account transactions for transfer pairs. New pairs
+ * are suggestions until confirmed. Returns the updated list of pairs.
+ */
+export const detectTransfersAction = async () => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+
+      const linkedCount = yield* detectAllTransfers(session.user.id);
+      const pairs = yield* getTransferPairs(session.user.id);
+
+      return { linkedCount, pairs };
+    }).pipe(
+      Effect.withSpan('action.transfer.detect', {
+        attributes: {
+          operation: 'transfer.detect'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to detect transfers'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/transfers');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
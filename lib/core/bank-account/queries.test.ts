@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@effect/vitest';
+import { reconcileBalances, runningBalance } from './queries';
+
+const row = (date: string, amount: string, balance: string | null = null) => ({
+  date: new Date(`${date}T00:00:00Z`),
+  amount,
+  balance
+});
+
+describe('runningBalance', () => {
+  it('starts at zero without bank balances', () => {
+    expect(runningBalance([row('2025-01-01', '100.00'), row('2025-01-02', '-40.00')])).toEqual([
+      { date: '2025-01-01', balance: 100 },
+      { date: '2025-01-02', balance: 60 }
+    ]);
+  });
+
+  it('anchors the series to the latest bank balance', () => {
+    expect(
+      runningBalance([
+        row('2025-01-01', '-50.00', '950.00'),
+        row('2025-01-02', '-25.50', null),
+        row('2025-01-03', '200.00', '1124.50')
+      ])
+    ).toEqual([
+      { date: '2025-01-01', balance: 950 },
+      { date: '2025-01-02', balance: 924.5 },
+      { date: '2025-01-03', balance: 1124.5 }
+    ]);
+  });
+
+  it('keeps one closing balance per day', () => {
+    expect(
+      runningBalance([
+        row('2025-01-01', '-10.00'),
+        row('2025-01-01', '-20.00'),
+        row('2025-01-02', '5.00')
+      ])
+    ).toEqual([
+      { date: '2025-01-01', balance: -30 },
+      { date: '2025-01-02', balance: -25 }
+    ]);
+  });
+});
+
+describe('reconcileBalances', () => {
+  const booked = (id: string, date: string, amount: string, balance: string) => ({
+    id,
+    date: new Date(`${date}T00:00:00Z`),
+    amount,
+    balance
+  });
+
+  it('accepts an unbroken chain, whatever the order within a day', () => {
+    expect(
+      reconcileBalances([
+        booked('a', '2025-01-01', '-50.00', '950.00'),
+        booked('c', '2025-01-02', '-30.00', '1170.00'),
+        booked('b', '2025-01-02', '250.00', '1200.00')
+      ])
+    ).toEqual({ checked: 3, gaps: [] });
+  });
+
+  it('flags where the balance chain breaks', () => {
+    const { gaps } = reconcileBalances([
+      booked('a', '2025-01-01', '-50.00', '950.00'),
+      // A -100.00 row between them is missing
+      booked('b', '2025-01-03', '-20.00', '830.00'),
+      booked('c', '2025-01-04', '-30.00', '800.00')
+    ]);
+
+    expect(gaps).toEqual([
+      {
+        date: new Date('2025-01-03T00:00:00Z'),
+        previousId: 'a',
+        id: 'b',
+        expected: 950,
+        actual: 850
+      }
+    ]);
+  });
+});
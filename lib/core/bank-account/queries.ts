@@ -0,0 +1,356 @@
+import { Effect } from 'effect';
+import { and, asc, desc, eq, gte, isNotNull, lt, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+
+/**
+ * Get the user's bank accounts, by name.
+ */
+export const getBankAccounts = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    return yield* db
+      .select()
+      .from(schema.bankAccount)
+      .where(eq(schema.bankAccount.userId, userId))
+      .orderBy(asc(schema.bankAccount.name));
+  }).pipe(Effect.withSpan('BankAccount.getAll'));
+
+/**
+ * Get a bank account owned by the user, or null.
+ */
+export const getBankAccountById = (userId: string, id: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [account] = yield* db
+      .select()
+      .from(schema.bankAccount)
+      .where(and(eq(schema.bankAccount.id, id), eq(schema.bankAccount.userId, userId)))
+      .limit(1);
+
+    return account ?? null;
+  }).pipe(Effect.withSpan('BankAccount.getById'));
+
+export type BalancePoint = {
+  /** Format: YYYY-MM-DD */
+  date: string;
+  /** End-of-day balance */
+  balance: number;
+};
+
+export type AccountBalance = {
+  accountId: string;
+  /** Latest balance, null if the account has no transactions */
+  balance: number | null;
+  transactionCount: number;
+  history: BalancePoint[];
+};
+
+type BalanceRow = { date: Date; amount: string; balance: string | null };
+
+/**
+ * Running end-of-day balance from transactions ordered by date.
+ *
+ * The sum of amounts gives the shape; the latest balance reported by the bank
+ * (if any) anchors it, so the series matches the bank even when older history
+ * was never imported. Without bank balances the series starts at zero.
+ */
+export const runningBalance = (rows: ReadonlyArray<BalanceRow>): BalancePoint[] => {
+  let sum = 0;
+  let offset = 0;
+  const sums = rows.map(row => (sum += parseFloat(row.amount)));
+
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const bankBalance = rows[i].balance;
+    if (bankBalance !== null) {
+      offset = parseFloat(bankBalance) - sums[i];
+      break;
+    }
+  }
+
+  const points: BalancePoint[] = [];
+  rows.forEach((row, i) => {
+    const point = {
+      date: row.date.toISOString().slice(0, 10),
+      balance: Math.round((sums[i] + offset) * 100) / 100
+    };
+    // Rows are in date order, so the last row of a day holds its closing balance
+    if (points.at(-1)?.date === point.date) points[points.length - 1] = point;
+    else points.push(point);
+  });
+  return points;
+};
+
+/**
+ * Get current balance and balance history for each of the user's accounts.
+ */
+export const getAccountBalances = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({
+        accountId: schema.transaction.accountId,
+        date: schema.transaction.date,
+        amount: schema.transaction.amount,
+        balance: schema.transaction.balance
+      })
+      .from(schema.transaction)
+      .where(and(eq(schema.transaction.userId, userId), isNotNull(schema.transaction.accountId)))
+      .orderBy(
+        asc(schema.transaction.date),
+        asc(schema.transaction.createdAt),
+        asc(schema.transaction.id)
+      );
+
+    const byAccount = new Map<string, BalanceRow[]>();
+    for (const { accountId, ...row } of rows) {
+      if (accountId === null) continue;
+      const accountRows = byAccount.get(accountId) ?? [];
+      accountRows.push(row);
+      byAccount.set(accountId, accountRows);
+    }
+
+    return [...byAccount.entries()].map(([accountId, accountRows]): AccountBalance => {
+      const history = runningBalance(accountRows);
+      return {
+        accountId,
+        balance: history.at(-1)?.balance ?? null,
+        transactionCount: accountRows.length,
+        history
+      };
+    });
+  }).pipe(Effect.withSpan('BankAccount.getBalances'));
+
+export type BalanceGap = {
+  /** Date of the first row after the break */
+  date: Date;
+  /** Last row before the break */
+  previousId: string;
+  /** First row after the break */
+  id: string;
+  /** Opening balance implied by the previous row's balance */
+  expected: number;
+  /** Opening balance of the row after the break: its balance minus its amount */
+  actual: number;
+};
+
+export type Reconciliation = {
+  /** Rows with a bank balance that were checked */
+  checked: number;
+  gaps: BalanceGap[];
+};
+
+type LedgerRow = { id: string; date: Date; amount: string; balance: string };
+
+const toCents = (amount: string) => Math.round(parseFloat(amount) * 100);
+
+/**
+ * Check the bank's running balance over rows ordered by date: every row must
+ * open at the balance the previous row closed at (previous balance + amount =
+ * balance). A break means rows are missing or deleted, or overlapping exports
+ * disagree.
+ *
+ * Exports don't order rows within a day reliably, so each day's rows are
+ * chained by balance: the next row is the one that opens at the running
+ * balance, or else the day's chain head (a row no other row leads into).
+ */
+export const reconcileBalances = (rows: ReadonlyArray<LedgerRow>): Reconciliation => {
+  const days = new Map<string, LedgerRow[]>();
+  for (const row of rows) {
+    const day = row.date.toISOString().slice(0, 10);
+    const dayRows = days.get(day) ?? [];
+    dayRows.push(row);
+    days.set(day, dayRows);
+  }
+
+  const opening = (row: LedgerRow) => toCents(row.balance) - toCents(row.amount);
+  const gaps: BalanceGap[] = [];
+  let previous: LedgerRow | null = null;
+
+  for (const dayRows of days.values()) {
+    const remaining = [...dayRows];
+    while (remaining.length > 0) {
+      const running: number | null = previous === null ? null : toCents(previous.balance);
+      const next: LedgerRow =
+        remaining.find(row => opening(row) === running) ??
+        remaining.find(
+          row => !remaining.some(other => other !== row && toCents(other.balance) === opening(row))
+        ) ??
+        remaining[0];
+
+      if (previous !== null && running !== null && opening(next) !== running) {
+        gaps.push({
+          date: next.date,
+          previousId: previous.id,
+          id: next.id,
+          expected: running / 100,
+          actual: opening(next) / 100
+        });
+      }
+
+      remaining.splice(remaining.indexOf(next), 1);
+      previous = next;
+    }
+  }
+
+  return { checked: rows.length, gaps };
+};
+
+export type AccountReconciliation = Reconciliation & { accountId: string };
+
+type DateRange = {
+  startDate: Date;
+  endDate: Date;
+};
+
+/**
+ * Get the user's booked rows with a bank balance in one ledger (an account,
+ * or an upload without one) dated within a range, oldest first. The last row
+ * before and the first row after the range come along, so a break at either
+ * edge shows too.
+ */
+export const getLedgerRows = (userId: string, ledger: SQL | undefined, range: DateRange) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const fields = {
+      id: schema.transaction.id,
+      uploadId: schema.transaction.uploadId,
+      date: schema.transaction.date,
+      amount: schema.transaction.amount,
+      balance: schema.transaction.balance
+    };
+    const inLedger = and(
+      eq(schema.transaction.userId, userId),
+      ledger,
+      eq(schema.transaction.status, 'booked'),
+      isNotNull(schema.transaction.balance)
+    );
+    const oldestFirst = [
+      asc(schema.transaction.date),
+      asc(schema.transaction.createdAt),
+      asc(schema.transaction.id)
+    ];
+
+    const [before, rows, after] = yield* Effect.all([
+      db
+        .select(fields)
+        .from(schema.transaction)
+        .where(and(inLedger, lt(schema.transaction.date, range.startDate)))
+        .orderBy(
+          desc(schema.transaction.date),
+          desc(schema.transaction.createdAt),
+          desc(schema.transaction.id)
+        )
+        .limit(1),
+      db
+        .select(fields)
+        .from(schema.transaction)
+        .where(
+          and(
+            inLedger,
+            gte(schema.transaction.date, range.startDate),
+            lt(schema.transaction.date, range.endDate)
+          )
+        )
+        .orderBy(...oldestFirst),
+      db
+        .select(fields)
+        .from(schema.transaction)
+        .where(and(inLedger, gte(schema.transaction.date, range.endDate)))
+        .orderBy(...oldestFirst)
+        .limit(1)
+    ]);
+
+    return [...before, ...rows, ...after].flatMap(({ balance, ...row }) =>
+      balance === null ? [] : [{ ...row, balance }]
+    );
+  }).pipe(Effect.withSpan('BankAccount.getLedgerRows'));
+
+/**
+ * Reconcile the bank balances of the user's booked transactions per account,
+ * over a date range (e.g. the dashboard's period). Uploads store their own
+ * result at import, see `refreshUploadReconciliations`.
+ */
+export const getBalanceReconciliation = (userId: string, range: DateRange) =>
+  Effect.gen(function* () {
+    const accounts = yield* getBankAccounts(userId);
+
+    return yield* Effect.forEach(accounts, account =>
+      getLedgerRows(userId, eq(schema.transaction.accountId, account.id), range).pipe(
+        Effect.map(
+          (rows): AccountReconciliation => ({ accountId: account.id, ...reconcileBalances(rows) })
+        )
+      )
+    );
+  }).pipe(Effect.withSpan('BankAccount.getBalanceReconciliation'));
+
+export type TransferLeg = {
+  id: string;
+  date: Date;
+  merchant: string;
+  amount: number;
+  accountName: string | null;
+};
+
+export type TransferPair = {
+  confirmed: boolean;
+  from: TransferLeg;
+  to: TransferLeg;
+};
+
+/**
+ * Get linked transfer pairs, newest first. Each pair is returned once, from the
+ * outgoing leg.
+ */
+export const getTransferPairs = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const peer = alias(schema.transaction, 'peer');
+    const peerAccount = alias(schema.bankAccount, 'peer_account');
+
+    const rows = yield* db
+      .select({
+        confirmed: schema.transaction.transferConfirmed,
+        fromId: schema.transaction.id,
+        fromDate: schema.transaction.date,
+        fromMerchant: schema.transaction.merchant,
+        fromAmount: schema.transaction.amount,
+        fromAccount: schema.bankAccount.name,
+        toId: peer.id,
+        toDate: peer.date,
+        toMerchant: peer.merchant,
+        toAmount: peer.amount,
+        toAccount: peerAccount.name
+      })
+      .from(schema.transaction)
+      .innerJoin(peer, eq(schema.transaction.transferPeerId, peer.id))
+      .leftJoin(schema.bankAccount, eq(schema.transaction.accountId, schema.bankAccount.id))
+      .leftJoin(peerAccount, eq(peer.accountId, peerAccount.id))
+      .where(and(eq(schema.transaction.userId, userId), lt(schema.transaction.amount, '0')))
+      .orderBy(desc(schema.transaction.date));
+
+    return rows.map(
+      (row): TransferPair => ({
+        confirmed: row.confirmed,
+        from: {
+          id: row.fromId,
+          date: row.fromDate,
+          merchant: row.fromMerchant,
+          amount: parseFloat(row.fromAmount),
+          accountName: row.fromAccount
+        },
+        to: {
+          id: row.toId,
+          date: row.toDate,
+          merchant: row.toMerchant,
+          amount: parseFloat(row.toAmount),
+          accountName: row.toAccount
+        }
+      })
+    );
+  }).pipe(Effect.withSpan('BankAccount.getTransferPairs'));
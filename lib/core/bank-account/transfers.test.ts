@@ -0,0 +1,116 @@
+import { describe, expect, it, layer } from '@effect/vitest';
+import { Effect } from 'effect';
+import { eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { getTotalExpenses, getTotalIncome } from '@/lib/core/transaction/queries';
+import { computeTransactionHash } from '@/lib/core/transaction/hash';
+import { linkTransfers, pairTransfers } from './transfers';
+
+/**
+ * Integration tests for transfer detection.
+ * Requires DATABASE_URL (loaded from .env.local) pointing at a migrated database.
+ */
+
+const range = {
+  startDate: new Date('2026-01-01T00:00:00.000Z'),
+  endDate: new Date('2026-02-01T00:00:00.000Z')
+};
+
+describe.skipIf(!process.env.DATABASE_URL)('linkTransfers', () => {
+  layer(Db.Live)(it => {
+    it.scoped('pairs opposite amounts across accounts, excluded once confirmed', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+
+        const [user] = yield* Effect.acquireRelease(
+          db
+            .insert(schema.user)
+            .values({ name: 'Owner', email: `owner-${createId()}@test.local` })
+            .returning(),
+          ([user]) => db.delete(schema.user).where(eq(schema.user.id, user.id)).pipe(Effect.orDie)
+        );
+
+        const [checking, savings] = yield* db
+          .insert(schema.bankAccount)
+          .values([
+            { userId: user.id, name: 'Checking' },
+            { userId: user.id, name: 'Savings', type: 'savings' }
+          ])
+          .returning();
+
+        const out = new Date('2026-01-10T00:00:00.000Z');
+        const into = new Date('2026-01-12T00:00:00.000Z');
+        const [outgoing, incoming, sameAccount] = yield* db
+          .insert(schema.transaction)
+          .values([
+            {
+              userId: user.id,
+              accountId: checking.id,
+              date: out,
+              merchant: 'Till sparkonto',
+              amount: '-5000',
+              originalHash: computeTransactionHash(out, -5000, 'Till sparkonto')
+            },
+            {
+              userId: user.id,
+              accountId: savings.id,
+              date: into,
+              merchant: 'Från lönekonto',
+              amount: '5000',
+              originalHash: computeTransactionHash(into, 5000, 'Från lönekonto')
+            },
+            {
+              userId: user.id,
+              accountId: checking.id,
+              date: into,
+              merchant: 'Återbetalning',
+              amount: '5000',
+              originalHash: computeTransactionHash(into, 5000, 'Återbetalning')
+            }
+          ])
+          .returning();
+
+        expect(yield* linkTransfers(user.id, [outgoing.id])).toBe(1);
+
+        const linked = yield* db
+          .select({ id: schema.transaction.id, peer: schema.transaction.transferPeerId })
+          .from(schema.transaction)
+          .where(eq(schema.transaction.userId, user.id));
+        const peerOf = new Map(linked.map(row => [row.id, row.peer]));
+        expect(peerOf.get(outgoing.id)).toBe(incoming.id);
+        expect(peerOf.get(incoming.id)).toBe(outgoing.id);
+        expect(peerOf.get(sameAccount.id)).toBeNull();
+
+        // Suggested pairs still count
+        expect(yield* getTotalExpenses(user.id, range)).toBe(5000);
+
+        yield* db
+          .update(schema.transaction)
+          .set({ transferConfirmed: true })
+          .where(eq(schema.transaction.userId, user.id));
+
+        expect(yield* getTotalExpenses(user.id, range)).toBe(0);
+        // Only the refund in the same account is income
+        expect(yield* getTotalIncome(user.id, range)).toBe(5000);
+      })
+    );
+  });
+});
+
+describe('pairTransfers', () => {
+  it('pairs the closest dates first, each transaction once', () => {
+    expect(
+      pairTransfers([
+        { id: 'out', peerId: 'in-far', distance: 2 },
+        { id: 'out', peerId: 'in-near', distance: 1 },
+        { id: 'in-near', peerId: 'out', distance: 1 },
+        { id: 'other-out', peerId: 'in-near', distance: 0.5 }
+      ])
+    ).toEqual([
+      ['other-out', 'in-near'],
+      ['out', 'in-far']
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { Effect } from 'effect';
+import { and, eq, inArray, isNotNull, isNull, ne, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { batches } from '@/lib/core/transaction/batches';
+
+/** Transfers between banks can take a few days to book on the receiving side */
+export const TRANSFER_WINDOW_DAYS = 3;
+
+/**
+ * Where-clause for income/expense, analytics and trend queries: leaves out
+ * confirmed transfers, transactions marked as transfers by hand, those
+ * excluded from reports and expired pending rows. Suggested pairs still count
+ * until the user confirms them, as do orphaned legs whose peer was deleted,
+ * and pending rows count until they expire.
+ */
+export const countedInReports = () =>
+  sql`(${schema.transaction.transferPeerId} is null or not ${schema.transaction.transferConfirmed}) and not ${schema.transaction.markedTransfer} and not ${schema.transaction.excludedFromReports} and ${schema.transaction.status} <> 'expired'`;
+
+/**
+ * Pick transfer pairs from candidate (leg, peer) matches: the closest dates
+ * first, each transaction in at most one pair. Both directions of a pair may
+ * be among the candidates when both legs are new.
+ */
+export function pairTransfers(
+  candidates: ReadonlyArray<{ id: string; peerId: string; distance: number }>
+): Array<[string, string]> {
+  const linked = new Set<string>();
+  const pairs: Array<[string, string]> = [];
+
+  for (const { id, peerId } of [...candidates].sort((a, b) => a.distance - b.distance)) {
+    if (linked.has(id) || linked.has(peerId)) continue;
+    pairs.push([id, peerId]);
+    linked.add(id);
+    linked.add(peerId);
+  }
+
+  return pairs;
+}
+
+/**
+ * Link transfers between the user's own accounts among the given transactions.
+ *
+ * A transfer is a pair of unlinked transactions in two different accounts with
+ * equal and opposite amounts, booked within TRANSFER_WINDOW_DAYS of each other.
+ * The closest date wins. Both legs point at each other via transferPeerId and
+ * stay suggestions until confirmed on the transfers page.
+ *
+ * Candidate peers are found with one self-join per batch of transactions and
+ * all links written with one update per batch.
+ *
+ * Returns the number of pairs linked.
+ */
+export const linkTransfers = (userId: string, transactionIds: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    if (transactionIds.length === 0) return 0;
+
+    const db = yield* Db;
+    const peer = alias(schema.transaction, 'peer');
+
+    const candidates = (yield* Effect.forEach(batches([...transactionIds]), batch =>
+      db
+        .select({
+          id: schema.transaction.id,
+          peerId: peer.id,
+          distance: sql<number>`abs(extract(epoch from (${peer.date} - ${schema.transaction.date})))::float8`
+        })
+        .from(schema.transaction)
+        .innerJoin(
+          peer,
+          and(
+            eq(peer.userId, schema.transaction.userId),
+            isNotNull(peer.accountId),
+            ne(peer.accountId, schema.transaction.accountId),
+            isNull(peer.transferPeerId),
+            eq(peer.amount, sql`-${schema.transaction.amount}`),
+            sql`${peer.date} between ${schema.transaction.date} - make_interval(days => ${TRANSFER_WINDOW_DAYS}) and ${schema.transaction.date} + make_interval(days => ${TRANSFER_WINDOW_DAYS})`
+          )
+        )
+        .where(
+          and(
+            eq(schema.transaction.userId, userId),
+            inArray(schema.transaction.id, batch),
+            isNotNull(schema.transaction.accountId),
+            isNull(schema.transaction.transferPeerId)
+          )
+        )
+    )).flat();
+
+    const pairs = pairTransfers(candidates);
+    const links = pairs.flatMap(([id, peerId]) => [
+      [id, peerId],
+      [peerId, id]
+    ]);
+
+    for (const batch of batches(links)) {
+      // Keep updatedAt: automatic linking is not a user edit
+      yield* db
+        .update(schema.transaction)
+        .set({
+          transferPeerId: sql`case ${schema.transaction.id} ${sql.join(
+            batch.map(([id, peerId]) => sql`when ${id} then ${peerId}`),
+            sql` `
+          )} end`,
+          updatedAt: sql`${schema.transaction.updatedAt}`
+        })
+        .where(
+          and(
+            eq(schema.transaction.userId, userId),
+            inArray(
+              schema.transaction.id,
+              batch.map(([id]) => id)
+            )
+          )
+        );
+    }
+
+    yield* Effect.annotateCurrentSpan({ 'transfer.linked': pairs.length });
+
+    return pairs.length;
+  }).pipe(Effect.withSpan('BankAccount.linkTransfers'));
+
+/**
+ * Run transfer detection over all of the user's unlinked account transactions,
+ * e.g. after assigning older uploads to accounts.
+ */
+export const detectAllTransfers = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({ id: schema.transaction.id })
+      .from(schema.transaction)
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          isNotNull(schema.transaction.accountId),
+          isNull(schema.transaction.transferPeerId),
+          // Each pair needs one outgoing leg; the search covers the incoming side
+          sql`${schema.transaction.amount} < 0`
+        )
+      );
+
+    return yield* linkTransfers(
+      userId,
+      rows.map(row => row.id)
+    );
+  }).pipe(Effect.withSpan('BankAccount.detectAllTransfers'));
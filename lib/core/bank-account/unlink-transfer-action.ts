@@ -0,0 +1,134 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, isNotNull, or } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const UnlinkTransferInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type UnlinkTransferInput = S.Schema.Type<typeof UnlinkTransferInput>;
+
+/**
+ * Server action to unlink a transfer pair, suggested or confirmed. Both legs
+ * count as regular income/expense again.
+ */
+export const unlinkTransferAction = async (input: UnlinkTransferInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(UnlinkTransferInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Transaction id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      const [leg] = yield* db
+        .select({ id: schema.transaction.id, peerId: schema.transaction.transferPeerId })
+        .from(schema.transaction)
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.id),
+            eq(schema.transaction.userId, userId),
+            isNotNull(schema.transaction.transferPeerId)
+          )
+        )
+        .limit(1);
+
+      if (!leg?.peerId) {
+        return yield* new NotFoundError({
+          message: 'Transfer not found',
+          entity: 'transaction',
+          id: parsed.id
+        });
+      }
+
+      const peerId = leg.peerId;
+
+      yield* db.transaction(() =>
+        Effect.gen(function* () {
+          const unlinked = yield* db
+            .update(schema.transaction)
+            .set({ transferPeerId: null, transferConfirmed: false })
+            .where(
+              and(
+                eq(schema.transaction.userId, userId),
+                or(eq(schema.transaction.id, leg.id), eq(schema.transaction.id, peerId))
+              )
+            )
+            .returning({ id: schema.transaction.id });
+
+          yield* activity.record(
+            userId,
+            unlinked.map(tx => ({
+              entity: 'transaction' as const,
+              entityId: tx.id,
+              action: 'update' as const,
+              field: 'transferPeerId',
+              oldValue: tx.id === leg.id ? peerId : leg.id,
+              newValue: null
+            }))
+          );
+        })
+      );
+
+      return { id: leg.id, peerId: leg.peerId };
+    }).pipe(
+      Effect.withSpan('action.transfer.unlink', {
+        attributes: {
+          'transaction.id': input.id,
+          operation: 'transfer.unlink'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to unlink transfer'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/analytics');
+            revalidatePath('/transfers');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,98 @@
+import { Config, Effect } from 'effect';
+import { inArray } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import { Email } from '@/lib/services/email/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { formatCurrency } from '@/lib/utils';
+import { reachedThresholds, type BudgetStatus } from './budget';
+import { getBudgetStatuses } from './queries';
+
+// Category names and icons are user input
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const alertEmail = (status: BudgetStatus, threshold: number) => {
+  const label = status.categoryIcon
+    ? `${status.categoryIcon} ${status.categoryName}`
+    : status.categoryName;
+  const period = status.period === 'weekly' ? 'weekly' : 'monthly';
+  const summary = `${formatCurrency(status.spent)} of ${formatCurrency(status.available)} spent`;
+
+  return {
+    subject:
+      threshold >= 100
+        ? `Kostnad: ${status.categoryName} is over budget`
+        : `Kostnad: ${status.categoryName} has used ${threshold}% of its budget`,
+    text: `${label}: ${summary} of your ${period} budget.`,
+    html: `<p><strong>${escapeHtml(label)}</strong>: ${summary} of your ${period} budget.</p>`
+  };
+};
+
+/**
+ * Send an email for each budget that has crossed 80% or 100% of its limit in
+ * the current period, once per threshold and period.
+ *
+ * Called after spending changes (uploads, new or recategorized transactions).
+ * Never fails: alert problems are logged and must not break the caller.
+ */
+export const checkBudgetAlerts = (userId: string, to: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const statuses = yield* getBudgetStatuses(userId);
+
+    const pending = statuses.filter(status => reachedThresholds(status.percentUsed).length > 0);
+    if (pending.length === 0) return 0;
+
+    const email = yield* Email;
+    const sender = yield* Config.string('EMAIL_SENDER');
+    let sent = 0;
+
+    for (const status of pending) {
+      // Claim thresholds first so concurrent checks don't send them twice
+      const claimed = yield* db
+        .insert(schema.budgetAlert)
+        .values(
+          reachedThresholds(status.percentUsed).map(threshold => ({
+            budgetId: status.budgetId,
+            periodStart: status.periodStart,
+            threshold
+          }))
+        )
+        .onConflictDoNothing()
+        .returning({ id: schema.budgetAlert.id, threshold: schema.budgetAlert.threshold });
+      if (claimed.length === 0) continue;
+
+      // Jumping straight past 100% sends one email, not two
+      const message = alertEmail(status, Math.max(...claimed.map(c => c.threshold)));
+      const delivered = yield* email.sendEmail({ from: sender, to, ...message }).pipe(
+        Effect.as(true),
+        // Release the claims so the next check retries
+        Effect.catchAll(() =>
+          db
+            .delete(schema.budgetAlert)
+            .where(
+              inArray(
+                schema.budgetAlert.id,
+                claimed.map(c => c.id)
+              )
+            )
+            .pipe(Effect.as(false))
+        )
+      );
+      if (delivered) sent++;
+    }
+
+    yield* Effect.annotateCurrentSpan({ 'budget.alerts_sent': sent });
+
+    return sent;
+  }).pipe(
+    Effect.withSpan('Budget.checkAlerts'),
+    Effect.catchAll(error =>
+      Effect.logError('Budget alert check failed', { error }).pipe(Effect.as(0))
+    )
+  );
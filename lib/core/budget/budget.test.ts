@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@effect/vitest';
+import {
+  budgetPeriodRange,
+  getMonthProgress,
+  projectSpending,
+  reachedThresholds,
+  rolloverCarry
+} from './budget';
+
+describe('budgetPeriodRange', () => {
+  it('returns the calendar month', () => {
+    const range = budgetPeriodRange('monthly', new Date(2026, 1, 14, 12));
+    expect(range.startDate).toEqual(new Date(2026, 1, 1));
+    expect(range.endDate).toEqual(new Date(2026, 2, 1));
+  });
+
+  it('returns the week starting on Monday', () => {
+    // Sunday 2026-03-08 belongs to the week of Monday 2026-03-02
+    const range = budgetPeriodRange('weekly', new Date(2026, 2, 8, 18));
+    expect(range.startDate).toEqual(new Date(2026, 2, 2));
+    expect(range.endDate).toEqual(new Date(2026, 2, 9));
+  });
+});
+
+describe('rolloverCarry', () => {
+  it('carries unspent amounts forward and ignores overspending', () => {
+    // 1000 limit: 600 spent leaves 400, 1600 of 1400 leaves 0, 700 of 1000 leaves 300
+    expect(rolloverCarry(1000, [600, 1600, 700])).toBe(300);
+    expect(rolloverCarry(1000, [])).toBe(0);
+  });
+});
+
+describe('pace', () => {
+  it('projects spending over the whole period', () => {
+    const range = { startDate: new Date(2026, 3, 1), endDate: new Date(2026, 4, 1) };
+    const progress = getMonthProgress(range, new Date(2026, 3, 10, 9));
+    expect(progress).toEqual({ daysElapsed: 10, daysTotal: 30, percentComplete: 33 });
+    expect(projectSpending(1000, progress)).toBe(3000);
+  });
+
+  it('keeps actual spending once the period is over', () => {
+    expect(projectSpending(1000, { daysElapsed: 30, daysTotal: 30, percentComplete: 100 })).toBe(
+      1000
+    );
+  });
+
+  it('reports reached alert thresholds', () => {
+    expect(reachedThresholds(79.9)).toEqual([]);
+    expect(reachedThresholds(85)).toEqual([80]);
+    expect(reachedThresholds(120)).toEqual([80, 100]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Budget periods, progress and rollover. Pure functions without server-only
+ * imports, shared by queries, alerts and the dashboard.
+ */
+
+export const BUDGET_PERIODS = ['monthly', 'weekly'] as const;
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: 'Monthly',
+  weekly: 'Weekly'
+};
+
+/** Percent of the limit at which an alert email is sent */
+export const ALERT_THRESHOLDS = [80, 100] as const;
+
+type DateRange = { startDate: Date; endDate: Date };
+
+export type PeriodProgress = {
+  daysElapsed: number;
+  daysTotal: number;
+  percentComplete: number;
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * How far into a date range we are, in days. Past ranges are 100% complete and
+ * future ranges 0%. Works for any range, not just months.
+ */
+export function getMonthProgress(dateRange: DateRange, now: Date = new Date()): PeriodProgress {
+  const start = dateRange.startDate;
+  const end = dateRange.endDate;
+  const daysTotal = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+
+  // If viewing a past month, it's 100% complete
+  if (now >= end) {
+    return { daysElapsed: daysTotal, daysTotal, percentComplete: 100 };
+  }
+
+  // If viewing a future month, 0% complete
+  if (now < start) {
+    return { daysElapsed: 0, daysTotal, percentComplete: 0 };
+  }
+
+  const daysElapsed = Math.round((now.getTime() - start.getTime()) / DAY_MS) + 1;
+  const percentComplete = Math.round((daysElapsed / daysTotal) * 100);
+
+  return { daysElapsed, daysTotal, percentComplete };
+}
+
+/**
+ * The budget period containing a date, in local time. Weeks start on Monday.
+ */
+export function budgetPeriodRange(period: BudgetPeriod, date: Date): DateRange {
+  if (period === 'monthly') {
+    return {
+      startDate: new Date(date.getFullYear(), date.getMonth(), 1),
+      endDate: new Date(date.getFullYear(), date.getMonth() + 1, 1)
+    };
+  }
+
+  const startDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const day = startDate.getDay();
+  startDate.setDate(startDate.getDate() - (day === 0 ? 6 : day - 1));
+  const endDate = new Date(startDate);
+  endDate.setDate(endDate.getDate() + 7);
+  return { startDate, endDate };
+}
+
+/**
+ * Unspent amount carried into the current period.
+ *
+ * `pastSpending` is the spending of each earlier period, oldest first. Each
+ * period can spend its limit plus the carry; whatever is left over moves on.
+ * Overspending does not reduce later periods.
+ */
+export function rolloverCarry(limit: number, pastSpending: ReadonlyArray<number>): number {
+  let carry = 0;
+  for (const spent of pastSpending) {
+    carry = Math.max(0, limit + carry - spent);
+  }
+  return carry;
+}
+
+/**
+ * Spending at the end of the period if the current pace holds.
+ */
+export function projectSpending(spent: number, progress: PeriodProgress): number {
+  if (progress.daysElapsed === 0 || progress.daysElapsed >= progress.daysTotal) return spent;
+  return (spent / progress.daysElapsed) * progress.daysTotal;
+}
+
+/**
+ * Alert thresholds reached at the given percent of the limit.
+ */
+export function reachedThresholds(percentUsed: number): number[] {
+  return ALERT_THRESHOLDS.filter(threshold => percentUsed >= threshold);
+}
+
+export type BudgetStatus = {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  categoryIcon: string | null;
+  period: BudgetPeriod;
+  limit: number;
+  rollover: boolean;
+  /** Unspent amount carried over from earlier periods */
+  carry: number;
+  /** limit + carry */
+  available: number;
+  spent: number;
+  percentUsed: number;
+  projected: number;
+  periodStart: Date;
+  periodEnd: Date;
+  progress: PeriodProgress;
+};
@@ -0,0 +1,94 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const DeleteBudgetInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteBudgetInput = S.Schema.Type<typeof DeleteBudgetInput>;
+
+/**
+ * Server action to remove a category's budget.
+ */
+export const deleteBudgetAction = async (input: DeleteBudgetInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteBudgetInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Budget id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      const [deleted] = yield* db
+        .delete(schema.budget)
+        .where(and(eq(schema.budget.id, parsed.id), eq(schema.budget.userId, userId)))
+        .returning({ id: schema.budget.id, categoryId: schema.budget.categoryId });
+
+      if (!deleted) {
+        return yield* new NotFoundError({
+          message: 'Budget not found',
+          entity: 'budget',
+          id: parsed.id
+        });
+      }
+
+      return deleted;
+    }).pipe(
+      Effect.withSpan('action.budget.delete', {
+        attributes: {
+          'budget.id': input.id,
+          operation: 'budget.delete'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete budget'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/budgets');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,130 @@
+import { Effect } from 'effect';
+import { and, asc, eq, gte, inArray, lt } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { countedInReports } from '@/lib/core/bank-account/transfers';
+import { splitAmount, splitCategoryId, splitJoin } from '@/lib/core/transaction/queries';
+import {
+  budgetPeriodRange,
+  getMonthProgress,
+  projectSpending,
+  rolloverCarry,
+  type BudgetStatus
+} from './budget';
+
+/**
+ * Get the user's budgets with their category, by category name.
+ */
+export const getBudgets = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({
+        id: schema.budget.id,
+        categoryId: schema.budget.categoryId,
+        categoryName: schema.category.name,
+        categoryIcon: schema.category.icon,
+        period: schema.budget.period,
+        amount: schema.budget.amount,
+        rollover: schema.budget.rollover,
+        createdAt: schema.budget.createdAt
+      })
+      .from(schema.budget)
+      .innerJoin(schema.category, eq(schema.budget.categoryId, schema.category.id))
+      .where(eq(schema.budget.userId, userId))
+      .orderBy(asc(schema.category.name));
+
+    return rows.map(row => ({ ...row, amount: parseFloat(row.amount) }));
+  }).pipe(Effect.withSpan('Budget.getAll'));
+
+/**
+ * Get budget-vs-actual for each budget in the period containing `at`.
+ *
+ * Spending is the net of expenses and refunds in the category, including the
+ * category's parts of split transactions, with confirmed transfers left out. Rollover budgets carry unspent amounts forward from the
+ * period the budget was created in.
+ */
+export const getBudgetStatuses = (userId: string, at: Date = new Date()) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const budgets = yield* getBudgets(userId);
+    if (budgets.length === 0) return [];
+
+    const ranges = budgets.map(budget => {
+      const current = budgetPeriodRange(budget.period, at);
+      const first = budget.rollover
+        ? budgetPeriodRange(budget.period, budget.createdAt).startDate
+        : current.startDate;
+      return { current, first: first < current.startDate ? first : current.startDate };
+    });
+
+    const startDate = new Date(Math.min(...ranges.map(r => r.first.getTime())));
+    const endDate = new Date(Math.max(...ranges.map(r => r.current.endDate.getTime())));
+
+    const rows = yield* db
+      .select({
+        categoryId: splitCategoryId,
+        date: schema.transaction.date,
+        amount: splitAmount
+      })
+      .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          inArray(
+            splitCategoryId,
+            budgets.map(b => b.categoryId)
+          ),
+          gte(schema.transaction.date, startDate),
+          lt(schema.transaction.date, endDate),
+          countedInReports()
+        )
+      );
+
+    return budgets.map((budget, i): BudgetStatus => {
+      const { current, first } = ranges[i];
+
+      // Net spending per period start, for this budget's periods
+      const spentByPeriod = new Map<number, number>();
+      for (const row of rows) {
+        if (row.categoryId !== budget.categoryId) continue;
+        if (row.date < first || row.date >= current.endDate) continue;
+        const key = budgetPeriodRange(budget.period, row.date).startDate.getTime();
+        spentByPeriod.set(key, (spentByPeriod.get(key) ?? 0) - parseFloat(row.amount));
+      }
+
+      const pastSpending: number[] = [];
+      for (
+        let period = budgetPeriodRange(budget.period, first);
+        period.startDate < current.startDate;
+        period = budgetPeriodRange(budget.period, period.endDate)
+      ) {
+        pastSpending.push(spentByPeriod.get(period.startDate.getTime()) ?? 0);
+      }
+
+      const carry = budget.rollover ? rolloverCarry(budget.amount, pastSpending) : 0;
+      const available = budget.amount + carry;
+      const spent = Math.max(0, spentByPeriod.get(current.startDate.getTime()) ?? 0);
+      const progress = getMonthProgress(current, at);
+
+      return {
+        budgetId: budget.id,
+        categoryId: budget.categoryId,
+        categoryName: budget.categoryName,
+        categoryIcon: budget.categoryIcon,
+        period: budget.period,
+        limit: budget.amount,
+        rollover: budget.rollover,
+        carry,
+        available,
+        spent,
+        percentUsed: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+        projected: projectSpending(spent, progress),
+        periodStart: current.startDate,
+        periodEnd: current.endDate,
+        progress
+      };
+    });
+  }).pipe(Effect.withSpan('Budget.getStatuses'));
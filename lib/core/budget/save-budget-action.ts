@@ -0,0 +1,118 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { BUDGET_PERIODS } from './budget';
+import { getBudgetStatuses } from './queries';
+
+const SaveBudgetInput = S.Struct({
+  categoryId: S.String.pipe(S.minLength(1)),
+  period: S.Literal(...BUDGET_PERIODS),
+  amount: S.Number.pipe(S.positive(), S.lessThan(10_000_000_000)),
+  rollover: S.Boolean
+});
+
+type SaveBudgetInput = S.Schema.Type<typeof SaveBudgetInput>;
+
+/**
+ * Server action to set a category's budget, replacing any existing one.
+ * Returns the budget's status in the current period.
+ */
+export const saveBudgetAction = async (input: SaveBudgetInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(SaveBudgetInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Budget amount must be a positive number',
+              field: 'amount'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      const [category] = yield* db
+        .select({ id: schema.category.id })
+        .from(schema.category)
+        .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
+        .limit(1);
+
+      if (!category) {
+        return yield* new NotFoundError({
+          message: 'Category not found',
+          entity: 'category',
+          id: parsed.categoryId
+        });
+      }
+
+      const values = {
+        period: parsed.period,
+        amount: parsed.amount.toFixed(2),
+        rollover: parsed.rollover
+      };
+
+      const [budget] = yield* db
+        .insert(schema.budget)
+        .values({ userId, categoryId: category.id, ...values })
+        .onConflictDoUpdate({
+          target: [schema.budget.userId, schema.budget.categoryId],
+          set: { ...values, updatedAt: new Date() }
+        })
+        .returning();
+
+      const statuses = yield* getBudgetStatuses(userId);
+
+      return statuses.find(status => status.budgetId === budget.id) ?? null;
+    }).pipe(
+      Effect.withSpan('action.budget.save', {
+        attributes: {
+          'category.id': input.categoryId,
+          operation: 'budget.save'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to save budget'
+              })
+            )
+          ),
+        onSuccess: status =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/budgets');
+            return { _tag: 'Success' as const, status };
+          })
+      })
+    )
+  );
+};
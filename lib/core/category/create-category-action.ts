@@ -6,6 +6,7 @@ import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { ValidationError } from '@/lib/core/errors';
 
@@ -33,8 +34,9 @@ export const createCategoryAction = async (input: CreateCategoryInput) => {
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'category.name': parsed.name
@@ -43,6 +45,7 @@ export const createCategoryAction = async (input: CreateCategoryInput) => {
       const [category] = yield* db
         .insert(schema.category)
         .values({
+          userId: session.user.id,
           name: parsed.name,
           description: parsed.description,
           icon: parsed.icon,
@@ -50,6 +53,15 @@ export const createCategoryAction = async (input: CreateCategoryInput) => {
         })
         .returning();
 
+      yield* activity.record(session.user.id, [
+        {
+          entity: 'category',
+          entityId: category.id,
+          action: 'create',
+          newValue: { name: category.name, description: category.description, icon: category.icon }
+        }
+      ]);
+
       return category;
     }).pipe(
       Effect.withSpan('action.category.create', {
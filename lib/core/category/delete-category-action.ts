@@ -2,13 +2,15 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq, count } from 'drizzle-orm';
+import { and, eq, count } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError, ConstraintError } from '@/lib/core/errors';
+import { mappingSnapshot } from '@/lib/core/activity/activity';
 
 const DeleteCategoryInput = S.Struct({
   id: S.String.pipe(S.minLength(1))
@@ -22,7 +24,7 @@ type DeleteCategoryInput = S.Schema.Type<typeof DeleteCategoryInput>;
  * Fails if:
  * - Category doesn't exist
  * - Category is a default category
- * - Category has transactions linked to it
+ * - Category has transactions or split parts linked to it
  */
 export const deleteCategoryAction = async (input: DeleteCategoryInput) => {
   return await NextEffect.runPromise(
@@ -37,8 +39,9 @@ export const deleteCategoryAction = async (input: DeleteCategoryInput) => {
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'category.id': parsed.id
@@ -52,7 +55,7 @@ export const deleteCategoryAction = async (input: DeleteCategoryInput) => {
           isDefault: schema.category.isDefault
         })
         .from(schema.category)
-        .where(eq(schema.category.id, parsed.id))
+        .where(and(eq(schema.category.id, parsed.id), eq(schema.category.userId, session.user.id)))
         .limit(1);
 
       if (!existing) {
@@ -83,13 +86,44 @@ export const deleteCategoryAction = async (input: DeleteCategoryInput) => {
         });
       }
 
+      const [splitCount] = yield* db
+        .select({ count: count() })
+        .from(schema.transactionSplit)
+        .where(eq(schema.transactionSplit.categoryId, parsed.id));
+
+      if (splitCount && splitCount.count > 0) {
+        return yield* new ConstraintError({
+          message: `Cannot delete category used in ${splitCount.count} split(s). Reassign them first.`,
+          constraint: 'hasSplits'
+        });
+      }
+
       // Delete any merchant mappings for this category first
-      yield* db
+      const deletedMappings = yield* db
         .delete(schema.merchantMapping)
-        .where(eq(schema.merchantMapping.categoryId, parsed.id));
+        .where(eq(schema.merchantMapping.categoryId, parsed.id))
+        .returning();
 
       // Delete the category
-      yield* db.delete(schema.category).where(eq(schema.category.id, parsed.id));
+      const [deleted] = yield* db
+        .delete(schema.category)
+        .where(and(eq(schema.category.id, parsed.id), eq(schema.category.userId, session.user.id)))
+        .returning();
+
+      yield* activity.record(session.user.id, [
+        ...deletedMappings.map(mapping => ({
+          entity: 'merchantMapping' as const,
+          entityId: mapping.id,
+          action: 'delete' as const,
+          oldValue: mappingSnapshot(mapping)
+        })),
+        {
+          entity: 'category',
+          entityId: parsed.id,
+          action: 'delete',
+          oldValue: { name: deleted.name, description: deleted.description, icon: deleted.icon }
+        }
+      ]);
 
       return { id: parsed.id, name: existing.name };
     }).pipe(
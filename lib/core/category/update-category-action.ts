@@ -2,13 +2,15 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges } from '@/lib/core/activity/activity';
 
 const UpdateCategoryInput = S.Struct({
   id: S.String.pipe(S.minLength(1)),
@@ -33,8 +35,9 @@ export const updateCategoryAction = async (input: UpdateCategoryInput) => {
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'category.id': parsed.id,
@@ -43,9 +46,9 @@ export const updateCategoryAction = async (input: UpdateCategoryInput) => {
 
       // Verify category exists
       const [existing] = yield* db
-        .select({ id: schema.category.id })
+        .select({ id: schema.category.id, name: schema.category.name })
         .from(schema.category)
-        .where(eq(schema.category.id, parsed.id))
+        .where(and(eq(schema.category.id, parsed.id), eq(schema.category.userId, session.user.id)))
         .limit(1);
 
       if (!existing) {
@@ -59,9 +62,14 @@ export const updateCategoryAction = async (input: UpdateCategoryInput) => {
       const [category] = yield* db
         .update(schema.category)
         .set({ name: parsed.name })
-        .where(eq(schema.category.id, parsed.id))
+        .where(and(eq(schema.category.id, parsed.id), eq(schema.category.userId, session.user.id)))
         .returning();
 
+      yield* activity.record(
+        session.user.id,
+        fieldChanges('category', parsed.id, existing, parsed)
+      );
+
       return category;
     }).pipe(
       Effect.withSpan('action.category.update', {
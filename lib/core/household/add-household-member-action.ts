@@ -0,0 +1,85 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ValidationError } from '@/lib/core/errors';
+import { findHouseholdMember } from './queries';
+
+const AddHouseholdMemberInput = S.Struct({
+  email: S.Trim.pipe(S.minLength(3), S.maxLength(254), S.pattern(/^[^\s@]+@[^\s@]+$/))
+});
+
+type AddHouseholdMemberInput = S.Schema.Encoded<typeof AddHouseholdMemberInput>;
+
+/**
+ * Server action to count an email to the user's household. The person
+ * signing in with it becomes a member once they add the user's email too.
+ * Returns the entry, with the member when the membership is now mutual.
+ */
+export const addHouseholdMemberAction = async (input: AddHouseholdMemberInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(AddHouseholdMemberInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Enter a valid email address',
+              field: 'email'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      const email = parsed.email.toLowerCase();
+      if (email === session.user.email.toLowerCase()) {
+        return yield* new ValidationError({
+          message: 'You are already part of your household',
+          field: 'email'
+        });
+      }
+
+      yield* db.insert(schema.householdMember).values({ userId, email }).onConflictDoNothing();
+
+      return { email, member: yield* findHouseholdMember(userId, email) };
+    }).pipe(
+      Effect.withSpan('action.household.addMember', {
+        attributes: {
+          operation: 'household.addMember'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to add household member'
+              })
+            )
+          ),
+        onSuccess: entry =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            return { _tag: 'Success' as const, entry };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,56 @@
+import { describe, expect, layer } from '@effect/vitest';
+import { Effect } from 'effect';
+import { eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { findHouseholdMember, getHouseholdMembers } from './queries';
+
+/**
+ * Integration tests for household membership.
+ * Requires DATABASE_URL (loaded from .env.local) pointing at a migrated database.
+ */
+
+const createUser = (name: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const [user] = yield* Effect.acquireRelease(
+      db
+        .insert(schema.user)
+        .values({ name, email: `${name.toLowerCase()}-${createId()}@test.local` })
+        .returning(),
+      ([user]) => db.delete(schema.user).where(eq(schema.user.id, user.id)).pipe(Effect.orDie)
+    );
+    return user;
+  });
+
+describe.skipIf(!process.env.DATABASE_URL)('getHouseholdMembers', () => {
+  layer(Db.Live)(it => {
+    it.scoped('returns a member only once both added each other', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const anna = yield* createUser('Anna');
+        const erik = yield* createUser('Erik');
+
+        yield* db
+          .insert(schema.householdMember)
+          .values({ userId: anna.id, email: erik.email.toLowerCase() });
+
+        expect(yield* getHouseholdMembers(anna.id)).toEqual([
+          { email: erik.email.toLowerCase(), member: null }
+        ]);
+        expect(yield* findHouseholdMember(anna.id, erik.email)).toBeNull();
+
+        yield* db
+          .insert(schema.householdMember)
+          .values({ userId: erik.id, email: anna.email.toLowerCase() });
+
+        expect(yield* findHouseholdMember(anna.id, erik.email.toUpperCase())).toEqual({
+          userId: erik.id,
+          name: 'Erik',
+          email: erik.email
+        });
+      })
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { Effect } from 'effect';
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import type { ViewMember } from '@/lib/core/saved-view/queries';
+
+export type HouseholdEntry = {
+  /** Email the user added, lowercased */
+  email: string;
+  /** The member signing in with it, once they added the user back; null until then */
+  member: ViewMember | null;
+};
+
+/**
+ * Get the emails the user counts to their household, by email, with the
+ * member each belongs to once the membership is mutual.
+ *
+ * A member is only returned after they listed the user's own email too, so
+ * adding an email never reveals whether someone signs in with it.
+ */
+export const getHouseholdMembers = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const listed = yield* db
+      .select({ email: schema.householdMember.email })
+      .from(schema.householdMember)
+      .where(eq(schema.householdMember.userId, userId))
+      .orderBy(asc(schema.householdMember.email));
+
+    if (listed.length === 0) return [];
+
+    const [owner] = yield* db
+      .select({ email: schema.user.email })
+      .from(schema.user)
+      .where(eq(schema.user.id, userId))
+      .limit(1);
+
+    const members = owner
+      ? yield* db
+          .select({
+            userId: schema.user.id,
+            name: schema.user.name,
+            email: schema.user.email
+          })
+          .from(schema.householdMember)
+          .innerJoin(schema.user, eq(schema.householdMember.userId, schema.user.id))
+          .where(
+            and(
+              eq(schema.householdMember.email, owner.email.toLowerCase()),
+              ne(schema.user.id, userId),
+              inArray(
+                sql`lower(${schema.user.email})`,
+                listed.map(row => row.email)
+              )
+            )
+          )
+      : [];
+    const memberByEmail = new Map(members.map(member => [member.email.toLowerCase(), member]));
+
+    return listed.map(
+      ({ email }): HouseholdEntry => ({ email, member: memberByEmail.get(email) ?? null })
+    );
+  }).pipe(Effect.withSpan('Household.getMembers'));
+
+/**
+ * Get the household member signing in with an email, null unless the
+ * membership is mutual.
+ */
+export const findHouseholdMember = (userId: string, email: string) =>
+  getHouseholdMembers(userId).pipe(
+    Effect.map(
+      entries => entries.find(entry => entry.email === email.toLowerCase())?.member ?? null
+    ),
+    Effect.withSpan('Household.findMember')
+  );
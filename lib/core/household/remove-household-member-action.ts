@@ -0,0 +1,112 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, inArray, or } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ValidationError } from '@/lib/core/errors';
+import { findHouseholdMember } from './queries';
+
+const RemoveHouseholdMemberInput = S.Struct({
+  email: S.String.pipe(S.minLength(1))
+});
+
+type RemoveHouseholdMemberInput = S.Schema.Type<typeof RemoveHouseholdMemberInput>;
+
+/**
+ * Server action to remove an email from the user's household. Views shared
+ * between the user and that member, either way, stop being shared.
+ */
+export const removeHouseholdMemberAction = async (input: RemoveHouseholdMemberInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(RemoveHouseholdMemberInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Email is required',
+              field: 'email'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      const email = parsed.email.toLowerCase();
+      const member = yield* findHouseholdMember(userId, email);
+
+      yield* db.transaction(() =>
+        Effect.gen(function* () {
+          yield* db
+            .delete(schema.householdMember)
+            .where(
+              and(
+                eq(schema.householdMember.userId, userId),
+                eq(schema.householdMember.email, email)
+              )
+            );
+
+          if (!member) return;
+
+          const views = yield* db
+            .select({ id: schema.savedView.id })
+            .from(schema.savedView)
+            .where(inArray(schema.savedView.userId, [userId, member.userId]));
+          if (views.length === 0) return;
+
+          yield* db.delete(schema.savedViewShare).where(
+            and(
+              inArray(
+                schema.savedViewShare.viewId,
+                views.map(view => view.id)
+              ),
+              or(
+                eq(schema.savedViewShare.userId, userId),
+                eq(schema.savedViewShare.userId, member.userId)
+              )
+            )
+          );
+        })
+      );
+
+      return { email };
+    }).pipe(
+      Effect.withSpan('action.household.removeMember', {
+        attributes: {
+          operation: 'household.removeMember'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to remove household member'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
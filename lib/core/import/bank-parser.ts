@@ -0,0 +1,201 @@
+import type { CellValue, Sheet } from './sheet';
+import type { XmlNode } from './xml';
+
+/**
+ * A transaction row extracted from a bank export, before deduplication
+ * and categorization.
+ */
+export type ParsedRow = {
+  date: Date;
+  merchant: string;
+  amount: number;
+  balance: number | null;
+  /** The bank's own transaction id, when the format has one (camt.053, OFX) */
+  externalId?: string;
+  /** Booking date, when the format distinguishes it from the transaction date */
+  bookingDate?: Date;
+  /** Preliminary, not yet booked: imported as pending until the booked row arrives */
+  pending?: boolean;
+};
+
+/**
+ * Why a file row produced no transaction: a preliminary (not yet booked) row
+ * that the bank lists again once booked, or a row that could not be read.
+ */
+export type RowRejection = {
+  outcome: 'preliminary' | 'invalid';
+  reason: string;
+};
+
+export const invalidRow = (reason: string): RowRejection => ({ outcome: 'invalid', reason });
+
+export const preliminaryRow = (reason: string): RowRejection => ({
+  outcome: 'preliminary',
+  reason
+});
+
+/** Rejections shared by the parsers, for rows missing a required field */
+export const INVALID = {
+  merchant: invalidRow('No merchant text'),
+  date: invalidRow('Missing or unparseable date'),
+  amount: invalidRow('Missing or non-numeric amount')
+};
+
+export const isRejection = (row: ParsedRow | RowRejection): row is RowRejection => 'outcome' in row;
+
+/**
+ * Where a row came from: its 1-based row number in the sheet (or entry number
+ * in a statement) and its raw values by column, for the import report.
+ */
+export type RowSource = {
+  line: number;
+  raw: Record<string, string>;
+};
+
+export type RejectedRow = RowSource & RowRejection;
+
+/**
+ * What a parser extracted from a file. `sources` is aligned with `rows`;
+ * every other non-empty row below the header is in `rejected`.
+ */
+export type ParseResult = {
+  rows: ParsedRow[];
+  sources: RowSource[];
+  rejected: RejectedRow[];
+};
+
+/**
+ * Collect mapped rows into a ParseResult, keeping file order.
+ */
+export const collectRows = (
+  entries: Iterable<{ source: RowSource; row: ParsedRow | RowRejection }>
+): ParseResult => {
+  const result: ParseResult = { rows: [], sources: [], rejected: [] };
+  for (const { source, row } of entries) {
+    if (isRejection(row)) {
+      result.rejected.push({ ...source, ...row });
+    } else {
+      result.rows.push(row);
+      result.sources.push(source);
+    }
+  }
+  return result;
+};
+
+const rawText = (value: CellValue): string | null => {
+  if (value === null) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  const text = String(value).trim();
+  return text === '' ? null : text;
+};
+
+/**
+ * The raw values of a sheet row keyed by the header row's labels (or the
+ * column number where the header is empty). Empty cells are left out.
+ */
+export const sheetRowSource = (
+  header: ReadonlyArray<CellValue>,
+  cells: ReadonlyArray<CellValue>,
+  line: number
+): RowSource => {
+  const raw: Record<string, string> = {};
+  cells.forEach((cell, i) => {
+    const text = rawText(cell);
+    if (text !== null) raw[rawText(header[i] ?? null) ?? `Column ${i + 1}`] = text;
+  });
+  return { line, raw };
+};
+
+/**
+ * A bank export format. Detection looks for a header row that contains every
+ * declared column; rows below it are handed to `mapRow`, which reads cells by column name.
+ */
+export type BankParser = {
+  /** Stable identifier stored on the upload record, e.g. "swedbank" */
+  readonly id: string;
+  /** Display name, e.g. "Swedbank" */
+  readonly name: string;
+  /** Returns the index of the header row, or null if the sheet is not this format */
+  readonly detect: (sheet: Sheet) => number | null;
+  /** Map the data rows below the header row */
+  readonly parse: (sheet: Sheet, headerRow: number) => ParseResult;
+};
+
+/**
+ * A structured statement format (camt.053, OFX). These are parsed from the
+ * markup tree instead of a sheet of cells.
+ */
+export type StatementParser = {
+  readonly id: string;
+  readonly name: string;
+  /** Whether the decoded file text is in this format */
+  readonly detect: (text: string) => boolean;
+  /** Extract booked transactions from the parsed markup */
+  readonly parse: (root: XmlNode) => ParseResult;
+};
+
+/** Only the first rows are scanned for a header (Swedbank and Handelsbanken have preambles) */
+const HEADER_SCAN_ROWS = 20;
+
+const normalizeHeader = (value: CellValue): string =>
+  typeof value === 'string' ? value.trim().toLowerCase() : '';
+
+/**
+ * Define a bank parser from its header columns.
+ *
+ * `columns` maps each field the mapper needs to the header labels it may appear
+ * under (case-insensitive), e.g. `{ amount: ['belopp', 'amount'] }`. Every column
+ * must be present for the format to be detected. `mapRow` returns a
+ * RowRejection for rows that are not imported (preliminary transactions,
+ * summary lines, unreadable values), which end up in the import report.
+ */
+export const defineBankParser = <C extends string>(definition: {
+  id: string;
+  name: string;
+  columns: Record<C, ReadonlyArray<string>>;
+  mapRow: (cell: (column: C) => CellValue) => ParsedRow | RowRejection;
+}): BankParser => {
+  const columnNames = Object.keys(definition.columns).filter(
+    (key): key is C => key in definition.columns
+  );
+
+  const resolveColumns = (headerCells: ReadonlyArray<CellValue>) => {
+    const headers = headerCells.map(normalizeHeader);
+    const indexes = new Map<C, number>();
+    for (const column of columnNames) {
+      const index = headers.findIndex(header => definition.columns[column].includes(header));
+      if (index === -1) return null;
+      indexes.set(column, index);
+    }
+    return indexes;
+  };
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    detect: sheet => {
+      const limit = Math.min(sheet.length, HEADER_SCAN_ROWS);
+      for (let i = 0; i < limit; i++) {
+        if (resolveColumns(sheet[i])) return i;
+      }
+      return null;
+    },
+    parse: (sheet, headerRow) => {
+      const indexes = resolveColumns(sheet[headerRow]);
+      if (!indexes) return { rows: [], sources: [], rejected: [] };
+
+      return collectRows(
+        sheet.flatMap((cells, i) =>
+          i > headerRow && cells.some(cell => cell !== null)
+            ? [
+                {
+                  source: sheetRowSource(sheet[headerRow], cells, i + 1),
+                  row: definition.mapRow(column => cells[indexes.get(column) ?? -1] ?? null)
+                }
+              ]
+            : []
+        )
+      );
+    }
+  };
+};
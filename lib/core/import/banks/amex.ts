@@ -0,0 +1,29 @@
+import { defineBankParser, INVALID } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * American Express card export (.csv or .xlsx), Swedish or English headers.
+ * Headers: Datum, Beskrivning, Kortmedlem, Konto #, Belopp
+ * Charges are positive and payments negative, so the sign is flipped.
+ */
+export const amex = defineBankParser({
+  id: 'amex',
+  name: 'American Express',
+  columns: {
+    date: ['datum', 'date'],
+    description: ['beskrivning', 'description'],
+    cardMember: ['kortmedlem', 'card member'],
+    amount: ['belopp', 'amount']
+  },
+  mapRow: cell => {
+    const merchant = parseText(cell('description'));
+    const date = parseDate(cell('date'));
+    const amount = parseNumber(cell('amount'));
+    if (!merchant) return INVALID.merchant;
+    if (!date) return INVALID.date;
+    if (amount === null) return INVALID.amount;
+
+    // Card statements have no running balance
+    return { date, merchant, amount: -amount, balance: null };
+  }
+});
@@ -0,0 +1,40 @@
+import { defineBankParser, INVALID } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * Handelsbanken account export (.xlsx).
+ * Rows 1-8 hold account info, row 9 the headers:
+ * Reskontradatum, Transaktionsdatum, Text, Belopp, Saldo
+ */
+export const handelsbanken = defineBankParser({
+  id: 'handelsbanken',
+  name: 'Handelsbanken',
+  columns: {
+    bookingDate: ['reskontradatum'],
+    transactionDate: ['transaktionsdatum'],
+    text: ['text'],
+    amount: ['belopp'],
+    balance: ['saldo']
+  },
+  mapRow: cell => {
+    const merchant = parseText(cell('text'));
+    if (!merchant) return INVALID.merchant;
+
+    const date = parseDate(cell('transactionDate'));
+    if (!date) return INVALID.date;
+
+    const amount = parseNumber(cell('amount'));
+    if (amount === null) return INVALID.amount;
+
+    // Preliminary transactions (Prel prefix + no Reskontradatum) are imported as
+    // pending; the booked row in a later export replaces them
+    const bookingDate = parseDate(cell('bookingDate'));
+    if (merchant.startsWith('Prel') && !bookingDate) {
+      const text = merchant.replace(/^Prel\s*/, '');
+      if (!text) return INVALID.merchant;
+      return { date, merchant: text, amount, balance: null, pending: true };
+    }
+
+    return { date, merchant, amount, balance: parseNumber(cell('balance')) };
+  }
+});
@@ -0,0 +1,30 @@
+import { defineBankParser, INVALID } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * ICA Banken account export (.csv).
+ * Headers: Datum, Text, Typ, Budgetgrupp, Belopp, Saldo
+ * Amounts are formatted like "-123,00 kr".
+ */
+export const icaBanken = defineBankParser({
+  id: 'ica-banken',
+  name: 'ICA Banken',
+  columns: {
+    date: ['datum'],
+    text: ['text'],
+    type: ['typ'],
+    budgetGroup: ['budgetgrupp'],
+    amount: ['belopp'],
+    balance: ['saldo']
+  },
+  mapRow: cell => {
+    const merchant = parseText(cell('text'));
+    const date = parseDate(cell('date'));
+    const amount = parseNumber(cell('amount'));
+    if (!merchant) return INVALID.merchant;
+    if (!date) return INVALID.date;
+    if (amount === null) return INVALID.amount;
+
+    return { date, merchant, amount, balance: parseNumber(cell('balance')) };
+  }
+});
@@ -0,0 +1,36 @@
+import { defineBankParser, INVALID, preliminaryRow } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * Nordea account export (.csv).
+ * Headers: Bokföringsdag, Belopp, Avsändare, Mottagare, Namn, Rubrik, Saldo, Valuta
+ */
+export const nordea = defineBankParser({
+  id: 'nordea',
+  name: 'Nordea',
+  columns: {
+    bookingDate: ['bokföringsdag'],
+    amount: ['belopp'],
+    sender: ['avsändare'],
+    receiver: ['mottagare'],
+    name: ['namn'],
+    title: ['rubrik'],
+    balance: ['saldo']
+  },
+  mapRow: cell => {
+    // Reserved (not yet booked) rows have "Reserverat" instead of a date
+    const date = parseDate(cell('bookingDate'));
+    if (!date) {
+      return parseText(cell('bookingDate'))?.toLowerCase() === 'reserverat'
+        ? preliminaryRow('Reserved, not yet booked')
+        : INVALID.date;
+    }
+
+    const merchant = parseText(cell('title')) ?? parseText(cell('name'));
+    const amount = parseNumber(cell('amount'));
+    if (!merchant) return INVALID.merchant;
+    if (amount === null) return INVALID.amount;
+
+    return { date, merchant, amount, balance: parseNumber(cell('balance')) };
+  }
+});
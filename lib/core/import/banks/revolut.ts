@@ -0,0 +1,46 @@
+import { defineBankParser, INVALID, preliminaryRow } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * Revolut account statement (.csv).
+ * Headers: Type, Product, Started Date, Completed Date, Description, Amount,
+ * Fee, Currency, State, Balance
+ */
+export const revolut = defineBankParser({
+  id: 'revolut',
+  name: 'Revolut',
+  columns: {
+    product: ['product'],
+    startedDate: ['started date'],
+    completedDate: ['completed date'],
+    description: ['description'],
+    amount: ['amount'],
+    fee: ['fee'],
+    state: ['state'],
+    balance: ['balance']
+  },
+  mapRow: cell => {
+    // Only completed transactions; pending ones show up again once completed
+    const state = parseText(cell('state'));
+    if (state?.toUpperCase() !== 'COMPLETED') {
+      return preliminaryRow(`State is ${state ?? 'empty'}, not completed`);
+    }
+
+    const merchant = parseText(cell('description'));
+    const date = parseDate(cell('completedDate')) ?? parseDate(cell('startedDate'));
+    const amount = parseNumber(cell('amount'));
+    if (!merchant) return INVALID.merchant;
+    if (!date) return INVALID.date;
+    if (amount === null) return INVALID.amount;
+
+    // Fees are reported separately as positive numbers
+    const fee = parseNumber(cell('fee')) ?? 0;
+
+    return {
+      date,
+      merchant,
+      amount: Math.round((amount - fee) * 100) / 100,
+      balance: parseNumber(cell('balance'))
+    };
+  }
+});
@@ -0,0 +1,29 @@
+import { defineBankParser, INVALID } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * SEB account export (.csv or .xlsx).
+ * Headers: Bokföringsdatum, Valutadatum, Verifikationsnummer, Text, Belopp, Saldo
+ * (older exports use "Bokförd" and "Text/mottagare")
+ */
+export const seb = defineBankParser({
+  id: 'seb',
+  name: 'SEB',
+  columns: {
+    bookingDate: ['bokföringsdatum', 'bokförd'],
+    verification: ['verifikationsnummer'],
+    text: ['text', 'text/mottagare'],
+    amount: ['belopp'],
+    balance: ['saldo']
+  },
+  mapRow: cell => {
+    const merchant = parseText(cell('text'));
+    const date = parseDate(cell('bookingDate'));
+    const amount = parseNumber(cell('amount'));
+    if (!merchant) return INVALID.merchant;
+    if (!date) return INVALID.date;
+    if (amount === null) return INVALID.amount;
+
+    return { date, merchant, amount, balance: parseNumber(cell('balance')) };
+  }
+});
@@ -0,0 +1,32 @@
+import { defineBankParser, INVALID } from '../bank-parser';
+import { parseDate, parseNumber, parseText } from '../sheet';
+
+/**
+ * Swedbank account export (.csv).
+ * First line is a "* Transaktioner Period ..." preamble, then headers:
+ * Radnummer, Clearingnummer, Kontonummer, Produkt, Valuta, Bokföringsdag,
+ * Transaktionsdag, Valutadag, Referens, Beskrivning, Belopp, Bokfört saldo
+ */
+export const swedbank = defineBankParser({
+  id: 'swedbank',
+  name: 'Swedbank',
+  columns: {
+    rowNumber: ['radnummer'],
+    clearing: ['clearingnummer'],
+    transactionDate: ['transaktionsdag'],
+    reference: ['referens'],
+    description: ['beskrivning'],
+    amount: ['belopp'],
+    balance: ['bokfört saldo']
+  },
+  mapRow: cell => {
+    const merchant = parseText(cell('description')) ?? parseText(cell('reference'));
+    const date = parseDate(cell('transactionDate'));
+    const amount = parseNumber(cell('amount'));
+    if (!merchant) return INVALID.merchant;
+    if (!date) return INVALID.date;
+    if (amount === null) return INVALID.amount;
+
+    return { date, merchant, amount, balance: parseNumber(cell('balance')) };
+  }
+});
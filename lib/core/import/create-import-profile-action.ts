@@ -0,0 +1,98 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ValidationError } from '@/lib/core/errors';
+import { CsvMapping, headerSignature } from './csv-mapping';
+
+const CreateImportProfileInput = S.Struct({
+  name: S.String.pipe(S.minLength(1), S.maxLength(100)),
+  mapping: CsvMapping,
+  // Cells of the header row in the previewed file, used to recognize the next upload
+  headerCells: S.NullOr(S.Array(S.String))
+});
+
+type CreateImportProfileInput = S.Schema.Type<typeof CreateImportProfileInput>;
+
+/**
+ * Server action to save a csv column mapping as a named import profile.
+ * Saving under an existing name replaces that profile.
+ */
+export const createImportProfileAction = async (input: CreateImportProfileInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(CreateImportProfileInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Profile name (1-100 chars) and a valid column mapping are required',
+              field: 'input'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({
+        'importProfile.name': parsed.name
+      });
+
+      const values = {
+        ...parsed.mapping,
+        headerSignature:
+          parsed.mapping.headerRow !== null && parsed.headerCells
+            ? headerSignature(parsed.headerCells)
+            : null
+      };
+
+      const [profile] = yield* db
+        .insert(schema.importProfile)
+        .values({ userId: session.user.id, name: parsed.name, ...values })
+        .onConflictDoUpdate({
+          target: [schema.importProfile.userId, schema.importProfile.name],
+          set: values
+        })
+        .returning();
+
+      return profile;
+    }).pipe(
+      Effect.withSpan('action.importProfile.create', {
+        attributes: {
+          'importProfile.name': input.name,
+          operation: 'importProfile.create'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to save import profile'
+              })
+            )
+          ),
+        onSuccess: profile =>
+          Effect.sync(() => {
+            revalidatePath('/upload');
+            return { _tag: 'Success' as const, profile };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,205 @@
+import { Schema as S } from 'effect';
+import {
+  collectRows,
+  INVALID,
+  sheetRowSource,
+  type BankParser,
+  type ParsedRow,
+  type RowRejection
+} from './bank-parser';
+import type { CellValue, Sheet } from './sheet';
+import type { ImportProfile } from '@/lib/services/db/schema';
+
+/**
+ * User-defined column mapping for csv files that no built-in bank parser recognizes.
+ * Built by the upload wizard and optionally saved as a named import profile.
+ *
+ * Kept free of server-only imports so the wizard can preview parsed rows client-side.
+ */
+
+export const DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD.MM.YYYY',
+  'YYYYMMDD'
+] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export const DECIMAL_SEPARATORS = [',', '.'] as const;
+export type DecimalSeparator = (typeof DECIMAL_SEPARATORS)[number];
+
+/**
+ * - expensesNegative: -100 is money out (bank accounts)
+ * - expensesPositive: 100 is money out (most card statements)
+ */
+export const SIGN_CONVENTIONS = ['expensesNegative', 'expensesPositive'] as const;
+export type SignConvention = (typeof SIGN_CONVENTIONS)[number];
+
+const ColumnIndex = S.Number.pipe(S.int(), S.nonNegative());
+
+export const CsvMapping = S.Struct({
+  /** Index of the header row, null if the file has no header */
+  headerRow: S.NullOr(ColumnIndex),
+  dateColumn: ColumnIndex,
+  merchantColumn: ColumnIndex,
+  amountColumn: ColumnIndex,
+  balanceColumn: S.NullOr(ColumnIndex),
+  decimalSeparator: S.Literal(...DECIMAL_SEPARATORS),
+  dateFormat: S.Literal(...DATE_FORMATS),
+  signConvention: S.Literal(...SIGN_CONVENTIONS)
+});
+export type CsvMapping = S.Schema.Type<typeof CsvMapping>;
+
+/** Number of rows sent to the wizard */
+export const PREVIEW_ROWS = 10;
+
+const cellText = (value: CellValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+};
+
+/**
+ * Normalized header cells, used to recognize files from the same source.
+ */
+export const headerSignature = (cells: ReadonlyArray<CellValue>): string =>
+  cells.map(cell => cellText(cell).toLowerCase()).join('|');
+
+/**
+ * First rows of a sheet as plain strings, for the mapping wizard.
+ */
+export const previewSheet = (sheet: Sheet): string[][] =>
+  sheet.slice(0, PREVIEW_ROWS).map(row => row.map(cellText));
+
+const DATE_PATTERNS: Record<DateFormat, { pattern: RegExp; order: [number, number, number] }> = {
+  // order = capture group index of [year, month, day]
+  'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 2, 1] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 1, 2] },
+  'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: [3, 2, 1] },
+  YYYYMMDD: { pattern: /^(\d{4})(\d{2})(\d{2})$/, order: [1, 2, 3] }
+};
+
+/**
+ * Parse a date cell in the given format. Returns UTC midnight.
+ */
+export const parseDateWithFormat = (value: CellValue, format: DateFormat): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = pattern.exec(cellText(value));
+  if (!match) return null;
+
+  const year = match[order[0]];
+  const month = match[order[1]].padStart(2, '0');
+  const day = match[order[2]].padStart(2, '0');
+  const date = new Date(`${year}-${month}-${day}T00:00:00.000Z`);
+
+  // Reject overflowing dates like 2026-02-31
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+  return date;
+};
+
+/**
+ * Parse a number cell with an explicit decimal separator. The other separator
+ * and whitespace are treated as thousands separators.
+ */
+export const parseNumberWithSeparator = (
+  value: CellValue,
+  decimalSeparator: DecimalSeparator
+): number | null => {
+  if (typeof value === 'number') return value;
+
+  const thousands = decimalSeparator === ',' ? '.' : ',';
+  const cleaned = cellText(value)
+    .replace(/\u2212/g, '-')
+    .replace(/[^\d,.+-]/g, '')
+    .split(thousands)
+    .join('')
+    .replace(decimalSeparator, '.');
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+/**
+ * Map a single row using the mapping. Rows without a valid date, merchant or
+ * amount are rejected.
+ */
+export const mapCsvRow = (
+  cells: ReadonlyArray<CellValue>,
+  mapping: CsvMapping
+): ParsedRow | RowRejection => {
+  const date = parseDateWithFormat(cells[mapping.dateColumn] ?? null, mapping.dateFormat);
+  const merchant = cellText(cells[mapping.merchantColumn] ?? null);
+  const amount = parseNumberWithSeparator(
+    cells[mapping.amountColumn] ?? null,
+    mapping.decimalSeparator
+  );
+  if (!date) return INVALID.date;
+  if (!merchant) return INVALID.merchant;
+  if (amount === null) return INVALID.amount;
+
+  const balance =
+    mapping.balanceColumn === null
+      ? null
+      : parseNumberWithSeparator(cells[mapping.balanceColumn] ?? null, mapping.decimalSeparator);
+
+  return {
+    date,
+    merchant,
+    amount: mapping.signConvention === 'expensesPositive' ? -amount : amount,
+    balance
+  };
+};
+
+/**
+ * Build a parser from a mapping so it plugs into the bank parser registry.
+ *
+ * With a `signature` (saved profiles), the format is only detected when a row in
+ * the first lines has exactly those headers. Without one (a mapping submitted
+ * from the wizard for this file), the configured header row is used as-is.
+ */
+export const csvMappingParser = (
+  mapping: CsvMapping,
+  options: { id: string; name: string; signature: string | null }
+): BankParser => ({
+  id: options.id,
+  name: options.name,
+  detect: sheet => {
+    if (options.signature === null) return mapping.headerRow ?? -1;
+    const limit = Math.min(sheet.length, 20);
+    for (let i = 0; i < limit; i++) {
+      if (headerSignature(sheet[i]) === options.signature) return i;
+    }
+    return null;
+  },
+  parse: (sheet, headerRow) =>
+    collectRows(
+      sheet.flatMap((cells, i) =>
+        i > headerRow && cells.some(cell => cell !== null)
+          ? [
+              {
+                source: sheetRowSource(sheet[headerRow] ?? [], cells, i + 1),
+                row: mapCsvRow(cells, mapping)
+              }
+            ]
+          : []
+      )
+    )
+});
+
+/**
+ * The mapping stored on a saved import profile.
+ */
+export const profileMapping = (profile: ImportProfile): CsvMapping => ({
+  headerRow: profile.headerRow,
+  dateColumn: profile.dateColumn,
+  merchantColumn: profile.merchantColumn,
+  amountColumn: profile.amountColumn,
+  balanceColumn: profile.balanceColumn,
+  decimalSeparator: profile.decimalSeparator,
+  dateFormat: profile.dateFormat,
+  signConvention: profile.signConvention
+});
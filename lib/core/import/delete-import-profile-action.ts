@@ -0,0 +1,102 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const DeleteImportProfileInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteImportProfileInput = S.Schema.Type<typeof DeleteImportProfileInput>;
+
+/**
+ * Server action to delete a saved csv import profile.
+ * Already imported transactions are not affected.
+ */
+export const deleteImportProfileAction = async (input: DeleteImportProfileInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteImportProfileInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Import profile id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({
+        'importProfile.id': parsed.id
+      });
+
+      const deleted = yield* db
+        .delete(schema.importProfile)
+        .where(
+          and(
+            eq(schema.importProfile.id, parsed.id),
+            eq(schema.importProfile.userId, session.user.id)
+          )
+        )
+        .returning({ id: schema.importProfile.id });
+
+      if (deleted.length === 0) {
+        return yield* new NotFoundError({
+          message: 'Import profile not found',
+          entity: 'importProfile',
+          id: parsed.id
+        });
+      }
+
+      return { id: parsed.id };
+    }).pipe(
+      Effect.withSpan('action.importProfile.delete', {
+        attributes: {
+          'importProfile.id': input.id,
+          operation: 'importProfile.delete'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete import profile'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/upload');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
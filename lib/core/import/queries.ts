@@ -0,0 +1,113 @@
+import { Effect } from 'effect';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import type { Reconciliation } from '@/lib/core/bank-account/queries';
+
+/**
+ * Get the user's saved csv import profiles, by name.
+ */
+export const getImportProfiles = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    return yield* db
+      .select()
+      .from(schema.importProfile)
+      .where(eq(schema.importProfile.userId, userId))
+      .orderBy(asc(schema.importProfile.name));
+  }).pipe(Effect.withSpan('Import.getImportProfiles'));
+
+export type UploadHistoryItem = {
+  id: string;
+  fileName: string;
+  bank: string | null;
+  /** Rows inserted by the import */
+  transactionCount: number;
+  /** Rows from this upload that still exist */
+  remainingCount: number;
+  /** Remaining rows changed after the import (edited, categorized, recategorized) */
+  editedCount: number;
+  /** Edited rows that now have a category */
+  categorizedCount: number;
+  /** A per-row import report is stored (uploads since reports were added) */
+  hasReport: boolean;
+  /** Running-balance check of the upload's rows, null until checked */
+  reconciliation: Reconciliation | null;
+  dateRangeStart: Date | null;
+  dateRangeEnd: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * Get the user's past uploads with stats, newest first.
+ *
+ * A row counts as edited when its updatedAt moved past createdAt; both are set to
+ * the same timestamp on import, including auto-categorization. Automatic updates
+ * (pending booking and expiry, transfer linking) keep updatedAt.
+ */
+export const getUploadHistory = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const edited = sql`${schema.transaction.updatedAt} > ${schema.transaction.createdAt}`;
+
+    const results = yield* db
+      .select({
+        id: schema.upload.id,
+        fileName: schema.upload.fileName,
+        bank: schema.upload.bank,
+        transactionCount: schema.upload.transactionCount,
+        remainingCount: sql<number>`count(${schema.transaction.id})::int`.as('remainingCount'),
+        editedCount: sql<number>`count(*) filter (where ${edited})::int`.as('editedCount'),
+        categorizedCount:
+          sql<number>`count(*) filter (where ${edited} and ${schema.transaction.categoryId} is not null)::int`.as(
+            'categorizedCount'
+          ),
+        hasReport: sql<boolean>`${schema.upload.report} is not null`.as('hasReport'),
+        reconciliation: schema.upload.reconciliation,
+        dateRangeStart: schema.upload.dateRangeStart,
+        dateRangeEnd: schema.upload.dateRangeEnd,
+        createdAt: schema.upload.createdAt
+      })
+      .from(schema.upload)
+      .leftJoin(schema.transaction, eq(schema.transaction.uploadId, schema.upload.id))
+      .where(eq(schema.upload.uploadedBy, userId))
+      .groupBy(schema.upload.id)
+      .orderBy(desc(schema.upload.createdAt));
+
+    return results.map(
+      ({ reconciliation, ...upload }): UploadHistoryItem => ({
+        ...upload,
+        reconciliation: reconciliation && {
+          checked: reconciliation.checked,
+          gaps: reconciliation.gaps.map(gap => ({ ...gap, date: new Date(gap.date) }))
+        }
+      })
+    );
+  }).pipe(Effect.withSpan('Import.getUploadHistory'));
+
+/**
+ * Get one of the user's uploads with its per-row import report, or null.
+ */
+export const getUploadReport = (userId: string, uploadId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [upload] = yield* db
+      .select({
+        id: schema.upload.id,
+        fileName: schema.upload.fileName,
+        bank: schema.upload.bank,
+        transactionCount: schema.upload.transactionCount,
+        dateRangeStart: schema.upload.dateRangeStart,
+        dateRangeEnd: schema.upload.dateRangeEnd,
+        report: schema.upload.report,
+        createdAt: schema.upload.createdAt
+      })
+      .from(schema.upload)
+      .where(and(eq(schema.upload.id, uploadId), eq(schema.upload.uploadedBy, userId)))
+      .limit(1);
+
+    return upload ?? null;
+  }).pipe(Effect.withSpan('Import.getUploadReport'));
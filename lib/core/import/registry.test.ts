@@ -0,0 +1,156 @@
+import { describe, expect, it } from '@effect/vitest';
+import { Effect, Either } from 'effect';
+import { parseStatementFile } from './registry';
+import { parseNumber } from './sheet';
+
+/**
+ * Tests for statement format detection and number parsing. Sheet formats are
+ * tested through `parseUpload`.
+ */
+
+describe('parseStatementFile', () => {
+  it.effect('reads booked camt.053 entries with ids, booking dates and running balance', () =>
+    Effect.gen(function* () {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="SEK">1000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="SEK">245.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-01-05</Dt></BookgDt>
+        <ValDt><Dt>2026-01-04</Dt></ValDt>
+        <AcctSvcrRef>REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>ICA Nära &amp; Co</Nm></Cdtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SEK">59.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-01-06</Dt></BookgDt>
+        <AddtlNtryInf>Spotify</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SEK">25000</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2026-01-25T08:00:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><AcctSvcrRef>REF-2</AcctSvcrRef></Refs>
+          <RmtInf><Ustrd>Lön januari</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+      const result = yield* parseStatementFile('statement.xml', Buffer.from(xml, 'utf-8'));
+
+      expect(result.bank.id).toBe('camt053');
+      expect(result.rows).toEqual([
+        {
+          date: new Date('2026-01-04T00:00:00.000Z'),
+          bookingDate: new Date('2026-01-05T00:00:00.000Z'),
+          merchant: 'ICA Nära & Co',
+          amount: -245.5,
+          balance: 754.5,
+          externalId: 'REF-1'
+        },
+        {
+          date: new Date('2026-01-25T00:00:00.000Z'),
+          bookingDate: new Date('2026-01-25T00:00:00.000Z'),
+          merchant: 'Lön januari',
+          amount: 25000,
+          balance: 25754.5,
+          externalId: 'REF-2'
+        }
+      ]);
+    })
+  );
+
+  it.effect('reads SGML OFX with unclosed leaf tags', () =>
+    Effect.gen(function* () {
+      const sgml = [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        '',
+        '<OFX>',
+        '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<BANKTRANLIST>',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20260112120000.000[-5:EST]',
+        '<TRNAMT>-1200.00',
+        '<FITID>2026011201',
+        '<NAME>COOP',
+        '<MEMO>Kortköp',
+        '</STMTTRN>',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20260125',
+        '<DTUSER>20260124',
+        '<TRNAMT>500.00',
+        '<FITID>2026012501',
+        '<MEMO>Swish från Anna',
+        '</STMTTRN>',
+        '</BANKTRANLIST>',
+        '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+        '</OFX>'
+      ].join('\r\n');
+
+      const result = yield* parseStatementFile('statement.qfx', Buffer.from(sgml, 'utf-8'));
+
+      expect(result.bank.id).toBe('ofx');
+      expect(result.rows).toEqual([
+        {
+          date: new Date('2026-01-12T00:00:00.000Z'),
+          bookingDate: new Date('2026-01-12T00:00:00.000Z'),
+          merchant: 'COOP',
+          amount: -1200,
+          balance: null,
+          externalId: '2026011201'
+        },
+        {
+          date: new Date('2026-01-24T00:00:00.000Z'),
+          bookingDate: new Date('2026-01-25T00:00:00.000Z'),
+          merchant: 'Swish från Anna',
+          amount: 500,
+          balance: null,
+          externalId: '2026012501'
+        }
+      ]);
+      expect(result.minDate).toEqual(new Date('2026-01-12T00:00:00.000Z'));
+      expect(result.maxDate).toEqual(new Date('2026-01-24T00:00:00.000Z'));
+    })
+  );
+
+  it.effect('fails with a ValidationError for other xml documents', () =>
+    Effect.gen(function* () {
+      const result = yield* Effect.either(
+        parseStatementFile('feed.xml', Buffer.from('<rss><channel/></rss>', 'utf-8'))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+    })
+  );
+});
+
+describe('parseNumber', () => {
+  it('parses Swedish and English number formats', () => {
+    expect(parseNumber('-1 234,56')).toBe(-1234.56);
+    expect(parseNumber('\u22121 234,56 kr')).toBe(-1234.56);
+    expect(parseNumber('1,234.56')).toBe(1234.56);
+    expect(parseNumber('1.234,56')).toBe(1234.56);
+    expect(parseNumber(42)).toBe(42);
+    expect(parseNumber('Reserverat')).toBeNull();
+    expect(parseNumber(null)).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { Effect } from 'effect';
+import { ValidationError } from '@/lib/core/errors';
+import type { BankParser, ParseResult, StatementParser } from './bank-parser';
+import { decodeText, type Sheet } from './sheet';
+import { parseXml } from './xml';
+import { amex } from './banks/amex';
+import { handelsbanken } from './banks/handelsbanken';
+import { icaBanken } from './banks/ica-banken';
+import { nordea } from './banks/nordea';
+import { revolut } from './banks/revolut';
+import { seb } from './banks/seb';
+import { swedbank } from './banks/swedbank';
+import { camt053 } from './statements/camt053';
+import { ofx } from './statements/ofx';
+
+/**
+ * All supported bank formats, tried in order. Formats whose headers are a
+ * subset of another's must come after it (Amex's Datum/Beskrivning/Belopp
+ * is the loosest, so it goes last).
+ */
+export const BANK_PARSERS: ReadonlyArray<BankParser> = [
+  handelsbanken,
+  swedbank,
+  nordea,
+  seb,
+  icaBanken,
+  revolut,
+  amex
+];
+
+/**
+ * Structured statement formats, detected from the file content.
+ */
+export const STATEMENT_PARSERS: ReadonlyArray<StatementParser> = [camt053, ofx];
+
+const STATEMENT_EXTENSIONS = ['.xml', '.ofx', '.qfx'];
+
+export const isStatementFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return STATEMENT_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+/**
+ * Find the first parser (in order) that recognizes the sheet.
+ */
+export const detectBankParser = (
+  sheet: Sheet,
+  parsers: ReadonlyArray<BankParser> = BANK_PARSERS
+) => {
+  for (const parser of parsers) {
+    const headerRow = parser.detect(sheet);
+    if (headerRow !== null) return { parser, headerRow };
+  }
+  return null;
+};
+
+const withDateRange = (bank: { id: string; name: string }, result: ParseResult) => {
+  let minDate: Date | null = null;
+  let maxDate: Date | null = null;
+  for (const row of result.rows) {
+    if (!minDate || row.date < minDate) minDate = row.date;
+    if (!maxDate || row.date > maxDate) maxDate = row.date;
+  }
+
+  return { bank, ...result, minDate, maxDate };
+};
+
+/**
+ * Extract transaction rows with a detected parser, along with their date range
+ * and the rows that were rejected.
+ */
+export const extractRows = (sheet: Sheet, detected: { parser: BankParser; headerRow: number }) =>
+  withDateRange(
+    { id: detected.parser.id, name: detected.parser.name },
+    detected.parser.parse(sheet, detected.headerRow)
+  );
+
+/**
+ * Display name for a bank id stored on an upload. Csv profile uploads are stored as "csv".
+ */
+export const bankDisplayName = (id: string | null): string | null => {
+  if (id === null) return null;
+  if (id === 'csv') return 'CSV';
+  return [...BANK_PARSERS, ...STATEMENT_PARSERS].find(p => p.id === id)?.name ?? id;
+};
+
+export const unrecognizedFormatError = () =>
+  new ValidationError({
+    message: `Unrecognized bank export. Supported formats: ${[...BANK_PARSERS, ...STATEMENT_PARSERS].map(p => p.name).join(', ')}`,
+    field: 'file'
+  });
+
+/**
+ * Read a camt.053 or OFX/QFX statement and extract its booked transactions.
+ */
+export const parseStatementFile = (
+  fileName: string,
+  buffer: Buffer<ArrayBufferLike>,
+  parsers: ReadonlyArray<StatementParser> = STATEMENT_PARSERS
+) =>
+  Effect.gen(function* () {
+    const text = decodeText(buffer);
+
+    const parser = parsers.find(p => p.detect(text));
+    if (!parser) {
+      return yield* unrecognizedFormatError();
+    }
+
+    const result = withDateRange(
+      { id: parser.id, name: parser.name },
+      parser.parse(parseXml(text))
+    );
+
+    yield* Effect.annotateCurrentSpan({
+      'import.bank': result.bank.id,
+      'import.rows': result.rows.length,
+      'import.rejected': result.rejected.length,
+      'file.name': fileName
+    });
+
+    return result;
+  }).pipe(Effect.withSpan('Import.parseStatementFile'));
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@effect/vitest';
+import { buildImportReport, countOutcomes } from './report';
+
+const source = (line: number) => ({ line, raw: { Text: `row ${line}` } });
+const booked = { row: {}, replaces: null, possiblyReplaces: null };
+
+describe('buildImportReport', () => {
+  it('reports every row in file order with its outcome', () => {
+    const report = buildImportReport(
+      {
+        sources: [source(2), source(4), source(5), source(6)],
+        rejected: [
+          { ...source(3), outcome: 'preliminary', reason: 'Prel row' },
+          { ...source(7), outcome: 'invalid', reason: 'No merchant text' }
+        ]
+      },
+      [
+        { index: 0, duplicate: false, ambiguous: false, reason: null, ...booked },
+        { index: 1, duplicate: true, ambiguous: false, reason: 'Already imported', ...booked },
+        { index: 2, duplicate: false, ambiguous: false, reason: null, ...booked },
+        { index: 3, duplicate: true, ambiguous: true, reason: 'Counted', ...booked }
+      ],
+      new Map([
+        [0, 'tx-1'],
+        [3, 'tx-2']
+      ])
+    );
+
+    expect(report.map(row => [row.line, row.outcome, row.transactionId])).toEqual([
+      [2, 'inserted', 'tx-1'],
+      [3, 'preliminary', null],
+      [4, 'duplicate', null],
+      [5, 'excluded', null],
+      [6, 'inserted', 'tx-2'],
+      [7, 'invalid', null]
+    ]);
+    expect(report[2].reason).toBe('Already imported');
+    expect(report[4].reason).toMatch(/confirmed as a repeat purchase/);
+    expect(countOutcomes(report)).toEqual({
+      inserted: 2,
+      reconciled: 0,
+      duplicate: 1,
+      excluded: 1,
+      preliminary: 1,
+      invalid: 1
+    });
+  });
+
+  it('reports pending rows and the pending rows booked rows replaced', () => {
+    const report = buildImportReport(
+      { sources: [source(2), source(3), source(4)], rejected: [] },
+      [
+        {
+          index: 0,
+          duplicate: false,
+          ambiguous: false,
+          reason: null,
+          row: { pending: true },
+          replaces: null,
+          possiblyReplaces: null
+        },
+        {
+          index: 1,
+          duplicate: false,
+          ambiguous: false,
+          reason: null,
+          row: {},
+          replaces: { date: new Date(2025, 0, 10) },
+          possiblyReplaces: null
+        },
+        {
+          index: 2,
+          duplicate: false,
+          ambiguous: false,
+          reason: null,
+          row: {},
+          replaces: null,
+          possiblyReplaces: { date: new Date(2025, 0, 11), merchant: 'ICA' }
+        }
+      ],
+      new Map([
+        [0, 'tx-new'],
+        [1, 'tx-pending'],
+        [2, 'tx-other']
+      ])
+    );
+
+    expect(report.map(row => [row.outcome, row.transactionId])).toEqual([
+      ['inserted', 'tx-new'],
+      ['reconciled', 'tx-pending'],
+      ['inserted', 'tx-other']
+    ]);
+    expect(report[0].reason).toMatch(/imported as pending/);
+    expect(report[1].reason).toBe('Booked version of the pending row from 2025-01-10');
+    expect(report[2].reason).toMatch(/^Possibly the booked version .* too unlike to replace it$/);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Per-row import report: what happened to every non-empty row of an uploaded
+ * file. Pure functions without server-only imports, shared by the upload action
+ * and the report views.
+ */
+
+import type { RejectedRow, RowSource } from './bank-parser';
+
+export const IMPORT_OUTCOMES = [
+  'inserted',
+  'reconciled',
+  'duplicate',
+  'excluded',
+  'preliminary',
+  'invalid'
+] as const;
+export type ImportOutcome = (typeof IMPORT_OUTCOMES)[number];
+
+export const IMPORT_OUTCOME_LABELS: Record<ImportOutcome, string> = {
+  inserted: 'Inserted',
+  reconciled: 'Replaced pending',
+  duplicate: 'Duplicate',
+  excluded: 'Left out',
+  preliminary: 'Preliminary',
+  invalid: 'Invalid'
+};
+
+export type ImportReportRow = RowSource & {
+  outcome: ImportOutcome;
+  reason: string | null;
+  /** The created transaction, or the pending one it replaced */
+  transactionId: string | null;
+};
+
+/**
+ * Combine the parser's rejected rows with the outcome of each parsed row, in
+ * file order.
+ *
+ * `planned` holds the parsed rows by index (aligned with `sources`);
+ * `inserted` maps the index of each inserted or reconciled row to its
+ * transaction id.
+ */
+export function buildImportReport(
+  parsed: { sources: ReadonlyArray<RowSource>; rejected: ReadonlyArray<RejectedRow> },
+  planned: ReadonlyArray<{
+    index: number;
+    duplicate: boolean;
+    ambiguous: boolean;
+    reason: string | null;
+    row: { pending?: boolean };
+    replaces: { date: Date } | null;
+    possiblyReplaces: { date: Date; merchant: string } | null;
+  }>,
+  inserted: ReadonlyMap<number, string>
+): ImportReportRow[] {
+  const parsedRows = planned.flatMap((row): ImportReportRow[] => {
+    const source = parsed.sources[row.index];
+    if (!source) return [];
+
+    const transactionId = inserted.get(row.index) ?? null;
+    if (transactionId !== null && row.replaces) {
+      return [
+        {
+          ...source,
+          outcome: 'reconciled',
+          reason: `Booked version of the pending row from ${row.replaces.date.toLocaleDateString('sv-SE')}`,
+          transactionId
+        }
+      ];
+    }
+    if (transactionId !== null) {
+      return [
+        {
+          ...source,
+          outcome: 'inserted',
+          reason: row.row.pending
+            ? 'Preliminary, imported as pending until the bank books it'
+            : row.possiblyReplaces
+              ? `Possibly the booked version of the pending row "${row.possiblyReplaces.merchant}" from ${row.possiblyReplaces.date.toLocaleDateString('sv-SE')}, too unlike to replace it`
+              : row.ambiguous
+                ? row.duplicate
+                  ? 'Identical to an imported row of the same day, confirmed as a repeat purchase'
+                  : 'Identical to an imported row of the same day, told apart by count only'
+                : null,
+          transactionId
+        }
+      ];
+    }
+
+    return [
+      row.duplicate
+        ? { ...source, outcome: 'duplicate', reason: row.reason, transactionId: null }
+        : { ...source, outcome: 'excluded', reason: 'Left out in the preview', transactionId: null }
+    ];
+  });
+
+  const rejectedRows = parsed.rejected.map(
+    ({ line, raw, outcome, reason }): ImportReportRow => ({
+      line,
+      raw,
+      outcome,
+      reason,
+      transactionId: null
+    })
+  );
+
+  return [...parsedRows, ...rejectedRows].sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Number of report rows per outcome.
+ */
+export function countOutcomes(report: ReadonlyArray<ImportReportRow>) {
+  const counts: Record<ImportOutcome, number> = {
+    inserted: 0,
+    reconciled: 0,
+    duplicate: 0,
+    excluded: 0,
+    preliminary: 0,
+    invalid: 0
+  };
+  for (const row of report) counts[row.outcome] += 1;
+  return counts;
+}
@@ -0,0 +1,91 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { ValidationError } from '@/lib/core/errors';
+import { removeAttachmentFiles } from '@/lib/core/attachment/files';
+import { rollbackUpload } from './rollback-upload';
+
+const RollbackUploadInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type RollbackUploadInput = S.Schema.Type<typeof RollbackUploadInput>;
+
+/**
+ * Server action to roll back an upload: deletes the transactions it created,
+ * including any edits made to them since, and the upload record itself.
+ * Pending rows it booked are restored to pending (see `rollbackUpload`).
+ */
+export const rollbackUploadAction = async (input: RollbackUploadInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(RollbackUploadInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Upload id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const { attachmentKeys, ...result } = yield* rollbackUpload(session.user.id, parsed.id);
+
+      yield* removeAttachmentFiles(attachmentKeys);
+
+      yield* Effect.annotateCurrentSpan({
+        'upload.id': result.id,
+        'transaction.deleted': result.deletedCount,
+        'transaction.restored': result.restoredCount
+      });
+
+      return result;
+    }).pipe(
+      Effect.withSpan('action.upload.rollback', {
+        attributes: {
+          'upload.id': input.id,
+          operation: 'upload.rollback'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to roll back upload'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/review');
+            revalidatePath('/transactions');
+            revalidatePath('/uploads');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
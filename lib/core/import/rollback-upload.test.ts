@@ -0,0 +1,138 @@
+import { describe, expect, layer } from '@effect/vitest';
+import { Effect, Layer } from 'effect';
+import { eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import type { ParsedRow } from './bank-parser';
+import { importUpload } from '@/lib/core/transaction/import-upload';
+import { rollbackUpload } from './rollback-upload';
+
+/**
+ * Integration tests for rolling back uploads that booked pending rows.
+ * Requires DATABASE_URL (loaded from .env.local) pointing at a migrated database.
+ */
+
+const setupUser = Effect.gen(function* () {
+  const db = yield* Db;
+
+  const [user] = yield* Effect.acquireRelease(
+    db
+      .insert(schema.user)
+      .values({ name: 'Uploader', email: `rollback-${createId()}@test.local` })
+      .returning(),
+    ([user]) => db.delete(schema.user).where(eq(schema.user.id, user.id)).pipe(Effect.orDie)
+  );
+
+  return user;
+});
+
+/** Import every new row, the way an upload without a preview selection does */
+const importRows = (userId: string, fileName: string, rows: ParsedRow[]) =>
+  Effect.gen(function* () {
+    const result = yield* importUpload(
+      userId,
+      {
+        fileName,
+        bank: 'csv',
+        accountId: null,
+        rows,
+        sources: rows.map((_, i) => ({ line: i + 2, raw: {} })),
+        rejected: [],
+        minDate: rows[0].date,
+        maxDate: rows[0].date
+      },
+      null
+    );
+    if (result.status !== 'imported') return yield* Effect.die('Nothing imported');
+    return result;
+  });
+
+describe.skipIf(!process.env.DATABASE_URL)('rollbackUpload', () => {
+  layer(Layer.mergeAll(Db.Live, Activity.Live))(it => {
+    it.scoped('restores a reconciled row to pending and keeps it on its own upload', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const user = yield* setupUser;
+
+        const pendingDate = new Date('2026-02-10T00:00:00.000Z');
+        const first = yield* importRows(user.id, 'pending.csv', [
+          {
+            date: pendingDate,
+            merchant: 'Prel ICA NARA',
+            amount: -120,
+            balance: null,
+            pending: true
+          }
+        ]);
+        const [id] = first.insertedIds.values();
+
+        const second = yield* importRows(user.id, 'booked.csv', [
+          {
+            date: new Date('2026-02-12T00:00:00.000Z'),
+            merchant: 'ICA NARA GOTEBORG',
+            amount: -120,
+            balance: 880
+          }
+        ]);
+        expect(second.reconciledCount).toBe(1);
+
+        const [booked] = yield* db
+          .select()
+          .from(schema.transaction)
+          .where(eq(schema.transaction.id, id));
+        expect(booked).toMatchObject({
+          status: 'booked',
+          merchant: 'ICA NARA GOTEBORG',
+          uploadId: first.uploadId,
+          bookedUploadId: second.uploadId
+        });
+
+        const rolledBack = yield* rollbackUpload(user.id, second.uploadId);
+        expect(rolledBack).toMatchObject({ deletedCount: 0, restoredCount: 1 });
+
+        const [restored] = yield* db
+          .select()
+          .from(schema.transaction)
+          .where(eq(schema.transaction.id, id));
+        expect(restored).toMatchObject({
+          status: 'pending',
+          merchant: 'Prel ICA NARA',
+          date: pendingDate,
+          balance: null,
+          originalHash: booked.pendingHash,
+          pendingHash: null,
+          bookedUploadId: null,
+          pendingVersion: null
+        });
+
+        const history = yield* db
+          .select({
+            action: schema.activity.action,
+            field: schema.activity.field,
+            oldValue: schema.activity.oldValue,
+            newValue: schema.activity.newValue
+          })
+          .from(schema.activity)
+          .where(eq(schema.activity.entityId, id));
+        // Booked, then restored by the rollback
+        expect(history).toContainEqual({
+          action: 'update',
+          field: 'merchant',
+          oldValue: 'Prel ICA NARA',
+          newValue: 'ICA NARA GOTEBORG'
+        });
+        expect(history).toContainEqual({
+          action: 'update',
+          field: 'merchant',
+          oldValue: 'ICA NARA GOTEBORG',
+          newValue: 'Prel ICA NARA'
+        });
+
+        const again = yield* rollbackUpload(user.id, first.uploadId);
+        expect(again).toMatchObject({ deletedCount: 1, restoredCount: 0 });
+      })
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { Effect } from 'effect';
+import { and, eq, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError } from '@/lib/core/errors';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { getAttachmentKeys } from '@/lib/core/attachment/queries';
+import { refreshUploadReconciliations } from './upload-reconciliation';
+
+/**
+ * Roll back an upload: deletes the transactions it created, including any
+ * edits made to them since, and the upload record itself. Pending rows its
+ * booked rows replaced belong to an earlier upload and are restored to their
+ * pending version instead. Manually created transactions and other uploads
+ * are never touched.
+ *
+ * Restores and deletes are recorded in the audit trail.
+ *
+ * Returns the storage keys of the deleted rows' attachments, for the caller
+ * to remove once the rollback is committed.
+ */
+export const rollbackUpload = (userId: string, uploadId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const activity = yield* Activity;
+
+    const [existing] = yield* db
+      .select({
+        id: schema.upload.id,
+        fileName: schema.upload.fileName,
+        bank: schema.upload.bank,
+        accountId: schema.upload.accountId,
+        dateRangeStart: schema.upload.dateRangeStart,
+        dateRangeEnd: schema.upload.dateRangeEnd
+      })
+      .from(schema.upload)
+      .where(and(eq(schema.upload.id, uploadId), eq(schema.upload.uploadedBy, userId)))
+      .limit(1);
+
+    if (!existing) {
+      return yield* new NotFoundError({
+        message: 'Upload not found',
+        entity: 'upload',
+        id: uploadId
+      });
+    }
+
+    const uploadTransactions = and(
+      eq(schema.transaction.uploadId, existing.id),
+      eq(schema.transaction.userId, userId)
+    );
+    const attachmentKeys = yield* getAttachmentKeys(uploadTransactions);
+
+    const { deleted, restored } = yield* db.transaction(() =>
+      Effect.gen(function* () {
+        const bookedRows = and(
+          eq(schema.transaction.bookedUploadId, existing.id),
+          eq(schema.transaction.userId, userId)
+        );
+
+        const booked = yield* db
+          .select({
+            id: schema.transaction.id,
+            date: schema.transaction.date,
+            merchant: schema.transaction.merchant
+          })
+          .from(schema.transaction)
+          .where(bookedRows);
+        const bookedById = new Map(booked.map(tx => [tx.id, tx]));
+
+        const restored = yield* db
+          .update(schema.transaction)
+          .set({
+            date: sql`(${schema.transaction.pendingVersion}->>'date')::timestamp`,
+            merchant: sql`${schema.transaction.pendingVersion}->>'merchant'`,
+            balance: null,
+            originalHash: sql`${schema.transaction.pendingHash}`,
+            pendingHash: null,
+            externalId: null,
+            bookingDate: null,
+            status: 'pending',
+            bookedUploadId: null,
+            pendingVersion: null,
+            // Keep updatedAt: restoring the pending version is not a user edit
+            updatedAt: sql`${schema.transaction.updatedAt}`
+          })
+          .where(bookedRows)
+          .returning({
+            id: schema.transaction.id,
+            date: schema.transaction.date,
+            merchant: schema.transaction.merchant
+          });
+
+        const deleted = yield* db.delete(schema.transaction).where(uploadTransactions).returning({
+          id: schema.transaction.id,
+          date: schema.transaction.date,
+          merchant: schema.transaction.merchant,
+          amount: schema.transaction.amount,
+          categoryId: schema.transaction.categoryId,
+          accountId: schema.transaction.accountId
+        });
+
+        yield* db
+          .delete(schema.upload)
+          .where(and(eq(schema.upload.id, existing.id), eq(schema.upload.uploadedBy, userId)));
+
+        yield* activity.record(userId, [
+          ...restored.flatMap(tx =>
+            fieldChanges('transaction', tx.id, bookedById.get(tx.id) ?? {}, tx)
+          ),
+          ...deleted.map(({ id, ...tx }) => ({
+            entity: 'transaction' as const,
+            entityId: id,
+            action: 'delete' as const,
+            oldValue: { ...tx, amount: parseFloat(tx.amount) }
+          })),
+          {
+            entity: 'upload',
+            entityId: existing.id,
+            action: 'delete',
+            oldValue: { fileName: existing.fileName, bank: existing.bank }
+          }
+        ]);
+
+        return { deleted, restored };
+      })
+    );
+
+    // Other uploads on the account may have lost or regained neighbouring rows
+    if (existing.accountId && existing.dateRangeStart && existing.dateRangeEnd) {
+      yield* refreshUploadReconciliations(userId, {
+        uploadId: null,
+        accountId: existing.accountId,
+        start: existing.dateRangeStart,
+        end: existing.dateRangeEnd
+      }).pipe(Effect.catchAll(error => Effect.logWarning('Balance reconciliation failed', error)));
+    }
+
+    return {
+      id: existing.id,
+      fileName: existing.fileName,
+      deletedCount: deleted.length,
+      restoredCount: restored.length,
+      attachmentKeys
+    };
+  }).pipe(Effect.withSpan('Upload.rollback'));
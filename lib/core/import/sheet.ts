@@ -0,0 +1,238 @@
+import { Effect } from 'effect';
+import ExcelJS from 'exceljs';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ValidationError } from '@/lib/core/errors';
+
+/**
+ * A single cell from a bank export, normalized across xlsx and csv.
+ * Csv cells are always strings; xlsx cells keep their native type.
+ */
+export type CellValue = string | number | Date | null;
+
+/** Rows of cells, 0-indexed, in file order */
+export type Sheet = ReadonlyArray<ReadonlyArray<CellValue>>;
+
+export const SUPPORTED_EXTENSIONS = ['.xlsx', '.csv', '.txt', '.xml', '.ofx', '.qfx'] as const;
+
+export const isSupportedFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return SUPPORTED_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+/**
+ * Normalize an exceljs cell value (formulas, rich text, hyperlinks) to a plain value.
+ */
+const normalizeExcelCell = (value: ExcelJS.CellValue): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'boolean') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return typeof value.text === 'string' ? value.text : null;
+  if ('result' in value) {
+    const result = value.result;
+    if (typeof result === 'string' || typeof result === 'number' || result instanceof Date) {
+      return result;
+    }
+  }
+  return null;
+};
+
+/**
+ * Read the first worksheet of an xlsx file.
+ * Uses temp file to work around exceljs Buffer type incompatibility.
+ */
+const readXlsx = (buffer: Buffer<ArrayBufferLike>) =>
+  Effect.gen(function* () {
+    const tempFile = path.join(os.tmpdir(), `kostnad-upload-${Date.now()}.xlsx`);
+    yield* Effect.tryPromise({
+      try: () => fs.writeFile(tempFile, buffer),
+      catch: () => new ValidationError({ message: 'Failed to write temp file', field: 'file' })
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    yield* Effect.tryPromise({
+      try: () => workbook.xlsx.readFile(tempFile),
+      catch: () => new ValidationError({ message: 'Failed to parse Excel file', field: 'file' })
+    }).pipe(Effect.ensuring(Effect.tryPromise(() => fs.unlink(tempFile)).pipe(Effect.ignore)));
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return yield* new ValidationError({
+        message: 'Excel file has no worksheets',
+        field: 'file'
+      });
+    }
+
+    const rows: CellValue[][] = [];
+    worksheet.eachRow({ includeEmpty: true }, row => {
+      const values = Array.isArray(row.values) ? row.values : [];
+      // exceljs row values are 1-indexed
+      rows.push(values.slice(1).map(normalizeExcelCell));
+    });
+
+    return rows;
+  });
+
+/**
+ * Decode csv or statement bytes. Exports from Swedish banks are either UTF-8 (often with BOM)
+ * or Windows-1252, so fall back when the bytes are not valid UTF-8.
+ */
+export const decodeText = (buffer: Buffer<ArrayBufferLike>): string => {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('windows-1252').decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, '');
+};
+
+/**
+ * Pick the delimiter that occurs most often in the first lines.
+ */
+const detectDelimiter = (lines: ReadonlyArray<string>): string => {
+  const candidates = [';', ',', '\t'];
+  const sample = lines.slice(0, 20).join('\n');
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = sample.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Parse csv text into rows. Supports quoted fields with escaped quotes and
+ * newlines inside quotes.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text.split(/\r?\n/));
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Read a bank export (xlsx or csv) into a sheet of cells.
+ */
+export const readSheet = (fileName: string, buffer: Buffer<ArrayBufferLike>) =>
+  Effect.gen(function* () {
+    if (fileName.toLowerCase().endsWith('.xlsx')) {
+      return yield* readXlsx(buffer);
+    }
+    const rows: Sheet = parseCsv(decodeText(buffer)).map(row =>
+      row.map(cell => (cell.trim() === '' ? null : cell.trim()))
+    );
+    return rows;
+  }).pipe(Effect.withSpan('Import.readSheet'));
+
+/**
+ * Parse a date cell. Accepts Date values, ISO-style dates (YYYY-MM-DD or YYYY/MM/DD,
+ * optionally with a time part) and day-first dates (DD/MM/YYYY or DD.MM.YYYY).
+ * Returns UTC midnight.
+ */
+export const parseDate = (value: CellValue): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+
+  const iso = /^(\d{4})[-/](\d{2})[-/](\d{2})/.exec(trimmed);
+  if (iso) {
+    const date = new Date(`${iso[1]}-${iso[2]}-${iso[3]}T00:00:00.000Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const dayFirst = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(trimmed);
+  if (dayFirst) {
+    const day = dayFirst[1].padStart(2, '0');
+    const month = dayFirst[2].padStart(2, '0');
+    const date = new Date(`${dayFirst[3]}-${month}-${day}T00:00:00.000Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+};
+
+/**
+ * Parse a numeric cell (amount or balance). Handles Swedish formatting
+ * ("-1 234,56 kr"), unicode minus signs and thousand separators.
+ */
+export const parseNumber = (value: CellValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+
+  let cleaned = value
+    .replace(/\u2212/g, '-')
+    .replace(/kr|sek/gi, '')
+    .replace(/\s/g, '');
+
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    // The separator that appears first is the thousands separator
+    cleaned =
+      cleaned.indexOf(',') < cleaned.indexOf('.')
+        ? cleaned.replace(/,/g, '')
+        : cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(',', '.');
+  }
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+/**
+ * Read a text cell, returning null for empty values.
+ */
+export const parseText = (value: CellValue): string | null => {
+  if (value === null || value instanceof Date) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+};
@@ -0,0 +1,140 @@
+import {
+  collectRows,
+  INVALID,
+  isRejection,
+  preliminaryRow,
+  type ParsedRow,
+  type RowRejection,
+  type RowSource,
+  type StatementParser
+} from '../bank-parser';
+import { parseDate } from '../sheet';
+import { child, children, descendants, textAt, type XmlNode } from '../xml';
+
+/**
+ * ISO 20022 camt.053 (BankToCustomerStatement), exported by most Swedish and
+ * European banks as "XML-kontoutdrag".
+ *
+ * Pending entries (Sts PDNG) are reported as preliminary. Amounts are unsigned in the file;
+ * CdtDbtInd DBIT means money out.
+ */
+
+const status = (entry: XmlNode): string | null =>
+  textAt(entry, 'Sts', 'Cd') ?? textAt(entry, 'Sts');
+
+const entryDate = (node: XmlNode | undefined): Date | null =>
+  parseDate(textAt(node, 'Dt') ?? textAt(node, 'DtTm'));
+
+const parseAmount = (node: XmlNode | undefined): number | null => {
+  const text = node?.text.trim();
+  if (!text) return null;
+  const value = Number(text);
+  return isNaN(value) ? null : value;
+};
+
+/**
+ * Counterparty name: the creditor for money out, the debtor for money in.
+ * camt.053.001.08+ wraps the party in an extra Pty element.
+ */
+const counterparty = (details: XmlNode | undefined, debit: boolean): string | null => {
+  const party = child(details, 'RltdPties', debit ? 'Cdtr' : 'Dbtr');
+  return textAt(party, 'Nm') ?? textAt(party, 'Pty', 'Nm');
+};
+
+/**
+ * Opening booked balance, used to compute a running balance per entry.
+ */
+const openingBalance = (statement: XmlNode): number | null => {
+  const opening = children(statement, 'Bal').find(
+    balance => textAt(balance, 'Tp', 'CdOrPrtry', 'Cd') === 'OPBD'
+  );
+  const amount = parseAmount(child(opening, 'Amt'));
+  if (amount === null) return null;
+  return textAt(opening, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+};
+
+/**
+ * The entry's main fields as they appear in the file, for the import report.
+ */
+const entrySource = (entry: XmlNode, line: number): RowSource => {
+  const details = child(entry, 'NtryDtls', 'TxDtls');
+  const fields: Record<string, string | null> = {
+    Sts: status(entry),
+    Amt: textAt(entry, 'Amt'),
+    CdtDbtInd: textAt(entry, 'CdtDbtInd'),
+    BookgDt: textAt(entry, 'BookgDt', 'Dt') ?? textAt(entry, 'BookgDt', 'DtTm'),
+    ValDt: textAt(entry, 'ValDt', 'Dt') ?? textAt(entry, 'ValDt', 'DtTm'),
+    Cdtr: textAt(details, 'RltdPties', 'Cdtr', 'Nm'),
+    Dbtr: textAt(details, 'RltdPties', 'Dbtr', 'Nm'),
+    Ustrd: textAt(details, 'RmtInf', 'Ustrd'),
+    AcctSvcrRef: textAt(entry, 'AcctSvcrRef')
+  };
+  return {
+    line,
+    raw: Object.fromEntries(
+      Object.entries(fields).flatMap(([field, value]) => (value === null ? [] : [[field, value]]))
+    )
+  };
+};
+
+const mapEntry = (entry: XmlNode): ParsedRow | RowRejection => {
+  if (status(entry) === 'PDNG') return preliminaryRow('Pending entry (Sts PDNG)');
+
+  const magnitude = parseAmount(child(entry, 'Amt'));
+  if (magnitude === null) return INVALID.amount;
+  const debit = textAt(entry, 'CdtDbtInd') === 'DBIT';
+
+  const bookingDate = entryDate(child(entry, 'BookgDt'));
+  const date = entryDate(child(entry, 'ValDt')) ?? bookingDate;
+  if (!date) return INVALID.date;
+
+  const details = child(entry, 'NtryDtls', 'TxDtls');
+  const merchant =
+    counterparty(details, debit) ??
+    textAt(details, 'RmtInf', 'Ustrd') ??
+    textAt(entry, 'AddtlNtryInf');
+  if (!merchant) return INVALID.merchant;
+
+  const externalId =
+    textAt(entry, 'AcctSvcrRef') ??
+    textAt(details, 'Refs', 'AcctSvcrRef') ??
+    textAt(entry, 'NtryRef');
+
+  return {
+    date,
+    merchant,
+    amount: debit ? -magnitude : magnitude,
+    balance: null,
+    ...(externalId ? { externalId } : {}),
+    ...(bookingDate ? { bookingDate } : {})
+  };
+};
+
+export const camt053: StatementParser = {
+  id: 'camt053',
+  name: 'camt.053',
+  detect: text => /<(\w+:)?BkToCstmrStmt[\s>]/.test(text),
+  parse: root => {
+    // Entries are numbered across all statements in the file
+    let line = 0;
+
+    return collectRows(
+      descendants(root, 'Stmt').flatMap(statement => {
+        const entries = children(statement, 'Ntry').map(entry => ({
+          source: entrySource(entry, ++line),
+          row: mapEntry(entry)
+        }));
+
+        let balance = openingBalance(statement);
+        if (balance === null) return entries;
+
+        // Entries are listed in booking order; round to avoid float drift
+        return entries.map(({ source, row }) => {
+          if (isRejection(row)) return { source, row };
+          balance = Math.round(((balance ?? 0) + row.amount) * 100) / 100;
+          return { source, row: { ...row, balance } };
+        });
+      })
+    );
+  }
+};
@@ -0,0 +1,80 @@
+import {
+  collectRows,
+  INVALID,
+  type ParsedRow,
+  type RowRejection,
+  type RowSource,
+  type StatementParser
+} from '../bank-parser';
+import { descendants, textAt, type XmlNode } from '../xml';
+
+/**
+ * OFX (and Quicken's QFX, which is OFX with an extra INTU.BID header), both the
+ * SGML 1.x flavour with unclosed leaf tags and the XML 2.x flavour.
+ *
+ * OFX only lists posted transactions and has no running balance per row.
+ */
+
+/**
+ * Parse an OFX date (YYYYMMDD with optional time and timezone, e.g.
+ * "20260105120000.000[-5:EST]"). Only the calendar date is kept, as UTC midnight.
+ */
+const parseOfxDate = (value: string | null): Date | null => {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null;
+  if (!match) return null;
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** Leaf fields of a STMTTRN shown in the import report */
+const SOURCE_FIELDS = ['TRNTYPE', 'DTPOSTED', 'DTUSER', 'TRNAMT', 'FITID', 'NAME', 'MEMO'];
+
+const transactionSource = (transaction: XmlNode, line: number): RowSource => ({
+  line,
+  raw: Object.fromEntries(
+    SOURCE_FIELDS.flatMap(field => {
+      const value = textAt(transaction, field);
+      return value === null ? [] : [[field, value]];
+    })
+  )
+});
+
+const mapTransaction = (transaction: XmlNode): ParsedRow | RowRejection => {
+  const amountText = textAt(transaction, 'TRNAMT');
+  const amount = amountText === null ? NaN : Number(amountText.replace(',', '.'));
+  if (isNaN(amount)) return INVALID.amount;
+
+  const bookingDate = parseOfxDate(textAt(transaction, 'DTPOSTED'));
+  const date = parseOfxDate(textAt(transaction, 'DTUSER')) ?? bookingDate;
+  if (!date) return INVALID.date;
+
+  const merchant =
+    textAt(transaction, 'NAME') ??
+    textAt(transaction, 'PAYEE', 'NAME') ??
+    textAt(transaction, 'MEMO');
+  if (!merchant) return INVALID.merchant;
+
+  const externalId = textAt(transaction, 'FITID');
+
+  return {
+    date,
+    merchant,
+    amount,
+    balance: null,
+    ...(externalId ? { externalId } : {}),
+    ...(bookingDate ? { bookingDate } : {})
+  };
+};
+
+export const ofx: StatementParser = {
+  id: 'ofx',
+  name: 'OFX',
+  detect: text => /OFXHEADER|<OFX>/i.test(text),
+  parse: root =>
+    collectRows(
+      descendants(root, 'STMTTRN').map((transaction, i) => ({
+        source: transactionSource(transaction, i + 1),
+        row: mapTransaction(transaction)
+      }))
+    )
+};
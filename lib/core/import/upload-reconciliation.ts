@@ -0,0 +1,96 @@
+import { Effect } from 'effect';
+import { and, eq, gte, inArray, isNull, lte, or } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { getLedgerRows, reconcileBalances } from '@/lib/core/bank-account/queries';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check the running balance of an upload's rows and of the other uploads on
+ * the same account whose dates overlap the range, and store each result on
+ * its upload for the upload history.
+ *
+ * Run after an import (with its upload) or a rollback (with the rolled back
+ * upload's account, if any) changed rows in the range.
+ * Only the rows of the affected uploads' dates are walked, not the account's
+ * whole history. An upload gets the gaps next to any of its rows, so a break
+ * between two exports shows on both.
+ */
+export const refreshUploadReconciliations = (
+  userId: string,
+  changed: { uploadId: string | null; accountId: string | null; start: Date; end: Date }
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    if (changed.uploadId === null && changed.accountId === null) return;
+
+    // Rows of an upload without an account are only chained within the upload
+    const uploads = yield* db
+      .select({
+        id: schema.upload.id,
+        dateRangeStart: schema.upload.dateRangeStart,
+        dateRangeEnd: schema.upload.dateRangeEnd
+      })
+      .from(schema.upload)
+      .where(
+        and(
+          eq(schema.upload.uploadedBy, userId),
+          or(
+            changed.uploadId !== null ? eq(schema.upload.id, changed.uploadId) : undefined,
+            changed.accountId !== null
+              ? and(
+                  eq(schema.upload.accountId, changed.accountId),
+                  lte(schema.upload.dateRangeStart, new Date(changed.end.getTime() + DAY_MS)),
+                  gte(schema.upload.dateRangeEnd, new Date(changed.start.getTime() - DAY_MS))
+                )
+              : undefined
+          )
+        )
+      );
+    if (uploads.length === 0) return;
+
+    const starts = uploads.flatMap(upload =>
+      upload.dateRangeStart ? [upload.dateRangeStart] : []
+    );
+    const ends = uploads.flatMap(upload => (upload.dateRangeEnd ? [upload.dateRangeEnd] : []));
+    if (starts.length === 0 || ends.length === 0) return;
+
+    const rows = yield* getLedgerRows(
+      userId,
+      changed.accountId === null
+        ? and(
+            isNull(schema.transaction.accountId),
+            inArray(
+              schema.transaction.uploadId,
+              uploads.map(upload => upload.id)
+            )
+          )
+        : eq(schema.transaction.accountId, changed.accountId),
+      {
+        startDate: new Date(Math.min(...starts.map(date => date.getTime()))),
+        endDate: new Date(Math.max(...ends.map(date => date.getTime())) + DAY_MS)
+      }
+    );
+    const { gaps } = reconcileBalances(rows);
+
+    const uploadByRow = new Map(rows.map(row => [row.id, row.uploadId]));
+    for (const upload of uploads) {
+      const checked = rows.filter(row => row.uploadId === upload.id).length;
+      const uploadGaps = gaps.filter(
+        gap =>
+          uploadByRow.get(gap.previousId) === upload.id || uploadByRow.get(gap.id) === upload.id
+      );
+
+      yield* db
+        .update(schema.upload)
+        .set({
+          reconciliation: {
+            checked,
+            gaps: uploadGaps.map(gap => ({ ...gap, date: gap.date.toISOString() }))
+          }
+        })
+        .where(eq(schema.upload.id, upload.id));
+    }
+  }).pipe(Effect.withSpan('Import.refreshUploadReconciliations'));
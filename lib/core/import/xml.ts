@@ -0,0 +1,117 @@
+/**
+ * Minimal XML reader for bank statements (camt.053 XML and OFX, which is either
+ * XML or SGML with unclosed leaf tags). Not a general purpose parser: no DTDs,
+ * no mixed content, namespace prefixes are dropped.
+ */
+
+export type XmlNode = {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: XmlNode[];
+};
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parse markup into a tree under a synthetic root node.
+ */
+export const parseXml = (source: string): XmlNode => {
+  const root: XmlNode = { name: '#root', attributes: {}, text: '', children: [] };
+  const stack: XmlNode[] = [root];
+  const top = () => stack[stack.length - 1];
+
+  const tokens =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([^\s>/]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  for (const match of source.matchAll(tokens)) {
+    const [, cdata, closing, rawName, attributeSource, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      top().text += cdata;
+      continue;
+    }
+
+    if (text !== undefined) {
+      top().text += decodeEntities(text.trim() === '' ? '' : text);
+      continue;
+    }
+
+    // Comments, processing instructions and doctypes
+    if (rawName === undefined) continue;
+
+    const name = localName(rawName);
+
+    if (closing) {
+      // Pop to the matching element; unclosed SGML leaves in between are closed implicitly
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    // SGML leaf (e.g. OFX "<TRNAMT>-45.00") ends where the next element starts
+    if (top() !== root && top().children.length === 0 && top().text.trim() !== '') {
+      stack.pop();
+    }
+
+    const node: XmlNode = {
+      name,
+      attributes: parseAttributes(attributeSource ?? ''),
+      text: '',
+      children: []
+    };
+    top().children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  return root;
+};
+
+/**
+ * Follow a path of child element names, returning the first match.
+ */
+export const child = (node: XmlNode | undefined, ...path: string[]): XmlNode | undefined => {
+  let current = node;
+  for (const name of path) {
+    current = current?.children.find(c => c.name === name);
+  }
+  return current;
+};
+
+/**
+ * Direct children with the given element name.
+ */
+export const children = (node: XmlNode | undefined, name: string): XmlNode[] =>
+  node?.children.filter(c => c.name === name) ?? [];
+
+/**
+ * All descendants with the given element name, in document order.
+ */
+export const descendants = (node: XmlNode, name: string): XmlNode[] =>
+  node.children.flatMap(c => (c.name === name ? [c] : descendants(c, name)));
+
+/**
+ * Trimmed text of the element at the path, or null when missing or empty.
+ */
+export const textAt = (node: XmlNode | undefined, ...path: string[]): string | null => {
+  const text = child(node, ...path)?.text.trim();
+  return text ? text : null;
+};
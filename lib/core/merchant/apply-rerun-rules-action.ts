@@ -0,0 +1,167 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, inArray } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ValidationError } from '@/lib/core/errors';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { categorization } from '@/lib/core/transaction/category-source';
+import { batches } from '@/lib/core/transaction/batches';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { getRuleRerunChanges } from './queries';
+
+// Date string in YYYY-MM-DD format, parsed as local midnight like the transactions list filter
+const DateOnly = S.transform(S.String.pipe(S.pattern(/^\d{4}-\d{2}-\d{2}$/)), S.DateFromSelf, {
+  decode: str => {
+    const [year, month, day] = str.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  },
+  encode: date =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+});
+
+const ApplyRerunRulesInput = S.Struct({
+  startDate: S.NullOr(DateOnly),
+  endDate: S.NullOr(DateOnly),
+  overwriteManual: S.Boolean
+});
+
+type ApplyRerunRulesInput = S.Schema.Encoded<typeof ApplyRerunRulesInput>;
+
+/**
+ * Server action to re-run the merchant rules over existing transactions.
+ * Changes are recomputed rather than taken from the preview, so rules edited
+ * in between are respected. Manual categories are kept unless overwriteManual
+ * is set.
+ */
+export const applyRerunRulesAction = async (input: ApplyRerunRulesInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(ApplyRerunRulesInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Invalid date range',
+              field: 'range'
+            })
+        )
+      );
+
+      if (parsed.startDate && parsed.endDate && parsed.startDate > parsed.endDate) {
+        return yield* new ValidationError({
+          message: 'Start date must be before end date',
+          field: 'startDate'
+        });
+      }
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      const changes = (yield* getRuleRerunChanges(userId, {
+        startDate: parsed.startDate,
+        // The end date is inclusive
+        endDate:
+          parsed.endDate &&
+          new Date(
+            parsed.endDate.getFullYear(),
+            parsed.endDate.getMonth(),
+            parsed.endDate.getDate() + 1
+          )
+      })).filter(change => parsed.overwriteManual || !change.manual);
+
+      // One update per rule, in batches
+      const changesByRule = new Map<string, typeof changes>();
+      for (const change of changes) {
+        const ruleChanges = changesByRule.get(change.ruleId) ?? [];
+        ruleChanges.push(change);
+        changesByRule.set(change.ruleId, ruleChanges);
+      }
+
+      yield* db.transaction(() =>
+        Effect.gen(function* () {
+          yield* Effect.forEach(
+            changesByRule,
+            ([ruleId, ruleChanges]) =>
+              Effect.forEach(
+                batches(ruleChanges.map(change => change.id)),
+                ids =>
+                  db
+                    .update(schema.transaction)
+                    .set(categorization(ruleChanges[0].toCategoryId, 'rule', ruleId))
+                    .where(
+                      and(
+                        eq(schema.transaction.userId, userId),
+                        inArray(schema.transaction.id, ids)
+                      )
+                    ),
+                { discard: true }
+              ),
+            { discard: true }
+          );
+
+          yield* activity.record(
+            userId,
+            changes.flatMap(change =>
+              fieldChanges(
+                'transaction',
+                change.id,
+                { categoryId: change.fromCategoryId },
+                { categoryId: change.toCategoryId }
+              )
+            )
+          );
+        })
+      );
+
+      if (changes.length > 0) {
+        yield* checkBudgetAlerts(userId, session.user.email);
+      }
+
+      return { updatedCount: changes.length };
+    }).pipe(
+      Effect.withSpan('action.merchant.applyRerunRules', {
+        attributes: {
+          'range.start': input.startDate ?? 'null',
+          'range.end': input.endDate ?? 'null',
+          'rerun.overwrite_manual': input.overwriteManual,
+          operation: 'merchant.applyRerunRules'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to apply rules'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/transactions');
+            revalidatePath('/analytics');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,109 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { mappingSnapshot } from '@/lib/core/activity/activity';
+
+const DeleteMerchantRuleInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteMerchantRuleInput = S.Schema.Type<typeof DeleteMerchantRuleInput>;
+
+/**
+ * Server action to delete a merchant rule. Already categorized transactions
+ * keep their category.
+ */
+export const deleteMerchantRuleAction = async (input: DeleteMerchantRuleInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteMerchantRuleInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Rule id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      const [deleted] = yield* db
+        .delete(schema.merchantMapping)
+        .where(
+          and(eq(schema.merchantMapping.id, parsed.id), eq(schema.merchantMapping.userId, userId))
+        )
+        .returning();
+
+      if (!deleted) {
+        return yield* new NotFoundError({
+          message: 'Rule not found',
+          entity: 'merchantMapping',
+          id: parsed.id
+        });
+      }
+
+      yield* activity.record(userId, [
+        {
+          entity: 'merchantMapping',
+          entityId: deleted.id,
+          action: 'delete',
+          oldValue: mappingSnapshot(deleted)
+        }
+      ]);
+
+      return { id: deleted.id, merchantPattern: deleted.merchantPattern };
+    }).pipe(
+      Effect.withSpan('action.merchant.deleteRule', {
+        attributes: {
+          'merchant.mapping.id': input.id,
+          operation: 'merchant.deleteRule'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete rule'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/rules');
+            revalidatePath('/merchants');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
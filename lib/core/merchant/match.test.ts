@@ -0,0 +1,129 @@
+import { describe, expect, it } from '@effect/vitest';
+import {
+  compileRules,
+  findMatchingRule,
+  findMatchingRules,
+  ruleChanges,
+  type MerchantRule
+} from './match';
+
+const rule = (overrides: Partial<MerchantRule> & Pick<MerchantRule, 'id'>): MerchantRule => ({
+  merchantPattern: overrides.id,
+  matchType: 'contains',
+  amountSign: null,
+  minAmount: null,
+  maxAmount: null,
+  priority: 0,
+  categoryId: `${overrides.id}-category`,
+  isMultiMerchant: false,
+  ...overrides
+});
+
+describe('findMatchingRule', () => {
+  it('supports each match type case-insensitively', () => {
+    const rules = compileRules([
+      rule({ id: 'exact', merchantPattern: 'SL', matchType: 'exact' }),
+      rule({ id: 'prefix', merchantPattern: 'spotify', matchType: 'prefix' }),
+      rule({ id: 'regex', merchantPattern: '^circle k \\d+$', matchType: 'regex' })
+    ]);
+
+    expect(findMatchingRule(rules, 'sl')?.id).toBe('exact');
+    expect(findMatchingRule(rules, 'SL CENTRALEN')).toBeNull();
+    expect(findMatchingRule(rules, 'SPOTIFY AB')?.id).toBe('prefix');
+    expect(findMatchingRule(rules, 'AB SPOTIFY')).toBeNull();
+    expect(findMatchingRule(rules, 'CIRCLE K 1234')?.id).toBe('regex');
+  });
+
+  it('prefers the longer pattern regardless of creation order', () => {
+    const ica = rule({ id: 'ica', merchantPattern: 'ICA' });
+    const banken = rule({ id: 'banken', merchantPattern: 'ICA BANKEN' });
+
+    expect(findMatchingRule(compileRules([ica, banken]), 'ICA BANKEN KORT')?.id).toBe('banken');
+    expect(findMatchingRule(compileRules([banken, ica]), 'ICA BANKEN KORT')?.id).toBe('banken');
+    expect(findMatchingRule(compileRules([banken, ica]), 'ICA NARA')?.id).toBe('ica');
+  });
+
+  it('uses explicit priority before specificity', () => {
+    const rules = compileRules([
+      rule({ id: 'banken', merchantPattern: 'ICA BANKEN' }),
+      rule({ id: 'ica', merchantPattern: 'ICA', priority: 10 })
+    ]);
+
+    expect(findMatchingRule(rules, 'ICA BANKEN KORT')?.id).toBe('ica');
+  });
+
+  it('applies amount conditions', () => {
+    const rules = compileRules([
+      rule({ id: 'swish', merchantPattern: 'SWISH' }),
+      rule({ id: 'restaurant', merchantPattern: 'SWISH', amountSign: 'expense', maxAmount: 200 }),
+      rule({ id: 'rent', merchantPattern: 'SWISH', amountSign: 'expense', minAmount: 5000 })
+    ]);
+
+    expect(findMatchingRule(rules, 'SWISH ANNA', -150)?.id).toBe('restaurant');
+    expect(findMatchingRule(rules, 'SWISH HYRESVARD', -6500)?.id).toBe('rent');
+    expect(findMatchingRule(rules, 'SWISH ANNA', -1000)?.id).toBe('swish');
+    expect(findMatchingRule(rules, 'SWISH ANNA', 150)?.id).toBe('swish');
+    // Without an amount only unconditioned rules apply
+    expect(findMatchingRule(rules, 'SWISH ANNA')?.id).toBe('swish');
+  });
+
+  it('never matches an invalid regex', () => {
+    const rules = compileRules([rule({ id: 'broken', merchantPattern: '(', matchType: 'regex' })]);
+    expect(findMatchingRule(rules, '(')).toBeNull();
+  });
+});
+
+describe('findMatchingRules', () => {
+  it('lists every match in evaluation order', () => {
+    const rules = compileRules([
+      rule({ id: 'ica', merchantPattern: 'ICA' }),
+      rule({ id: 'banken', merchantPattern: 'ICA BANKEN' }),
+      rule({ id: 'coop', merchantPattern: 'COOP' })
+    ]);
+
+    expect(findMatchingRules(rules, 'ICA BANKEN').map(r => r.id)).toEqual(['banken', 'ica']);
+  });
+});
+
+describe('ruleChanges', () => {
+  const tx = (id: string, merchant: string, overrides: object = {}) => ({
+    id,
+    date: new Date('2026-03-01'),
+    merchant,
+    amount: -100,
+    categoryId: null,
+    categorySource: null,
+    categoryRuleId: null,
+    ...overrides
+  });
+
+  it('lists differing categories and flags manual choices', () => {
+    const rules = compileRules([
+      rule({ id: 'ica', merchantPattern: 'ICA', categoryId: 'groceries' }),
+      rule({ id: 'klarna', merchantPattern: 'KLARNA', isMultiMerchant: true })
+    ]);
+
+    const changes = ruleChanges(rules, [
+      tx('uncategorized', 'ICA NARA'),
+      tx('same', 'ICA NARA', { categoryId: 'groceries', categorySource: 'rule' }),
+      tx('manual', 'ICA NARA', { categoryId: 'dining', categorySource: 'manual' }),
+      tx('stale', 'ICA NARA', { categoryId: 'dining', categorySource: 'rule' }),
+      tx('sibling', 'ICA NARA', {
+        categoryId: 'dining',
+        categorySource: 'bulk',
+        categoryRuleId: 'x'
+      }),
+      tx('bulk-edit', 'ICA NARA', { categoryId: 'dining', categorySource: 'bulk' }),
+      tx('multi', 'KLARNA AB'),
+      tx('unmatched', 'COOP')
+    ]);
+
+    expect(changes.map(c => [c.id, c.toCategoryId, c.manual])).toEqual([
+      ['uncategorized', 'groceries', false],
+      ['manual', 'groceries', true],
+      ['stale', 'groceries', false],
+      ['sibling', 'groceries', false],
+      ['bulk-edit', 'groceries', true]
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Merchant rule matching, used when categorizing uploads and by the rule test
+ * panel. Pure functions without server-only imports.
+ */
+
+export const MATCH_TYPES = ['contains', 'exact', 'prefix', 'regex'] as const;
+export type MatchType = (typeof MATCH_TYPES)[number];
+
+export const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  contains: 'Contains',
+  exact: 'Is exactly',
+  prefix: 'Starts with',
+  regex: 'Matches regex'
+};
+
+export const AMOUNT_SIGNS = ['expense', 'income'] as const;
+export type AmountSign = (typeof AMOUNT_SIGNS)[number];
+
+export const AMOUNT_SIGN_LABELS: Record<AmountSign, string> = {
+  expense: 'Expenses only',
+  income: 'Income only'
+};
+
+export type MerchantRule = {
+  id: string;
+  merchantPattern: string;
+  matchType: MatchType;
+  amountSign: AmountSign | null;
+  /** Inclusive bounds on the absolute amount */
+  minAmount: number | null;
+  maxAmount: number | null;
+  priority: number;
+  categoryId: string | null;
+  isMultiMerchant: boolean;
+};
+
+const MATCH_TYPE_SPECIFICITY: Record<MatchType, number> = {
+  exact: 3,
+  prefix: 2,
+  regex: 1,
+  contains: 0
+};
+
+export const hasAmountCondition = (rule: MerchantRule) =>
+  rule.amountSign !== null || rule.minAmount !== null || rule.maxAmount !== null;
+
+/**
+ * Order in which rules are tried. Higher priority first; on equal priority the
+ * more specific rule wins: amount conditions, then exact, prefix, regex and
+ * contains, then the longer pattern. The pattern text breaks remaining ties, so
+ * the result never depends on the order rules were created in.
+ */
+export function compareRules(a: MerchantRule, b: MerchantRule): number {
+  return (
+    b.priority - a.priority ||
+    Number(hasAmountCondition(b)) - Number(hasAmountCondition(a)) ||
+    MATCH_TYPE_SPECIFICITY[b.matchType] - MATCH_TYPE_SPECIFICITY[a.matchType] ||
+    b.merchantPattern.length - a.merchantPattern.length ||
+    a.merchantPattern.localeCompare(b.merchantPattern) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Error message for an invalid regex pattern, or null if it compiles.
+ */
+export function regexError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+const merchantTest = (rule: MerchantRule): ((merchant: string) => boolean) => {
+  const pattern = rule.merchantPattern.trim().toLowerCase();
+  switch (rule.matchType) {
+    case 'contains':
+      return merchant => merchant.includes(pattern);
+    case 'exact':
+      return merchant => merchant === pattern;
+    case 'prefix':
+      return merchant => merchant.startsWith(pattern);
+    case 'regex': {
+      // Invalid patterns are rejected on save; never match if one slips through
+      if (regexError(rule.merchantPattern) !== null) return () => false;
+      const regex = new RegExp(rule.merchantPattern, 'i');
+      return merchant => regex.test(merchant);
+    }
+  }
+};
+
+/**
+ * Whether an amount satisfies the rule's amount conditions. Rules with amount
+ * conditions never match when the amount is unknown.
+ */
+export function amountMatches(rule: MerchantRule, amount: number | undefined): boolean {
+  if (!hasAmountCondition(rule)) return true;
+  if (amount === undefined) return false;
+
+  if (rule.amountSign === 'expense' && amount >= 0) return false;
+  if (rule.amountSign === 'income' && amount <= 0) return false;
+
+  const absolute = Math.abs(amount);
+  if (rule.minAmount !== null && absolute < rule.minAmount) return false;
+  if (rule.maxAmount !== null && absolute > rule.maxAmount) return false;
+  return true;
+}
+
+export type CompiledRules<R extends MerchantRule> = ReadonlyArray<{
+  rule: R;
+  test: (merchant: string) => boolean;
+}>;
+
+/**
+ * Sort rules into evaluation order and compile their patterns once, for
+ * matching many merchants.
+ */
+export function compileRules<R extends MerchantRule>(rules: ReadonlyArray<R>): CompiledRules<R> {
+  return [...rules].sort(compareRules).map(rule => ({ rule, test: merchantTest(rule) }));
+}
+
+/**
+ * All rules matching a merchant (and amount, if known), in evaluation order.
+ * The first one is the rule that applies.
+ */
+export function findMatchingRules<R extends MerchantRule>(
+  compiled: CompiledRules<R>,
+  merchant: string,
+  amount?: number
+): R[] {
+  const merchantLower = merchant.trim().toLowerCase();
+  return compiled
+    .filter(({ rule, test }) => test(merchantLower) && amountMatches(rule, amount))
+    .map(({ rule }) => rule);
+}
+
+/**
+ * The rule that applies to a merchant (and amount, if known), or null.
+ */
+export function findMatchingRule<R extends MerchantRule>(
+  compiled: CompiledRules<R>,
+  merchant: string,
+  amount?: number
+): R | null {
+  const merchantLower = merchant.trim().toLowerCase();
+  const match = compiled.find(
+    ({ rule, test }) => test(merchantLower) && amountMatches(rule, amount)
+  );
+  return match?.rule ?? null;
+}
+
+/**
+ * Category a rule assigns. Multi-merchants (umbrella merchants) always require
+ * manual review, so they assign none.
+ */
+export const ruleCategory = (rule: MerchantRule | null): string | null =>
+  rule && !rule.isMultiMerchant ? rule.categoryId : null;
+
+export type RuleChange = {
+  id: string;
+  date: Date;
+  merchant: string;
+  amount: number;
+  fromCategoryId: string | null;
+  toCategoryId: string;
+  /** The rule whose category would be applied */
+  ruleId: string;
+  rulePattern: string;
+  /**
+   * Current category was chosen by the user (manually, by accepting an AI
+   * suggestion, in a bulk edit, or untracked) rather than derived from a rule
+   */
+  manual: boolean;
+};
+
+/**
+ * Category changes from re-running the rules over existing transactions.
+ *
+ * Only transactions a rule assigns a different category to are included;
+ * transactions no rule categorizes keep their category.
+ */
+export function ruleChanges(
+  compiled: CompiledRules<MerchantRule>,
+  transactions: ReadonlyArray<{
+    id: string;
+    date: Date;
+    merchant: string;
+    amount: number;
+    categoryId: string | null;
+    categorySource: 'rule' | 'ai' | 'bulk' | 'manual' | null;
+    categoryRuleId: string | null;
+  }>
+): RuleChange[] {
+  return transactions.flatMap(tx => {
+    const rule = findMatchingRule(compiled, tx.merchant, tx.amount);
+    const toCategoryId = ruleCategory(rule);
+    if (rule === null || toCategoryId === null || toCategoryId === tx.categoryId) return [];
+
+    return [
+      {
+        id: tx.id,
+        date: tx.date,
+        merchant: tx.merchant,
+        amount: tx.amount,
+        fromCategoryId: tx.categoryId,
+        toCategoryId,
+        ruleId: rule.id,
+        rulePattern: rule.merchantPattern,
+        manual:
+          tx.categoryId !== null &&
+          tx.categorySource !== 'rule' &&
+          !(tx.categorySource === 'bulk' && tx.categoryRuleId !== null)
+      }
+    ];
+  });
+}
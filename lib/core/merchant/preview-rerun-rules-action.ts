@@ -0,0 +1,97 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { ValidationError } from '@/lib/core/errors';
+import { getRuleRerunChanges } from './queries';
+
+// Date string in YYYY-MM-DD format, parsed as local midnight like the transactions list filter
+const DateOnly = S.transform(S.String.pipe(S.pattern(/^\d{4}-\d{2}-\d{2}$/)), S.DateFromSelf, {
+  decode: str => {
+    const [year, month, day] = str.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  },
+  encode: date =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+});
+
+const PreviewRerunRulesInput = S.Struct({
+  startDate: S.NullOr(DateOnly),
+  endDate: S.NullOr(DateOnly)
+});
+
+type PreviewRerunRulesInput = S.Schema.Encoded<typeof PreviewRerunRulesInput>;
+
+/**
+ * Server action to preview re-running the merchant rules over existing
+ * transactions. Changes nothing; returns the category changes that applying
+ * would make, including those overwriting manual choices.
+ */
+export const previewRerunRulesAction = async (input: PreviewRerunRulesInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(PreviewRerunRulesInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Invalid date range',
+              field: 'range'
+            })
+        )
+      );
+
+      if (parsed.startDate && parsed.endDate && parsed.startDate > parsed.endDate) {
+        return yield* new ValidationError({
+          message: 'Start date must be before end date',
+          field: 'startDate'
+        });
+      }
+
+      const session = yield* getSession();
+      const changes = yield* getRuleRerunChanges(session.user.id, {
+        startDate: parsed.startDate,
+        // The end date is inclusive
+        endDate:
+          parsed.endDate &&
+          new Date(
+            parsed.endDate.getFullYear(),
+            parsed.endDate.getMonth(),
+            parsed.endDate.getDate() + 1
+          )
+      });
+
+      return { changes };
+    }).pipe(
+      Effect.withSpan('action.merchant.previewRerunRules', {
+        attributes: {
+          'range.start': input.startDate ?? 'null',
+          'range.end': input.endDate ?? 'null',
+          operation: 'merchant.previewRerunRules'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to preview rule changes'
+              })
+            )
+          ),
+        onSuccess: result => Effect.succeed({ _tag: 'Success' as const, ...result })
+      })
+    )
+  );
+};
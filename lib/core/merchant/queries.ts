@@ -0,0 +1,85 @@
+import { Effect } from 'effect';
+import { and, eq, gte, lt, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { compareRules, compileRules, ruleChanges, type MerchantRule } from './match';
+
+export type MerchantRuleWithCategory = MerchantRule & {
+  categoryName: string | null;
+  categoryIcon: string | null;
+};
+
+/**
+ * Get the user's merchant mappings as rules, in evaluation order.
+ */
+export const getMerchantRules = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({
+        id: schema.merchantMapping.id,
+        merchantPattern: schema.merchantMapping.merchantPattern,
+        matchType: schema.merchantMapping.matchType,
+        amountSign: schema.merchantMapping.amountSign,
+        minAmount: schema.merchantMapping.minAmount,
+        maxAmount: schema.merchantMapping.maxAmount,
+        priority: schema.merchantMapping.priority,
+        categoryId: schema.merchantMapping.categoryId,
+        isMultiMerchant: schema.merchantMapping.isMultiMerchant,
+        categoryName: schema.category.name,
+        categoryIcon: schema.category.icon
+      })
+      .from(schema.merchantMapping)
+      .leftJoin(schema.category, eq(schema.merchantMapping.categoryId, schema.category.id))
+      .where(eq(schema.merchantMapping.userId, userId));
+
+    return rows
+      .map(
+        (row): MerchantRuleWithCategory => ({
+          ...row,
+          minAmount: row.minAmount === null ? null : parseFloat(row.minAmount),
+          maxAmount: row.maxAmount === null ? null : parseFloat(row.maxAmount)
+        })
+      )
+      .sort(compareRules);
+  }).pipe(Effect.withSpan('Merchant.getRules'));
+
+/**
+ * Category changes from re-running the current rules over the user's
+ * transactions, optionally limited to a date range (end exclusive). Split
+ * transactions are left out since their parts carry the categories.
+ */
+export const getRuleRerunChanges = (
+  userId: string,
+  range: { startDate: Date | null; endDate: Date | null }
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const rules = compileRules(yield* getMerchantRules(userId));
+
+    const rows = yield* db
+      .select({
+        id: schema.transaction.id,
+        date: schema.transaction.date,
+        merchant: schema.transaction.merchant,
+        amount: schema.transaction.amount,
+        categoryId: schema.transaction.categoryId,
+        categorySource: schema.transaction.categorySource,
+        categoryRuleId: schema.transaction.categoryRuleId
+      })
+      .from(schema.transaction)
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          range.startDate ? gte(schema.transaction.date, range.startDate) : undefined,
+          range.endDate ? lt(schema.transaction.date, range.endDate) : undefined,
+          sql`not exists (select 1 from ${schema.transactionSplit} where ${schema.transactionSplit.transactionId} = ${schema.transaction.id})`
+        )
+      );
+
+    return ruleChanges(
+      rules,
+      rows.map(row => ({ ...row, amount: parseFloat(row.amount) }))
+    ).sort((a, b) => b.date.getTime() - a.date.getTime());
+  }).pipe(Effect.withSpan('Merchant.getRuleRerunChanges'));
@@ -0,0 +1,241 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, ne } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ConstraintError, NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges, mappingSnapshot } from '@/lib/core/activity/activity';
+import { AMOUNT_SIGNS, MATCH_TYPES, regexError } from './match';
+import { getMerchantRules } from './queries';
+
+const Amount = S.NullOr(S.Number.pipe(S.nonNegative(), S.lessThan(10_000_000_000)));
+
+const SaveMerchantRuleInput = S.Struct({
+  // null creates a new rule
+  id: S.NullOr(S.String.pipe(S.minLength(1))),
+  merchantPattern: S.Trim.pipe(S.minLength(1)),
+  matchType: S.Literal(...MATCH_TYPES),
+  amountSign: S.NullOr(S.Literal(...AMOUNT_SIGNS)),
+  minAmount: Amount,
+  maxAmount: Amount,
+  priority: S.Number.pipe(S.int(), S.between(-1000, 1000)),
+  categoryId: S.NullOr(S.String.pipe(S.minLength(1))),
+  isMultiMerchant: S.Boolean
+});
+
+type SaveMerchantRuleInput = S.Schema.Encoded<typeof SaveMerchantRuleInput>;
+
+/**
+ * Server action to create or update a merchant rule.
+ *
+ * Fails if:
+ * - A regex pattern does not compile, or the amount range is empty
+ * - The category doesn't exist
+ * - Another plain mapping (contains, no amount conditions) has the same pattern
+ *
+ * Returns all rules in evaluation order.
+ */
+export const saveMerchantRuleAction = async (input: SaveMerchantRuleInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(SaveMerchantRuleInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Invalid rule',
+              field: 'input'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'merchant.pattern': parsed.merchantPattern,
+        'merchant.matchType': parsed.matchType
+      });
+
+      if (parsed.matchType === 'regex') {
+        const error = regexError(parsed.merchantPattern);
+        if (error) {
+          return yield* new ValidationError({
+            message: `Invalid regex: ${error}`,
+            field: 'merchantPattern'
+          });
+        }
+      }
+
+      if (
+        parsed.minAmount !== null &&
+        parsed.maxAmount !== null &&
+        parsed.minAmount > parsed.maxAmount
+      ) {
+        return yield* new ValidationError({
+          message: 'Minimum amount must not be above the maximum',
+          field: 'minAmount'
+        });
+      }
+
+      if (parsed.categoryId !== null) {
+        const [existingCategory] = yield* db
+          .select({ id: schema.category.id })
+          .from(schema.category)
+          .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
+          .limit(1);
+
+        if (!existingCategory) {
+          return yield* new NotFoundError({
+            message: 'Category not found',
+            entity: 'category',
+            id: parsed.categoryId
+          });
+        }
+      }
+
+      const isPlain =
+        parsed.matchType === 'contains' &&
+        parsed.amountSign === null &&
+        parsed.minAmount === null &&
+        parsed.maxAmount === null;
+
+      if (isPlain) {
+        const [conflict] = yield* db
+          .select({ id: schema.merchantMapping.id })
+          .from(schema.merchantMapping)
+          .where(
+            and(
+              eq(schema.merchantMapping.userId, userId),
+              eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern),
+              schema.isPlainMerchantMapping,
+              parsed.id ? ne(schema.merchantMapping.id, parsed.id) : undefined
+            )
+          )
+          .limit(1);
+
+        if (conflict) {
+          return yield* new ConstraintError({
+            message: `A mapping for "${parsed.merchantPattern}" already exists`,
+            constraint: 'merchant_mapping_plain_pattern_idx'
+          });
+        }
+      }
+
+      const values = {
+        merchantPattern: parsed.merchantPattern,
+        matchType: parsed.matchType,
+        amountSign: parsed.amountSign,
+        minAmount: parsed.minAmount === null ? null : String(parsed.minAmount),
+        maxAmount: parsed.maxAmount === null ? null : String(parsed.maxAmount),
+        priority: parsed.priority,
+        // Multi-merchants always require manual review
+        categoryId: parsed.isMultiMerchant ? null : parsed.categoryId,
+        isMultiMerchant: parsed.isMultiMerchant
+      };
+
+      if (parsed.id) {
+        const [existing] = yield* db
+          .select()
+          .from(schema.merchantMapping)
+          .where(
+            and(eq(schema.merchantMapping.id, parsed.id), eq(schema.merchantMapping.userId, userId))
+          )
+          .limit(1);
+
+        if (!existing) {
+          return yield* new NotFoundError({
+            message: 'Rule not found',
+            entity: 'merchantMapping',
+            id: parsed.id
+          });
+        }
+
+        yield* db
+          .update(schema.merchantMapping)
+          .set(values)
+          .where(
+            and(eq(schema.merchantMapping.id, parsed.id), eq(schema.merchantMapping.userId, userId))
+          );
+
+        yield* activity.record(
+          userId,
+          fieldChanges(
+            'merchantMapping',
+            parsed.id,
+            mappingSnapshot(existing),
+            mappingSnapshot(values)
+          )
+        );
+      } else {
+        const [created] = yield* db
+          .insert(schema.merchantMapping)
+          .values({ userId, ...values })
+          .returning();
+
+        yield* activity.record(userId, [
+          {
+            entity: 'merchantMapping',
+            entityId: created.id,
+            action: 'create',
+            newValue: mappingSnapshot(created)
+          }
+        ]);
+      }
+
+      return { rules: yield* getMerchantRules(userId) };
+    }).pipe(
+      Effect.withSpan('action.merchant.saveRule', {
+        attributes: {
+          'merchant.pattern': input.merchantPattern,
+          operation: 'merchant.saveRule'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ConstraintError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to save rule'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/rules');
+            revalidatePath('/merchants');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
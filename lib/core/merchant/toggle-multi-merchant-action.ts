@@ -2,13 +2,15 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges } from '@/lib/core/activity/activity';
 
 const ToggleMultiMerchantInput = S.Struct({
   merchantPattern: S.String.pipe(S.minLength(1)),
@@ -41,8 +43,10 @@ export const toggleMultiMerchantAction = async (input: ToggleMultiMerchantInput)
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'merchant.pattern': parsed.merchantPattern,
@@ -51,9 +55,19 @@ export const toggleMultiMerchantAction = async (input: ToggleMultiMerchantInput)
 
       // Check if mapping exists
       const [existing] = yield* db
-        .select({ id: schema.merchantMapping.id })
+        .select({
+          id: schema.merchantMapping.id,
+          categoryId: schema.merchantMapping.categoryId,
+          isMultiMerchant: schema.merchantMapping.isMultiMerchant
+        })
         .from(schema.merchantMapping)
-        .where(eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern))
+        .where(
+          and(
+            eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern),
+            eq(schema.merchantMapping.userId, userId),
+            schema.isPlainMerchantMapping
+          )
+        )
         .limit(1);
 
       if (!existing) {
@@ -70,15 +84,39 @@ export const toggleMultiMerchantAction = async (input: ToggleMultiMerchantInput)
         yield* db
           .update(schema.merchantMapping)
           .set({ isMultiMerchant: true, categoryId: null })
-          .where(eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern));
+          .where(
+            and(
+              eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern),
+              eq(schema.merchantMapping.userId, userId),
+              schema.isPlainMerchantMapping
+            )
+          );
       } else {
         // Unmark: just clear the flag
         yield* db
           .update(schema.merchantMapping)
           .set({ isMultiMerchant: false })
-          .where(eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern));
+          .where(
+            and(
+              eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern),
+              eq(schema.merchantMapping.userId, userId),
+              schema.isPlainMerchantMapping
+            )
+          );
       }
 
+      yield* activity.record(
+        userId,
+        fieldChanges(
+          'merchantMapping',
+          existing.id,
+          existing,
+          parsed.isMultiMerchant
+            ? { isMultiMerchant: true, categoryId: null }
+            : { isMultiMerchant: false }
+        )
+      );
+
       return {
         merchantPattern: parsed.merchantPattern,
         isMultiMerchant: parsed.isMultiMerchant
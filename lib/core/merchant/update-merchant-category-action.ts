@@ -2,11 +2,14 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { fieldChanges } from '@/lib/core/activity/activity';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
 
@@ -34,8 +37,10 @@ export const updateMerchantCategoryAction = async (input: UpdateMerchantCategory
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'merchant.pattern': parsed.merchantPattern,
@@ -44,9 +49,19 @@ export const updateMerchantCategoryAction = async (input: UpdateMerchantCategory
 
       // Verify merchant mapping exists
       const [existing] = yield* db
-        .select({ id: schema.merchantMapping.id })
+        .select({
+          id: schema.merchantMapping.id,
+          categoryId: schema.merchantMapping.categoryId,
+          isMultiMerchant: schema.merchantMapping.isMultiMerchant
+        })
         .from(schema.merchantMapping)
-        .where(eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern))
+        .where(
+          and(
+            eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern),
+            eq(schema.merchantMapping.userId, userId),
+            schema.isPlainMerchantMapping
+          )
+        )
         .limit(1);
 
       if (!existing) {
@@ -62,7 +77,7 @@ export const updateMerchantCategoryAction = async (input: UpdateMerchantCategory
         const [existingCategory] = yield* db
           .select({ id: schema.category.id })
           .from(schema.category)
-          .where(eq(schema.category.id, parsed.categoryId))
+          .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
           .limit(1);
 
         if (!existingCategory) {
@@ -78,7 +93,20 @@ export const updateMerchantCategoryAction = async (input: UpdateMerchantCategory
       yield* db
         .update(schema.merchantMapping)
         .set({ categoryId: parsed.categoryId })
-        .where(eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern));
+        .where(
+          and(
+            eq(schema.merchantMapping.merchantPattern, parsed.merchantPattern),
+            eq(schema.merchantMapping.userId, userId),
+            schema.isPlainMerchantMapping
+          )
+        );
+
+      yield* activity.record(
+        userId,
+        fieldChanges('merchantMapping', existing.id, existing, { categoryId: parsed.categoryId })
+      );
+
+      yield* checkBudgetAlerts(userId, session.user.email);
 
       return {
         merchantPattern: parsed.merchantPattern,
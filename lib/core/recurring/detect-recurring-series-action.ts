@@ -0,0 +1,49 @@
+'use server';
+
+import { Effect, Match } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { syncRecurringSeries } from './series';
+import { getRecurringSeries } from './queries';
+
+/**
+ * Server action to re-run recurring-series detection over all transactions.
+ * Returns the number of series found and the updated series.
+ */
+export const detectRecurringSeriesAction = async () => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const session = yield* getSession();
+      const found = yield* syncRecurringSeries(session.user.id);
+
+      return { found, series: yield* getRecurringSeries(session.user.id) };
+    }).pipe(
+      Effect.withSpan('action.recurring.detect', {
+        attributes: {
+          operation: 'recurring.detect'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to detect subscriptions'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/subscriptions');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,198 @@
+import { describe, expect, it } from '@effect/vitest';
+import {
+  addCadence,
+  detectRecurringSeries,
+  isStopped,
+  merchantKey,
+  monthlyCost,
+  type Charge
+} from './detect';
+
+const charges = (
+  merchant: string,
+  dates: Array<[number, number, number]>,
+  amounts: number | number[]
+): Charge[] =>
+  dates.map(([year, month, day], i) => ({
+    id: `${merchant}-${i}`,
+    date: new Date(year, month - 1, day),
+    merchant,
+    amount: -(Array.isArray(amounts) ? amounts[i] : amounts)
+  }));
+
+describe('merchantKey', () => {
+  it('drops words with references', () => {
+    expect(merchantKey('SPOTIFY P2A8C1D')).toBe('spotify');
+    expect(merchantKey('Netflix.com')).toBe('netflix.com');
+  });
+});
+
+describe('addCadence', () => {
+  it('clamps to the end of shorter months', () => {
+    expect(addCadence(new Date(2025, 0, 31), 'monthly')).toEqual(new Date(2025, 1, 28));
+    expect(addCadence(new Date(2025, 10, 30), 'quarterly')).toEqual(new Date(2026, 1, 28));
+  });
+});
+
+describe('detectRecurringSeries', () => {
+  it('detects a monthly subscription with date jitter and a price change', () => {
+    const [series] = detectRecurringSeries(
+      charges(
+        'SPOTIFY P1',
+        [
+          [2025, 1, 3],
+          [2025, 2, 2],
+          [2025, 3, 5],
+          [2025, 4, 3],
+          [2025, 5, 3]
+        ],
+        [109, 109, 119, 119, 119]
+      )
+    );
+
+    expect(series).toMatchObject({
+      key: 'spotify:monthly:SPOTIFY P1-0',
+      cadence: 'monthly',
+      amount: 119,
+      nextDate: new Date(2025, 5, 3),
+      priceHistory: [
+        { date: new Date(2025, 0, 3), amount: 109 },
+        { date: new Date(2025, 2, 5), amount: 119 }
+      ]
+    });
+    expect(series.transactionIds).toHaveLength(5);
+  });
+
+  it('continues a series across a large price step', () => {
+    const detected = detectRecurringSeries(
+      charges(
+        'Netflix',
+        [
+          [2025, 1, 12],
+          [2025, 2, 12],
+          [2025, 3, 12],
+          [2025, 4, 12],
+          [2025, 5, 12]
+        ],
+        [99, 99, 99, 129, 129]
+      )
+    );
+
+    expect(detected).toHaveLength(1);
+    expect(detected[0]).toMatchObject({
+      key: 'netflix:monthly:Netflix-0',
+      amount: 129,
+      priceHistory: [
+        { date: new Date(2025, 0, 12), amount: 99 },
+        { date: new Date(2025, 3, 12), amount: 129 }
+      ]
+    });
+  });
+
+  it('detects weekly, quarterly and yearly cadences', () => {
+    const detected = detectRecurringSeries([
+      ...charges(
+        'Gym',
+        [
+          [2025, 3, 3],
+          [2025, 3, 10],
+          [2025, 3, 17],
+          [2025, 3, 25]
+        ],
+        50
+      ),
+      ...charges(
+        'Insurance',
+        [
+          [2024, 1, 15],
+          [2024, 4, 15],
+          [2024, 7, 16]
+        ],
+        900
+      ),
+      ...charges(
+        'Domain',
+        [
+          [2023, 6, 1],
+          [2024, 6, 3]
+        ],
+        150
+      )
+    ]);
+
+    expect(detected.map(s => s.key).sort()).toEqual([
+      'domain:yearly:Domain-0',
+      'gym:weekly:Gym-0',
+      'insurance:quarterly:Insurance-0'
+    ]);
+  });
+
+  it('keeps two subscriptions at one merchant apart', () => {
+    const dates: Array<[number, number, number]> = [
+      [2025, 1, 10],
+      [2025, 2, 10],
+      [2025, 3, 10]
+    ];
+    const detected = detectRecurringSeries([
+      ...charges('Apple', dates, 29),
+      ...charges('Apple', dates, 129).map(c => ({ ...c, id: `${c.id}b` }))
+    ]);
+
+    expect(detected.map(s => [s.key, s.amount])).toEqual([
+      ['apple:monthly:Apple-0', 29],
+      ['apple:monthly:Apple-0b', 129]
+    ]);
+
+    // Keys don't depend on which series' charges come first
+    const reordered = detectRecurringSeries([
+      ...charges('Apple', dates, 129).map(c => ({ ...c, id: `${c.id}b` })),
+      ...charges('Apple', dates, 29)
+    ]);
+    expect(reordered.map(s => [s.key, s.amount])).toEqual([
+      ['apple:monthly:Apple-0b', 129],
+      ['apple:monthly:Apple-0', 29]
+    ]);
+  });
+
+  it('ignores irregular spending and income', () => {
+    const detected = detectRecurringSeries([
+      ...charges(
+        'ICA',
+        [
+          [2025, 1, 2],
+          [2025, 1, 6],
+          [2025, 1, 15],
+          [2025, 1, 18],
+          [2025, 1, 29]
+        ],
+        [420, 380, 455, 400, 390]
+      ),
+      ...charges(
+        'Salary',
+        [
+          [2025, 1, 25],
+          [2025, 2, 25],
+          [2025, 3, 25]
+        ],
+        -30000
+      )
+    ]);
+
+    expect(detected).toEqual([]);
+  });
+});
+
+describe('isStopped', () => {
+  it('allows for a late charge before calling a series stopped', () => {
+    const series = { nextDate: new Date(2025, 5, 3), cadence: 'monthly' as const };
+    expect(isStopped(series, new Date(2025, 5, 10))).toBe(false);
+    expect(isStopped(series, new Date(2025, 5, 20))).toBe(true);
+  });
+});
+
+describe('monthlyCost', () => {
+  it('spreads a charge over a month', () => {
+    expect(monthlyCost(1200, 'yearly')).toBe(100);
+    expect(monthlyCost(300, 'quarterly')).toBe(100);
+  });
+});
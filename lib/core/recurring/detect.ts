@@ -0,0 +1,252 @@
+/**
+ * Recurring-series detection: subscriptions and other charges repeating on a
+ * weekly, monthly, quarterly or yearly cadence. Pure functions without
+ * server-only imports, shared by the series sync and the subscriptions page.
+ */
+
+export const CADENCES = ['weekly', 'monthly', 'quarterly', 'yearly'] as const;
+export type Cadence = (typeof CADENCES)[number];
+
+export const CADENCE_LABELS: Record<Cadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly'
+};
+
+type CadenceSpec = {
+  /** Days between charges that fit the cadence, allowing for date jitter */
+  minDays: number;
+  maxDays: number;
+  minCharges: number;
+  perMonth: number;
+};
+
+const CADENCE_SPECS: Record<Cadence, CadenceSpec> = {
+  weekly: { minDays: 5, maxDays: 9, minCharges: 4, perMonth: 52 / 12 },
+  monthly: { minDays: 25, maxDays: 36, minCharges: 3, perMonth: 1 },
+  quarterly: { minDays: 80, maxDays: 102, minCharges: 3, perMonth: 1 / 3 },
+  yearly: { minDays: 330, maxDays: 400, minCharges: 2, perMonth: 1 / 12 }
+};
+
+/** A charge continues a series if within this fraction of the previous one's amount */
+const AMOUNT_DRIFT = 0.25;
+
+/** Share of steps between charges that must keep the amount within 5% */
+const MIN_STABLE_SHARE = 0.5;
+
+/** Share of intervals that must fit the cadence; the rest are skipped or late charges */
+const MIN_FITTING_SHARE = 0.75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Charge = {
+  id: string;
+  date: Date;
+  merchant: string;
+  /** Expenses are negative */
+  amount: number;
+};
+
+export type PricePoint = {
+  date: Date;
+  amount: number;
+};
+
+export type DetectedSeries = {
+  /** Identifies the series across detections: merchant, cadence and first charge */
+  key: string;
+  /** Merchant of the latest charge */
+  merchant: string;
+  cadence: Cadence;
+  /** Absolute amount of the latest charge */
+  amount: number;
+  firstDate: Date;
+  lastDate: Date;
+  nextDate: Date;
+  transactionIds: string[];
+  lastTransactionId: string;
+  /** The first charge and every charge at a new price, oldest first */
+  priceHistory: PricePoint[];
+};
+
+/**
+ * Merchant text that stays the same across charges: lowercased, without words
+ * containing digits such as order or card references ("SPOTIFY P2A8C1D").
+ */
+export function merchantKey(merchant: string): string {
+  const words = merchant.toLowerCase().split(/\s+/).filter(Boolean);
+  const kept = words.filter(word => !/\d/.test(word));
+  return (kept.length > 0 ? kept : words).join(' ');
+}
+
+/**
+ * The date a cadence after `date`. Months keep the day of month, clamped to
+ * the month's last day.
+ */
+export function addCadence(date: Date, cadence: Cadence): Date {
+  if (cadence === 'weekly') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7);
+  }
+  const months = cadence === 'monthly' ? 1 : cadence === 'quarterly' ? 3 : 12;
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+}
+
+/** Cost of one charge per cadence spread over a month */
+export const monthlyCost = (amount: number, cadence: Cadence) =>
+  amount * CADENCE_SPECS[cadence].perMonth;
+
+/**
+ * Whether a series has stopped: its next charge is overdue by more than the
+ * cadence's jitter allows.
+ */
+export function isStopped(
+  series: { nextDate: Date; cadence: Cadence },
+  now: Date = new Date()
+): boolean {
+  const spec = CADENCE_SPECS[series.cadence];
+  const graceDays = spec.maxDays - spec.minDays;
+  return now.getTime() > series.nextDate.getTime() + graceDays * DAY_MS;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const relativeChange = (from: number, to: number) => Math.abs(to - from) / from;
+
+// Split a merchant's charges, oldest first, into runs of similar amounts
+const amountClusters = (charges: ReadonlyArray<Charge>) => {
+  const clusters: Charge[][] = [];
+  for (const charge of charges) {
+    const amount = Math.abs(charge.amount);
+    let best: Charge[] | null = null;
+    let bestChange = AMOUNT_DRIFT;
+    for (const cluster of clusters) {
+      const change = relativeChange(Math.abs(cluster[cluster.length - 1].amount), amount);
+      if (change <= bestChange) {
+        best = cluster;
+        bestChange = change;
+      }
+    }
+    if (best) {
+      best.push(charge);
+    } else {
+      clusters.push([charge]);
+    }
+  }
+  return clusters;
+};
+
+const fittingCadence = (charges: ReadonlyArray<Charge>): Cadence | null => {
+  const intervals = charges
+    .slice(1)
+    .map((charge, i) => (charge.date.getTime() - charges[i].date.getTime()) / DAY_MS);
+  if (intervals.length === 0) return null;
+
+  const typical = median(intervals);
+  const cadence = CADENCES.find(
+    c => typical >= CADENCE_SPECS[c].minDays && typical <= CADENCE_SPECS[c].maxDays
+  );
+  if (!cadence) return null;
+
+  const spec = CADENCE_SPECS[cadence];
+  const fitting = intervals.filter(days => days >= spec.minDays && days <= spec.maxDays);
+  if (charges.length < spec.minCharges) return null;
+  if (fitting.length < intervals.length * MIN_FITTING_SHARE) return null;
+  return cadence;
+};
+
+// Whether `later` picks up where `earlier` stopped, one cadence after its last
+// charge, as when a subscription's price steps up by more than the drift allows
+const continuesAfter = (earlier: ReadonlyArray<Charge>, later: ReadonlyArray<Charge>) => {
+  const cadence = fittingCadence(earlier);
+  if (cadence === null) return false;
+
+  const spec = CADENCE_SPECS[cadence];
+  const gap = (later[0].date.getTime() - earlier[earlier.length - 1].date.getTime()) / DAY_MS;
+  if (gap < spec.minDays || gap > spec.maxDays) return false;
+  return fittingCadence([...earlier, ...later]) === cadence;
+};
+
+// Join runs that continue one another, oldest first, so a price step keeps the
+// series and its price history
+const priceSteppedRuns = (clusters: ReadonlyArray<Charge[]>) => {
+  const runs: Charge[][] = [];
+  for (const cluster of clusters) {
+    const run = runs.find(earlier => continuesAfter(earlier, cluster));
+    if (run) {
+      run.push(...cluster);
+    } else {
+      runs.push([...cluster]);
+    }
+  }
+  return runs;
+};
+
+const isStable = (charges: ReadonlyArray<Charge>) => {
+  const steps = charges
+    .slice(1)
+    .map((charge, i) => relativeChange(Math.abs(charges[i].amount), Math.abs(charge.amount)));
+  return steps.filter(change => change <= 0.05).length >= steps.length * MIN_STABLE_SHARE;
+};
+
+const priceHistory = (charges: ReadonlyArray<Charge>): PricePoint[] =>
+  charges.flatMap((charge, i) => {
+    const amount = Math.abs(charge.amount);
+    if (i > 0 && Math.abs(amount - Math.abs(charges[i - 1].amount)) < 0.01) return [];
+    return [{ date: charge.date, amount }];
+  });
+
+/**
+ * Detect recurring series among expenses.
+ *
+ * Charges are grouped by `merchantKey`, then split into runs whose amounts
+ * drift at most 25% from one charge to the next, so price changes continue a
+ * series while two subscriptions at one merchant stay apart. A run starting
+ * one cadence after another run stopped continues it, so larger price steps
+ * keep the series and its price history too. A run is a series if the median
+ * time between charges fits a cadence, most intervals fit it (late, early or
+ * skipped charges are tolerated) and the amount mostly stays the same;
+ * irregular spending such as groceries fails these checks.
+ */
+export function detectRecurringSeries(charges: ReadonlyArray<Charge>): DetectedSeries[] {
+  const byMerchant = new Map<string, Charge[]>();
+  for (const charge of charges) {
+    if (charge.amount >= 0) continue;
+    const key = merchantKey(charge.merchant);
+    byMerchant.set(key, [...(byMerchant.get(key) ?? []), charge]);
+  }
+
+  const series: DetectedSeries[] = [];
+  for (const [merchant, merchantCharges] of byMerchant) {
+    const sorted = [...merchantCharges].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const cluster of priceSteppedRuns(amountClusters(sorted))) {
+      const cadence = fittingCadence(cluster);
+      if (cadence === null || !isStable(cluster)) continue;
+
+      const first = cluster[0];
+      const last = cluster[cluster.length - 1];
+
+      series.push({
+        key: `${merchant}:${cadence}:${first.id}`,
+        merchant: last.merchant,
+        cadence,
+        amount: Math.abs(last.amount),
+        firstDate: first.date,
+        lastDate: last.date,
+        nextDate: addCadence(last.date, cadence),
+        transactionIds: cluster.map(charge => charge.id),
+        lastTransactionId: last.id,
+        priceHistory: priceHistory(cluster)
+      });
+    }
+  }
+
+  return series;
+}
@@ -0,0 +1,126 @@
+import { Effect } from 'effect';
+import { and, asc, eq, gte, lte, ne } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { isStopped, monthlyCost, type Cadence, type PricePoint } from './detect';
+
+export type SeriesStatus = 'detected' | 'confirmed' | 'dismissed';
+
+export type RecurringSeriesItem = {
+  id: string;
+  merchant: string;
+  name: string | null;
+  cadence: Cadence;
+  status: SeriesStatus;
+  amount: number;
+  monthlyCost: number;
+  firstDate: Date;
+  lastDate: Date;
+  nextDate: Date;
+  /** The next charge is overdue beyond the cadence's jitter */
+  stopped: boolean;
+  transactionCount: number;
+  lastTransactionId: string | null;
+  categoryName: string | null;
+  priceHistory: PricePoint[];
+};
+
+/**
+ * Get the user's recurring series, largest monthly cost first. The category is
+ * that of the latest charge.
+ */
+export const getRecurringSeries = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const now = new Date();
+
+    const rows = yield* db
+      .select({
+        id: schema.recurringSeries.id,
+        merchant: schema.recurringSeries.merchant,
+        name: schema.recurringSeries.name,
+        cadence: schema.recurringSeries.cadence,
+        status: schema.recurringSeries.status,
+        amount: schema.recurringSeries.amount,
+        firstDate: schema.recurringSeries.firstDate,
+        lastDate: schema.recurringSeries.lastDate,
+        nextDate: schema.recurringSeries.nextDate,
+        transactionCount: schema.recurringSeries.transactionCount,
+        lastTransactionId: schema.recurringSeries.lastTransactionId,
+        priceHistory: schema.recurringSeries.priceHistory,
+        categoryName: schema.category.name
+      })
+      .from(schema.recurringSeries)
+      .leftJoin(
+        schema.transaction,
+        eq(schema.recurringSeries.lastTransactionId, schema.transaction.id)
+      )
+      .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
+      .where(eq(schema.recurringSeries.userId, userId))
+      .orderBy(asc(schema.recurringSeries.merchant));
+
+    return rows
+      .map((row): RecurringSeriesItem => {
+        const amount = parseFloat(row.amount);
+        return {
+          ...row,
+          amount,
+          monthlyCost: monthlyCost(amount, row.cadence),
+          stopped: isStopped(row, now),
+          priceHistory: row.priceHistory.map(point => ({
+            date: new Date(point.date),
+            amount: point.amount
+          }))
+        };
+      })
+      .sort((a, b) => b.monthlyCost - a.monthlyCost);
+  }).pipe(Effect.withSpan('Recurring.getAll'));
+
+export type UpcomingExpense = {
+  seriesId: string;
+  merchant: string;
+  expectedAmount: number;
+  expectedDate: Date;
+  daysUntil: number;
+};
+
+/**
+ * Get charges of recurring series expected within the next 60 days, soonest
+ * first. Dismissed series are left out.
+ */
+export const getUpcomingExpenses = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const sixtyDaysFromNow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 60);
+
+    const rows = yield* db
+      .select({
+        seriesId: schema.recurringSeries.id,
+        merchant: schema.recurringSeries.merchant,
+        name: schema.recurringSeries.name,
+        amount: schema.recurringSeries.amount,
+        nextDate: schema.recurringSeries.nextDate
+      })
+      .from(schema.recurringSeries)
+      .where(
+        and(
+          eq(schema.recurringSeries.userId, userId),
+          ne(schema.recurringSeries.status, 'dismissed'),
+          gte(schema.recurringSeries.nextDate, today),
+          lte(schema.recurringSeries.nextDate, sixtyDaysFromNow)
+        )
+      )
+      .orderBy(asc(schema.recurringSeries.nextDate));
+
+    return rows.map(
+      (row): UpcomingExpense => ({
+        seriesId: row.seriesId,
+        merchant: row.name ?? row.merchant,
+        expectedAmount: parseFloat(row.amount),
+        expectedDate: row.nextDate,
+        daysUntil: Math.round((row.nextDate.getTime() - today.getTime()) / (24 * 60 * 60 * 1000))
+      })
+    );
+  }).pipe(Effect.withSpan('Recurring.getUpcoming'));
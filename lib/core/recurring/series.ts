@@ -0,0 +1,102 @@
+import { Effect } from 'effect';
+import { and, asc, eq, notInArray, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { countedInReports } from '@/lib/core/bank-account/transfers';
+import { detectRecurringSeries } from './detect';
+
+/**
+ * Detect the user's recurring series over all their expenses and store them.
+ *
+ * Series found again are refreshed in place, keeping the user's name and
+ * status, so confirmed and dismissed series stay that way. Detected series
+ * that are no longer found (their transactions were deleted or edited) are
+ * removed; confirmed and dismissed ones are kept.
+ *
+ * Called after uploads and from the subscriptions page. Returns the number of
+ * series found.
+ */
+export const syncRecurringSeries = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const expenses = yield* db
+      .select({
+        id: schema.transaction.id,
+        date: schema.transaction.date,
+        merchant: schema.transaction.merchant,
+        amount: schema.transaction.amount
+      })
+      .from(schema.transaction)
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
+        )
+      )
+      .orderBy(asc(schema.transaction.date));
+
+    const detected = detectRecurringSeries(
+      expenses.map(tx => ({ ...tx, amount: parseFloat(tx.amount) }))
+    );
+
+    yield* db.transaction(() =>
+      Effect.gen(function* () {
+        if (detected.length > 0) {
+          yield* db
+            .insert(schema.recurringSeries)
+            .values(
+              detected.map(series => ({
+                userId,
+                key: series.key,
+                merchant: series.merchant,
+                cadence: series.cadence,
+                amount: series.amount.toFixed(2),
+                firstDate: series.firstDate,
+                lastDate: series.lastDate,
+                nextDate: series.nextDate,
+                transactionCount: series.transactionIds.length,
+                lastTransactionId: series.lastTransactionId,
+                priceHistory: series.priceHistory.map(point => ({
+                  date: point.date.toISOString(),
+                  amount: point.amount
+                }))
+              }))
+            )
+            .onConflictDoUpdate({
+              target: [schema.recurringSeries.userId, schema.recurringSeries.key],
+              set: {
+                merchant: sql`excluded."merchant"`,
+                cadence: sql`excluded."cadence"`,
+                amount: sql`excluded."amount"`,
+                firstDate: sql`excluded."firstDate"`,
+                lastDate: sql`excluded."lastDate"`,
+                nextDate: sql`excluded."nextDate"`,
+                transactionCount: sql`excluded."transactionCount"`,
+                lastTransactionId: sql`excluded."lastTransactionId"`,
+                priceHistory: sql`excluded."priceHistory"`,
+                updatedAt: new Date()
+              }
+            });
+        }
+
+        yield* db.delete(schema.recurringSeries).where(
+          and(
+            eq(schema.recurringSeries.userId, userId),
+            eq(schema.recurringSeries.status, 'detected'),
+            detected.length > 0
+              ? notInArray(
+                  schema.recurringSeries.key,
+                  detected.map(series => series.key)
+                )
+              : undefined
+          )
+        );
+      })
+    );
+
+    yield* Effect.annotateCurrentSpan({ 'recurring.series': detected.length });
+
+    return detected.length;
+  }).pipe(Effect.withSpan('Recurring.sync'));
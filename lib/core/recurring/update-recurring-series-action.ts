@@ -0,0 +1,132 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges } from '@/lib/core/activity/activity';
+
+const UpdateRecurringSeriesInput = S.Struct({
+  id: S.String.pipe(S.minLength(1)),
+  // Null restores the merchant as the name
+  name: S.optional(S.NullOr(S.Trim.pipe(S.maxLength(80)))),
+  status: S.optional(S.Literal('detected', 'confirmed', 'dismissed'))
+});
+
+type UpdateRecurringSeriesInput = S.Schema.Encoded<typeof UpdateRecurringSeriesInput>;
+
+/**
+ * Server action to rename a recurring series, or to confirm, dismiss or
+ * restore it. Both survive re-detection.
+ */
+export const updateRecurringSeriesAction = async (input: UpdateRecurringSeriesInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(UpdateRecurringSeriesInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Series id is required and names are at most 80 characters',
+              field: 'input'
+            })
+        )
+      );
+
+      if (parsed.name === undefined && parsed.status === undefined) {
+        return yield* new ValidationError({
+          message: 'Nothing to update',
+          field: 'input'
+        });
+      }
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'recurring.id': parsed.id,
+        'recurring.status': parsed.status ?? 'unchanged'
+      });
+
+      const [existing] = yield* db
+        .select({ name: schema.recurringSeries.name, status: schema.recurringSeries.status })
+        .from(schema.recurringSeries)
+        .where(
+          and(eq(schema.recurringSeries.id, parsed.id), eq(schema.recurringSeries.userId, userId))
+        )
+        .limit(1);
+
+      if (!existing) {
+        return yield* new NotFoundError({
+          message: 'Series not found',
+          entity: 'recurringSeries',
+          id: parsed.id
+        });
+      }
+
+      const [series] = yield* db
+        .update(schema.recurringSeries)
+        .set({
+          name: parsed.name === undefined ? undefined : parsed.name || null,
+          status: parsed.status
+        })
+        .where(
+          and(eq(schema.recurringSeries.id, parsed.id), eq(schema.recurringSeries.userId, userId))
+        )
+        .returning({
+          id: schema.recurringSeries.id,
+          name: schema.recurringSeries.name,
+          status: schema.recurringSeries.status
+        });
+
+      yield* activity.record(userId, fieldChanges('recurringSeries', parsed.id, existing, series));
+
+      return series;
+    }).pipe(
+      Effect.withSpan('action.recurring.update', {
+        attributes: {
+          'recurring.id': input.id,
+          operation: 'recurring.update'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to update subscription'
+              })
+            )
+          ),
+        onSuccess: series =>
+          Effect.sync(() => {
+            revalidatePath('/subscriptions');
+            return { _tag: 'Success' as const, series };
+          })
+      })
+    )
+  );
+};
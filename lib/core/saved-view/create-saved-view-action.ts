@@ -0,0 +1,118 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ConstraintError, ValidationError } from '@/lib/core/errors';
+import { SAVED_VIEW_PAGES, viewHref, viewQuery } from './view';
+
+const CreateSavedViewInput = S.Struct({
+  name: S.Trim.pipe(S.minLength(1), S.maxLength(50)),
+  page: S.Literal(...SAVED_VIEW_PAGES),
+  // The page's URL search params
+  query: S.String.pipe(S.maxLength(2000)),
+  pinned: S.Boolean
+});
+
+type CreateSavedViewInput = S.Schema.Encoded<typeof CreateSavedViewInput>;
+
+/**
+ * Server action to save the current filters of the transactions or merchants
+ * page as a named view, optionally pinned to the header nav.
+ */
+export const createSavedViewAction = async (input: CreateSavedViewInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(CreateSavedViewInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'View name must be 1-50 characters',
+              field: 'name'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({
+        'view.name': parsed.name,
+        'view.page': parsed.page
+      });
+
+      const [existing] = yield* db
+        .select({ id: schema.savedView.id })
+        .from(schema.savedView)
+        .where(and(eq(schema.savedView.userId, userId), eq(schema.savedView.name, parsed.name)))
+        .limit(1);
+
+      if (existing) {
+        return yield* new ConstraintError({
+          message: `A view named "${parsed.name}" already exists`,
+          constraint: 'name'
+        });
+      }
+
+      const query = viewQuery(parsed.page, parsed.query);
+
+      const [view] = yield* db
+        .insert(schema.savedView)
+        .values({
+          userId,
+          name: parsed.name,
+          page: parsed.page,
+          query,
+          pinned: parsed.pinned
+        })
+        .returning({ id: schema.savedView.id, name: schema.savedView.name });
+
+      return { ...view, href: viewHref(parsed.page, query) };
+    }).pipe(
+      Effect.withSpan('action.savedView.create', {
+        attributes: {
+          'view.page': input.page,
+          operation: 'savedView.create'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ConstraintError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to save view'
+              })
+            )
+          ),
+        onSuccess: view =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            revalidatePath('/', 'layout');
+            return { _tag: 'Success' as const, view };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,106 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const DeleteSavedViewInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteSavedViewInput = S.Schema.Type<typeof DeleteSavedViewInput>;
+
+/**
+ * Server action to delete one of the user's views, unsharing it from every
+ * member. For a view shared with the user, removes it from their views only.
+ */
+export const deleteSavedViewAction = async (input: DeleteSavedViewInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteSavedViewInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'View id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({ 'view.id': parsed.id });
+
+      const [deleted] = yield* db
+        .delete(schema.savedView)
+        .where(and(eq(schema.savedView.id, parsed.id), eq(schema.savedView.userId, userId)))
+        .returning({ id: schema.savedView.id });
+
+      if (deleted) return deleted;
+
+      const [left] = yield* db
+        .delete(schema.savedViewShare)
+        .where(
+          and(eq(schema.savedViewShare.viewId, parsed.id), eq(schema.savedViewShare.userId, userId))
+        )
+        .returning({ id: schema.savedViewShare.viewId });
+
+      if (!left) {
+        return yield* new NotFoundError({
+          message: 'View not found',
+          entity: 'savedView',
+          id: parsed.id
+        });
+      }
+
+      return left;
+    }).pipe(
+      Effect.withSpan('action.savedView.delete', {
+        attributes: {
+          'view.id': input.id,
+          operation: 'savedView.delete'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete view'
+              })
+            )
+          ),
+        onSuccess: view =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            revalidatePath('/', 'layout');
+            return { _tag: 'Success' as const, id: view.id };
+          })
+      })
+    )
+  );
+};
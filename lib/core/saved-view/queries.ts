@@ -0,0 +1,148 @@
+import { Effect } from 'effect';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { sharedViewQuery, viewHref, type SavedViewPage } from './view';
+
+export type ViewMember = {
+  userId: string;
+  name: string;
+  email: string;
+};
+
+export type SavedViewItem = {
+  id: string;
+  name: string;
+  page: SavedViewPage;
+  href: string;
+  pinned: boolean;
+  /** Name of the member who shared the view; null for the user's own views */
+  sharedBy: string | null;
+  /** Members the user's own view is shared with */
+  sharedWith: ViewMember[];
+};
+
+export type PinnedView = Pick<SavedViewItem, 'id' | 'name' | 'href'>;
+
+/**
+ * Get the user's own views and the views shared with them, each by name.
+ *
+ * Links of shared views refer to categories and tags by name rather than by
+ * the owner's ids; see `sharedViewQuery`.
+ */
+export const getSavedViews = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const own = yield* db
+      .select({
+        id: schema.savedView.id,
+        name: schema.savedView.name,
+        page: schema.savedView.page,
+        query: schema.savedView.query,
+        pinned: schema.savedView.pinned
+      })
+      .from(schema.savedView)
+      .where(eq(schema.savedView.userId, userId))
+      .orderBy(asc(schema.savedView.name));
+
+    const shared = yield* db
+      .select({
+        id: schema.savedView.id,
+        name: schema.savedView.name,
+        page: schema.savedView.page,
+        query: schema.savedView.query,
+        pinned: schema.savedViewShare.pinned,
+        ownerId: schema.savedView.userId,
+        ownerName: schema.user.name
+      })
+      .from(schema.savedViewShare)
+      .innerJoin(schema.savedView, eq(schema.savedViewShare.viewId, schema.savedView.id))
+      .innerJoin(schema.user, eq(schema.savedView.userId, schema.user.id))
+      .where(eq(schema.savedViewShare.userId, userId))
+      .orderBy(asc(schema.savedView.name));
+
+    const members =
+      own.length > 0
+        ? yield* db
+            .select({
+              viewId: schema.savedViewShare.viewId,
+              userId: schema.user.id,
+              name: schema.user.name,
+              email: schema.user.email
+            })
+            .from(schema.savedViewShare)
+            .innerJoin(schema.user, eq(schema.savedViewShare.userId, schema.user.id))
+            .where(
+              inArray(
+                schema.savedViewShare.viewId,
+                own.map(view => view.id)
+              )
+            )
+            .orderBy(asc(schema.user.name))
+        : [];
+
+    // Names of the owners' categories and tags that shared views filter on
+    const ids = shared.flatMap(view => {
+      const params = new URLSearchParams(view.query);
+      return [params.get('category'), params.get('tag')].filter(id => id !== null);
+    });
+    const ownerIds = [...new Set(shared.map(view => view.ownerId))];
+    const named =
+      ids.length > 0
+        ? [
+            ...(yield* db
+              .select({ id: schema.category.id, name: schema.category.name })
+              .from(schema.category)
+              .where(
+                and(inArray(schema.category.id, ids), inArray(schema.category.userId, ownerIds))
+              )),
+            ...(yield* db
+              .select({ id: schema.tag.id, name: schema.tag.name })
+              .from(schema.tag)
+              .where(and(inArray(schema.tag.id, ids), inArray(schema.tag.userId, ownerIds))))
+          ]
+        : [];
+    const names = new Map(named.map(row => [row.id, row.name]));
+
+    return [
+      ...own.map(
+        (view): SavedViewItem => ({
+          id: view.id,
+          name: view.name,
+          page: view.page,
+          href: viewHref(view.page, view.query),
+          pinned: view.pinned,
+          sharedBy: null,
+          sharedWith: members
+            .filter(member => member.viewId === view.id)
+            .map(({ userId, name, email }): ViewMember => ({ userId, name, email }))
+        })
+      ),
+      ...shared.map(
+        (view): SavedViewItem => ({
+          id: view.id,
+          name: view.name,
+          page: view.page,
+          href: viewHref(view.page, sharedViewQuery(view.query, names)),
+          pinned: view.pinned,
+          sharedBy: view.ownerName,
+          sharedWith: []
+        })
+      )
+    ];
+  }).pipe(Effect.withSpan('SavedView.getAll'));
+
+/**
+ * Get the views the user pinned to the header nav, own and shared, by name.
+ */
+export const getPinnedViews = (userId: string) =>
+  getSavedViews(userId).pipe(
+    Effect.map(views =>
+      views
+        .filter(view => view.pinned)
+        .map((view): PinnedView => ({ id: view.id, name: view.name, href: view.href }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    ),
+    Effect.withSpan('SavedView.getPinned')
+  );
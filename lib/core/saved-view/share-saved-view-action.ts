@@ -0,0 +1,115 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { findHouseholdMember } from '@/lib/core/household/queries';
+
+const ShareSavedViewInput = S.Struct({
+  id: S.String.pipe(S.minLength(1)),
+  email: S.Trim.pipe(S.minLength(3), S.maxLength(254), S.pattern(/^[^\s@]+@[^\s@]+$/))
+});
+
+type ShareSavedViewInput = S.Schema.Encoded<typeof ShareSavedViewInput>;
+
+/**
+ * Server action to share one of the user's views with a household member, by
+ * the email address they sign in with. Only mutual household members qualify,
+ * see `getHouseholdMembers`. Returns the member.
+ */
+export const shareSavedViewAction = async (input: ShareSavedViewInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(ShareSavedViewInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Enter the email address of a household member',
+              field: 'email'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({ 'view.id': parsed.id });
+
+      const [view] = yield* db
+        .select({ id: schema.savedView.id })
+        .from(schema.savedView)
+        .where(and(eq(schema.savedView.id, parsed.id), eq(schema.savedView.userId, userId)))
+        .limit(1);
+
+      if (!view) {
+        return yield* new NotFoundError({
+          message: 'View not found',
+          entity: 'savedView',
+          id: parsed.id
+        });
+      }
+
+      // The same answer whether or not someone signs in with the email
+      const member = yield* findHouseholdMember(userId, parsed.email);
+      if (!member) {
+        return yield* new ValidationError({
+          message:
+            'Views can only be shared with household members who added you back. Add their email under Household first.',
+          field: 'email'
+        });
+      }
+
+      yield* db
+        .insert(schema.savedViewShare)
+        .values({ viewId: view.id, userId: member.userId })
+        .onConflictDoNothing();
+
+      return member;
+    }).pipe(
+      Effect.withSpan('action.savedView.share', {
+        attributes: {
+          'view.id': input.id,
+          operation: 'savedView.share'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to share view'
+              })
+            )
+          ),
+        onSuccess: member =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            return { _tag: 'Success' as const, member };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,107 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const UnshareSavedViewInput = S.Struct({
+  id: S.String.pipe(S.minLength(1)),
+  userId: S.String.pipe(S.minLength(1))
+});
+
+type UnshareSavedViewInput = S.Schema.Type<typeof UnshareSavedViewInput>;
+
+/**
+ * Server action to stop sharing one of the user's views with a member.
+ */
+export const unshareSavedViewAction = async (input: UnshareSavedViewInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(UnshareSavedViewInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'View and member are required',
+              field: 'input'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({ 'view.id': parsed.id });
+
+      const [view] = yield* db
+        .select({ id: schema.savedView.id })
+        .from(schema.savedView)
+        .where(
+          and(eq(schema.savedView.id, parsed.id), eq(schema.savedView.userId, session.user.id))
+        )
+        .limit(1);
+
+      if (!view) {
+        return yield* new NotFoundError({
+          message: 'View not found',
+          entity: 'savedView',
+          id: parsed.id
+        });
+      }
+
+      yield* db
+        .delete(schema.savedViewShare)
+        .where(
+          and(
+            eq(schema.savedViewShare.viewId, view.id),
+            eq(schema.savedViewShare.userId, parsed.userId)
+          )
+        );
+
+      return { id: view.id, userId: parsed.userId };
+    }).pipe(
+      Effect.withSpan('action.savedView.unshare', {
+        attributes: {
+          'view.id': input.id,
+          operation: 'savedView.unshare'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to stop sharing view'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,161 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, ne } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ConstraintError, NotFoundError, ValidationError } from '@/lib/core/errors';
+
+const UpdateSavedViewInput = S.Struct({
+  id: S.String.pipe(S.minLength(1)),
+  name: S.optional(S.Trim.pipe(S.minLength(1), S.maxLength(50))),
+  pinned: S.optional(S.Boolean)
+});
+
+type UpdateSavedViewInput = S.Schema.Encoded<typeof UpdateSavedViewInput>;
+
+/**
+ * Server action to rename a view or pin it to the header nav. Members a view
+ * is shared with can pin it for themselves but not rename it.
+ */
+export const updateSavedViewAction = async (input: UpdateSavedViewInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(UpdateSavedViewInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'View id is required and names must be 1-50 characters',
+              field: 'input'
+            })
+        )
+      );
+
+      if (parsed.name === undefined && parsed.pinned === undefined) {
+        return yield* new ValidationError({
+          message: 'Nothing to update',
+          field: 'input'
+        });
+      }
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+
+      yield* Effect.annotateCurrentSpan({ 'view.id': parsed.id });
+
+      const [own] = yield* db
+        .select({ id: schema.savedView.id })
+        .from(schema.savedView)
+        .where(and(eq(schema.savedView.id, parsed.id), eq(schema.savedView.userId, userId)))
+        .limit(1);
+
+      if (!own) {
+        if (parsed.name !== undefined) {
+          return yield* new ValidationError({
+            message: 'Only the owner can rename a shared view',
+            field: 'name'
+          });
+        }
+
+        const [share] = yield* db
+          .update(schema.savedViewShare)
+          .set({ pinned: parsed.pinned })
+          .where(
+            and(
+              eq(schema.savedViewShare.viewId, parsed.id),
+              eq(schema.savedViewShare.userId, userId)
+            )
+          )
+          .returning({ id: schema.savedViewShare.viewId });
+
+        if (!share) {
+          return yield* new NotFoundError({
+            message: 'View not found',
+            entity: 'savedView',
+            id: parsed.id
+          });
+        }
+
+        return share;
+      }
+
+      if (parsed.name !== undefined) {
+        const [duplicate] = yield* db
+          .select({ id: schema.savedView.id })
+          .from(schema.savedView)
+          .where(
+            and(
+              eq(schema.savedView.userId, userId),
+              eq(schema.savedView.name, parsed.name),
+              ne(schema.savedView.id, parsed.id)
+            )
+          )
+          .limit(1);
+
+        if (duplicate) {
+          return yield* new ConstraintError({
+            message: `A view named "${parsed.name}" already exists`,
+            constraint: 'name'
+          });
+        }
+      }
+
+      yield* db
+        .update(schema.savedView)
+        .set({ name: parsed.name, pinned: parsed.pinned })
+        .where(and(eq(schema.savedView.id, parsed.id), eq(schema.savedView.userId, userId)));
+
+      return own;
+    }).pipe(
+      Effect.withSpan('action.savedView.update', {
+        attributes: {
+          'view.id': input.id,
+          operation: 'savedView.update'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ConstraintError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to update view'
+              })
+            )
+          ),
+        onSuccess: view =>
+          Effect.sync(() => {
+            revalidatePath('/views');
+            revalidatePath('/', 'layout');
+            return { _tag: 'Success' as const, id: view.id };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from '@effect/vitest';
+import { sharedViewQuery, viewQuery } from './view';
+
+describe('viewQuery', () => {
+  it("keeps the page's filters and drops the page number", () => {
+    expect(
+      viewQuery('transactions', '?category=uncategorized&search=%3E1000&page=3&foo=bar&tag=')
+    ).toBe('category=uncategorized&search=%3E1000');
+  });
+
+  it('keeps the merchants sorting', () => {
+    expect(viewQuery('merchants', 'timeframe=year&sort=count&dir=asc&category=x')).toBe(
+      'timeframe=year&sort=count&dir=asc'
+    );
+  });
+});
+
+describe('sharedViewQuery', () => {
+  const names = new Map([
+    ['cat1', 'Eating out'],
+    ['tag1', 'Trip "Rome"']
+  ]);
+
+  it('replaces category and tag ids with name search terms', () => {
+    expect(
+      new URLSearchParams(sharedViewQuery('category=cat1&tag=tag1&search=>100', names)).get(
+        'search'
+      )
+    ).toBe('>100 category:"Eating out" tag:"Trip Rome"');
+  });
+
+  it('keeps uncategorized and drops unknown ids', () => {
+    expect(sharedViewQuery('category=uncategorized&tag=gone', names)).toBe(
+      'category=uncategorized'
+    );
+  });
+});
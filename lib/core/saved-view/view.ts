@@ -0,0 +1,69 @@
+/**
+ * Saved views store a page's URL search params. Pure functions without
+ * server-only imports, shared by the save button and the queries.
+ */
+
+export const SAVED_VIEW_PAGES = ['transactions', 'merchants'] as const;
+export type SavedViewPage = (typeof SAVED_VIEW_PAGES)[number];
+
+export const SAVED_VIEW_PAGE_LABELS: Record<SavedViewPage, string> = {
+  transactions: 'Transactions',
+  merchants: 'Merchants'
+};
+
+// Params a view keeps, from each page's search-params.ts; the page number is left out
+const VIEW_PARAMS: Record<SavedViewPage, ReadonlyArray<string>> = {
+  transactions: ['category', 'source', 'tag', 'search', 'startDate', 'endDate', 'pageSize'],
+  merchants: ['timeframe', 'period', 'search', 'sort', 'dir']
+};
+
+/**
+ * The part of a page's URL search params that a view stores, without the
+ * leading '?'. Unknown and empty params are dropped.
+ */
+export function viewQuery(page: SavedViewPage, search: string): string {
+  const params = new URLSearchParams(search);
+  const kept = new URLSearchParams();
+  for (const key of VIEW_PARAMS[page]) {
+    const value = params.get(key);
+    if (value) kept.set(key, value);
+  }
+  return kept.toString();
+}
+
+export const viewHref = (page: SavedViewPage, query: string) =>
+  query ? `/${page}?${query}` : `/${page}`;
+
+const quoted = (name: string) => `"${name.replaceAll('"', '')}"`;
+
+/**
+ * Query of a view shared by another user. Category and tag ids belong to the
+ * owner, so they are replaced by `category:` and `tag:` search terms on their
+ * names, which match the member's own categories and tags of the same name.
+ *
+ * `names` maps the owner's category and tag ids to names; ids without a name
+ * (deleted since) are dropped.
+ */
+export function sharedViewQuery(query: string, names: ReadonlyMap<string, string>): string {
+  const params = new URLSearchParams(query);
+  const terms: string[] = [];
+
+  const category = params.get('category');
+  if (category !== null && category !== 'uncategorized') {
+    params.delete('category');
+    const name = names.get(category);
+    if (name !== undefined) terms.push(`category:${quoted(name)}`);
+  }
+
+  const tag = params.get('tag');
+  if (tag !== null) {
+    params.delete('tag');
+    const name = names.get(tag);
+    if (name !== undefined) terms.push(`tag:${quoted(name)}`);
+  }
+
+  if (terms.length > 0) {
+    params.set('search', [params.get('search'), ...terms].filter(Boolean).join(' '));
+  }
+  return params.toString();
+}
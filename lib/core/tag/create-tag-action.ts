@@ -0,0 +1,108 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ConstraintError, ValidationError } from '@/lib/core/errors';
+
+const CreateTagInput = S.Struct({
+  name: S.Trim.pipe(S.minLength(1), S.maxLength(50))
+});
+
+type CreateTagInput = S.Schema.Encoded<typeof CreateTagInput>;
+
+/**
+ * Server action to create a tag.
+ */
+export const createTagAction = async (input: CreateTagInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(CreateTagInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Tag name is required (1-50 chars)',
+              field: 'name'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'tag.name': parsed.name
+      });
+
+      const [existing] = yield* db
+        .select({ id: schema.tag.id })
+        .from(schema.tag)
+        .where(and(eq(schema.tag.userId, userId), eq(schema.tag.name, parsed.name)))
+        .limit(1);
+
+      if (existing) {
+        return yield* new ConstraintError({
+          message: `A tag named "${parsed.name}" already exists`,
+          constraint: 'name'
+        });
+      }
+
+      const [tag] = yield* db
+        .insert(schema.tag)
+        .values({ userId, name: parsed.name })
+        .returning({ id: schema.tag.id, name: schema.tag.name });
+
+      yield* activity.record(userId, [
+        { entity: 'tag', entityId: tag.id, action: 'create', newValue: { name: tag.name } }
+      ]);
+
+      return tag;
+    }).pipe(
+      Effect.withSpan('action.tag.create', {
+        attributes: {
+          'tag.name': input.name,
+          operation: 'tag.create'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ConstraintError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to create tag'
+              })
+            )
+          ),
+        onSuccess: tag =>
+          Effect.sync(() => {
+            revalidatePath('/tags');
+            return { _tag: 'Success' as const, tag };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,125 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { tagChange } from '@/lib/core/activity/activity';
+
+const DeleteTagInput = S.Struct({
+  id: S.String.pipe(S.minLength(1))
+});
+
+type DeleteTagInput = S.Schema.Type<typeof DeleteTagInput>;
+
+/**
+ * Server action to delete a tag. It is removed from its transactions; the
+ * transactions themselves are kept.
+ */
+export const deleteTagAction = async (input: DeleteTagInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(DeleteTagInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Tag id is required',
+              field: 'id'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'tag.id': parsed.id
+      });
+
+      const deleted = yield* db.transaction(() =>
+        Effect.gen(function* () {
+          const tagged = yield* db
+            .select({ id: schema.transactionTag.transactionId })
+            .from(schema.transactionTag)
+            .where(eq(schema.transactionTag.tagId, parsed.id));
+
+          const [deleted] = yield* db
+            .delete(schema.tag)
+            .where(and(eq(schema.tag.id, parsed.id), eq(schema.tag.userId, userId)))
+            .returning({ id: schema.tag.id, name: schema.tag.name });
+          if (!deleted) return null;
+
+          yield* activity.record(userId, [
+            {
+              entity: 'tag',
+              entityId: deleted.id,
+              action: 'delete',
+              oldValue: { name: deleted.name }
+            },
+            ...tagged.map(tx => tagChange(tx.id, deleted.name, null))
+          ]);
+
+          return deleted;
+        })
+      );
+
+      if (!deleted) {
+        return yield* new NotFoundError({
+          message: 'Tag not found',
+          entity: 'tag',
+          id: parsed.id
+        });
+      }
+
+      return deleted;
+    }).pipe(
+      Effect.withSpan('action.tag.delete', {
+        attributes: {
+          'tag.id': input.id,
+          operation: 'tag.delete'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to delete tag'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/tags');
+            revalidatePath('/transactions');
+            revalidatePath('/analytics');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
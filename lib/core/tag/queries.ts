@@ -0,0 +1,361 @@
+import { Effect } from 'effect';
+import { and, asc, count, desc, eq, gte, lt, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { countedInReports } from '@/lib/core/bank-account/transfers';
+
+type DateRange = {
+  startDate: Date;
+  endDate: Date;
+};
+
+/**
+ * Where-clause for transactions carrying a tag.
+ */
+export const hasTag = (tagId: string) =>
+  sql`exists (select 1 from ${schema.transactionTag} where ${schema.transactionTag.transactionId} = ${schema.transaction.id} and ${schema.transactionTag.tagId} = ${tagId})`;
+
+// Join a tag's transactions; tags apply to whole transactions, never split parts
+const tagJoin = (tagId: string) =>
+  and(
+    eq(schema.transactionTag.transactionId, schema.transaction.id),
+    eq(schema.transactionTag.tagId, tagId)
+  );
+
+const rangeConditions = (range?: DateRange) =>
+  range
+    ? [gte(schema.transaction.date, range.startDate), lt(schema.transaction.date, range.endDate)]
+    : [];
+
+export type TagOption = {
+  id: string;
+  name: string;
+};
+
+export type TagWithCount = TagOption & {
+  transactionCount: number;
+};
+
+/**
+ * Get all tags of a user by name, with the number of tagged transactions.
+ */
+export const getTags = (userId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    return yield* db
+      .select({
+        id: schema.tag.id,
+        name: schema.tag.name,
+        transactionCount: sql<number>`count(${schema.transactionTag.transactionId})::int`
+      })
+      .from(schema.tag)
+      .leftJoin(schema.transactionTag, eq(schema.transactionTag.tagId, schema.tag.id))
+      .where(eq(schema.tag.userId, userId))
+      .groupBy(schema.tag.id)
+      .orderBy(asc(schema.tag.name));
+  }).pipe(Effect.withSpan('Tag.getAll'));
+
+/**
+ * Get tag by ID. Returns null if not found.
+ */
+export const getTagById = (userId: string, id: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [result] = yield* db
+      .select({ id: schema.tag.id, name: schema.tag.name })
+      .from(schema.tag)
+      .where(and(eq(schema.tag.id, id), eq(schema.tag.userId, userId)))
+      .limit(1);
+
+    return result ?? null;
+  }).pipe(Effect.withSpan('Tag.getById'));
+
+/**
+ * Get the tags of a transaction by name.
+ * Callers must check that the transaction belongs to the user.
+ */
+export const getTransactionTags = (transactionId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    return yield* db
+      .select({ id: schema.tag.id, name: schema.tag.name })
+      .from(schema.transactionTag)
+      .innerJoin(schema.tag, eq(schema.transactionTag.tagId, schema.tag.id))
+      .where(eq(schema.transactionTag.transactionId, transactionId))
+      .orderBy(asc(schema.tag.name));
+  }).pipe(Effect.withSpan('Tag.getForTransaction'));
+
+export type TagStats = {
+  totalExpenses: number;
+  totalIncome: number;
+  transactionCount: number;
+  avgTransaction: number;
+  merchantCount: number;
+  firstTransaction: Date | null;
+  lastTransaction: Date | null;
+};
+
+/**
+ * Get aggregate stats for a tag's transactions.
+ */
+export const getTagStats = (userId: string, tagId: string, range?: DateRange) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [result] = yield* db
+      .select({
+        totalExpenses: sql<string>`coalesce(sum(case when ${schema.transaction.amount} < 0 then -${schema.transaction.amount} else 0 end), 0)`,
+        totalIncome: sql<string>`coalesce(sum(case when ${schema.transaction.amount} > 0 then ${schema.transaction.amount} else 0 end), 0)`,
+        transactionCount: sql<number>`count(*)::int`,
+        expenseCount: sql<number>`count(*) filter (where ${schema.transaction.amount} < 0)::int`,
+        merchantCount: sql<number>`count(distinct lower(${schema.transaction.merchant}))::int`,
+        firstTransaction: sql<Date | null>`min(${schema.transaction.date})`.mapWith(
+          schema.transaction.date
+        ),
+        lastTransaction: sql<Date | null>`max(${schema.transaction.date})`.mapWith(
+          schema.transaction.date
+        )
+      })
+      .from(schema.transaction)
+      .innerJoin(schema.transactionTag, tagJoin(tagId))
+      .where(
+        and(eq(schema.transaction.userId, userId), countedInReports(), ...rangeConditions(range))
+      );
+
+    const totalExpenses = parseFloat(result?.totalExpenses ?? '0');
+    const expenseCount = result?.expenseCount ?? 0;
+
+    return {
+      totalExpenses,
+      totalIncome: parseFloat(result?.totalIncome ?? '0'),
+      transactionCount: result?.transactionCount ?? 0,
+      avgTransaction: expenseCount > 0 ? totalExpenses / expenseCount : 0,
+      merchantCount: result?.merchantCount ?? 0,
+      firstTransaction: result?.firstTransaction ?? null,
+      lastTransaction: result?.lastTransaction ?? null
+    } satisfies TagStats;
+  }).pipe(Effect.withSpan('Tag.getStats'));
+
+export type TagTopMerchant = {
+  merchant: string;
+  total: number;
+  transactionCount: number;
+};
+
+/**
+ * Get top merchants for a tag by expense total.
+ */
+export const getTagTopMerchants = (
+  userId: string,
+  tagId: string,
+  limit: number = 10,
+  range?: DateRange
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const results = yield* db
+      .select({
+        // Any spelling of the merchant; they group case-insensitively
+        merchant: sql<string>`min(${schema.transaction.merchant})`,
+        total: sql<string>`abs(sum(${schema.transaction.amount}))`,
+        count: sql<number>`count(*)::int`
+      })
+      .from(schema.transaction)
+      .innerJoin(schema.transactionTag, tagJoin(tagId))
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports(),
+          ...rangeConditions(range)
+        )
+      )
+      .groupBy(sql`lower(${schema.transaction.merchant})`)
+      .orderBy(desc(sql`abs(sum(${schema.transaction.amount}))`))
+      .limit(limit);
+
+    return results.map(
+      (row): TagTopMerchant => ({
+        merchant: row.merchant,
+        total: parseFloat(row.total),
+        transactionCount: row.count
+      })
+    );
+  }).pipe(Effect.withSpan('Tag.getTopMerchants'));
+
+export type TagMonthlyTrend = {
+  period: string;
+  periodKey: string;
+  expenses: number;
+  income: number;
+  transactionCount: number;
+};
+
+/**
+ * Get a tag's monthly expenses and income: the last 12 months, or the months
+ * within the date range if given (end exclusive).
+ */
+export const getTagMonthlyTrends = (userId: string, tagId: string, range?: DateRange) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const now = new Date();
+    const firstMonth = range
+      ? new Date(range.startDate.getFullYear(), range.startDate.getMonth(), 1)
+      : new Date(now.getFullYear(), now.getMonth() - 11, 1);
+    const endMonth = range
+      ? new Date(range.endDate.getFullYear(), range.endDate.getMonth(), 1)
+      : new Date(now.getFullYear(), now.getMonth() + 1, 1);
+
+    const months: Date[] = [];
+    for (let m = firstMonth; m < endMonth; m = new Date(m.getFullYear(), m.getMonth() + 1, 1)) {
+      months.push(m);
+    }
+    if (months.length === 0) return [];
+
+    const monthKey = (date: Date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+    const rows = yield* db
+      .select({ date: schema.transaction.date, amount: schema.transaction.amount })
+      .from(schema.transaction)
+      .innerJoin(schema.transactionTag, tagJoin(tagId))
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          countedInReports(),
+          gte(schema.transaction.date, firstMonth),
+          lt(schema.transaction.date, endMonth)
+        )
+      );
+
+    const totals = new Map(
+      months.map(m => [monthKey(m), { expenses: 0, income: 0, transactionCount: 0 }])
+    );
+    for (const row of rows) {
+      const entry = totals.get(monthKey(row.date));
+      if (!entry) continue;
+      const amount = parseFloat(row.amount);
+      if (amount < 0) {
+        entry.expenses += Math.abs(amount);
+      } else {
+        entry.income += amount;
+      }
+      entry.transactionCount++;
+    }
+
+    return months.map(
+      (m): TagMonthlyTrend => ({
+        period: m.toLocaleString('en-US', { month: 'short' }),
+        periodKey: monthKey(m),
+        expenses: 0,
+        income: 0,
+        transactionCount: 0,
+        ...totals.get(monthKey(m))
+      })
+    );
+  }).pipe(Effect.withSpan('Tag.getMonthlyTrends'));
+
+/**
+ * Get a tag's transactions with pagination, newest first.
+ */
+export const getTagTransactions = (
+  userId: string,
+  tagId: string,
+  page: number,
+  pageSize: number,
+  range?: DateRange
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const whereClause = and(eq(schema.transaction.userId, userId), ...rangeConditions(range));
+
+    const [countResult] = yield* db
+      .select({ total: count() })
+      .from(schema.transaction)
+      .innerJoin(schema.transactionTag, tagJoin(tagId))
+      .where(whereClause);
+
+    const total = countResult?.total ?? 0;
+
+    const items = yield* db
+      .select({
+        id: schema.transaction.id,
+        date: schema.transaction.date,
+        merchant: schema.transaction.merchant,
+        amount: schema.transaction.amount,
+        categoryName: schema.category.name
+      })
+      .from(schema.transaction)
+      .innerJoin(schema.transactionTag, tagJoin(tagId))
+      .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
+      .where(whereClause)
+      .orderBy(desc(schema.transaction.date))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      items: items.map(tx => ({ ...tx, amount: parseFloat(tx.amount) })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize)
+    };
+  }).pipe(Effect.withSpan('Tag.getTransactions'));
+
+export type TagTotal = {
+  tagId: string;
+  name: string;
+  expenses: number;
+  income: number;
+  transactionCount: number;
+};
+
+/**
+ * Get expense and income totals per tag within a date range, largest expenses
+ * first. A transaction with several tags counts toward each of them.
+ */
+export const getTagTotals = (userId: string, range: DateRange) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({
+        tagId: schema.tag.id,
+        name: schema.tag.name,
+        expenses: sql<string>`coalesce(sum(case when ${schema.transaction.amount} < 0 then -${schema.transaction.amount} else 0 end), 0)`,
+        income: sql<string>`coalesce(sum(case when ${schema.transaction.amount} > 0 then ${schema.transaction.amount} else 0 end), 0)`,
+        transactionCount: sql<number>`count(*)::int`
+      })
+      .from(schema.transactionTag)
+      .innerJoin(schema.tag, eq(schema.transactionTag.tagId, schema.tag.id))
+      .innerJoin(schema.transaction, eq(schema.transactionTag.transactionId, schema.transaction.id))
+      .where(
+        and(
+          eq(schema.tag.userId, userId),
+          eq(schema.transaction.userId, userId),
+          countedInReports(),
+          ...rangeConditions(range)
+        )
+      )
+      .groupBy(schema.tag.id)
+      .orderBy(
+        desc(
+          sql`sum(case when ${schema.transaction.amount} < 0 then -${schema.transaction.amount} else 0 end)`
+        ),
+        asc(schema.tag.name)
+      );
+
+    return rows.map(
+      (row): TagTotal => ({
+        ...row,
+        expenses: parseFloat(row.expenses),
+        income: parseFloat(row.income)
+      })
+    );
+  }).pipe(Effect.withSpan('Tag.getTotals'));
@@ -0,0 +1,158 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { tagChange } from '@/lib/core/activity/activity';
+
+const SetTransactionTagsInput = S.Struct({
+  transactionId: S.String.pipe(S.minLength(1)),
+  tagIds: S.Array(S.String.pipe(S.minLength(1)))
+});
+
+type SetTransactionTagsInput = S.Schema.Type<typeof SetTransactionTagsInput>;
+
+/**
+ * Server action to replace the tags of a transaction.
+ */
+export const setTransactionTagsAction = async (input: SetTransactionTagsInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(SetTransactionTagsInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Transaction id and tags are required',
+              field: 'tagIds'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+      const tagIds = [...new Set(parsed.tagIds)];
+
+      yield* Effect.annotateCurrentSpan({
+        'transaction.id': parsed.transactionId,
+        'tag.count': tagIds.length
+      });
+
+      const [existing] = yield* db
+        .select({ id: schema.transaction.id })
+        .from(schema.transaction)
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.transactionId),
+            eq(schema.transaction.userId, userId)
+          )
+        )
+        .limit(1);
+
+      if (!existing) {
+        return yield* new NotFoundError({
+          message: 'Transaction not found',
+          entity: 'transaction',
+          id: parsed.transactionId
+        });
+      }
+
+      const tags =
+        tagIds.length > 0
+          ? yield* db
+              .select({ id: schema.tag.id, name: schema.tag.name })
+              .from(schema.tag)
+              .where(and(eq(schema.tag.userId, userId), inArray(schema.tag.id, tagIds)))
+              .orderBy(asc(schema.tag.name))
+          : [];
+
+      if (tags.length !== tagIds.length) {
+        return yield* new NotFoundError({
+          message: 'Tag not found',
+          entity: 'tag',
+          id: tagIds.find(id => !tags.some(tag => tag.id === id)) ?? ''
+        });
+      }
+
+      yield* db.transaction(() =>
+        Effect.gen(function* () {
+          const previous = yield* db
+            .select({ id: schema.tag.id, name: schema.tag.name })
+            .from(schema.transactionTag)
+            .innerJoin(schema.tag, eq(schema.transactionTag.tagId, schema.tag.id))
+            .where(eq(schema.transactionTag.transactionId, parsed.transactionId));
+
+          yield* db
+            .delete(schema.transactionTag)
+            .where(eq(schema.transactionTag.transactionId, parsed.transactionId));
+
+          if (tags.length > 0) {
+            yield* db
+              .insert(schema.transactionTag)
+              .values(tags.map(tag => ({ transactionId: parsed.transactionId, tagId: tag.id })));
+          }
+
+          yield* activity.record(userId, [
+            ...previous
+              .filter(tag => !tagIds.includes(tag.id))
+              .map(tag => tagChange(parsed.transactionId, tag.name, null)),
+            ...tags
+              .filter(tag => !previous.some(p => p.id === tag.id))
+              .map(tag => tagChange(parsed.transactionId, null, tag.name))
+          ]);
+        })
+      );
+
+      return { transactionId: parsed.transactionId, tags };
+    }).pipe(
+      Effect.withSpan('action.transaction.setTags', {
+        attributes: {
+          'transaction.id': input.transactionId,
+          operation: 'transaction.setTags'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to update tags'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/transactions');
+            revalidatePath(`/transactions/${result.transactionId}`);
+            revalidatePath('/tags');
+            revalidatePath('/analytics');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -0,0 +1,138 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, ne } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { ConstraintError, NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges } from '@/lib/core/activity/activity';
+
+const UpdateTagInput = S.Struct({
+  id: S.String.pipe(S.minLength(1)),
+  name: S.Trim.pipe(S.minLength(1), S.maxLength(50))
+});
+
+type UpdateTagInput = S.Schema.Encoded<typeof UpdateTagInput>;
+
+/**
+ * Server action to rename a tag.
+ */
+export const updateTagAction = async (input: UpdateTagInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(UpdateTagInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Tag id and name (1-50 chars) are required',
+              field: 'input'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'tag.id': parsed.id,
+        'tag.name': parsed.name
+      });
+
+      const [duplicate] = yield* db
+        .select({ id: schema.tag.id })
+        .from(schema.tag)
+        .where(
+          and(
+            eq(schema.tag.userId, userId),
+            eq(schema.tag.name, parsed.name),
+            ne(schema.tag.id, parsed.id)
+          )
+        )
+        .limit(1);
+
+      if (duplicate) {
+        return yield* new ConstraintError({
+          message: `A tag named "${parsed.name}" already exists`,
+          constraint: 'name'
+        });
+      }
+
+      const [existing] = yield* db
+        .select({ name: schema.tag.name })
+        .from(schema.tag)
+        .where(and(eq(schema.tag.id, parsed.id), eq(schema.tag.userId, userId)))
+        .limit(1);
+
+      if (!existing) {
+        return yield* new NotFoundError({
+          message: 'Tag not found',
+          entity: 'tag',
+          id: parsed.id
+        });
+      }
+
+      const [tag] = yield* db
+        .update(schema.tag)
+        .set({ name: parsed.name })
+        .where(and(eq(schema.tag.id, parsed.id), eq(schema.tag.userId, userId)))
+        .returning({ id: schema.tag.id, name: schema.tag.name });
+
+      yield* activity.record(userId, fieldChanges('tag', parsed.id, existing, parsed));
+
+      return tag;
+    }).pipe(
+      Effect.withSpan('action.tag.update', {
+        attributes: {
+          'tag.id': input.id,
+          operation: 'tag.update'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ConstraintError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to rename tag'
+              })
+            )
+          ),
+        onSuccess: tag =>
+          Effect.sync(() => {
+            revalidatePath('/tags');
+            revalidatePath(`/tags/${tag.id}`);
+            revalidatePath('/transactions');
+            return { _tag: 'Success' as const, tag };
+          })
+      })
+    )
+  );
+};
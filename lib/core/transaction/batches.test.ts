@@ -0,0 +1,14 @@
+import { describe, expect, it } from '@effect/vitest';
+import { batches, QUERY_BATCH_SIZE } from './batches';
+
+describe('batches', () => {
+  it('splits rows into batches of at most QUERY_BATCH_SIZE', () => {
+    const rows = Array.from({ length: QUERY_BATCH_SIZE * 2 + 1 }, (_, i) => i);
+    expect(batches(rows).map(batch => batch.length)).toEqual([
+      QUERY_BATCH_SIZE,
+      QUERY_BATCH_SIZE,
+      1
+    ]);
+    expect(batches([])).toEqual([]);
+  });
+});
@@ -0,0 +1,10 @@
+/** Rows per batched query or insert, well under Postgres' 65535 bind parameters */
+export const QUERY_BATCH_SIZE = 1000;
+
+/**
+ * Split items into batches of QUERY_BATCH_SIZE.
+ */
+export const batches = <T>(items: ReadonlyArray<T>): T[][] =>
+  Array.from({ length: Math.ceil(items.length / QUERY_BATCH_SIZE) }, (_, i) =>
+    items.slice(i * QUERY_BATCH_SIZE, (i + 1) * QUERY_BATCH_SIZE)
+  );
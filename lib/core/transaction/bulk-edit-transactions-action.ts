@@ -0,0 +1,367 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges, tagChange } from '@/lib/core/activity/activity';
+import { getAttachmentKeys } from '@/lib/core/attachment/queries';
+import { removeAttachmentFiles } from '@/lib/core/attachment/files';
+import { CATEGORY_SOURCES, categorization } from './category-source';
+import { transactionsFilterWhere } from './queries';
+
+// YYYY-MM-DD as used in the transactions list URL
+const DateParam = S.String.pipe(S.pattern(/^\d{4}-\d{2}-\d{2}$/));
+
+const BulkSelection = S.Union(
+  S.Struct({
+    ids: S.Array(S.String.pipe(S.minLength(1))).pipe(S.minItems(1))
+  }),
+  // Every transaction matching the list filter, not just the loaded page
+  S.Struct({
+    filter: S.Struct({
+      category: S.NullOr(S.String),
+      source: S.NullOr(S.Literal(...CATEGORY_SOURCES)),
+      tag: S.NullOr(S.String),
+      search: S.NullOr(S.String),
+      startDate: S.NullOr(DateParam),
+      endDate: S.NullOr(DateParam)
+    })
+  })
+);
+
+const BulkOperation = S.Union(
+  S.Struct({
+    type: S.Literal('setCategory'),
+    categoryId: S.NullOr(S.String.pipe(S.minLength(1)))
+  }),
+  S.Struct({ type: S.Literal('delete') }),
+  S.Struct({ type: S.Literal('addTag'), tagId: S.String.pipe(S.minLength(1)) }),
+  S.Struct({ type: S.Literal('removeTag'), tagId: S.String.pipe(S.minLength(1)) }),
+  S.Struct({ type: S.Literal('markTransfer'), value: S.Boolean }),
+  S.Struct({ type: S.Literal('excludeFromReports'), value: S.Boolean })
+);
+
+const BulkEditTransactionsInput = S.Struct({
+  selection: BulkSelection,
+  operation: BulkOperation
+});
+
+type BulkEditTransactionsInput = S.Schema.Type<typeof BulkEditTransactionsInput>;
+
+// Same parsing as the transactions page, so the filter matches the list
+const parseDateParam = (value: string | null) => {
+  if (value === null) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const getTagName = (userId: string, tagId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const [tag] = yield* db
+      .select({ name: schema.tag.name })
+      .from(schema.tag)
+      .where(and(eq(schema.tag.id, tagId), eq(schema.tag.userId, userId)))
+      .limit(1);
+
+    if (!tag) {
+      return yield* new NotFoundError({
+        message: 'Tag not found',
+        entity: 'tag',
+        id: tagId
+      });
+    }
+
+    return tag.name;
+  });
+
+const notSplit = () =>
+  sql`not exists (select 1 from ${schema.transactionSplit} where ${schema.transactionSplit.transactionId} = ${schema.transaction.id})`;
+
+/**
+ * Server action to apply one operation to many transactions: set category,
+ * delete, add or remove a tag, mark as transfer or exclude from reports.
+ * Applies to the given ids or to every transaction matching the list filter, in
+ * a single db transaction.
+ *
+ * Split transactions keep their categories, since their parts carry them; they
+ * are counted as skipped. Returns the ids of the changed transactions.
+ */
+export const bulkEditTransactionsAction = async (input: BulkEditTransactionsInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(BulkEditTransactionsInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Select transactions and an operation',
+              field: 'selection'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+      const { selection, operation } = parsed;
+
+      yield* Effect.annotateCurrentSpan({
+        'bulk.operation': operation.type,
+        'bulk.selection': 'ids' in selection ? selection.ids.length : 'filter'
+      });
+
+      const where =
+        'ids' in selection
+          ? and(
+              eq(schema.transaction.userId, userId),
+              inArray(schema.transaction.id, [...selection.ids])
+            )
+          : transactionsFilterWhere(userId, {
+              categoryId: selection.filter.category,
+              categorySource: selection.filter.source,
+              tagId: selection.filter.tag,
+              search: selection.filter.search,
+              startDate: parseDateParam(selection.filter.startDate),
+              endDate: parseDateParam(selection.filter.endDate)
+            });
+
+      // Recorded in the audit trail of the tagged or untagged transactions
+      const tagName =
+        operation.type === 'addTag' || operation.type === 'removeTag'
+          ? yield* getTagName(userId, operation.tagId)
+          : null;
+
+      if (operation.type === 'setCategory' && operation.categoryId !== null) {
+        const [existingCategory] = yield* db
+          .select({ id: schema.category.id })
+          .from(schema.category)
+          .where(
+            and(eq(schema.category.id, operation.categoryId), eq(schema.category.userId, userId))
+          )
+          .limit(1);
+
+        if (!existingCategory) {
+          return yield* new NotFoundError({
+            message: 'Category not found',
+            entity: 'category',
+            id: operation.categoryId
+          });
+        }
+      }
+
+      // Stored files of deleted transactions' attachments, removed once the delete commits
+      const attachmentKeys = operation.type === 'delete' ? yield* getAttachmentKeys(where) : [];
+
+      const result = yield* db.transaction(() =>
+        Match.value(operation).pipe(
+          Match.when({ type: 'setCategory' }, ({ categoryId }) =>
+            Effect.gen(function* () {
+              const targets = yield* db
+                .select({
+                  id: schema.transaction.id,
+                  categoryId: schema.transaction.categoryId,
+                  isSplit: sql<boolean>`not ${notSplit()}`
+                })
+                .from(schema.transaction)
+                .where(where);
+              const editable = targets.filter(tx => !tx.isSplit);
+
+              if (editable.length > 0) {
+                yield* db
+                  .update(schema.transaction)
+                  .set(categorization(categoryId, 'bulk'))
+                  .where(and(where, notSplit()));
+              }
+
+              yield* activity.record(
+                userId,
+                editable.flatMap(tx => fieldChanges('transaction', tx.id, tx, { categoryId }))
+              );
+
+              return {
+                ids: editable.map(tx => tx.id),
+                skipped: targets.length - editable.length
+              };
+            })
+          ),
+          Match.when({ type: 'delete' }, () =>
+            Effect.gen(function* () {
+              const deleted = yield* db.delete(schema.transaction).where(where).returning({
+                id: schema.transaction.id,
+                date: schema.transaction.date,
+                merchant: schema.transaction.merchant,
+                amount: schema.transaction.amount,
+                categoryId: schema.transaction.categoryId,
+                accountId: schema.transaction.accountId
+              });
+
+              yield* activity.record(
+                userId,
+                deleted.map(({ id, ...tx }) => ({
+                  entity: 'transaction' as const,
+                  entityId: id,
+                  action: 'delete' as const,
+                  oldValue: { ...tx, amount: parseFloat(tx.amount) }
+                }))
+              );
+
+              return { ids: deleted.map(tx => tx.id), skipped: 0 };
+            })
+          ),
+          Match.when({ type: 'addTag' }, ({ tagId }) =>
+            Effect.gen(function* () {
+              const added = yield* db
+                .insert(schema.transactionTag)
+                .select(
+                  db
+                    .select({
+                      transactionId: schema.transaction.id,
+                      tagId: sql<string>`${tagId}`.as('tagId'),
+                      createdAt: sql<Date>`now()`.as('createdAt')
+                    })
+                    .from(schema.transaction)
+                    .where(where)
+                )
+                .onConflictDoNothing()
+                .returning({ id: schema.transactionTag.transactionId });
+              const ids = added.map(tx => tx.id);
+
+              yield* activity.record(
+                userId,
+                ids.map(id => tagChange(id, null, tagName))
+              );
+
+              return { ids, skipped: 0 };
+            })
+          ),
+          Match.when({ type: 'removeTag' }, ({ tagId }) =>
+            Effect.gen(function* () {
+              const removed = yield* db
+                .delete(schema.transactionTag)
+                .where(
+                  and(
+                    eq(schema.transactionTag.tagId, tagId),
+                    inArray(
+                      schema.transactionTag.transactionId,
+                      db.select({ id: schema.transaction.id }).from(schema.transaction).where(where)
+                    )
+                  )
+                )
+                .returning({ id: schema.transactionTag.transactionId });
+              const ids = removed.map(tx => tx.id);
+
+              yield* activity.record(
+                userId,
+                ids.map(id => tagChange(id, tagName, null))
+              );
+
+              return { ids, skipped: 0 };
+            })
+          ),
+          Match.when({ type: 'markTransfer' }, ({ value }) =>
+            Effect.gen(function* () {
+              const targets = yield* db
+                .select({
+                  id: schema.transaction.id,
+                  markedTransfer: schema.transaction.markedTransfer
+                })
+                .from(schema.transaction)
+                .where(where);
+
+              yield* db.update(schema.transaction).set({ markedTransfer: value }).where(where);
+
+              yield* activity.record(
+                userId,
+                targets.flatMap(tx =>
+                  fieldChanges('transaction', tx.id, tx, { markedTransfer: value })
+                )
+              );
+
+              return { ids: targets.map(tx => tx.id), skipped: 0 };
+            })
+          ),
+          Match.when({ type: 'excludeFromReports' }, ({ value }) =>
+            Effect.gen(function* () {
+              const targets = yield* db
+                .select({
+                  id: schema.transaction.id,
+                  excludedFromReports: schema.transaction.excludedFromReports
+                })
+                .from(schema.transaction)
+                .where(where);
+
+              yield* db.update(schema.transaction).set({ excludedFromReports: value }).where(where);
+
+              yield* activity.record(
+                userId,
+                targets.flatMap(tx =>
+                  fieldChanges('transaction', tx.id, tx, { excludedFromReports: value })
+                )
+              );
+
+              return { ids: targets.map(tx => tx.id), skipped: 0 };
+            })
+          ),
+          Match.exhaustive
+        )
+      );
+
+      yield* removeAttachmentFiles(attachmentKeys);
+      yield* checkBudgetAlerts(userId, session.user.email);
+
+      return { operation: operation.type, ...result };
+    }).pipe(
+      Effect.withSpan('action.transaction.bulkEdit', {
+        attributes: {
+          'bulk.operation': input.operation.type,
+          operation: 'transaction.bulkEdit'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to update transactions'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/analytics');
+            revalidatePath('/review');
+            revalidatePath('/transactions');
+            revalidatePath('/transfers');
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
@@ -6,14 +6,22 @@ import { and, eq, isNull } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { compileRules, findMatchingRule } from '@/lib/core/merchant/match';
+import { getMerchantRules } from '@/lib/core/merchant/queries';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { categorization } from './category-source';
 
 // Input validation schema
 const CategorizeTransactionInput = S.Struct({
   transactionId: S.String.pipe(S.minLength(1)),
-  categoryId: S.String.pipe(S.minLength(1))
+  categoryId: S.String.pipe(S.minLength(1)),
+  // Whether the user picked the category or accepted an AI suggestion
+  source: S.optional(S.Literal('manual', 'ai'))
 });
 
 type CategorizeTransactionInput = S.Schema.Type<typeof CategorizeTransactionInput>;
@@ -24,6 +32,7 @@ type CategorizeTransactionInput = S.Schema.Type<typeof CategorizeTransactionInpu
  * 1. Updates the transaction's categoryId
  * 2. Creates or updates a merchant_mapping for the transaction's merchant
  *    (so future transactions with the same merchant get auto-categorized)
+ * 3. Bulk categorizes the merchant's other uncategorized transactions
  */
 export const categorizeTransactionAction = async (input: CategorizeTransactionInput) => {
   return await NextEffect.runPromise(
@@ -39,8 +48,10 @@ export const categorizeTransactionAction = async (input: CategorizeTransactionIn
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.id': parsed.transactionId,
@@ -51,7 +62,7 @@ export const categorizeTransactionAction = async (input: CategorizeTransactionIn
       const [existingCategory] = yield* db
         .select({ id: schema.category.id })
         .from(schema.category)
-        .where(eq(schema.category.id, parsed.categoryId))
+        .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
         .limit(1);
 
       if (!existingCategory) {
@@ -66,10 +77,17 @@ export const categorizeTransactionAction = async (input: CategorizeTransactionIn
       const [existingTransaction] = yield* db
         .select({
           id: schema.transaction.id,
-          merchant: schema.transaction.merchant
+          merchant: schema.transaction.merchant,
+          amount: schema.transaction.amount,
+          categoryId: schema.transaction.categoryId
         })
         .from(schema.transaction)
-        .where(eq(schema.transaction.id, parsed.transactionId))
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.transactionId),
+            eq(schema.transaction.userId, userId)
+          )
+        )
         .limit(1);
 
       if (!existingTransaction) {
@@ -80,55 +98,96 @@ export const categorizeTransactionAction = async (input: CategorizeTransactionIn
         });
       }
 
-      // Check if merchant is marked as multi-merchant (substring match like in upload)
-      const multiMerchantMappings = yield* db
-        .select({
-          merchantPattern: schema.merchantMapping.merchantPattern
-        })
-        .from(schema.merchantMapping)
-        .where(eq(schema.merchantMapping.isMultiMerchant, true));
+      // Check if the rule that applies (as in upload) marks a multi-merchant
+      const rule = findMatchingRule(
+        compileRules(yield* getMerchantRules(userId)),
+        existingTransaction.merchant,
+        parseFloat(existingTransaction.amount)
+      );
+      const isMultiMerchant = rule?.isMultiMerchant ?? false;
+
+      yield* db
+        .update(schema.transaction)
+        .set(categorization(parsed.categoryId, parsed.source ?? 'manual'))
+        .where(eq(schema.transaction.id, parsed.transactionId));
 
-      const merchantLower = existingTransaction.merchant.toLowerCase();
-      const isMultiMerchant = multiMerchantMappings.some(m =>
-        merchantLower.includes(m.merchantPattern.toLowerCase())
+      yield* activity.record(
+        userId,
+        fieldChanges('transaction', parsed.transactionId, existingTransaction, parsed)
       );
 
-      let updatedCount: number;
+      let updatedCount = 1;
 
-      if (isMultiMerchant) {
-        // Multi-merchant: only update this single transaction, no mapping
-        yield* db
-          .update(schema.transaction)
-          .set({ categoryId: parsed.categoryId })
-          .where(eq(schema.transaction.id, parsed.transactionId));
-        updatedCount = 1;
-      } else {
-        // Normal merchant: update all uncategorized with same merchant
-        const updateResult = yield* db
-          .update(schema.transaction)
-          .set({ categoryId: parsed.categoryId })
+      // Multi-merchant: only this single transaction, no mapping
+      if (!isMultiMerchant) {
+        const [existingMapping] = yield* db
+          .select({
+            id: schema.merchantMapping.id,
+            categoryId: schema.merchantMapping.categoryId,
+            isMultiMerchant: schema.merchantMapping.isMultiMerchant
+          })
+          .from(schema.merchantMapping)
           .where(
             and(
-              eq(schema.transaction.merchant, existingTransaction.merchant),
-              isNull(schema.transaction.categoryId)
+              eq(schema.merchantMapping.userId, userId),
+              eq(schema.merchantMapping.merchantPattern, existingTransaction.merchant),
+              schema.isPlainMerchantMapping
             )
           )
-          .returning({ id: schema.transaction.id });
-
-        updatedCount = updateResult.length;
+          .limit(1);
 
         // Create or update merchant mapping
-        yield* db
+        const [mapping] = yield* db
           .insert(schema.merchantMapping)
           .values({
+            userId,
             merchantPattern: existingTransaction.merchant,
             categoryId: parsed.categoryId,
             isMultiMerchant: false
           })
           .onConflictDoUpdate({
-            target: schema.merchantMapping.merchantPattern,
+            target: [schema.merchantMapping.userId, schema.merchantMapping.merchantPattern],
+            targetWhere: schema.isPlainMerchantMapping,
             set: { categoryId: parsed.categoryId, isMultiMerchant: false }
-          });
+          })
+          .returning({ id: schema.merchantMapping.id });
+
+        const mappingValues = { categoryId: parsed.categoryId, isMultiMerchant: false };
+        yield* activity.record(
+          userId,
+          existingMapping
+            ? fieldChanges('merchantMapping', mapping.id, existingMapping, mappingValues)
+            : [
+                {
+                  entity: 'merchantMapping',
+                  entityId: mapping.id,
+                  action: 'create',
+                  newValue: { merchantPattern: existingTransaction.merchant, ...mappingValues }
+                }
+              ]
+        );
+
+        // Update all other uncategorized with same merchant
+        const updateResult = yield* db
+          .update(schema.transaction)
+          .set(categorization(parsed.categoryId, 'bulk', mapping.id))
+          .where(
+            and(
+              eq(schema.transaction.userId, userId),
+              eq(schema.transaction.merchant, existingTransaction.merchant),
+              isNull(schema.transaction.categoryId)
+            )
+          )
+          .returning({ id: schema.transaction.id });
+
+        yield* activity.record(
+          userId,
+          updateResult.flatMap(tx =>
+            fieldChanges('transaction', tx.id, { categoryId: null }, parsed)
+          )
+        );
+
+        updatedCount += updateResult.length;
       }
 
       yield* Effect.annotateCurrentSpan({
@@ -137,6 +196,8 @@ export const categorizeTransactionAction = async (input: CategorizeTransactionIn
         'transactions.updated': updatedCount
       });
 
+      yield* checkBudgetAlerts(userId, session.user.email);
+
       return {
         transactionId: parsed.transactionId,
         categoryId: parsed.categoryId,
@@ -147,6 +208,7 @@ export const categorizeTransactionAction = async (input: CategorizeTransactionIn
         attributes: {
           'transaction.id': input.transactionId,
           'category.id': input.categoryId,
+          'category.source': input.source ?? 'manual',
           operation: 'transaction.categorize'
         }
       }),
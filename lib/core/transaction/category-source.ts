@@ -0,0 +1,28 @@
+/**
+ * How a transaction's category was set. Stored on the transaction together
+ * with the rule that set it (if any) and the time.
+ */
+export const CATEGORY_SOURCES = ['rule', 'ai', 'bulk', 'manual'] as const;
+export type CategorySource = (typeof CATEGORY_SOURCES)[number];
+
+export const CATEGORY_SOURCE_LABELS: Record<CategorySource, string> = {
+  rule: 'Merchant rule',
+  ai: 'AI suggestion',
+  bulk: 'Bulk categorization',
+  manual: 'Manual'
+};
+
+/**
+ * Columns to set when categorizing a transaction. Clearing the category
+ * clears its provenance too.
+ */
+export const categorization = (
+  categoryId: string | null,
+  source: CategorySource,
+  ruleId: string | null = null
+) => ({
+  categoryId,
+  categorySource: categoryId ? source : null,
+  categoryRuleId: categoryId ? ruleId : null,
+  categorizedAt: categoryId ? new Date() : null
+});
@@ -2,14 +2,19 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { getBankAccountById } from '@/lib/core/bank-account/queries';
+import { linkTransfers } from '@/lib/core/bank-account/transfers';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
 import { computeTransactionHash } from './hash';
+import { categorization } from './category-source';
 
 // Date string in YYYY-MM-DD format, parsed as UTC midnight to avoid timezone shifts
 const DateOnly = S.transform(S.String.pipe(S.pattern(/^\d{4}-\d{2}-\d{2}$/)), S.DateFromSelf, {
@@ -22,7 +27,10 @@ const CreateTransactionInput = S.Struct({
   merchant: S.String.pipe(S.minLength(1)),
   amount: S.Number,
   balance: S.NullOr(S.Number),
-  categoryId: S.NullOr(S.String.pipe(S.minLength(1)))
+  categoryId: S.NullOr(S.String.pipe(S.minLength(1))),
+  accountId: S.NullOr(S.String.pipe(S.minLength(1))),
+  // Blank notes are stored as null
+  note: S.NullOr(S.String.pipe(S.maxLength(2000)))
 });
 
 type CreateTransactionInput = S.Schema.Encoded<typeof CreateTransactionInput>;
@@ -44,8 +52,12 @@ export const createTransactionAction = async (input: CreateTransactionInput) =>
         )
       );
 
-      yield* getSession();
+      const note = parsed.note?.trim() || null;
+
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.merchant': parsed.merchant,
@@ -58,7 +70,7 @@ export const createTransactionAction = async (input: CreateTransactionInput) =>
         const [existingCategory] = yield* db
           .select({ id: schema.category.id })
           .from(schema.category)
-          .where(eq(schema.category.id, parsed.categoryId))
+          .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
           .limit(1);
 
         if (!existingCategory) {
@@ -70,6 +82,14 @@ export const createTransactionAction = async (input: CreateTransactionInput) =>
         }
       }
 
+      if (parsed.accountId !== null && !(yield* getBankAccountById(userId, parsed.accountId))) {
+        return yield* new NotFoundError({
+          message: 'Account not found',
+          entity: 'bankAccount',
+          id: parsed.accountId
+        });
+      }
+
       // Compute hash for duplicate detection
       const originalHash = computeTransactionHash(parsed.date, parsed.amount, parsed.merchant);
 
@@ -77,7 +97,12 @@ export const createTransactionAction = async (input: CreateTransactionInput) =>
       const [existing] = yield* db
         .select({ id: schema.transaction.id })
         .from(schema.transaction)
-        .where(eq(schema.transaction.originalHash, originalHash))
+        .where(
+          and(
+            eq(schema.transaction.userId, userId),
+            eq(schema.transaction.originalHash, originalHash)
+          )
+        )
         .limit(1);
 
       if (existing) {
@@ -91,16 +116,41 @@ export const createTransactionAction = async (input: CreateTransactionInput) =>
       const [created] = yield* db
         .insert(schema.transaction)
         .values({
+          userId,
           date: parsed.date,
           merchant: parsed.merchant,
           amount: String(parsed.amount),
           balance: parsed.balance !== null ? String(parsed.balance) : null,
-          categoryId: parsed.categoryId,
+          ...categorization(parsed.categoryId, 'manual'),
+          accountId: parsed.accountId,
+          note,
           uploadId: null,
           originalHash
         })
         .returning({ id: schema.transaction.id });
 
+      yield* activity.record(userId, [
+        {
+          entity: 'transaction',
+          entityId: created.id,
+          action: 'create',
+          newValue: {
+            date: parsed.date,
+            merchant: parsed.merchant,
+            amount: parsed.amount,
+            categoryId: parsed.categoryId,
+            accountId: parsed.accountId,
+            note
+          }
+        }
+      ]);
+
+      if (parsed.accountId !== null) {
+        yield* linkTransfers(userId, [created.id]);
+      }
+
+      yield* checkBudgetAlerts(userId, session.user.email);
+
       yield* Effect.annotateCurrentSpan({
         'transaction.id': created.id
       });
@@ -110,7 +160,8 @@ export const createTransactionAction = async (input: CreateTransactionInput) =>
         date: parsed.date,
         merchant: parsed.merchant,
         amount: parsed.amount,
-        categoryId: parsed.categoryId
+        categoryId: parsed.categoryId,
+        accountId: parsed.accountId
       };
     }).pipe(
       Effect.withSpan('action.transaction.create', {
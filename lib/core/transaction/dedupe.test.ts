@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@effect/vitest';
+import { dedupeRows, type DedupeRow } from './dedupe';
+
+const coffee = (balance: number | null = null, externalId: string | null = null): DedupeRow => ({
+  originalHash: 'coffee',
+  externalId,
+  balance
+});
+
+const decide = (rows: DedupeRow[], stored: DedupeRow[] = [], storedExternalIds: string[] = []) =>
+  dedupeRows(rows, stored, new Set(storedExternalIds)).map(d =>
+    d.ambiguous ? `${d.duplicate ? 'dup' : 'new'}?` : d.duplicate ? 'dup' : 'new'
+  );
+
+describe('dedupeRows', () => {
+  it('keeps identical rows within one file', () => {
+    expect(decide([coffee(), coffee()])).toEqual(['new', 'new']);
+  });
+
+  it('skips as many identical rows as are already stored', () => {
+    expect(decide([coffee(), coffee()], [coffee(), coffee()])).toEqual(['dup', 'dup']);
+    expect(decide([coffee()], [coffee(), coffee()])).toEqual(['dup']);
+  });
+
+  it('flags rows split into new and duplicate by count only', () => {
+    expect(decide([coffee(), coffee(), coffee()], [coffee()])).toEqual(['dup?', 'new?', 'new?']);
+  });
+
+  it('tells identical rows apart by running balance', () => {
+    expect(decide([coffee(955), coffee(910)], [coffee(910)])).toEqual(['new', 'dup']);
+    expect(decide([coffee(955)], [coffee(910)])).toEqual(['new']);
+  });
+
+  it('falls back to counting when the stored row has no balance', () => {
+    expect(decide([coffee(955), coffee(910)], [coffee()])).toEqual(['dup?', 'new?']);
+  });
+
+  it('matches bank ids first, and hashes only of rows without an id', () => {
+    expect(decide([coffee(null, 'A'), coffee(null, 'A')], [], ['B'])).toEqual(['new', 'dup']);
+    expect(decide([coffee(null, 'B')], [coffee(null, 'B')], ['B'])).toEqual(['dup']);
+    expect(decide([coffee(null, 'C')], [coffee(null, 'B')], ['B'])).toEqual(['new']);
+    expect(decide([coffee(null, 'C')], [coffee()])).toEqual(['dup']);
+  });
+
+  it('counts each hash separately', () => {
+    const tea: DedupeRow = { originalHash: 'tea', externalId: null, balance: null };
+    expect(decide([coffee(), tea, coffee()], [tea])).toEqual(['new', 'dup', 'new']);
+  });
+});
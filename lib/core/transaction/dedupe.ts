@@ -0,0 +1,113 @@
+/**
+ * Occurrence-aware duplicate detection for uploads. Pure functions without
+ * server-only imports, used by `planUpload` and its tests.
+ *
+ * The originalHash (date|amount|merchant) alone cannot tell two real 45 kr
+ * coffees on the same day apart, so each file row claims one stored row with
+ * its hash: N identical rows in a file against M already stored means
+ * max(N - M, 0) new rows. The running balance, when both sides have it,
+ * decides which stored row a file row is; rows without it are matched by count.
+ */
+
+export type DedupeRow = {
+  originalHash: string;
+  externalId: string | null;
+  balance: number | null;
+};
+
+/** An already imported transaction with the same originalHash as a file row */
+export type StoredRow = DedupeRow;
+
+export type DedupeDecision = {
+  duplicate: boolean;
+  /**
+   * Identical rows of the same day were split into new and already imported by
+   * count alone, so which (or whether) ones are real repeats is a guess
+   */
+  ambiguous: boolean;
+  /** Why the row is a duplicate, for the import report */
+  reason: string | null;
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Decide for each file row, in order, whether it is already imported.
+ *
+ * A row with a bank transaction id is a duplicate if that id is stored or
+ * repeated earlier in the file. Otherwise it claims an unclaimed stored row
+ * with its hash: one with the same balance, or else one without a balance.
+ * Rows with a bank id only claim stored rows without one (e.g. the same
+ * purchase imported earlier from a csv export). A row whose balance differs
+ * from every candidate is new.
+ */
+export function dedupeRows(
+  rows: ReadonlyArray<DedupeRow>,
+  stored: ReadonlyArray<StoredRow>,
+  storedExternalIds: ReadonlySet<string>
+): DedupeDecision[] {
+  const unclaimed = new Map<string, StoredRow[]>();
+  for (const row of stored) {
+    unclaimed.set(row.originalHash, [...(unclaimed.get(row.originalHash) ?? []), row]);
+  }
+
+  const seenExternalIds = new Set<string>();
+  // Hashes where counting, not a balance or bank id, made a row a duplicate
+  const countedHashes = new Set<string>();
+
+  const decisions = rows.map(row => {
+    if (row.externalId) {
+      if (storedExternalIds.has(row.externalId)) {
+        return { duplicate: true, counted: false, reason: 'Bank transaction id already imported' };
+      }
+      if (seenExternalIds.has(row.externalId)) {
+        return {
+          duplicate: true,
+          counted: false,
+          reason: 'Bank transaction id repeated earlier in the file'
+        };
+      }
+      seenExternalIds.add(row.externalId);
+    }
+
+    const pool = unclaimed.get(row.originalHash) ?? [];
+    const candidates = pool.filter(candidate => !row.externalId || !candidate.externalId);
+
+    const balance = row.balance === null ? null : toCents(row.balance);
+    const sameBalance =
+      balance === null
+        ? undefined
+        : candidates.find(
+            candidate => candidate.balance !== null && toCents(candidate.balance) === balance
+          );
+    const claimed =
+      sameBalance ?? candidates.find(candidate => balance === null || candidate.balance === null);
+
+    if (!claimed) return { duplicate: false, counted: false, reason: null };
+
+    pool.splice(pool.indexOf(claimed), 1);
+    const counted = claimed !== sameBalance;
+    if (counted) countedHashes.add(row.originalHash);
+    return {
+      duplicate: true,
+      counted,
+      reason: counted
+        ? 'Same date, amount and merchant already imported'
+        : 'Same date, amount, merchant and balance already imported'
+    };
+  });
+
+  // Ambiguous when a hash has both counted duplicates and new rows
+  const newHashes = new Set(
+    rows.filter((_, i) => !decisions[i].duplicate).map(row => row.originalHash)
+  );
+
+  return decisions.map((decision, i) => ({
+    duplicate: decision.duplicate,
+    reason: decision.reason,
+    ambiguous:
+      countedHashes.has(rows[i].originalHash) &&
+      newHashes.has(rows[i].originalHash) &&
+      (decision.counted || !decision.duplicate)
+  }));
+}
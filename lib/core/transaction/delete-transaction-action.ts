@@ -2,13 +2,16 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { getAttachmentKeys } from '@/lib/core/attachment/queries';
+import { removeAttachmentFiles } from '@/lib/core/attachment/files';
 
 const DeleteTransactionInput = S.Struct({
   id: S.String.pipe(S.minLength(1))
@@ -17,7 +20,7 @@ const DeleteTransactionInput = S.Struct({
 type DeleteTransactionInput = S.Schema.Type<typeof DeleteTransactionInput>;
 
 /**
- * Server action to delete a transaction.
+ * Server action to delete a transaction, with its attachments.
  */
 export const deleteTransactionAction = async (input: DeleteTransactionInput) => {
   return await NextEffect.runPromise(
@@ -32,8 +35,10 @@ export const deleteTransactionAction = async (input: DeleteTransactionInput) =>
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.id': parsed.id
@@ -43,7 +48,7 @@ export const deleteTransactionAction = async (input: DeleteTransactionInput) =>
       const [existing] = yield* db
         .select({ id: schema.transaction.id })
         .from(schema.transaction)
-        .where(eq(schema.transaction.id, parsed.id))
+        .where(and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId)))
         .limit(1);
 
       if (!existing) {
@@ -54,8 +59,32 @@ export const deleteTransactionAction = async (input: DeleteTransactionInput) =>
         });
       }
 
+      const attachmentKeys = yield* getAttachmentKeys(
+        and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId))
+      );
+
       // Delete the transaction
-      yield* db.delete(schema.transaction).where(eq(schema.transaction.id, parsed.id));
+      const [deleted] = yield* db
+        .delete(schema.transaction)
+        .where(and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId)))
+        .returning({
+          date: schema.transaction.date,
+          merchant: schema.transaction.merchant,
+          amount: schema.transaction.amount,
+          categoryId: schema.transaction.categoryId,
+          accountId: schema.transaction.accountId
+        });
+
+      yield* activity.record(userId, [
+        {
+          entity: 'transaction',
+          entityId: parsed.id,
+          action: 'delete',
+          oldValue: { ...deleted, amount: parseFloat(deleted.amount) }
+        }
+      ]);
+
+      yield* removeAttachmentFiles(attachmentKeys);
 
       return { id: parsed.id };
     }).pipe(
@@ -0,0 +1,214 @@
+import { Effect } from 'effect';
+import { eq, sql } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import type { ParsedRow, RejectedRow, RowSource } from '@/lib/core/import/bank-parser';
+import { buildImportReport } from '@/lib/core/import/report';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { categorization } from './category-source';
+import { batches } from './batches';
+import { planUpload } from './prepare-upload';
+
+/**
+ * Write step of the upload flow: plans the parsed rows, creates the upload
+ * record, writes the selected rows and stores the per-row report, in one
+ * database transaction so a failure midway leaves no half-imported upload
+ * behind.
+ *
+ * The user's uploads are serialized by an advisory lock taken before planning,
+ * so two uploads of overlapping files cannot both see a row as new.
+ *
+ * `confirmed` holds the row indexes the user selected in the preview, null for
+ * all new rows; ambiguous duplicates are only written when confirmed.
+ * Returns `nothingSelected` when confirmed rows exist but none of them are new,
+ * and `nothingNew` without creating an upload when no row is new or replaces a
+ * pending one.
+ *
+ * Preliminary rows are inserted as pending. A booked row replacing a pending
+ * transaction updates it in place, keeping its category, note and tags; the
+ * row keeps the upload that created it and records the booking upload, so
+ * rolling that back restores the pending version (see `rollbackUpload`). The
+ * changed fields are recorded in the audit trail.
+ */
+export const importUpload = (
+  userId: string,
+  upload: {
+    fileName: string;
+    bank: string;
+    accountId: string | null;
+    rows: ReadonlyArray<ParsedRow>;
+    sources: ReadonlyArray<RowSource>;
+    rejected: ReadonlyArray<RejectedRow>;
+    minDate: Date | null;
+    maxDate: Date | null;
+  },
+  confirmed: ReadonlySet<number> | null
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const activity = yield* Activity;
+
+    return yield* db.transaction(() =>
+      Effect.gen(function* () {
+        yield* db.execute(sql`select pg_advisory_xact_lock(hashtext(${userId}))`);
+
+        const planned = yield* planUpload(userId, upload.rows, upload.accountId).pipe(
+          Effect.provideService(Db, db)
+        );
+        const toInsert = planned.filter(row =>
+          confirmed === null
+            ? !row.duplicate
+            : confirmed.has(row.index) && (!row.duplicate || row.ambiguous)
+        );
+        const selected = new Set(toInsert.map(row => row.index));
+        const leftOutCount = planned.filter(
+          row => !row.duplicate && !selected.has(row.index)
+        ).length;
+
+        if (toInsert.length === 0 && confirmed !== null && leftOutCount > 0) {
+          return { status: 'nothingSelected' as const };
+        }
+        if (toInsert.length === 0) return { status: 'nothingNew' as const };
+
+        const reconciling = toInsert.flatMap(row =>
+          row.replaces ? [{ ...row, replaces: row.replaces }] : []
+        );
+        const inserting = toInsert.filter(row => row.replaces === null);
+
+        const [uploadRecord] = yield* db
+          .insert(schema.upload)
+          .values({
+            fileName: upload.fileName,
+            bank: upload.bank,
+            accountId: upload.accountId,
+            uploadedBy: userId,
+            transactionCount: inserting.length,
+            dateRangeStart: upload.minDate,
+            dateRangeEnd: upload.maxDate
+          })
+          .returning();
+
+        const insertedIds = new Map<number, string>();
+        for (const { index, row, originalHash, categoryId, ruleId, replaces } of reconciling) {
+          const category = replaces.categorized ? {} : categorization(categoryId, 'rule', ruleId);
+
+          // The booked version takes over the pending row, which keeps its
+          // hash to recognize the preliminary row in older files
+          yield* db
+            .update(schema.transaction)
+            .set({
+              date: row.date,
+              merchant: row.merchant,
+              balance: row.balance !== null ? String(row.balance) : null,
+              ...category,
+              originalHash,
+              pendingHash: replaces.originalHash,
+              externalId: row.externalId ?? null,
+              bookingDate: row.bookingDate ?? null,
+              status: 'booked',
+              bookedUploadId: uploadRecord.id,
+              pendingVersion: { date: replaces.date.toISOString(), merchant: replaces.merchant },
+              // Keep updatedAt: booking is not a user edit
+              updatedAt: sql`${schema.transaction.updatedAt}`
+            })
+            .where(eq(schema.transaction.id, replaces.id));
+          insertedIds.set(index, replaces.id);
+        }
+
+        // Uncategorized pending rows may get a category from the rules
+        yield* activity.record(
+          userId,
+          reconciling.flatMap(({ row, categoryId, replaces }) =>
+            fieldChanges(
+              'transaction',
+              replaces.id,
+              { date: replaces.date, merchant: replaces.merchant, categoryId: null },
+              {
+                date: row.date,
+                merchant: row.merchant,
+                ...(replaces.categorized ? {} : { categoryId })
+              }
+            )
+          )
+        );
+
+        // Ids are generated here so each returned row maps back to its file row
+        const values = inserting.map(({ row, originalHash, categoryId, ruleId }) => ({
+          id: createId(),
+          userId,
+          date: row.date,
+          merchant: row.merchant,
+          amount: String(row.amount),
+          balance: row.balance !== null ? String(row.balance) : null,
+          uploadId: uploadRecord.id,
+          accountId: upload.accountId,
+          ...categorization(categoryId, 'rule', ruleId),
+          originalHash,
+          externalId: row.externalId ?? null,
+          bookingDate: row.bookingDate ?? null,
+          status: row.pending ? ('pending' as const) : ('booked' as const)
+        }));
+
+        const indexById = new Map(values.map((value, i) => [value.id, inserting[i].index]));
+
+        let createdCount = 0;
+        for (const batch of batches(values)) {
+          // A bank transaction id imported since the plan (e.g. the same file
+          // uploaded twice at once) is skipped instead of failing the upload
+          const inserted = yield* db
+            .insert(schema.transaction)
+            .values(batch)
+            .onConflictDoNothing({
+              target: [
+                schema.transaction.userId,
+                schema.transaction.accountId,
+                schema.transaction.externalId
+              ]
+            })
+            .returning({ id: schema.transaction.id });
+          for (const { id } of inserted) {
+            const index = indexById.get(id);
+            if (index !== undefined) insertedIds.set(index, id);
+          }
+          createdCount += inserted.length;
+        }
+
+        // Every row was imported by another upload meanwhile
+        if (createdCount === 0 && reconciling.length === 0) {
+          yield* db.delete(schema.upload).where(eq(schema.upload.id, uploadRecord.id));
+          return { status: 'nothingNew' as const };
+        }
+
+        // Rows that hit the conflict are duplicates after all
+        const outcomes = planned.map(row =>
+          selected.has(row.index) && !insertedIds.has(row.index)
+            ? {
+                ...row,
+                duplicate: true,
+                ambiguous: false,
+                reason: 'Bank transaction id imported by another upload meanwhile'
+              }
+            : row
+        );
+
+        const report = buildImportReport(upload, outcomes, insertedIds);
+        yield* db
+          .update(schema.upload)
+          .set({ report, transactionCount: createdCount })
+          .where(eq(schema.upload.id, uploadRecord.id));
+
+        return {
+          status: 'imported' as const,
+          uploadId: uploadRecord.id,
+          planned,
+          toInsert,
+          insertedIds,
+          outcomes,
+          report,
+          reconciledCount: reconciling.length
+        };
+      })
+    );
+  }).pipe(Effect.withSpan('Transaction.importUpload'));
@@ -2,13 +2,15 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { mappingSnapshot } from '@/lib/core/activity/activity';
 
 const MarkMultiMerchantInput = S.Struct({
   transactionId: S.String.pipe(S.minLength(1))
@@ -41,8 +43,10 @@ export const markMultiMerchantAction = async (input: MarkMultiMerchantInput) =>
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.id': parsed.transactionId
@@ -55,7 +59,12 @@ export const markMultiMerchantAction = async (input: MarkMultiMerchantInput) =>
           merchant: schema.transaction.merchant
         })
         .from(schema.transaction)
-        .where(eq(schema.transaction.id, parsed.transactionId))
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.transactionId),
+            eq(schema.transaction.userId, userId)
+          )
+        )
         .limit(1);
 
       if (!existingTransaction) {
@@ -68,17 +77,43 @@ export const markMultiMerchantAction = async (input: MarkMultiMerchantInput) =>
 
       const merchant = existingTransaction.merchant;
 
-      // Delete any existing mapping for this merchant
-      yield* db
+      // Delete any existing plain mapping for this merchant
+      const deleted = yield* db
         .delete(schema.merchantMapping)
-        .where(eq(schema.merchantMapping.merchantPattern, merchant));
+        .where(
+          and(
+            eq(schema.merchantMapping.merchantPattern, merchant),
+            eq(schema.merchantMapping.userId, userId),
+            schema.isPlainMerchantMapping
+          )
+        )
+        .returning();
 
       // Create multi-merchant mapping (no categoryId)
-      yield* db.insert(schema.merchantMapping).values({
-        merchantPattern: merchant,
-        categoryId: null,
-        isMultiMerchant: true
-      });
+      const [created] = yield* db
+        .insert(schema.merchantMapping)
+        .values({
+          userId,
+          merchantPattern: merchant,
+          categoryId: null,
+          isMultiMerchant: true
+        })
+        .returning();
+
+      yield* activity.record(userId, [
+        ...deleted.map(mapping => ({
+          entity: 'merchantMapping' as const,
+          entityId: mapping.id,
+          action: 'delete' as const,
+          oldValue: mappingSnapshot(mapping)
+        })),
+        {
+          entity: 'merchantMapping',
+          entityId: created.id,
+          action: 'create',
+          newValue: mappingSnapshot(created)
+        }
+      ]);
 
       yield* Effect.annotateCurrentSpan({
         'merchant.pattern': merchant,
@@ -0,0 +1,295 @@
+import { describe, expect, it } from '@effect/vitest';
+import { Effect } from 'effect';
+import type { ImportProfile } from '@/lib/services/db/schema';
+import { headerSignature, type CsvMapping } from '@/lib/core/import/csv-mapping';
+import { parseUpload } from './prepare-upload';
+
+/**
+ * Tests for bank format detection and row mapping of uploaded sheets.
+ * Fixtures are trimmed copies of real export headers with made-up rows.
+ */
+
+const date = new Date('2026-01-15T00:00:00.000Z');
+
+const csv = (lines: ReadonlyArray<string>) => Buffer.from(lines.join('\r\n'), 'utf-8');
+
+/**
+ * Parse a file that should be recognized, with the user's saved profiles or an
+ * explicit mapping.
+ */
+const parseFile = (
+  fileName: string,
+  buffer: Buffer,
+  options: { profiles?: ReadonlyArray<ImportProfile>; mapping?: CsvMapping } = {}
+) =>
+  parseUpload(
+    { fileName, buffer, mapping: options.mapping ?? null, profileName: null },
+    options.profiles ?? []
+  ).pipe(
+    Effect.filterOrDieMessage(
+      result => result.status === 'parsed',
+      `Expected ${fileName} to be recognized`
+    )
+  );
+
+describe('parseUpload', () => {
+  it.effect('detects Swedbank with preamble and Windows-1252 encoding', () =>
+    Effect.gen(function* () {
+      const text = [
+        '* Transaktioner Period 2026-01-01 - 2026-01-31 Skapad 2026-02-01 10:00 CET',
+        'Radnummer,Clearingnummer,Kontonummer,Produkt,Valuta,Bokföringsdag,Transaktionsdag,Valutadag,Referens,Beskrivning,Belopp,Bokfört saldo',
+        '1,8327-9,123456789,Privatkonto,SEK,2026-01-05,2026-01-04,2026-01-05,ICA NARA,ICA NARA GÖTEBORG,-245.50,10754.50',
+        '2,8327-9,123456789,Privatkonto,SEK,2026-01-25,2026-01-25,2026-01-25,LÖN,Lön,25000.00,35754.50'
+      ].join('\r\n');
+      const buffer = Buffer.from(text, 'latin1');
+
+      const result = yield* parseFile('swedbank.csv', buffer);
+
+      expect(result.bank.id).toBe('swedbank');
+      expect(result.rows).toEqual([
+        {
+          date: new Date('2026-01-04T00:00:00.000Z'),
+          merchant: 'ICA NARA GÖTEBORG',
+          amount: -245.5,
+          balance: 10754.5
+        },
+        {
+          date: new Date('2026-01-25T00:00:00.000Z'),
+          merchant: 'Lön',
+          amount: 25000,
+          balance: 35754.5
+        }
+      ]);
+      expect(result.minDate).toEqual(new Date('2026-01-04T00:00:00.000Z'));
+      expect(result.maxDate).toEqual(new Date('2026-01-25T00:00:00.000Z'));
+    })
+  );
+
+  it.effect('detects SEB', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile(
+        'seb.csv',
+        csv([
+          'Bokföringsdatum;Valutadatum;Verifikationsnummer;Text;Belopp;Saldo',
+          '2026-01-10;2026-01-10;5484381424;WILLYS HEMMA;-312,40;8 687,60'
+        ])
+      );
+
+      expect(result.bank.id).toBe('seb');
+      expect(result.rows[0]).toMatchObject({
+        merchant: 'WILLYS HEMMA',
+        amount: -312.4,
+        balance: 8687.6
+      });
+    })
+  );
+
+  it.effect('detects Nordea and skips reserved rows', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile(
+        'nordea.csv',
+        csv([
+          '\uFEFFBokföringsdag;Belopp;Avsändare;Mottagare;Namn;Rubrik;Saldo;Valuta',
+          'Reserverat;-59,00;1234 56 78901;;;Spotify;;SEK',
+          '2026/01/12;-1 200,00;1234 56 78901;;;Kortköp 260111 COOP;4 800,00;SEK'
+        ])
+      );
+
+      expect(result.bank.id).toBe('nordea');
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0]).toMatchObject({
+        merchant: 'Kortköp 260111 COOP',
+        amount: -1200,
+        balance: 4800
+      });
+      expect(result.sources[0].line).toBe(3);
+      expect(result.rejected).toEqual([
+        {
+          line: 2,
+          raw: {
+            Bokföringsdag: 'Reserverat',
+            Belopp: '-59,00',
+            Avsändare: '1234 56 78901',
+            Rubrik: 'Spotify',
+            Valuta: 'SEK'
+          },
+          outcome: 'preliminary',
+          reason: 'Reserved, not yet booked'
+        }
+      ]);
+    })
+  );
+
+  it.effect('detects ICA Banken', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile(
+        'ica.csv',
+        csv([
+          'Datum;Text;Typ;Budgetgrupp;Belopp;Saldo',
+          '2026-01-15;ICA Kvantum;Korttransaktion;Mat;-523,10 kr;2 476,90 kr'
+        ])
+      );
+
+      expect(result.bank.id).toBe('ica-banken');
+      expect(result.rows[0]).toMatchObject({
+        merchant: 'ICA Kvantum',
+        amount: -523.1,
+        balance: 2476.9
+      });
+    })
+  );
+
+  it.effect('detects Revolut, subtracts fees and skips pending rows', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile(
+        'revolut.csv',
+        csv([
+          'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance',
+          'CARD_PAYMENT,Current,2026-01-03 12:01:10,2026-01-04 09:12:44,Uber,-120.00,1.50,SEK,COMPLETED,878.50',
+          'CARD_PAYMENT,Current,2026-01-05 18:00:00,,Netflix,-129.00,0.00,SEK,PENDING,'
+        ])
+      );
+
+      expect(result.bank.id).toBe('revolut');
+      expect(result.rows).toEqual([
+        {
+          date: new Date('2026-01-04T00:00:00.000Z'),
+          merchant: 'Uber',
+          amount: -121.5,
+          balance: 878.5
+        }
+      ]);
+    })
+  );
+
+  it.effect('detects American Express and flips the sign', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile(
+        'amex.csv',
+        csv([
+          'Datum,Beskrivning,Kortmedlem,Konto #,Belopp',
+          '18/01/2026,"SAS, STOCKHOLM",ANNA ANDERSSON,-12345,"1899,00"',
+          '20/01/2026,BETALNING MOTTAGEN,ANNA ANDERSSON,-12345,"-1899,00"'
+        ])
+      );
+
+      expect(result.bank.id).toBe('amex');
+      expect(result.rows.map(r => [r.merchant, r.amount])).toEqual([
+        ['SAS, STOCKHOLM', -1899],
+        ['BETALNING MOTTAGEN', 1899]
+      ]);
+      expect(result.rows[0].date).toEqual(new Date('2026-01-18T00:00:00.000Z'));
+      expect(result.rows[0].balance).toBeNull();
+    })
+  );
+
+  it.effect('returns a column preview for unrecognized csv files', () =>
+    Effect.gen(function* () {
+      const result = yield* parseUpload(
+        {
+          fileName: 'unknown.csv',
+          buffer: csv(['Foo;Bar;Baz', '1;2;3']),
+          mapping: null,
+          profileName: null
+        },
+        []
+      );
+
+      expect(result).toEqual({
+        status: 'needsMapping',
+        fileName: 'unknown.csv',
+        preview: [
+          ['Foo', 'Bar', 'Baz'],
+          ['1', '2', '3']
+        ]
+      });
+    })
+  );
+});
+
+describe('parseUpload with csv mapping profiles', () => {
+  const eurocard: CsvMapping = {
+    headerRow: 0,
+    dateColumn: 0,
+    merchantColumn: 2,
+    amountColumn: 3,
+    balanceColumn: null,
+    decimalSeparator: '.',
+    dateFormat: 'MM/DD/YYYY',
+    signConvention: 'expensesPositive'
+  };
+  const file = csv([
+    'Posted,Ref,Specification,Amount SEK',
+    '01/31/2026,A1,"PRESSBYRAN, CENTRAL","1,045.50"',
+    '02/01/2026,A2,Payment received,-5000.00',
+    '02/30/2026,A3,Invalid date,10.00'
+  ]);
+
+  const savedProfile = (headers: ReadonlyArray<string>): ImportProfile => ({
+    ...eurocard,
+    id: 'profile',
+    userId: 'user',
+    name: 'Eurocard',
+    headerSignature: headerSignature(headers),
+    createdAt: date,
+    updatedAt: date
+  });
+
+  it.effect('detects a saved profile by its header signature', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile('eurocard.csv', file, {
+        profiles: [savedProfile(['Posted', 'Ref', 'Specification', 'Amount SEK'])]
+      });
+
+      expect(result.bank.name).toBe('Eurocard');
+      expect(result.rows).toEqual([
+        {
+          date: new Date('2026-01-31T00:00:00.000Z'),
+          merchant: 'PRESSBYRAN, CENTRAL',
+          amount: -1045.5,
+          balance: null
+        },
+        {
+          date: new Date('2026-02-01T00:00:00.000Z'),
+          merchant: 'Payment received',
+          amount: 5000,
+          balance: null
+        }
+      ]);
+    })
+  );
+
+  it.effect('does not match a profile whose headers differ', () =>
+    Effect.gen(function* () {
+      const result = yield* parseUpload(
+        { fileName: 'eurocard.csv', buffer: file, mapping: null, profileName: null },
+        [savedProfile(['Date', 'Ref', 'Text', 'Amount'])]
+      );
+
+      expect(result.status).toBe('needsMapping');
+    })
+  );
+
+  it.effect('applies an explicit mapping to files without a header row', () =>
+    Effect.gen(function* () {
+      const result = yield* parseFile(
+        'export.csv',
+        csv(['2026-03-01;x;Hyra;-9 500,00', '2026-03-02;y;Kaffe;-45,00']),
+        {
+          mapping: {
+            ...eurocard,
+            headerRow: null,
+            dateFormat: 'YYYY-MM-DD',
+            decimalSeparator: ',',
+            signConvention: 'expensesNegative'
+          }
+        }
+      );
+
+      expect(result.rows.map(r => [r.merchant, r.amount])).toEqual([
+        ['Hyra', -9500],
+        ['Kaffe', -45]
+      ]);
+    })
+  );
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@effect/vitest';
+import { matchPendingRows, merchantSimilarity } from './pending';
+
+const pending = (id: string, day: number, merchant: string, amount = -120) => ({
+  id,
+  date: new Date(2025, 0, day),
+  merchant,
+  amount
+});
+
+const booked = (index: number, day: number, merchant: string, amount = -120) => ({
+  index,
+  date: new Date(2025, 0, day),
+  merchant,
+  amount
+});
+
+describe('merchantSimilarity', () => {
+  it('scores the shorter text by words found in the longer one', () => {
+    expect(merchantSimilarity('ICA NARA', 'ICA NARA GOTEBORG')).toBe(1);
+    expect(merchantSimilarity('K*ICA NARA 1234', 'ICA Nära Göteborg')).toBe(0.5);
+    expect(merchantSimilarity('SPOTIFY', 'Netflix.com')).toBe(0);
+  });
+});
+
+describe('matchPendingRows', () => {
+  it('matches a booked row whose text and date changed', () => {
+    const matches = matchPendingRows(
+      [booked(0, 12, 'ICA NARA GOTEBORG')],
+      [pending('p1', 10, 'Prel ICA NARA')]
+    );
+    expect([...matches.matched]).toEqual([[0, 'p1']]);
+  });
+
+  it('needs the same amount within the match window', () => {
+    expect(
+      matchPendingRows([booked(0, 12, 'ICA NARA', -121)], [pending('p1', 10, 'ICA NARA')]).matched
+        .size
+    ).toBe(0);
+    expect(
+      matchPendingRows([booked(0, 20, 'ICA NARA')], [pending('p1', 10, 'ICA NARA')]).matched.size
+    ).toBe(0);
+  });
+
+  it('picks the most similar merchant, and each pending row once', () => {
+    const matches = matchPendingRows(
+      [booked(0, 11, 'COOP KONSUM'), booked(1, 11, 'ICA NARA'), booked(2, 11, 'ICA NARA')],
+      [pending('ica', 10, 'ICA'), pending('coop', 10, 'COOP')]
+    );
+    expect([...matches.matched]).toEqual([
+      [0, 'coop'],
+      [1, 'ica']
+    ]);
+  });
+
+  it('reports a lone candidate with a different merchant as uncertain instead', () => {
+    const matches = matchPendingRows([booked(0, 11, 'SL')], [pending('ica', 10, 'ICA')]);
+    expect(matches.matched.size).toBe(0);
+    expect([...matches.uncertain]).toEqual([[0, 'ica']]);
+  });
+});
@@ -0,0 +1,132 @@
+import { Effect } from 'effect';
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+
+/** A booked row may be dated this many days from its pending row */
+export const PENDING_MATCH_DAYS = 7;
+
+/**
+ * Share of merchant words a booked row must have in common with a pending
+ * row to replace it, see `merchantSimilarity`
+ */
+export const MIN_PENDING_SIMILARITY = 0.5;
+
+/** Pending rows older than this that were never booked expire */
+export const PENDING_EXPIRY_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PendingCandidate = {
+  id: string;
+  date: Date;
+  merchant: string;
+  amount: number;
+};
+
+// Words of a merchant text, ignoring case, digits (card numbers, dates) and punctuation
+const merchantWords = (merchant: string) =>
+  new Set(
+    merchant
+      .toUpperCase()
+      .split(/[^A-ZÅÄÖÉÜ]+/)
+      .filter(word => word.length >= 2)
+  );
+
+/**
+ * How alike two merchant texts are, from 0 to 1: the share of the shorter
+ * text's words found in the other. The booked text of a card purchase often
+ * adds a city or reference ("ICA NARA" becomes "ICA NARA GOTEBORG").
+ */
+export function merchantSimilarity(a: string, b: string): number {
+  const wordsA = merchantWords(a);
+  const wordsB = merchantWords(b);
+  const shorter = wordsA.size <= wordsB.size ? wordsA : wordsB;
+  const longer = shorter === wordsA ? wordsB : wordsA;
+  if (shorter.size === 0) return 0;
+  return [...shorter].filter(word => longer.has(word)).length / shorter.size;
+}
+
+/**
+ * Match booked rows to the pending transactions they replace.
+ *
+ * A pending transaction matches a booked row with the same amount dated within
+ * PENDING_MATCH_DAYS and a merchant at least MIN_PENDING_SIMILARITY alike; the
+ * most similar merchant wins, then the closest date. Each pending transaction
+ * replaces at most one row.
+ *
+ * A row whose best candidate is too unlike is not matched but `uncertain`:
+ * it is imported as new and reported, and the pending row left to be booked
+ * later or to expire. Both maps hold pending id by booked row index.
+ */
+export function matchPendingRows(
+  rows: ReadonlyArray<{ index: number; date: Date; merchant: string; amount: number }>,
+  pending: ReadonlyArray<PendingCandidate>
+): { matched: Map<number, string>; uncertain: Map<number, string> } {
+  const matched = new Map<number, string>();
+  const uncertain = new Map<number, string>();
+  const claimed = new Set<string>();
+
+  // Candidates need the same amount, so only rows of that amount are compared
+  const pendingByAmount = new Map<number, PendingCandidate[]>();
+  for (const candidate of pending) {
+    const cents = Math.round(candidate.amount * 100);
+    const sameAmount = pendingByAmount.get(cents) ?? [];
+    sameAmount.push(candidate);
+    pendingByAmount.set(cents, sameAmount);
+  }
+
+  for (const row of rows) {
+    const candidates = (pendingByAmount.get(Math.round(row.amount * 100)) ?? [])
+      .filter(
+        candidate =>
+          !claimed.has(candidate.id) &&
+          Math.abs(candidate.date.getTime() - row.date.getTime()) <= PENDING_MATCH_DAYS * DAY_MS
+      )
+      .map(candidate => ({
+        candidate,
+        similarity: merchantSimilarity(candidate.merchant, row.merchant),
+        distance: Math.abs(candidate.date.getTime() - row.date.getTime())
+      }))
+      .sort((a, b) => b.similarity - a.similarity || a.distance - b.distance);
+
+    const best = candidates[0];
+    if (!best) continue;
+    if (best.similarity < MIN_PENDING_SIMILARITY) {
+      uncertain.set(row.index, best.candidate.id);
+      continue;
+    }
+
+    matched.set(row.index, best.candidate.id);
+    claimed.add(best.candidate.id);
+  }
+
+  return { matched, uncertain };
+}
+
+/**
+ * Expire the user's pending transactions dated more than PENDING_EXPIRY_DAYS
+ * ago: the bank never booked them (a cancelled reservation, or a booked row
+ * too different to match). Expired rows stay in the list but leave totals.
+ *
+ * Returns the number of rows expired.
+ */
+export const expirePendingTransactions = (userId: string, now: Date = new Date()) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const expired = yield* db
+      .update(schema.transaction)
+      // Keep updatedAt: expiry is not a user edit
+      .set({ status: 'expired', updatedAt: sql`${schema.transaction.updatedAt}` })
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          eq(schema.transaction.status, 'pending'),
+          lt(schema.transaction.date, new Date(now.getTime() - PENDING_EXPIRY_DAYS * DAY_MS))
+        )
+      )
+      .returning({ id: schema.transaction.id });
+
+    return expired.length;
+  }).pipe(Effect.withSpan('Transaction.expirePending'));
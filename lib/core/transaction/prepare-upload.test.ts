@@ -0,0 +1,158 @@
+import { describe, expect, layer } from '@effect/vitest';
+import { Effect } from 'effect';
+import { eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { planUpload } from './prepare-upload';
+import { computeTransactionHash } from './hash';
+
+/**
+ * Integration tests for the upload preview plan (duplicates and categories).
+ * Requires DATABASE_URL (loaded from .env.local) pointing at a migrated database.
+ */
+
+const date = new Date('2026-01-15T00:00:00.000Z');
+
+/**
+ * A user with an ICA merchant mapping, one csv-imported transaction and one
+ * statement transaction with a bank id. Removed (with its rows) when the scope closes.
+ */
+const setupUser = Effect.gen(function* () {
+  const db = yield* Db;
+
+  const [user] = yield* Effect.acquireRelease(
+    db
+      .insert(schema.user)
+      .values({ name: 'Uploader', email: `uploader-${createId()}@test.local` })
+      .returning(),
+    ([user]) => db.delete(schema.user).where(eq(schema.user.id, user.id)).pipe(Effect.orDie)
+  );
+
+  const [category] = yield* db
+    .insert(schema.category)
+    .values({ userId: user.id, name: 'Mat' })
+    .returning();
+
+  yield* db
+    .insert(schema.merchantMapping)
+    .values({ userId: user.id, merchantPattern: 'ICA', categoryId: category.id });
+
+  yield* db.insert(schema.transaction).values([
+    {
+      userId: user.id,
+      date,
+      merchant: 'PRESSBYRAN',
+      amount: '-45',
+      originalHash: computeTransactionHash(date, -45, 'PRESSBYRAN')
+    },
+    {
+      userId: user.id,
+      date,
+      merchant: 'SL',
+      amount: '-39',
+      originalHash: computeTransactionHash(date, -39, 'SL'),
+      externalId: 'REF-1'
+    }
+  ]);
+
+  return { user, category };
+});
+
+describe.skipIf(!process.env.DATABASE_URL)('planUpload', () => {
+  layer(Db.Live)(it => {
+    it.scoped('marks duplicates and assigns categories without writing', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const { user, category } = yield* setupUser;
+
+        const planned = yield* planUpload(
+          user.id,
+          [
+            { date, merchant: 'PRESSBYRAN', amount: -45, balance: null },
+            { date, merchant: 'ICA NARA', amount: -120, balance: null },
+            { date, merchant: 'ICA NARA', amount: -120, balance: null },
+            { date, merchant: 'SL', amount: -39, balance: null, externalId: 'REF-1' },
+            { date, merchant: 'SL', amount: -39, balance: null, externalId: 'REF-2' }
+          ],
+          null
+        );
+
+        expect(planned.map(p => [p.index, p.duplicate, p.categoryId])).toEqual([
+          [0, true, null],
+          [1, false, category.id],
+          // Two identical purchases in the file are both new
+          [2, false, category.id],
+          [3, true, null],
+          // Same purchase twice on one day: distinct bank ids are both kept
+          [4, false, null]
+        ]);
+
+        const stored = yield* db
+          .select({ id: schema.transaction.id })
+          .from(schema.transaction)
+          .where(eq(schema.transaction.userId, user.id));
+        expect(stored).toHaveLength(2);
+      })
+    );
+
+    it.scoped("matches pending rows on the upload's account only", () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const { user } = yield* setupUser;
+
+        const [account] = yield* db
+          .insert(schema.bankAccount)
+          .values({ userId: user.id, name: 'Lönekonto' })
+          .returning();
+        const [pending] = yield* db
+          .insert(schema.transaction)
+          .values({
+            userId: user.id,
+            accountId: account.id,
+            date,
+            merchant: 'WILLYS HEMMA',
+            amount: '-80',
+            status: 'pending',
+            originalHash: computeTransactionHash(date, -80, 'WILLYS HEMMA')
+          })
+          .returning();
+
+        const booked = [
+          {
+            date: new Date('2026-01-17T00:00:00.000Z'),
+            merchant: 'WILLYS HEMMA',
+            amount: -80,
+            balance: null
+          }
+        ];
+
+        const [elsewhere] = yield* planUpload(user.id, booked, null);
+        expect(elsewhere.replaces).toBeNull();
+
+        const [onAccount] = yield* planUpload(user.id, booked, account.id);
+        expect(onAccount.replaces?.id).toBe(pending.id);
+      })
+    );
+
+    it.scoped('treats bank transaction ids as unique per account', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const { user } = yield* setupUser;
+
+        const [account] = yield* db
+          .insert(schema.bankAccount)
+          .values({ userId: user.id, name: 'Sparkonto' })
+          .returning();
+
+        // REF-1 was imported without an account
+        const row = { date, merchant: 'SL', amount: -39, balance: null, externalId: 'REF-1' };
+        const [unassigned] = yield* planUpload(user.id, [row], null);
+        const [onAccount] = yield* planUpload(user.id, [row], account.id);
+
+        expect(unassigned.duplicate).toBe(true);
+        expect(onAccount.duplicate).toBe(false);
+      })
+    );
+  });
+});
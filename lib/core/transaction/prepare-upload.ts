@@ -0,0 +1,369 @@
+import { Effect, Schema as S } from 'effect';
+import { and, eq, inArray, isNull, or } from 'drizzle-orm';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { getBankAccountById } from '@/lib/core/bank-account/queries';
+import type { ParsedRow } from '@/lib/core/import/bank-parser';
+import {
+  csvMappingParser,
+  CsvMapping,
+  previewSheet,
+  profileMapping
+} from '@/lib/core/import/csv-mapping';
+import {
+  BANK_PARSERS,
+  detectBankParser,
+  extractRows,
+  isStatementFile,
+  parseStatementFile,
+  unrecognizedFormatError
+} from '@/lib/core/import/registry';
+import { isSupportedFile, readSheet } from '@/lib/core/import/sheet';
+import { compileRules, findMatchingRule, ruleCategory } from '@/lib/core/merchant/match';
+import { getMerchantRules, type MerchantRuleWithCategory } from '@/lib/core/merchant/queries';
+import { batches } from './batches';
+import { computeTransactionHash } from './hash';
+import { dedupeRows } from './dedupe';
+import { matchPendingRows } from './pending';
+
+/**
+ * Shared steps of the two-step upload flow: `previewUploadAction` parses and
+ * plans an upload without writing anything, `uploadTransactionsAction` re-runs
+ * the same steps on the same file and inserts the rows the user confirmed.
+ *
+ * Rows are identified by their index in the parsed file, which is stable as
+ * long as the same file and mapping are submitted.
+ */
+
+/**
+ * Read the file and optional csv mapping (`mapping`, `profileName`) from upload FormData.
+ */
+export const readUploadForm = (formData: FormData) =>
+  Effect.gen(function* () {
+    const file = formData.get('file');
+    if (!file || !(file instanceof File)) {
+      return yield* new ValidationError({
+        message: 'No file provided',
+        field: 'file'
+      });
+    }
+
+    if (!isSupportedFile(file.name)) {
+      return yield* new ValidationError({
+        message: 'Please select a bank export (.xlsx, .csv, .xml, .ofx or .qfx)',
+        field: 'file'
+      });
+    }
+
+    // Column mapping from the csv wizard, if the file was not recognized before
+    const mappingField = formData.get('mapping');
+    const mapping =
+      typeof mappingField === 'string'
+        ? yield* S.decodeUnknown(S.parseJson(CsvMapping))(mappingField).pipe(
+            Effect.mapError(
+              () => new ValidationError({ message: 'Invalid column mapping', field: 'mapping' })
+            )
+          )
+        : null;
+    const profileNameField = formData.get('profileName');
+    const profileName =
+      typeof profileNameField === 'string' && profileNameField ? profileNameField : null;
+
+    const arrayBuffer = yield* Effect.tryPromise({
+      try: () => file.arrayBuffer(),
+      catch: () => new ValidationError({ message: 'Failed to read file', field: 'file' })
+    });
+
+    return { file, buffer: Buffer.from(arrayBuffer), mapping, profileName };
+  });
+
+/**
+ * Read the account the upload belongs to from upload FormData. Undefined when
+ * the form has no `accountId`, null when it is empty ("No account").
+ */
+export const readUploadAccount = (userId: string, formData: FormData) =>
+  Effect.gen(function* () {
+    const accountField = formData.get('accountId');
+    if (typeof accountField !== 'string') return undefined;
+    if (!accountField) return null;
+
+    const account = yield* getBankAccountById(userId, accountField);
+    if (!account) {
+      return yield* new NotFoundError({
+        message: 'Account not found',
+        entity: 'bankAccount',
+        id: accountField
+      });
+    }
+    return account;
+  });
+
+/**
+ * Detect the format and extract rows. Statement formats are detected by content;
+ * sheets by an explicit mapping, or built-in banks then the user's saved
+ * `profiles`. Unrecognized csv files return a preview for the column-mapping
+ * wizard.
+ */
+export const parseUpload = (
+  upload: {
+    fileName: string;
+    buffer: Buffer<ArrayBufferLike>;
+    mapping: CsvMapping | null;
+    profileName: string | null;
+  },
+  profiles: ReadonlyArray<schema.ImportProfile>
+) =>
+  Effect.gen(function* () {
+    if (isStatementFile(upload.fileName)) {
+      return {
+        status: 'parsed' as const,
+        ...(yield* parseStatementFile(upload.fileName, upload.buffer))
+      };
+    }
+
+    const sheet = yield* readSheet(upload.fileName, upload.buffer);
+
+    const parsers = upload.mapping
+      ? [
+          csvMappingParser(upload.mapping, {
+            id: 'csv',
+            name: upload.profileName ?? 'CSV',
+            signature: null
+          })
+        ]
+      : [
+          ...BANK_PARSERS,
+          ...profiles
+            .filter(profile => profile.headerSignature !== null)
+            .map(profile =>
+              csvMappingParser(profileMapping(profile), {
+                id: 'csv',
+                name: profile.name,
+                signature: profile.headerSignature
+              })
+            )
+        ];
+
+    const detected = detectBankParser(sheet, parsers);
+    if (!detected) {
+      if (upload.fileName.toLowerCase().endsWith('.xlsx')) {
+        return yield* unrecognizedFormatError();
+      }
+      return {
+        status: 'needsMapping' as const,
+        fileName: upload.fileName,
+        preview: previewSheet(sheet)
+      };
+    }
+
+    const result = extractRows(sheet, detected);
+
+    yield* Effect.annotateCurrentSpan({
+      'import.bank': result.bank.id,
+      'import.rows': result.rows.length,
+      'import.rejected': result.rejected.length
+    });
+
+    if (result.rows.length === 0) {
+      return yield* new ValidationError({
+        message: `No valid transactions found in ${result.bank.name} file`,
+        field: 'file'
+      });
+    }
+
+    return { status: 'parsed' as const, ...result };
+  }).pipe(Effect.withSpan('Transaction.parseUpload'));
+
+export type PlannedRow = {
+  /** Position in the parsed file, used to confirm rows */
+  index: number;
+  row: ParsedRow;
+  originalHash: string;
+  /** Already imported, or the same bank transaction id earlier in the file */
+  duplicate: boolean;
+  /**
+   * Identical to other rows of the same day and told apart from the imported
+   * ones by count only; the user decides, see `dedupeRows`
+   */
+  ambiguous: boolean;
+  /** Why the row is a duplicate, null for new rows */
+  reason: string | null;
+  /** Category from merchant rules, null for unmatched and multi-merchants */
+  categoryId: string | null;
+  /** Rule that assigned categoryId */
+  ruleId: string | null;
+  /** Pending transaction this booked row replaces, see `matchPendingRows` */
+  replaces: {
+    id: string;
+    date: Date;
+    merchant: string;
+    originalHash: string;
+    categorized: boolean;
+  } | null;
+  /**
+   * Pending transaction with the same amount and date window but too unlike a
+   * merchant to replace; the row is imported as new and the match reported
+   */
+  possiblyReplaces: { date: Date; merchant: string } | null;
+};
+
+/**
+ * Decide for each parsed row whether it is a duplicate and which category it
+ * would get. Nothing is written.
+ *
+ * Identical rows (same date, amount and merchant) are counted rather than
+ * collapsed: each row is matched against one stored transaction, by its bank
+ * transaction id on the upload's account, then its running balance, then by
+ * count. See `dedupeRows`.
+ * Preliminary rows also match the pending hash of rows booked since.
+ *
+ * New booked rows are matched to the pending transactions they replace, on the
+ * upload's account (`accountId`, null for rows without one); uncertain matches
+ * are only reported, see `matchPendingRows`.
+ *
+ * Stored rows are looked up in batches rather than per row, and rules are
+ * evaluated once per distinct merchant and amount, so multi-year exports stay
+ * fast.
+ */
+export const planUpload = (
+  userId: string,
+  rows: ReadonlyArray<ParsedRow>,
+  accountId: string | null
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rules = compileRules(yield* getMerchantRules(userId));
+
+    const hashes = rows.map(row => computeTransactionHash(row.date, row.amount, row.merchant));
+    const hashSet = new Set(hashes);
+    const onAccount =
+      accountId === null
+        ? isNull(schema.transaction.accountId)
+        : eq(schema.transaction.accountId, accountId);
+
+    const externalIds = rows.flatMap(row => (row.externalId ? [row.externalId] : []));
+
+    const storedBatches = yield* Effect.forEach(batches([...hashSet]), batch =>
+      db
+        .select({
+          id: schema.transaction.id,
+          originalHash: schema.transaction.originalHash,
+          pendingHash: schema.transaction.pendingHash,
+          externalId: schema.transaction.externalId,
+          balance: schema.transaction.balance
+        })
+        .from(schema.transaction)
+        .where(
+          and(
+            eq(schema.transaction.userId, userId),
+            or(
+              inArray(schema.transaction.originalHash, batch),
+              inArray(schema.transaction.pendingHash, batch)
+            )
+          )
+        )
+    );
+    // A booked row can match one batch by its hash and another by its pending hash
+    const stored = [...new Map(storedBatches.flat().map(row => [row.id, row])).values()];
+
+    // Bank ids are only unique within an account, e.g. OFX FITIDs
+    const storedExternalIds = (yield* Effect.forEach(batches([...new Set(externalIds)]), batch =>
+      db
+        .select({ externalId: schema.transaction.externalId })
+        .from(schema.transaction)
+        .where(
+          and(
+            eq(schema.transaction.userId, userId),
+            onAccount,
+            inArray(schema.transaction.externalId, batch)
+          )
+        )
+    )).flat();
+
+    const decisions = dedupeRows(
+      rows.map((row, i) => ({
+        originalHash: hashes[i],
+        externalId: row.externalId ?? null,
+        balance: row.balance
+      })),
+      stored.map(row => ({
+        // Booked rows found by the hash they had while pending
+        originalHash:
+          row.pendingHash !== null && !hashSet.has(row.originalHash)
+            ? row.pendingHash
+            : row.originalHash,
+        externalId: row.externalId,
+        balance: row.balance === null ? null : parseFloat(row.balance)
+      })),
+      new Set(storedExternalIds.flatMap(row => (row.externalId ? [row.externalId] : [])))
+    );
+
+    const booked = rows.flatMap((row, index) =>
+      !row.pending && !decisions[index].duplicate ? [{ index, ...row }] : []
+    );
+    const pending =
+      booked.length > 0
+        ? yield* db
+            .select({
+              id: schema.transaction.id,
+              date: schema.transaction.date,
+              merchant: schema.transaction.merchant,
+              amount: schema.transaction.amount,
+              originalHash: schema.transaction.originalHash,
+              categoryId: schema.transaction.categoryId
+            })
+            .from(schema.transaction)
+            .where(
+              and(
+                eq(schema.transaction.userId, userId),
+                eq(schema.transaction.status, 'pending'),
+                onAccount
+              )
+            )
+        : [];
+    const { matched, uncertain } = matchPendingRows(
+      booked,
+      pending.map(tx => ({ ...tx, amount: parseFloat(tx.amount) }))
+    );
+
+    const pendingById = new Map(pending.map(tx => [tx.id, tx]));
+    const pendingTransaction = (id: string | undefined) =>
+      id === undefined ? undefined : pendingById.get(id);
+
+    // Exports repeat the same merchants; match each merchant and amount once
+    const ruleCache = new Map<string, MerchantRuleWithCategory | null>();
+    const matchRule = (merchant: string, amount: number) => {
+      const key = `${merchant}|${amount}`;
+      if (!ruleCache.has(key)) ruleCache.set(key, findMatchingRule(rules, merchant, amount));
+      return ruleCache.get(key) ?? null;
+    };
+
+    return rows.map((row, index): PlannedRow => {
+      const rule = matchRule(row.merchant, row.amount);
+      const categoryId = ruleCategory(rule);
+      const pendingTx = pendingTransaction(matched.get(index));
+      const possibleTx = pendingTransaction(uncertain.get(index));
+      return {
+        index,
+        row,
+        originalHash: hashes[index],
+        ...decisions[index],
+        categoryId,
+        ruleId: categoryId && rule ? rule.id : null,
+        replaces: pendingTx
+          ? {
+              id: pendingTx.id,
+              date: pendingTx.date,
+              merchant: pendingTx.merchant,
+              originalHash: pendingTx.originalHash,
+              categorized: pendingTx.categoryId !== null
+            }
+          : null,
+        possiblyReplaces: possibleTx
+          ? { date: possibleTx.date, merchant: possibleTx.merchant }
+          : null
+      };
+    });
+  }).pipe(Effect.withSpan('Transaction.planUpload'));
@@ -0,0 +1,166 @@
+'use server';
+
+import { Effect, Match } from 'effect';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { getBankAccounts } from '@/lib/core/bank-account/queries';
+import { getImportProfiles } from '@/lib/core/import/queries';
+import { getAllCategories } from './queries';
+import { parseUpload, planUpload, readUploadAccount, readUploadForm } from './prepare-upload';
+
+export type UploadPreviewRow = {
+  index: number;
+  date: Date;
+  merchant: string;
+  amount: number;
+  balance: number | null;
+  duplicate: boolean;
+  /** Identical same-day row told apart from imported ones by count only */
+  ambiguous: boolean;
+  /** Preliminary row, imported as pending */
+  pending: boolean;
+  /** Date of the pending transaction this booked row replaces */
+  replacesPendingDate: Date | null;
+  /** Pending transaction that may be this row, too unlike to replace it */
+  possiblyReplaces: { date: Date; merchant: string } | null;
+  categoryId: string | null;
+  categoryName: string | null;
+  categoryIcon: string | null;
+};
+
+/**
+ * Server action for the first step of an upload: parse the file and return what
+ * would be imported, without writing anything.
+ *
+ * Takes the same FormData as `uploadTransactionsAction`. Every parsed row is
+ * returned with whether it is a duplicate and the category merchant mappings
+ * would give it; the user then confirms rows and the file is resubmitted with
+ * their indexes.
+ *
+ * Pending rows are matched on the form's `accountId`; without one, on the
+ * first account at the detected bank, returned as `accountId` to preselect.
+ */
+export const previewUploadAction = async (formData: FormData) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const upload = yield* readUploadForm(formData);
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+
+      yield* Effect.annotateCurrentSpan({
+        'user.id': userId,
+        'file.name': upload.file.name,
+        'file.size': upload.file.size
+      });
+
+      const parsed = yield* parseUpload(
+        {
+          fileName: upload.file.name,
+          buffer: upload.buffer,
+          mapping: upload.mapping,
+          profileName: upload.profileName
+        },
+        yield* getImportProfiles(userId)
+      );
+      if (parsed.status === 'needsMapping') return parsed;
+
+      // Before the user picks one, the first account at the detected bank
+      const selectedAccount = yield* readUploadAccount(userId, formData);
+      const accountId =
+        selectedAccount === undefined
+          ? ((yield* getBankAccounts(userId)).find(a => a.bank === parsed.bank.id)?.id ?? null)
+          : (selectedAccount?.id ?? null);
+
+      const [planned, categories] = yield* Effect.all([
+        planUpload(userId, parsed.rows, accountId),
+        getAllCategories(userId)
+      ]);
+      const categoryById = new Map(categories.map(c => [c.id, c]));
+
+      const rows: UploadPreviewRow[] = planned.map(
+        ({ index, row, duplicate, ambiguous, categoryId, replaces, possiblyReplaces }) => {
+          const category = categoryId ? categoryById.get(categoryId) : undefined;
+          return {
+            index,
+            date: row.date,
+            merchant: row.merchant,
+            amount: row.amount,
+            balance: row.balance,
+            duplicate,
+            ambiguous,
+            pending: row.pending ?? false,
+            replacesPendingDate: replaces?.date ?? null,
+            possiblyReplaces,
+            categoryId,
+            categoryName: category?.name ?? null,
+            categoryIcon: category?.icon ?? null
+          };
+        }
+      );
+
+      const newRows = rows.filter(row => !row.duplicate);
+
+      yield* Effect.annotateCurrentSpan({
+        'transaction.new': newRows.length,
+        'transaction.duplicate': rows.length - newRows.length,
+        'upload.bank': parsed.bank.id
+      });
+
+      return {
+        status: 'preview' as const,
+        fileName: upload.file.name,
+        bank: parsed.bank.name,
+        bankId: parsed.bank.id,
+        accountId,
+        rows,
+        newCount: newRows.length,
+        duplicateCount: rows.length - newRows.length,
+        ambiguousCount: rows.filter(row => row.ambiguous).length,
+        reconciledCount: newRows.filter(row => row.replacesPendingDate !== null).length,
+        categorizedCount: newRows.filter(row => row.categoryId !== null).length,
+        dateRangeStart: parsed.minDate,
+        dateRangeEnd: parsed.maxDate
+      };
+    }).pipe(
+      Effect.withSpan('action.transaction.previewUpload', {
+        attributes: {
+          operation: 'transaction.previewUpload'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to read upload'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.succeed(
+            result.status === 'needsMapping'
+              ? { _tag: 'NeedsMapping' as const, ...result }
+              : { _tag: 'Preview' as const, ...result }
+          )
+      })
+    )
+  );
+};
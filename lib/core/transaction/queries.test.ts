@@ -0,0 +1,225 @@
+import { describe, expect, layer } from '@effect/vitest';
+import { Effect } from 'effect';
+import { and, eq, inArray } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { Db } from '@/lib/services/db/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import {
+  getAllCategories,
+  getCategoryById,
+  getCategoryStats,
+  getMerchantById,
+  getTransactionById,
+  getTransactions,
+  getTransactionsWithCategory,
+  getTransactionSummary,
+  getUncategorizedCount
+} from './queries';
+import { computeTransactionHash } from './hash';
+
+/**
+ * Integration tests for per-user data isolation.
+ * Requires DATABASE_URL (loaded from .env.local) pointing at a migrated database.
+ */
+
+const allTransactions = {
+  categoryId: null,
+  categorySource: null,
+  tagId: null,
+  search: null,
+  startDate: null,
+  endDate: null
+};
+
+const range = {
+  startDate: new Date('2026-01-01T00:00:00.000Z'),
+  endDate: new Date('2026-02-01T00:00:00.000Z')
+};
+
+/**
+ * Create two users where only the first one owns a category, a merchant mapping,
+ * a categorized transaction and an uncategorized transaction.
+ * Both users (and their rows, via cascade) are removed when the scope closes.
+ */
+const setupTwoUsers = Effect.gen(function* () {
+  const db = yield* Db;
+
+  const [owner, other] = yield* Effect.acquireRelease(
+    db
+      .insert(schema.user)
+      .values([
+        { name: 'Owner', email: `owner-${createId()}@test.local` },
+        { name: 'Other', email: `other-${createId()}@test.local` }
+      ])
+      .returning(),
+    users =>
+      db
+        .delete(schema.user)
+        .where(
+          inArray(
+            schema.user.id,
+            users.map(u => u.id)
+          )
+        )
+        .pipe(Effect.orDie)
+  );
+
+  const [category] = yield* db
+    .insert(schema.category)
+    .values({ userId: owner.id, name: 'Mat' })
+    .returning();
+
+  const [mapping] = yield* db
+    .insert(schema.merchantMapping)
+    .values({ userId: owner.id, merchantPattern: 'ICA', categoryId: category.id })
+    .returning();
+
+  const date = new Date('2026-01-15T00:00:00.000Z');
+  const [categorized, uncategorized] = yield* db
+    .insert(schema.transaction)
+    .values([
+      {
+        userId: owner.id,
+        date,
+        merchant: 'ICA NARA',
+        amount: '-250',
+        categoryId: category.id,
+        originalHash: computeTransactionHash(date, -250, 'ICA NARA')
+      },
+      {
+        userId: owner.id,
+        date,
+        merchant: 'OKAND',
+        amount: '-99',
+        originalHash: computeTransactionHash(date, -99, 'OKAND')
+      }
+    ])
+    .returning();
+
+  return { owner, other, category, mapping, categorized, uncategorized };
+});
+
+describe.skipIf(!process.env.DATABASE_URL)('per-user isolation', () => {
+  layer(Db.Live)(it => {
+    it.scoped('owner sees their own rows', () =>
+      Effect.gen(function* () {
+        const { owner, category, mapping, categorized } = yield* setupTwoUsers;
+
+        const summary = yield* getTransactionSummary(owner.id, range);
+        expect(summary.reduce((sum, s) => sum + s.count, 0)).toBe(2);
+
+        const page = yield* getTransactions(owner.id, allTransactions, 1, 50);
+        expect(page.total).toBe(2);
+
+        expect(yield* getUncategorizedCount(owner.id)).toBe(1);
+        expect((yield* getAllCategories(owner.id)).map(c => c.id)).toContain(category.id);
+        expect(yield* getCategoryById(owner.id, category.id)).not.toBeNull();
+        expect(yield* getMerchantById(owner.id, mapping.id)).not.toBeNull();
+        expect(yield* getTransactionById(owner.id, categorized.id)).not.toBeNull();
+      })
+    );
+
+    it.scoped("another user cannot read the owner's rows", () =>
+      Effect.gen(function* () {
+        const { other, category, mapping, categorized } = yield* setupTwoUsers;
+
+        const summary = yield* getTransactionSummary(other.id, range);
+        expect(summary).toEqual([]);
+
+        const page = yield* getTransactions(other.id, allTransactions, 1, 50);
+        expect(page.total).toBe(0);
+
+        expect(yield* getUncategorizedCount(other.id)).toBe(0);
+        expect(yield* getAllCategories(other.id)).toEqual([]);
+        expect(yield* getCategoryById(other.id, category.id)).toBeNull();
+        expect(yield* getMerchantById(other.id, mapping.id)).toBeNull();
+        expect(yield* getTransactionById(other.id, categorized.id)).toBeNull();
+      })
+    );
+
+    it.scoped("owner-scoped mutations leave another user's rows untouched", () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const { owner, other, category, categorized } = yield* setupTwoUsers;
+
+        // Same filters the server actions use: id AND session user
+        const updated = yield* db
+          .update(schema.transaction)
+          .set({ categoryId: null })
+          .where(
+            and(eq(schema.transaction.id, categorized.id), eq(schema.transaction.userId, other.id))
+          )
+          .returning({ id: schema.transaction.id });
+        expect(updated).toEqual([]);
+
+        const deleted = yield* db
+          .delete(schema.category)
+          .where(and(eq(schema.category.id, category.id), eq(schema.category.userId, other.id)))
+          .returning({ id: schema.category.id });
+        expect(deleted).toEqual([]);
+
+        const transaction = yield* getTransactionById(owner.id, categorized.id);
+        expect(transaction?.categoryId).toBe(category.id);
+        expect(yield* getCategoryById(owner.id, category.id)).not.toBeNull();
+      })
+    );
+
+    it.scoped('category names and merchant patterns are unique per user only', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const { other } = yield* setupTwoUsers;
+
+        const [category] = yield* db
+          .insert(schema.category)
+          .values({ userId: other.id, name: 'Mat' })
+          .returning();
+        const [mapping] = yield* db
+          .insert(schema.merchantMapping)
+          .values({ userId: other.id, merchantPattern: 'ICA', categoryId: category.id })
+          .returning();
+
+        expect(category.userId).toBe(other.id);
+        expect(mapping.userId).toBe(other.id);
+      })
+    );
+  });
+});
+
+describe.skipIf(!process.env.DATABASE_URL)('transaction splits', () => {
+  layer(Db.Live)(it => {
+    it.scoped('category aggregates use the split parts', () =>
+      Effect.gen(function* () {
+        const db = yield* Db;
+        const { owner, category, categorized } = yield* setupTwoUsers;
+
+        const [household] = yield* db
+          .insert(schema.category)
+          .values({ userId: owner.id, name: 'Hushåll' })
+          .returning();
+        yield* db.insert(schema.transactionSplit).values([
+          { transactionId: categorized.id, categoryId: category.id, amount: '-200' },
+          { transactionId: categorized.id, categoryId: household.id, amount: '-50' }
+        ]);
+
+        const summary = yield* getTransactionSummary(owner.id, range);
+        const totals = new Map(summary.map(s => [s.categoryId, s.total]));
+        expect(totals.get(category.id)).toBe(-200);
+        expect(totals.get(household.id)).toBe(-50);
+        expect(totals.get(null)).toBe(-99);
+
+        const stats = yield* getCategoryStats(owner.id, household.id, range);
+        expect(stats.totalExpenses).toBe(50);
+        expect(stats.transactionCount).toBe(1);
+
+        const transactions = yield* getTransactionsWithCategory(owner.id, range);
+        const split = transactions.find(t => t.id === categorized.id);
+        expect(split?.parts).toEqual(
+          expect.arrayContaining([
+            { categoryId: category.id, amount: '-200.00' },
+            { categoryId: household.id, amount: '-50.00' }
+          ])
+        );
+      })
+    );
+  });
+});
@@ -1,13 +1,46 @@
 import { Effect } from 'effect';
 import { Db } from '@/lib/services/db/live-layer';
 import * as schema from '@/lib/services/db/schema';
-import { eq, and, isNull, gte, lt, sql, desc, asc, ilike, count } from 'drizzle-orm';
+import {
+  eq,
+  and,
+  or,
+  isNull,
+  gte,
+  lt,
+  sql,
+  desc,
+  asc,
+  ilike,
+  count,
+  inArray,
+  not,
+  type SQL
+} from 'drizzle-orm';
+import { countedInReports } from '@/lib/core/bank-account/transfers';
+import { compileRules, findMatchingRule } from '@/lib/core/merchant/match';
+import { getMerchantRules } from '@/lib/core/merchant/queries';
+import { getTransactionTags, hasTag, type TagOption } from '@/lib/core/tag/queries';
+import { getTransactionAttachments, type AttachmentItem } from '@/lib/core/attachment/queries';
+import type { CategorySource } from './category-source';
+import { parseSearchQuery, type AmountBound, type SearchTerm } from './search-query';
 
 type DateRange = {
   startDate: Date;
   endDate: Date;
 };
 
+/**
+ * Split parts replace their transaction in category aggregates. Left join the
+ * parts on `splitJoin`, then filter, group and sum by `splitCategoryId` and
+ * `splitAmount`; transactions without parts use their own category and amount.
+ */
+export const splitJoin = eq(schema.transactionSplit.transactionId, schema.transaction.id);
+export const splitCategoryId = sql<
+  string | null
+>`case when ${schema.transactionSplit.id} is null then ${schema.transaction.categoryId} else ${schema.transactionSplit.categoryId} end`;
+export const splitAmount = sql<string>`coalesce(${schema.transactionSplit.amount}, ${schema.transaction.amount})`;
+
 type CategorySummary = {
   categoryId: string | null;
   categoryName: string | null;
@@ -17,28 +50,33 @@ type CategorySummary = {
 
 /**
  * Get transaction totals grouped by category within a date range.
- * Returns sum of amounts and transaction count per category.
+ * Returns sum of amounts and transaction count per category; split transactions
+ * count toward the category of each part.
+ * Confirmed transfers between the user's own accounts are excluded.
  */
-export const getTransactionSummary = (range: DateRange) =>
+export const getTransactionSummary = (userId: string, range: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
     const results = yield* db
       .select({
-        categoryId: schema.transaction.categoryId,
+        categoryId: splitCategoryId,
         categoryName: schema.category.name,
-        total: sql<string>`sum(${schema.transaction.amount})`.as('total'),
+        total: sql<string>`sum(${splitAmount})`.as('total'),
         count: sql<number>`count(*)::int`.as('count')
       })
       .from(schema.transaction)
-      .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
+      .leftJoin(schema.transactionSplit, splitJoin)
+      .leftJoin(schema.category, eq(splitCategoryId, schema.category.id))
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, range.startDate),
-          lt(schema.transaction.date, range.endDate)
+          lt(schema.transaction.date, range.endDate),
+          countedInReports()
         )
       )
-      .groupBy(schema.transaction.categoryId, schema.category.name);
+      .groupBy(splitCategoryId, schema.category.name);
 
     return results.map(
       (row): CategorySummary => ({
@@ -52,8 +90,9 @@ export const getTransactionSummary = (range: DateRange) =>
 
 /**
  * Get total income (sum of positive amounts) within a date range.
+ * Confirmed transfers between the user's own accounts are excluded.
  */
-export const getTotalIncome = (range: DateRange) =>
+export const getTotalIncome = (userId: string, range: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -64,9 +103,11 @@ export const getTotalIncome = (range: DateRange) =>
       .from(schema.transaction)
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, range.startDate),
           lt(schema.transaction.date, range.endDate),
-          sql`${schema.transaction.amount} > 0`
+          sql`${schema.transaction.amount} > 0`,
+          countedInReports()
         )
       );
 
@@ -76,8 +117,9 @@ export const getTotalIncome = (range: DateRange) =>
 /**
  * Get total expenses (sum of negative amounts) within a date range.
  * Returns a positive number representing the absolute expense total.
+ * Confirmed transfers between the user's own accounts are excluded.
  */
-export const getTotalExpenses = (range: DateRange) =>
+export const getTotalExpenses = (userId: string, range: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -88,9 +130,11 @@ export const getTotalExpenses = (range: DateRange) =>
       .from(schema.transaction)
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, range.startDate),
           lt(schema.transaction.date, range.endDate),
-          sql`${schema.transaction.amount} < 0`
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
         )
       );
 
@@ -101,14 +145,14 @@ export const getTotalExpenses = (range: DateRange) =>
 /**
  * Get count of uncategorized transactions.
  */
-export const getUncategorizedCount = () =>
+export const getUncategorizedCount = (userId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
     const [result] = yield* db
       .select({ count: count() })
       .from(schema.transaction)
-      .where(isNull(schema.transaction.categoryId));
+      .where(and(eq(schema.transaction.userId, userId), isNull(schema.transaction.categoryId)));
 
     return result?.count ?? 0;
   }).pipe(Effect.withSpan('Transaction.getUncategorizedCount'));
@@ -117,7 +161,7 @@ export const getUncategorizedCount = () =>
  * Get all transactions that have no category assigned.
  * Ordered by date descending (newest first).
  */
-export const getUncategorizedTransactions = () =>
+export const getUncategorizedTransactions = (userId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -130,7 +174,7 @@ export const getUncategorizedTransactions = () =>
         balance: schema.transaction.balance
       })
       .from(schema.transaction)
-      .where(isNull(schema.transaction.categoryId))
+      .where(and(eq(schema.transaction.userId, userId), isNull(schema.transaction.categoryId)))
       .orderBy(desc(schema.transaction.date));
 
     return transactions.map(tx => ({
@@ -143,7 +187,7 @@ export const getUncategorizedTransactions = () =>
 /**
  * Get all categories ordered by name.
  */
-export const getAllCategories = () =>
+export const getAllCategories = (userId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -156,6 +200,7 @@ export const getAllCategories = () =>
         isDefault: schema.category.isDefault
       })
       .from(schema.category)
+      .where(eq(schema.category.userId, userId))
       .orderBy(asc(schema.category.name));
 
     return categories;
@@ -165,7 +210,7 @@ export const getAllCategories = () =>
  * Get all multi-merchant patterns.
  * These are umbrella merchants that always require manual review.
  */
-export const getMultiMerchantPatterns = () =>
+export const getMultiMerchantPatterns = (userId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -174,7 +219,12 @@ export const getMultiMerchantPatterns = () =>
         merchantPattern: schema.merchantMapping.merchantPattern
       })
       .from(schema.merchantMapping)
-      .where(eq(schema.merchantMapping.isMultiMerchant, true));
+      .where(
+        and(
+          eq(schema.merchantMapping.userId, userId),
+          eq(schema.merchantMapping.isMultiMerchant, true)
+        )
+      );
 
     return mappings.map(m => m.merchantPattern);
   }).pipe(Effect.withSpan('MerchantMapping.getMultiPatterns'));
@@ -192,7 +242,7 @@ export type CategoryWithDetails = {
  * Get all categories with transaction counts and merchant mappings.
  * Ordered by name ascending.
  */
-export const getCategoriesWithDetails = () =>
+export const getCategoriesWithDetails = (userId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -207,6 +257,7 @@ export const getCategoriesWithDetails = () =>
       })
       .from(schema.category)
       .leftJoin(schema.transaction, eq(schema.category.id, schema.transaction.categoryId))
+      .where(eq(schema.category.userId, userId))
       .groupBy(
         schema.category.id,
         schema.category.name,
@@ -223,7 +274,12 @@ export const getCategoriesWithDetails = () =>
         categoryId: schema.merchantMapping.categoryId
       })
       .from(schema.merchantMapping)
-      .where(eq(schema.merchantMapping.isMultiMerchant, false))
+      .where(
+        and(
+          eq(schema.merchantMapping.userId, userId),
+          eq(schema.merchantMapping.isMultiMerchant, false)
+        )
+      )
       .orderBy(asc(schema.merchantMapping.merchantPattern));
 
     // Group mappings by category
@@ -246,6 +302,8 @@ export const getCategoriesWithDetails = () =>
 
 export type TransactionsFilter = {
   categoryId: string | null; // null = all, 'uncategorized' = only null categoryId
+  categorySource: CategorySource | null; // null = all
+  tagId: string | null; // null = any tags
   search: string | null;
   startDate: Date | null;
   endDate: Date | null;
@@ -260,6 +318,12 @@ export type PaginatedTransactions = {
     balance: number | null;
     categoryId: string | null;
     categoryName: string | null;
+    categorySource: CategorySource | null;
+    markedTransfer: boolean;
+    excludedFromReports: boolean;
+    status: 'booked' | 'pending' | 'expired';
+    note: string | null;
+    tags: TagOption[];
   }>;
   total: number;
   page: number;
@@ -267,39 +331,116 @@ export type PaginatedTransactions = {
   totalPages: number;
 };
 
+// Contains, with LIKE wildcards in the text matched literally
+const containsPattern = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+const amountBound = (amount: SQL, bound: AmountBound | null, side: 'min' | 'max') => {
+  if (bound === null) return undefined;
+  if (side === 'min') {
+    return bound.inclusive ? sql`${amount} >= ${bound.value}` : sql`${amount} > ${bound.value}`;
+  }
+  return bound.inclusive ? sql`${amount} <= ${bound.value}` : sql`${amount} < ${bound.value}`;
+};
+
+const searchTermWhere = (term: SearchTerm): SQL | undefined => {
+  switch (term.type) {
+    case 'text': {
+      const pattern = containsPattern(term.value);
+      if (term.field === 'merchant') return ilike(schema.transaction.merchant, pattern);
+      if (term.field === 'note') return ilike(schema.transaction.note, pattern);
+      return or(
+        ilike(schema.transaction.merchant, pattern),
+        ilike(schema.transaction.note, pattern)
+      );
+    }
+    case 'category':
+      // The transaction's own category, or the category of any of its split parts
+      return sql`exists (select 1 from ${schema.category} where ${schema.category.userId} = ${schema.transaction.userId} and ${schema.category.name} ilike ${containsPattern(term.value)} and (${schema.category.id} = ${schema.transaction.categoryId} or exists (select 1 from ${schema.transactionSplit} where ${schema.transactionSplit.transactionId} = ${schema.transaction.id} and ${schema.transactionSplit.categoryId} = ${schema.category.id})))`;
+    case 'tag':
+      return sql`exists (select 1 from ${schema.transactionTag} inner join ${schema.tag} on ${schema.tag.id} = ${schema.transactionTag.tagId} where ${schema.transactionTag.transactionId} = ${schema.transaction.id} and ${schema.tag.name} ilike ${containsPattern(term.value)})`;
+    case 'date':
+      return and(
+        term.start ? gte(schema.transaction.date, term.start) : undefined,
+        term.end ? lt(schema.transaction.date, term.end) : undefined
+      );
+    case 'amount': {
+      const amount = term.absolute
+        ? sql`abs(${schema.transaction.amount})`
+        : sql`${schema.transaction.amount}`;
+      return and(amountBound(amount, term.min, 'min'), amountBound(amount, term.max, 'max'));
+    }
+  }
+};
+
 /**
- * Get transactions with filters and pagination.
- * - Ordered by date descending (newest first)
- * - Supports category filter, merchant search, date range
+ * Where-clause for parsed search terms, all of which must match. See
+ * ./search-query for the syntax.
+ *
+ * Text terms are `ilike` matches served by the trigram indexes on merchant and
+ * note. A negated term also matches rows where its condition is null, such as
+ * a text term on a transaction without a note.
  */
-export const getTransactions = (filter: TransactionsFilter, page: number, pageSize: number) =>
-  Effect.gen(function* () {
-    const db = yield* Db;
+export const searchQueryWhere = (terms: ReadonlyArray<SearchTerm>) =>
+  and(
+    ...terms.map(term => {
+      const condition = searchTermWhere(term);
+      if (!condition || term.type === 'amount' || !term.negated) return condition;
+      return not(sql`coalesce(${condition}, false)`);
+    })
+  );
 
-    // Build where conditions
-    const conditions = [];
+/**
+ * Where-clause for the transactions list filter, always scoped to the owner.
+ * Shared with bulk edits that apply to every transaction matching the filter.
+ */
+export const transactionsFilterWhere = (userId: string, filter: TransactionsFilter) => {
+  const conditions: Array<SQL | undefined> = [eq(schema.transaction.userId, userId)];
+
+  // Category filter
+  if (filter.categoryId === 'uncategorized') {
+    conditions.push(isNull(schema.transaction.categoryId));
+  } else if (filter.categoryId !== null) {
+    conditions.push(eq(schema.transaction.categoryId, filter.categoryId));
+  }
 
-    // Category filter
-    if (filter.categoryId === 'uncategorized') {
-      conditions.push(isNull(schema.transaction.categoryId));
-    } else if (filter.categoryId !== null) {
-      conditions.push(eq(schema.transaction.categoryId, filter.categoryId));
-    }
+  if (filter.categorySource !== null) {
+    conditions.push(eq(schema.transaction.categorySource, filter.categorySource));
+  }
 
-    // Merchant search (case-insensitive)
-    if (filter.search) {
-      conditions.push(ilike(schema.transaction.merchant, `%${filter.search}%`));
-    }
+  if (filter.tagId !== null) {
+    conditions.push(hasTag(filter.tagId));
+  }
 
-    // Date range
-    if (filter.startDate) {
-      conditions.push(gte(schema.transaction.date, filter.startDate));
-    }
-    if (filter.endDate) {
-      conditions.push(lt(schema.transaction.date, filter.endDate));
-    }
+  // Search query: text, amounts, dates, categories and tags
+  if (filter.search) {
+    conditions.push(searchQueryWhere(parseSearchQuery(filter.search)));
+  }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+  // Date range
+  if (filter.startDate) {
+    conditions.push(gte(schema.transaction.date, filter.startDate));
+  }
+  if (filter.endDate) {
+    conditions.push(lt(schema.transaction.date, filter.endDate));
+  }
+
+  return and(...conditions);
+};
+
+/**
+ * Get transactions with filters and pagination.
+ * - Ordered by date descending (newest first)
+ * - Supports category, category source and tag filters, a search query, date range
+ */
+export const getTransactions = (
+  userId: string,
+  filter: TransactionsFilter,
+  page: number,
+  pageSize: number
+) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const whereClause = transactionsFilterWhere(userId, filter);
 
     // Get total count
     const [countResult] = yield* db
@@ -320,7 +461,12 @@ export const getTransactions = (filter: TransactionsFilter, page: number, pageSi
         amount: schema.transaction.amount,
         balance: schema.transaction.balance,
         categoryId: schema.transaction.categoryId,
-        categoryName: schema.category.name
+        categoryName: schema.category.name,
+        categorySource: schema.transaction.categorySource,
+        markedTransfer: schema.transaction.markedTransfer,
+        excludedFromReports: schema.transaction.excludedFromReports,
+        status: schema.transaction.status,
+        note: schema.transaction.note
       })
       .from(schema.transaction)
       .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
@@ -329,11 +475,37 @@ export const getTransactions = (filter: TransactionsFilter, page: number, pageSi
       .limit(pageSize)
       .offset(offset);
 
+    const tagRows =
+      items.length > 0
+        ? yield* db
+            .select({
+              transactionId: schema.transactionTag.transactionId,
+              id: schema.tag.id,
+              name: schema.tag.name
+            })
+            .from(schema.transactionTag)
+            .innerJoin(schema.tag, eq(schema.transactionTag.tagId, schema.tag.id))
+            .where(
+              inArray(
+                schema.transactionTag.transactionId,
+                items.map(tx => tx.id)
+              )
+            )
+            .orderBy(asc(schema.tag.name))
+        : [];
+    const tagsByTransaction = new Map<string, typeof tagRows>();
+    for (const row of tagRows) {
+      const rows = tagsByTransaction.get(row.transactionId) ?? [];
+      rows.push(row);
+      tagsByTransaction.set(row.transactionId, rows);
+    }
+
     return {
       items: items.map(tx => ({
         ...tx,
         amount: parseFloat(tx.amount),
-        balance: tx.balance ? parseFloat(tx.balance) : null
+        balance: tx.balance ? parseFloat(tx.balance) : null,
+        tags: (tagsByTransaction.get(tx.id) ?? []).map(({ id, name }) => ({ id, name }))
       })),
       total,
       page,
@@ -342,148 +514,83 @@ export const getTransactions = (filter: TransactionsFilter, page: number, pageSi
     };
   }).pipe(Effect.withSpan('Transaction.getTransactions'));
 
-type UpcomingExpense = {
-  merchant: string;
-  expectedAmount: number;
-  expectedDate: Date;
-  daysUntil: number;
-  categoryId: string | null;
-  categoryName: string | null;
-};
-
-/**
- * Detect upcoming expenses based on yearly recurring patterns.
- * Looks for same merchant with similar amount (±20%) occurring ~12 months apart.
- * Returns expenses expected in next 60 days.
- */
-export const getUpcomingExpenses = () =>
-  Effect.gen(function* () {
-    const db = yield* Db;
-    const now = new Date();
-    const sixtyDaysFromNow = new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000);
-
-    // Get all expenses (negative amounts) with their dates
-    const expenses = yield* db
-      .select({
-        merchant: schema.transaction.merchant,
-        amount: schema.transaction.amount,
-        date: schema.transaction.date,
-        categoryId: schema.transaction.categoryId,
-        categoryName: schema.category.name
-      })
-      .from(schema.transaction)
-      .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
-      .where(sql`${schema.transaction.amount} < 0`)
-      .orderBy(schema.transaction.merchant, desc(schema.transaction.date));
-
-    // Group transactions by merchant
-    const byMerchant = new Map<
-      string,
-      Array<{ amount: number; date: Date; categoryId: string | null; categoryName: string | null }>
-    >();
-    for (const tx of expenses) {
-      const key = tx.merchant.toLowerCase().trim();
-      const existing = byMerchant.get(key) ?? [];
-      existing.push({
-        amount: parseFloat(tx.amount),
-        date: tx.date,
-        categoryId: tx.categoryId,
-        categoryName: tx.categoryName
-      });
-      byMerchant.set(key, existing);
-    }
-
-    const upcomingExpenses: UpcomingExpense[] = [];
-    const tolerancePercent = 0.2; // ±20%
-    const yearInMs = 365 * 24 * 60 * 60 * 1000;
-    const monthInMs = 30 * 24 * 60 * 60 * 1000;
-
-    for (const [merchant, txs] of byMerchant) {
-      // Need at least 2 transactions to detect a pattern
-      if (txs.length < 2) continue;
-
-      // Sort by date descending (most recent first)
-      txs.sort((a, b) => b.date.getTime() - a.date.getTime());
-
-      const mostRecent = txs[0];
-
-      // Look for a yearly pattern by checking if there's a transaction ~12 months before
-      for (let i = 1; i < txs.length; i++) {
-        const older = txs[i];
-        const timeDiff = mostRecent.date.getTime() - older.date.getTime();
-
-        // Check if ~12 months apart (10-14 months window)
-        if (timeDiff >= 10 * monthInMs && timeDiff <= 14 * monthInMs) {
-          // Check if amounts are similar (±20%)
-          const avgAmount = (Math.abs(mostRecent.amount) + Math.abs(older.amount)) / 2;
-          const diff = Math.abs(Math.abs(mostRecent.amount) - Math.abs(older.amount));
-
-          if (diff / avgAmount <= tolerancePercent) {
-            // Found yearly recurring pattern - predict next occurrence
-            const expectedDate = new Date(mostRecent.date.getTime() + yearInMs);
-            const daysUntil = Math.ceil(
-              (expectedDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
-            );
-
-            // Only include if expected in next 60 days and not in the past
-            if (daysUntil > 0 && expectedDate <= sixtyDaysFromNow) {
-              // Find original merchant name (preserve casing from most recent)
-              const originalMerchant =
-                expenses.find(e => e.merchant.toLowerCase().trim() === merchant)?.merchant ??
-                merchant;
-
-              upcomingExpenses.push({
-                merchant: originalMerchant,
-                expectedAmount: Math.abs(avgAmount),
-                expectedDate,
-                daysUntil,
-                categoryId: mostRecent.categoryId,
-                categoryName: mostRecent.categoryName
-              });
-            }
-            break; // Found pattern for this merchant
-          }
-        }
-      }
-    }
-
-    // Sort by days until (soonest first)
-    return upcomingExpenses.sort((a, b) => a.daysUntil - b.daysUntil);
-  }).pipe(Effect.withSpan('Transaction.getUpcomingExpenses'));
-
 /**
  * Get all transactions within a date range with their categories.
  * Ordered by date descending (newest first).
+ *
+ * `parts` holds the category and amount of each split part, or of the whole
+ * transaction when it is not split, for category-filtered totals.
  */
-export const getTransactionsWithCategory = (range: DateRange) =>
+export const getTransactionsWithCategory = (userId: string, range: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
+    const inRange = and(
+      eq(schema.transaction.userId, userId),
+      gte(schema.transaction.date, range.startDate),
+      lt(schema.transaction.date, range.endDate),
+      countedInReports()
+    );
+
     const results = yield* db
       .select({
         id: schema.transaction.id,
+        userId: schema.transaction.userId,
         date: schema.transaction.date,
         merchant: schema.transaction.merchant,
         amount: schema.transaction.amount,
         balance: schema.transaction.balance,
         categoryId: schema.transaction.categoryId,
+        categorySource: schema.transaction.categorySource,
+        categoryRuleId: schema.transaction.categoryRuleId,
+        categorizedAt: schema.transaction.categorizedAt,
+        accountId: schema.transaction.accountId,
+        transferPeerId: schema.transaction.transferPeerId,
+        transferConfirmed: schema.transaction.transferConfirmed,
+        markedTransfer: schema.transaction.markedTransfer,
+        excludedFromReports: schema.transaction.excludedFromReports,
+        note: schema.transaction.note,
         uploadId: schema.transaction.uploadId,
         originalHash: schema.transaction.originalHash,
+        externalId: schema.transaction.externalId,
+        bookingDate: schema.transaction.bookingDate,
+        status: schema.transaction.status,
+        pendingHash: schema.transaction.pendingHash,
+        bookedUploadId: schema.transaction.bookedUploadId,
+        pendingVersion: schema.transaction.pendingVersion,
         createdAt: schema.transaction.createdAt,
         updatedAt: schema.transaction.updatedAt,
         category: schema.category
       })
       .from(schema.transaction)
       .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
-      .where(
-        and(
-          gte(schema.transaction.date, range.startDate),
-          lt(schema.transaction.date, range.endDate)
-        )
-      )
+      .where(inRange)
       .orderBy(desc(schema.transaction.date));
 
-    return results;
+    const parts = yield* db
+      .select({
+        transactionId: schema.transaction.id,
+        categoryId: splitCategoryId,
+        amount: splitAmount
+      })
+      .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
+      .where(inRange);
+
+    const partsByTransaction = new Map<
+      string,
+      Array<{ categoryId: string | null; amount: string }>
+    >();
+    for (const { transactionId, categoryId, amount } of parts) {
+      const transactionParts = partsByTransaction.get(transactionId) ?? [];
+      transactionParts.push({ categoryId, amount });
+      partsByTransaction.set(transactionId, transactionParts);
+    }
+
+    return results.map(result => ({
+      ...result,
+      parts: partsByTransaction.get(result.id) ?? []
+    }));
   }).pipe(Effect.withSpan('Transaction.getTransactionsWithCategory'));
 
 export type Timeframe = 'week' | 'month' | 'year';
@@ -508,6 +615,7 @@ export type PeriodTrend = {
  * Returns all periods including those with no transactions (zeroed).
  */
 export const getPeriodTrends = (
+  userId: string,
   timeframe: Timeframe,
   count: number,
   endPeriod: string | null = null
@@ -572,7 +680,14 @@ export const getPeriodTrends = (
         amount: schema.transaction.amount
       })
       .from(schema.transaction)
-      .where(and(gte(schema.transaction.date, startDate), lt(schema.transaction.date, endDate)));
+      .where(
+        and(
+          eq(schema.transaction.userId, userId),
+          gte(schema.transaction.date, startDate),
+          lt(schema.transaction.date, endDate),
+          countedInReports()
+        )
+      );
 
     // Aggregate into periods
     const periodMap = new Map<string, { income: number; expenses: number }>();
@@ -686,10 +801,11 @@ export type MerchantWithTotal = {
 };
 
 /**
- * Get all merchant mappings with their expense totals within a date range.
- * Aggregates transactions by matching merchant to merchantPattern.
+ * Get all plain merchant mappings with their expense totals within a date range.
+ * Aggregates transactions by matching merchant to merchantPattern. Rules with
+ * other match types or amount conditions are listed on the rules page instead.
  */
-export const getMerchantsWithTotals = (range: DateRange) =>
+export const getMerchantsWithTotals = (userId: string, range: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -704,6 +820,7 @@ export const getMerchantsWithTotals = (range: DateRange) =>
       })
       .from(schema.merchantMapping)
       .leftJoin(schema.category, eq(schema.merchantMapping.categoryId, schema.category.id))
+      .where(and(eq(schema.merchantMapping.userId, userId), schema.isPlainMerchantMapping))
       .orderBy(asc(schema.merchantMapping.merchantPattern));
 
     // Get expense transactions in date range
@@ -715,9 +832,11 @@ export const getMerchantsWithTotals = (range: DateRange) =>
       .from(schema.transaction)
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, range.startDate),
           lt(schema.transaction.date, range.endDate),
-          sql`${schema.transaction.amount} < 0`
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
         )
       );
 
@@ -762,6 +881,7 @@ export type CategoryTrend = {
  * @param endPeriod - Optional period to end at. If null, uses current period.
  */
 export const getCategoryPeriodTrends = (
+  userId: string,
   timeframe: Timeframe,
   count: number,
   endPeriod: string | null = null
@@ -795,22 +915,25 @@ export const getCategoryPeriodTrends = (
     const results = yield* db
       .select({
         period: sql<string>`to_char(${schema.transaction.date}, ${periodFormat})`.as('period'),
-        categoryId: schema.transaction.categoryId,
+        categoryId: splitCategoryId,
         categoryName: schema.category.name,
-        total: sql<string>`abs(sum(${schema.transaction.amount}))`.as('total')
+        total: sql<string>`abs(sum(${splitAmount}))`.as('total')
       })
       .from(schema.transaction)
-      .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
+      .leftJoin(schema.transactionSplit, splitJoin)
+      .leftJoin(schema.category, eq(splitCategoryId, schema.category.id))
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, startDate),
           lt(schema.transaction.date, endDate),
-          sql`${schema.transaction.amount} < 0`
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
         )
       )
       .groupBy(
         sql`to_char(${schema.transaction.date}, ${periodFormat})`,
-        schema.transaction.categoryId,
+        splitCategoryId,
         schema.category.name
       )
       .orderBy(sql`to_char(${schema.transaction.date}, ${periodFormat})`);
@@ -855,7 +978,7 @@ export type TopMerchant = {
  * Get top merchants by expense total within a date range.
  * Groups by merchant name (case-insensitive) and returns top N.
  */
-export const getTopMerchants = (range: DateRange, limit: number = 10) =>
+export const getTopMerchants = (userId: string, range: DateRange, limit: number = 10) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -867,9 +990,11 @@ export const getTopMerchants = (range: DateRange, limit: number = 10) =>
       .from(schema.transaction)
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, range.startDate),
           lt(schema.transaction.date, range.endDate),
-          sql`${schema.transaction.amount} < 0`
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
         )
       )
       .groupBy(sql`lower(${schema.transaction.merchant})`)
@@ -885,9 +1010,11 @@ export const getTopMerchants = (range: DateRange, limit: number = 10) =>
       .from(schema.transaction)
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           gte(schema.transaction.date, range.startDate),
           lt(schema.transaction.date, range.endDate),
-          sql`${schema.transaction.amount} < 0`
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
         )
       );
 
@@ -915,37 +1042,21 @@ export type MerchantDetail = {
 };
 
 /**
- * Find merchant mapping ID by matching a merchant name.
- * Uses the same case-insensitive substring match as upload.
- * Returns the first matching mapping ID, or null if none found.
+ * Find merchant mapping ID by matching a merchant name with the same rules as
+ * upload. Rules with amount conditions are skipped since no amount is given.
+ * Returns the matching mapping ID, or null if none found.
  */
-export const findMerchantMappingId = (merchantName: string) =>
+export const findMerchantMappingId = (userId: string, merchantName: string) =>
   Effect.gen(function* () {
-    const db = yield* Db;
-    const merchantLower = merchantName.toLowerCase();
-
-    const mappings = yield* db
-      .select({
-        id: schema.merchantMapping.id,
-        merchantPattern: schema.merchantMapping.merchantPattern
-      })
-      .from(schema.merchantMapping);
-
-    // Find matching mapping using same logic as upload
-    for (const mapping of mappings) {
-      if (merchantLower.includes(mapping.merchantPattern.toLowerCase())) {
-        return mapping.id;
-      }
-    }
-
-    return null;
+    const rules = compileRules(yield* getMerchantRules(userId));
+    return findMatchingRule(rules, merchantName)?.id ?? null;
   }).pipe(Effect.withSpan('Merchant.findMappingId'));
 
 /**
  * Get merchant mapping by ID.
  * Returns null if not found.
  */
-export const getMerchantById = (id: string) =>
+export const getMerchantById = (userId: string, id: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -960,7 +1071,7 @@ export const getMerchantById = (id: string) =>
       })
       .from(schema.merchantMapping)
       .leftJoin(schema.category, eq(schema.merchantMapping.categoryId, schema.category.id))
-      .where(eq(schema.merchantMapping.id, id))
+      .where(and(eq(schema.merchantMapping.id, id), eq(schema.merchantMapping.userId, userId)))
       .limit(1);
 
     return result ?? null;
@@ -977,13 +1088,17 @@ export type MerchantStats = {
 /**
  * Get aggregate stats for a merchant pattern.
  */
-export const getMerchantStats = (merchantPattern: string, range?: DateRange) =>
+export const getMerchantStats = (userId: string, merchantPattern: string, range?: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
     const patternLower = merchantPattern.toLowerCase();
 
     // Build conditions
-    const conditions = [sql`lower(${schema.transaction.merchant}) like ${`%${patternLower}%`}`];
+    const conditions = [
+      eq(schema.transaction.userId, userId),
+      sql`lower(${schema.transaction.merchant}) like ${`%${patternLower}%`}`,
+      countedInReports()
+    ];
     if (range) {
       conditions.push(gte(schema.transaction.date, range.startDate));
       conditions.push(lt(schema.transaction.date, range.endDate));
@@ -1034,6 +1149,7 @@ export const getMerchantStats = (merchantPattern: string, range?: DateRange) =>
  * Matches case-insensitive substring like upload matching.
  */
 export const getMerchantTransactions = (
+  userId: string,
   merchantPattern: string,
   range: DateRange | null,
   page: number,
@@ -1044,7 +1160,10 @@ export const getMerchantTransactions = (
     const patternLower = merchantPattern.toLowerCase();
 
     // Build where conditions
-    const conditions = [sql`lower(${schema.transaction.merchant}) like ${`%${patternLower}%`}`];
+    const conditions = [
+      eq(schema.transaction.userId, userId),
+      sql`lower(${schema.transaction.merchant}) like ${`%${patternLower}%`}`
+    ];
 
     if (range) {
       conditions.push(gte(schema.transaction.date, range.startDate));
@@ -1120,7 +1239,7 @@ export type CategoryDetail = {
  * Get category by ID.
  * Returns null if not found.
  */
-export const getCategoryById = (id: string) =>
+export const getCategoryById = (userId: string, id: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -1133,7 +1252,7 @@ export const getCategoryById = (id: string) =>
         isDefault: schema.category.isDefault
       })
       .from(schema.category)
-      .where(eq(schema.category.id, id))
+      .where(and(eq(schema.category.id, id), eq(schema.category.userId, userId)))
       .limit(1);
 
     return result ?? null;
@@ -1150,13 +1269,18 @@ export type CategoryStats = {
 };
 
 /**
- * Get aggregate stats for a category.
+ * Get aggregate stats for a category, counting the category's parts of split
+ * transactions.
  */
-export const getCategoryStats = (categoryId: string, range?: DateRange) =>
+export const getCategoryStats = (userId: string, categoryId: string, range?: DateRange) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
-    const conditions = [eq(schema.transaction.categoryId, categoryId)];
+    const conditions = [
+      eq(schema.transaction.userId, userId),
+      eq(splitCategoryId, categoryId),
+      countedInReports()
+    ];
     if (range) {
       conditions.push(gte(schema.transaction.date, range.startDate));
       conditions.push(lt(schema.transaction.date, range.endDate));
@@ -1164,11 +1288,12 @@ export const getCategoryStats = (categoryId: string, range?: DateRange) =>
 
     const transactions = yield* db
       .select({
-        amount: schema.transaction.amount,
+        amount: splitAmount,
         date: schema.transaction.date,
         merchant: schema.transaction.merchant
       })
       .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
       .where(and(...conditions))
       .orderBy(asc(schema.transaction.date));
 
@@ -1221,6 +1346,7 @@ export type CategoryTopMerchant = {
  * Get top merchants for a category by expense total.
  */
 export const getCategoryTopMerchants = (
+  userId: string,
   categoryId: string,
   limit: number = 10,
   range?: DateRange
@@ -1229,8 +1355,10 @@ export const getCategoryTopMerchants = (
     const db = yield* Db;
 
     const conditions = [
-      eq(schema.transaction.categoryId, categoryId),
-      sql`${schema.transaction.amount} < 0`
+      eq(schema.transaction.userId, userId),
+      eq(splitCategoryId, categoryId),
+      sql`${schema.transaction.amount} < 0`,
+      countedInReports()
     ];
     if (range) {
       conditions.push(gte(schema.transaction.date, range.startDate));
@@ -1240,17 +1368,18 @@ export const getCategoryTopMerchants = (
     const results = yield* db
       .select({
         merchant: sql<string>`lower(${schema.transaction.merchant})`.as('merchant'),
-        total: sql<string>`abs(sum(${schema.transaction.amount}))`.as('total'),
+        total: sql<string>`abs(sum(${splitAmount}))`.as('total'),
         count: sql<number>`count(*)::int`.as('count')
       })
       .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
       .where(and(...conditions))
       .groupBy(sql`lower(${schema.transaction.merchant})`)
-      .orderBy(desc(sql`abs(sum(${schema.transaction.amount}))`))
+      .orderBy(desc(sql`abs(sum(${splitAmount}))`))
       .limit(limit);
 
     // Get original merchant names (preserving case)
-    const nameConditions = [eq(schema.transaction.categoryId, categoryId)];
+    const nameConditions = [eq(schema.transaction.userId, userId), eq(splitCategoryId, categoryId)];
     if (range) {
       nameConditions.push(gte(schema.transaction.date, range.startDate));
       nameConditions.push(lt(schema.transaction.date, range.endDate));
@@ -1262,6 +1391,7 @@ export const getCategoryTopMerchants = (
         merchantLower: sql<string>`lower(${schema.transaction.merchant})`.as('merchant_lower')
       })
       .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
       .where(and(...nameConditions));
 
     const nameMap = new Map(merchantNames.map(m => [m.merchantLower, m.merchant]));
@@ -1288,6 +1418,7 @@ export type SingleCategoryPeriodTrend = {
  * If dateRange is provided, generates monthly periods within that range.
  */
 export const getSingleCategoryPeriodTrends = (
+  userId: string,
   categoryId: string,
   timeframe: Timeframe,
   count: number,
@@ -1373,14 +1504,17 @@ export const getSingleCategoryPeriodTrends = (
     const results = yield* db
       .select({
         date: schema.transaction.date,
-        amount: schema.transaction.amount
+        amount: splitAmount
       })
       .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
       .where(
         and(
-          eq(schema.transaction.categoryId, categoryId),
+          eq(schema.transaction.userId, userId),
+          eq(splitCategoryId, categoryId),
           gte(schema.transaction.date, startDate),
-          lt(schema.transaction.date, endDate)
+          lt(schema.transaction.date, endDate),
+          countedInReports()
         )
       );
 
@@ -1423,8 +1557,10 @@ export const getSingleCategoryPeriodTrends = (
 
 /**
  * Get recent transactions for a category with pagination.
+ * Split transactions show the amount of the category's part.
  */
 export const getCategoryTransactions = (
+  userId: string,
   categoryId: string,
   page: number,
   pageSize: number,
@@ -1433,7 +1569,7 @@ export const getCategoryTransactions = (
   Effect.gen(function* () {
     const db = yield* Db;
 
-    const conditions = [eq(schema.transaction.categoryId, categoryId)];
+    const conditions = [eq(schema.transaction.userId, userId), eq(splitCategoryId, categoryId)];
     if (range) {
       conditions.push(gte(schema.transaction.date, range.startDate));
       conditions.push(lt(schema.transaction.date, range.endDate));
@@ -1444,6 +1580,7 @@ export const getCategoryTransactions = (
     const [countResult] = yield* db
       .select({ total: count() })
       .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
       .where(whereClause);
 
     const total = countResult?.total ?? 0;
@@ -1456,10 +1593,11 @@ export const getCategoryTransactions = (
         id: schema.transaction.id,
         date: schema.transaction.date,
         merchant: schema.transaction.merchant,
-        amount: schema.transaction.amount,
+        amount: splitAmount,
         balance: schema.transaction.balance
       })
       .from(schema.transaction)
+      .leftJoin(schema.transactionSplit, splitJoin)
       .where(whereClause)
       .orderBy(desc(schema.transaction.date))
       .limit(pageSize)
@@ -1481,7 +1619,7 @@ export const getCategoryTransactions = (
 /**
  * Get merchant mappings for a category.
  */
-export const getCategoryMerchantMappings = (categoryId: string) =>
+export const getCategoryMerchantMappings = (userId: string, categoryId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -1492,13 +1630,19 @@ export const getCategoryMerchantMappings = (categoryId: string) =>
         isMultiMerchant: schema.merchantMapping.isMultiMerchant
       })
       .from(schema.merchantMapping)
-      .where(eq(schema.merchantMapping.categoryId, categoryId))
+      .where(
+        and(
+          eq(schema.merchantMapping.userId, userId),
+          eq(schema.merchantMapping.categoryId, categoryId)
+        )
+      )
       .orderBy(asc(schema.merchantMapping.merchantPattern));
 
     return mappings;
   }).pipe(Effect.withSpan('Category.getMerchantMappings'));
 
 export const getMerchantPeriodTrends = (
+  userId: string,
   merchantPattern: string,
   timeframe: Timeframe,
   count: number,
@@ -1591,10 +1735,12 @@ export const getMerchantPeriodTrends = (
       .from(schema.transaction)
       .where(
         and(
+          eq(schema.transaction.userId, userId),
           sql`lower(${schema.transaction.merchant}) like ${`%${patternLower}%`}`,
           gte(schema.transaction.date, startDate),
           lt(schema.transaction.date, endDate),
-          sql`${schema.transaction.amount} < 0`
+          sql`${schema.transaction.amount} < 0`,
+          countedInReports()
         )
       );
 
@@ -1633,6 +1779,12 @@ export const getMerchantPeriodTrends = (
 // TRANSACTION DETAIL QUERIES
 ////////////////////////////////////////////////////////////////////////
 
+export type TransactionSplitPart = {
+  id: string;
+  categoryId: string | null;
+  amount: number;
+};
+
 export type TransactionDetail = {
   id: string;
   date: Date;
@@ -1642,17 +1794,53 @@ export type TransactionDetail = {
   categoryId: string | null;
   categoryName: string | null;
   categoryIcon: string | null;
+  categorySource: CategorySource | null;
+  /** Null when the rule that set the category was deleted */
+  categoryRuleId: string | null;
+  categoryRulePattern: string | null;
+  categorizedAt: Date | null;
+  accountId: string | null;
+  transferPeerId: string | null;
+  transferConfirmed: boolean;
   uploadId: string | null;
   originalHash: string;
+  externalId: string | null;
+  bookingDate: Date | null;
+  note: string | null;
   createdAt: Date;
   updatedAt: Date;
+  /** Empty unless the transaction is split */
+  splits: TransactionSplitPart[];
+  tags: TagOption[];
+  attachments: AttachmentItem[];
 };
 
 /**
- * Get transaction by ID with category details.
+ * Get split parts of a transaction, largest first.
+ * Callers must check that the transaction belongs to the user.
+ */
+export const getTransactionSplits = (transactionId: string) =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+
+    const rows = yield* db
+      .select({
+        id: schema.transactionSplit.id,
+        categoryId: schema.transactionSplit.categoryId,
+        amount: schema.transactionSplit.amount
+      })
+      .from(schema.transactionSplit)
+      .where(eq(schema.transactionSplit.transactionId, transactionId))
+      .orderBy(desc(sql`abs(${schema.transactionSplit.amount})`));
+
+    return rows.map((row): TransactionSplitPart => ({ ...row, amount: parseFloat(row.amount) }));
+  }).pipe(Effect.withSpan('Transaction.getSplits'));
+
+/**
+ * Get transaction by ID with category details, split parts and tags.
  * Returns null if not found.
  */
-export const getTransactionById = (id: string) =>
+export const getTransactionById = (userId: string, id: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -1666,22 +1854,45 @@ export const getTransactionById = (id: string) =>
         categoryId: schema.transaction.categoryId,
         categoryName: schema.category.name,
         categoryIcon: schema.category.icon,
+        categorySource: schema.transaction.categorySource,
+        categoryRuleId: schema.transaction.categoryRuleId,
+        categoryRulePattern: schema.merchantMapping.merchantPattern,
+        categorizedAt: schema.transaction.categorizedAt,
+        accountId: schema.transaction.accountId,
+        transferPeerId: schema.transaction.transferPeerId,
+        transferConfirmed: schema.transaction.transferConfirmed,
         uploadId: schema.transaction.uploadId,
         originalHash: schema.transaction.originalHash,
+        externalId: schema.transaction.externalId,
+        bookingDate: schema.transaction.bookingDate,
+        note: schema.transaction.note,
         createdAt: schema.transaction.createdAt,
         updatedAt: schema.transaction.updatedAt
       })
       .from(schema.transaction)
       .leftJoin(schema.category, eq(schema.transaction.categoryId, schema.category.id))
-      .where(eq(schema.transaction.id, id))
+      .leftJoin(
+        schema.merchantMapping,
+        eq(schema.transaction.categoryRuleId, schema.merchantMapping.id)
+      )
+      .where(and(eq(schema.transaction.id, id), eq(schema.transaction.userId, userId)))
       .limit(1);
 
     if (!result) return null;
 
+    const [splits, tags, attachments] = yield* Effect.all([
+      getTransactionSplits(result.id),
+      getTransactionTags(result.id),
+      getTransactionAttachments(result.id)
+    ]);
+
     return {
       ...result,
       amount: parseFloat(result.amount),
-      balance: result.balance ? parseFloat(result.balance) : null
+      balance: result.balance ? parseFloat(result.balance) : null,
+      splits,
+      tags,
+      attachments
     } satisfies TransactionDetail;
   }).pipe(Effect.withSpan('Transaction.getById'));
 
@@ -1698,7 +1909,7 @@ type MonthSummary = {
  * Get all months that have transactions, with net amount for each.
  * Returns sorted by date descending (most recent first).
  */
-export const getAvailableMonths = () =>
+export const getAvailableMonths = (userId: string) =>
   Effect.gen(function* () {
     const db = yield* Db;
 
@@ -1710,6 +1921,7 @@ export const getAvailableMonths = () =>
         count: sql<number>`count(*)::int`.as('count')
       })
       .from(schema.transaction)
+      .where(eq(schema.transaction.userId, userId))
       .groupBy(
         sql`extract(year from ${schema.transaction.date})`,
         sql`extract(month from ${schema.transaction.date})`
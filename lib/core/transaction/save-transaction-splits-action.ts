@@ -0,0 +1,187 @@
+'use server';
+
+import { Effect, Match, Schema as S } from 'effect';
+import { revalidatePath } from 'next/cache';
+import { and, eq, inArray } from 'drizzle-orm';
+import { AppLayer } from '@/lib/layers';
+import { NextEffect } from '@/lib/next-effect';
+import { getSession } from '@/lib/services/auth/get-session';
+import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
+import * as schema from '@/lib/services/db/schema';
+import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { categorization } from './category-source';
+import { getTransactionSplits } from './queries';
+import { validateSplit } from './split';
+
+const SaveTransactionSplitsInput = S.Struct({
+  transactionId: S.String.pipe(S.minLength(1)),
+  splits: S.Array(
+    S.Struct({
+      categoryId: S.NullOr(S.String.pipe(S.minLength(1))),
+      amount: S.Number
+    })
+  )
+});
+
+type SaveTransactionSplitsInput = S.Schema.Type<typeof SaveTransactionSplitsInput>;
+
+/**
+ * Server action to split a transaction into parts, each with its own category.
+ *
+ * Replaces any existing parts; an empty list removes the split. The parts must
+ * sum to the transaction amount. The transaction's own category is set to the
+ * category of the largest part so lists and the review queue stay meaningful.
+ */
+export const saveTransactionSplitsAction = async (input: SaveTransactionSplitsInput) => {
+  return await NextEffect.runPromise(
+    Effect.gen(function* () {
+      const parsed = yield* S.decodeUnknown(SaveTransactionSplitsInput)(input).pipe(
+        Effect.mapError(
+          () =>
+            new ValidationError({
+              message: 'Invalid split data',
+              field: 'splits'
+            })
+        )
+      );
+
+      const session = yield* getSession();
+      const userId = session.user.id;
+      const db = yield* Db;
+      const activity = yield* Activity;
+
+      yield* Effect.annotateCurrentSpan({
+        'transaction.id': parsed.transactionId,
+        'split.parts': parsed.splits.length
+      });
+
+      const [existing] = yield* db
+        .select({
+          id: schema.transaction.id,
+          amount: schema.transaction.amount,
+          categoryId: schema.transaction.categoryId
+        })
+        .from(schema.transaction)
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.transactionId),
+            eq(schema.transaction.userId, userId)
+          )
+        )
+        .limit(1);
+
+      if (!existing) {
+        return yield* new NotFoundError({
+          message: 'Transaction not found',
+          entity: 'transaction',
+          id: parsed.transactionId
+        });
+      }
+
+      const invalid = validateSplit(parseFloat(existing.amount), parsed.splits);
+      if (invalid) {
+        return yield* new ValidationError({ message: invalid, field: 'splits' });
+      }
+
+      const categoryIds = parsed.splits.flatMap(part => (part.categoryId ? [part.categoryId] : []));
+      if (categoryIds.length > 0) {
+        const found = yield* db
+          .select({ id: schema.category.id })
+          .from(schema.category)
+          .where(and(inArray(schema.category.id, categoryIds), eq(schema.category.userId, userId)));
+
+        if (found.length !== categoryIds.length) {
+          return yield* new NotFoundError({
+            message: 'Category not found',
+            entity: 'category',
+            id: categoryIds.find(id => !found.some(c => c.id === id)) ?? ''
+          });
+        }
+      }
+
+      const largest = parsed.splits.reduce<(typeof parsed.splits)[number] | null>(
+        (max, part) => (max === null || Math.abs(part.amount) > Math.abs(max.amount) ? part : max),
+        null
+      );
+
+      yield* db.transaction(() =>
+        Effect.gen(function* () {
+          yield* db
+            .delete(schema.transactionSplit)
+            .where(eq(schema.transactionSplit.transactionId, parsed.transactionId));
+
+          if (largest === null) return;
+
+          yield* db.insert(schema.transactionSplit).values(
+            parsed.splits.map(part => ({
+              transactionId: parsed.transactionId,
+              categoryId: part.categoryId,
+              amount: String(part.amount)
+            }))
+          );
+          yield* db
+            .update(schema.transaction)
+            .set(categorization(largest.categoryId, 'manual'))
+            .where(eq(schema.transaction.id, parsed.transactionId));
+
+          yield* activity.record(
+            userId,
+            fieldChanges('transaction', parsed.transactionId, existing, {
+              categoryId: largest.categoryId
+            })
+          );
+        })
+      );
+
+      yield* checkBudgetAlerts(userId, session.user.email);
+
+      const splits = yield* getTransactionSplits(parsed.transactionId);
+
+      return { id: parsed.transactionId, splits };
+    }).pipe(
+      Effect.withSpan('action.transaction.saveSplits', {
+        attributes: {
+          'transaction.id': input.transactionId,
+          operation: 'transaction.saveSplits'
+        }
+      }),
+      Effect.provide(AppLayer),
+      Effect.scoped,
+      Effect.matchEffect({
+        onFailure: error =>
+          Match.value(error._tag).pipe(
+            Match.when('UnauthenticatedError', () => NextEffect.redirect('/login')),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.when('ValidationError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
+            Match.orElse(() =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: 'Failed to save split'
+              })
+            )
+          ),
+        onSuccess: result =>
+          Effect.sync(() => {
+            revalidatePath('/');
+            revalidatePath('/analytics');
+            revalidatePath('/transactions');
+            revalidatePath(`/transactions/${result.id}`);
+            return { _tag: 'Success' as const, ...result };
+          })
+      })
+    )
+  );
+};
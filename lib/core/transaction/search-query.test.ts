@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@effect/vitest';
+import { parseSearchQuery } from './search-query';
+
+const now = new Date(2025, 5, 15, 12, 0);
+
+describe('parseSearchQuery', () => {
+  it('parses exact amounts as absolute unless signed', () => {
+    expect(parseSearchQuery('349,50')).toEqual([
+      {
+        type: 'amount',
+        absolute: true,
+        min: { value: 349.5, inclusive: true },
+        max: { value: 349.5, inclusive: true }
+      }
+    ]);
+    expect(parseSearchQuery('-349')).toMatchObject([
+      { type: 'amount', absolute: false, min: { value: -349 } }
+    ]);
+  });
+
+  it('parses comparisons and ranges', () => {
+    expect(parseSearchQuery('>500')).toEqual([
+      { type: 'amount', absolute: true, min: { value: 500, inclusive: false }, max: null }
+    ]);
+    expect(parseSearchQuery('-80..-120')).toEqual([
+      {
+        type: 'amount',
+        absolute: false,
+        min: { value: -120, inclusive: true },
+        max: { value: -80, inclusive: true }
+      }
+    ]);
+    expect(parseSearchQuery('..100')).toMatchObject([
+      { type: 'amount', min: null, max: { value: 100 } }
+    ]);
+  });
+
+  it('parses days, months, quarters and date ranges', () => {
+    expect(parseSearchQuery('2025-Q3')).toEqual([
+      { type: 'date', start: new Date(2025, 6, 1), end: new Date(2025, 9, 1), negated: false }
+    ]);
+    expect(parseSearchQuery('2025-03..2025-05')).toEqual([
+      { type: 'date', start: new Date(2025, 2, 1), end: new Date(2025, 5, 1), negated: false }
+    ]);
+    expect(parseSearchQuery('2025-02-28')).toEqual([
+      { type: 'date', start: new Date(2025, 1, 28), end: new Date(2025, 2, 1), negated: false }
+    ]);
+  });
+
+  it('anchors relative dates to now', () => {
+    expect(parseSearchQuery('last:30d', now)).toEqual([
+      { type: 'date', start: new Date(2025, 4, 16), end: null, negated: false }
+    ]);
+  });
+
+  it('parses keyed terms, quoted phrases and negation', () => {
+    expect(parseSearchQuery('category:"eating out" -tag:work -"ica maxi" note:kvitto')).toEqual([
+      { type: 'category', value: 'eating out', negated: false },
+      { type: 'tag', value: 'work', negated: true },
+      { type: 'text', field: 'any', value: 'ica maxi', negated: true },
+      { type: 'text', field: 'note', value: 'kvitto', negated: false }
+    ]);
+  });
+
+  it('searches unrecognized input as text', () => {
+    expect(parseSearchQuery('2025-02-30 last:soon')).toEqual([
+      { type: 'text', field: 'any', value: '2025-02-30', negated: false },
+      { type: 'text', field: 'any', value: 'last:soon', negated: false }
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Search query syntax of the transactions list. Pure functions without
+ * server-only imports; `searchQueryWhere` in ./queries compiles the terms to SQL.
+ *
+ * Terms are separated by spaces and must all match:
+ * - `ica`, `"ica maxi"` - merchant or note contains the text
+ * - `note:warranty`, `merchant:ica` - only the note, or only the merchant
+ * - `category:food`, `tag:italy` - category (or split part category) or tag name contains
+ * - `349`, `349,50` - exact amount, expense or income
+ * - `>500`, `<=100`, `80..120`, `500..` - amount comparisons and ranges; without
+ *   a sign they compare the absolute amount, with a sign (`-120..-80`, `>+0`)
+ *   the signed amount
+ * - `2025-03-14`, `2025-03`, `2025-Q3`, `2025-03..2025-05` - a day, month,
+ *   quarter or range of them
+ * - `last:30d`, `last:2w`, `last:3m`, `last:1y` - the most recent days, weeks,
+ *   months or years
+ * - `-ica`, `-category:food`, `-2025-Q3` - negation of any term but an amount
+ *   (a `-` before a number is its sign)
+ */
+
+type Negatable = {
+  negated: boolean;
+};
+
+export type SearchTerm =
+  | ({ type: 'text'; field: 'any' | 'merchant' | 'note'; value: string } & Negatable)
+  | ({ type: 'category' | 'tag'; value: string } & Negatable)
+  | ({ type: 'date'; start: Date | null; end: Date | null } & Negatable)
+  | {
+      type: 'amount';
+      /** Compare the absolute amount rather than the signed one */
+      absolute: boolean;
+      min: AmountBound | null;
+      max: AmountBound | null;
+    };
+
+export type AmountBound = {
+  value: number;
+  inclusive: boolean;
+};
+
+const NUMBER = String.raw`[+-]?\d+(?:[.,]\d{1,2})?`;
+const AMOUNT_EXACT = new RegExp(`^${NUMBER}$`);
+const AMOUNT_COMPARISON = new RegExp(`^(>=|<=|>|<)(${NUMBER})$`);
+const AMOUNT_RANGE = new RegExp(`^(${NUMBER})?\\.\\.(${NUMBER})?$`);
+const LAST = /^(\d+)([dwmy])$/;
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.'));
+const isSigned = (value: string) => value.startsWith('-') || value.startsWith('+');
+
+const amountTerm = (token: string): SearchTerm | null => {
+  if (AMOUNT_EXACT.test(token)) {
+    const bound = { value: parseNumber(token), inclusive: true };
+    return { type: 'amount', absolute: !isSigned(token), min: bound, max: bound };
+  }
+
+  const comparison = AMOUNT_COMPARISON.exec(token);
+  if (comparison) {
+    const [, operator, number] = comparison;
+    const bound = { value: parseNumber(number), inclusive: operator.endsWith('=') };
+    return {
+      type: 'amount',
+      absolute: !isSigned(number),
+      min: operator.startsWith('>') ? bound : null,
+      max: operator.startsWith('<') ? bound : null
+    };
+  }
+
+  const range = AMOUNT_RANGE.exec(token);
+  if (range && (range[1] !== undefined || range[2] !== undefined)) {
+    const [, from, to] = range;
+    const bounds = [from, to]
+      .filter(value => value !== undefined)
+      .map(value => ({ value: parseNumber(value), inclusive: true }));
+    const absolute = ![from, to].some(value => value !== undefined && isSigned(value));
+    if (bounds.length === 1) {
+      return {
+        type: 'amount',
+        absolute,
+        min: from !== undefined ? bounds[0] : null,
+        max: to !== undefined ? bounds[0] : null
+      };
+    }
+    const [low, high] = bounds[0].value <= bounds[1].value ? bounds : [bounds[1], bounds[0]];
+    return { type: 'amount', absolute, min: low, max: high };
+  }
+
+  return null;
+};
+
+// A day, month or quarter as [start, end), in local time like the list's date filter
+const period = (token: string): { start: Date; end: Date } | null => {
+  const quarter = /^(\d{4})-q([1-4])$/i.exec(token);
+  if (quarter) {
+    const year = Number(quarter[1]);
+    const month = (Number(quarter[2]) - 1) * 3;
+    return { start: new Date(year, month, 1), end: new Date(year, month + 3, 1) };
+  }
+
+  const date = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(token);
+  if (!date) return null;
+  const [year, month, day] = [Number(date[1]), Number(date[2]) - 1, Number(date[3] ?? 0)];
+  if (month > 11) return null;
+  if (date[3] === undefined) {
+    return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+  }
+  const start = new Date(year, month, day);
+  // Reject days that roll over into the next month, such as 2025-02-30
+  if (start.getMonth() !== month) return null;
+  return { start, end: new Date(year, month, day + 1) };
+};
+
+const dateTerm = (token: string, negated: boolean): SearchTerm | null => {
+  const single = period(token);
+  if (single) return { type: 'date', ...single, negated };
+
+  const [from, to, ...rest] = token.split('..');
+  if (to === undefined || rest.length > 0) return null;
+  const start = from ? period(from) : null;
+  const end = to ? period(to) : null;
+  if ((from && !start) || (to && !end) || (!start && !end)) return null;
+  return { type: 'date', start: start?.start ?? null, end: end?.end ?? null, negated };
+};
+
+const lastTerm = (value: string, negated: boolean, now: Date): SearchTerm | null => {
+  const match = LAST.exec(value.toLowerCase());
+  if (!match) return null;
+  const count = Number(match[1]);
+  const [year, month, day] = [now.getFullYear(), now.getMonth(), now.getDate()];
+  const starts: Record<string, Date> = {
+    d: new Date(year, month, day - count),
+    w: new Date(year, month, day - count * 7),
+    m: new Date(year, month - count, day),
+    y: new Date(year - count, month, day)
+  };
+  return { type: 'date', start: starts[match[2]], end: null, negated };
+};
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+// Words, `"quoted phrases"`, and `key:value` / `key:"quoted value"`, each optionally negated
+const TOKEN = /-?(?:[a-z]+:)?(?:"[^"]*"?|\S+)/gi;
+
+/**
+ * Parse a search query into terms. Text that is not a recognized term is
+ * searched as text, so a query never fails to parse.
+ *
+ * `now` anchors relative dates such as `last:30d`.
+ */
+export function parseSearchQuery(query: string, now: Date = new Date()): SearchTerm[] {
+  const tokens = query.match(TOKEN) ?? [];
+
+  return tokens.flatMap((token): SearchTerm[] => {
+    const amount = amountTerm(token);
+    if (amount) return [amount];
+
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+
+    const keyed = /^([a-z]+):(.+)$/i.exec(body);
+    if (keyed) {
+      const key = keyed[1].toLowerCase();
+      const value = unquote(keyed[2]).trim();
+      if (!value) return [];
+
+      switch (key) {
+        case 'category':
+        case 'tag':
+          return [{ type: key, value, negated }];
+        case 'merchant':
+        case 'note':
+          return [{ type: 'text', field: key, value, negated }];
+        case 'last': {
+          const term = lastTerm(value, negated, now);
+          if (term) return [term];
+        }
+      }
+    }
+
+    const date = dateTerm(body, negated);
+    if (date) return [date];
+
+    const value = unquote(body).trim();
+    return value ? [{ type: 'text', field: 'any', value, negated }] : [];
+  });
+}
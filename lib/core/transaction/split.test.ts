@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@effect/vitest';
+import { splitRemainder, validateSplit } from './split';
+
+describe('splitRemainder', () => {
+  it('compares in cents', () => {
+    expect(
+      splitRemainder(-0.3, [
+        { categoryId: 'a', amount: -0.1 },
+        { categoryId: 'b', amount: -0.2 }
+      ])
+    ).toBe(0);
+  });
+
+  it('returns the uncovered amount', () => {
+    expect(splitRemainder(-100, [{ categoryId: 'a', amount: -60 }])).toBe(-40);
+  });
+});
+
+describe('validateSplit', () => {
+  it('accepts an empty split', () => {
+    expect(validateSplit(-100, [])).toBeNull();
+  });
+
+  it('accepts parts that add up', () => {
+    expect(
+      validateSplit(-100, [
+        { categoryId: 'a', amount: -60.5 },
+        { categoryId: null, amount: -39.5 }
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects a single part', () => {
+    expect(validateSplit(-100, [{ categoryId: 'a', amount: -100 }])).not.toBeNull();
+  });
+
+  it('rejects parts that do not add up', () => {
+    expect(
+      validateSplit(-100, [
+        { categoryId: 'a', amount: -60 },
+        { categoryId: 'b', amount: -30 }
+      ])
+    ).toBe('Parts must add up to the transaction amount');
+  });
+
+  it('rejects parts with the wrong sign', () => {
+    expect(
+      validateSplit(-100, [
+        { categoryId: 'a', amount: -120 },
+        { categoryId: 'b', amount: 20 }
+      ])
+    ).toBe('Each part must be a negative amount');
+  });
+
+  it('rejects repeated categories', () => {
+    expect(
+      validateSplit(-100, [
+        { categoryId: 'a', amount: -50 },
+        { categoryId: 'a', amount: -50 }
+      ])
+    ).toBe('Each part must have a different category');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Split validation shared by the split editor and the save action.
+ * Amounts are compared in whole cents to avoid floating point drift.
+ */
+
+export type SplitPart = {
+  categoryId: string | null;
+  amount: number;
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Amount of the transaction not yet covered by the parts.
+ */
+export function splitRemainder(total: number, parts: ReadonlyArray<SplitPart>): number {
+  const covered = parts.reduce((sum, part) => sum + toCents(part.amount), 0);
+  return (toCents(total) - covered) / 100;
+}
+
+/**
+ * Check that parts form a valid split of `total`. Returns an error message, or
+ * null if valid. An empty list is valid and means "not split".
+ *
+ * Parts must be non-zero with the same sign as the transaction, use distinct
+ * categories and sum to the transaction amount.
+ */
+export function validateSplit(total: number, parts: ReadonlyArray<SplitPart>): string | null {
+  if (parts.length === 0) return null;
+  if (parts.length < 2) return 'A split needs at least two parts';
+
+  const sign = Math.sign(total);
+  if (parts.some(part => toCents(part.amount) === 0 || Math.sign(part.amount) !== sign)) {
+    return total < 0
+      ? 'Each part must be a negative amount'
+      : 'Each part must be a positive amount';
+  }
+
+  const categories = new Set(parts.map(part => part.categoryId));
+  if (categories.size !== parts.length) return 'Each part must have a different category';
+
+  if (splitRemainder(total, parts) !== 0) return 'Parts must add up to the transaction amount';
+
+  return null;
+}
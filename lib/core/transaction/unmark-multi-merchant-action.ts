@@ -2,13 +2,15 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { mappingSnapshot } from '@/lib/core/activity/activity';
 
 const UnmarkMultiMerchantInput = S.Struct({
   transactionId: S.String.pipe(S.minLength(1))
@@ -35,8 +37,10 @@ export const unmarkMultiMerchantAction = async (input: UnmarkMultiMerchantInput)
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.id': parsed.transactionId
@@ -49,7 +53,12 @@ export const unmarkMultiMerchantAction = async (input: UnmarkMultiMerchantInput)
           merchant: schema.transaction.merchant
         })
         .from(schema.transaction)
-        .where(eq(schema.transaction.id, parsed.transactionId))
+        .where(
+          and(
+            eq(schema.transaction.id, parsed.transactionId),
+            eq(schema.transaction.userId, userId)
+          )
+        )
         .limit(1);
 
       if (!existingTransaction) {
@@ -63,9 +72,26 @@ export const unmarkMultiMerchantAction = async (input: UnmarkMultiMerchantInput)
       const merchant = existingTransaction.merchant;
 
       // Delete the multi-merchant mapping
-      yield* db
+      const deleted = yield* db
         .delete(schema.merchantMapping)
-        .where(eq(schema.merchantMapping.merchantPattern, merchant));
+        .where(
+          and(
+            eq(schema.merchantMapping.merchantPattern, merchant),
+            eq(schema.merchantMapping.userId, userId),
+            schema.isPlainMerchantMapping
+          )
+        )
+        .returning();
+
+      yield* activity.record(
+        userId,
+        deleted.map(mapping => ({
+          entity: 'merchantMapping' as const,
+          entityId: mapping.id,
+          action: 'delete' as const,
+          oldValue: mappingSnapshot(mapping)
+        }))
+      );
 
       yield* Effect.annotateCurrentSpan({
         'merchant.pattern': merchant,
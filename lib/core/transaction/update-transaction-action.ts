@@ -2,13 +2,17 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { categorization } from './category-source';
 
 const UpdateTransactionInput = S.Struct({
   id: S.String.pipe(S.minLength(1)),
@@ -35,8 +39,10 @@ export const updateTransactionAction = async (input: UpdateTransactionInput) =>
         )
       );
 
-      yield* getSession();
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.id': parsed.id,
@@ -45,9 +51,9 @@ export const updateTransactionAction = async (input: UpdateTransactionInput) =>
 
       // Verify transaction exists
       const [existing] = yield* db
-        .select({ id: schema.transaction.id })
+        .select({ id: schema.transaction.id, categoryId: schema.transaction.categoryId })
         .from(schema.transaction)
-        .where(eq(schema.transaction.id, parsed.id))
+        .where(and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId)))
         .limit(1);
 
       if (!existing) {
@@ -63,7 +69,7 @@ export const updateTransactionAction = async (input: UpdateTransactionInput) =>
         const [existingCategory] = yield* db
           .select({ id: schema.category.id })
           .from(schema.category)
-          .where(eq(schema.category.id, parsed.categoryId))
+          .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
           .limit(1);
 
         if (!existingCategory) {
@@ -78,8 +84,12 @@ export const updateTransactionAction = async (input: UpdateTransactionInput) =>
       // Update the transaction
       yield* db
         .update(schema.transaction)
-        .set({ categoryId: parsed.categoryId })
-        .where(eq(schema.transaction.id, parsed.id));
+        .set(categorization(parsed.categoryId, 'manual'))
+        .where(and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId)));
+
+      yield* activity.record(userId, fieldChanges('transaction', parsed.id, existing, parsed));
+
+      yield* checkBudgetAlerts(userId, session.user.email);
 
       return { id: parsed.id, categoryId: parsed.categoryId };
     }).pipe(
@@ -2,13 +2,19 @@
 
 import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import { eq } from 'drizzle-orm';
+import { and, count, eq } from 'drizzle-orm';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
 import { Db } from '@/lib/services/db/live-layer';
+import { Activity } from '@/lib/services/activity/live-layer';
 import * as schema from '@/lib/services/db/schema';
 import { NotFoundError, ValidationError } from '@/lib/core/errors';
+import { getBankAccountById } from '@/lib/core/bank-account/queries';
+import { linkTransfers } from '@/lib/core/bank-account/transfers';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { fieldChanges } from '@/lib/core/activity/activity';
+import { categorization } from './category-source';
 
 // Date string in YYYY-MM-DD format, parsed as UTC midnight to avoid timezone shifts
 const DateOnly = S.transform(S.String.pipe(S.pattern(/^\d{4}-\d{2}-\d{2}$/)), S.DateFromSelf, {
@@ -21,13 +27,16 @@ const UpdateTransactionDetailInput = S.Struct({
   date: DateOnly,
   merchant: S.String.pipe(S.minLength(1)),
   amount: S.Number,
-  categoryId: S.NullOr(S.String.pipe(S.minLength(1)))
+  categoryId: S.NullOr(S.String.pipe(S.minLength(1))),
+  accountId: S.NullOr(S.String.pipe(S.minLength(1))),
+  // Blank notes are stored as null
+  note: S.NullOr(S.String.pipe(S.maxLength(2000)))
 });
 
 type UpdateTransactionDetailInput = S.Schema.Encoded<typeof UpdateTransactionDetailInput>;
 
 /**
- * Server action to update transaction details (date, merchant, amount, category).
+ * Server action to update transaction details (date, merchant, amount, category, account, note).
  * Unlike the simple updateTransactionAction, this allows editing all fields.
  * The originalHash is preserved for duplicate detection.
  */
@@ -44,8 +53,12 @@ export const updateTransactionDetailAction = async (input: UpdateTransactionDeta
         )
       );
 
-      yield* getSession();
+      const note = parsed.note?.trim() || null;
+
+      const session = yield* getSession();
+      const userId = session.user.id;
       const db = yield* Db;
+      const activity = yield* Activity;
 
       yield* Effect.annotateCurrentSpan({
         'transaction.id': parsed.id,
@@ -56,9 +69,17 @@ export const updateTransactionDetailAction = async (input: UpdateTransactionDeta
 
       // Verify transaction exists
       const [existing] = yield* db
-        .select({ id: schema.transaction.id })
+        .select({
+          id: schema.transaction.id,
+          date: schema.transaction.date,
+          merchant: schema.transaction.merchant,
+          amount: schema.transaction.amount,
+          categoryId: schema.transaction.categoryId,
+          accountId: schema.transaction.accountId,
+          note: schema.transaction.note
+        })
         .from(schema.transaction)
-        .where(eq(schema.transaction.id, parsed.id))
+        .where(and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId)))
         .limit(1);
 
       if (!existing) {
@@ -69,12 +90,27 @@ export const updateTransactionDetailAction = async (input: UpdateTransactionDeta
         });
       }
 
+      // Split parts must keep summing to the amount
+      if (parseFloat(existing.amount) !== parsed.amount) {
+        const [splitCount] = yield* db
+          .select({ count: count() })
+          .from(schema.transactionSplit)
+          .where(eq(schema.transactionSplit.transactionId, parsed.id));
+
+        if (splitCount && splitCount.count > 0) {
+          return yield* new ValidationError({
+            message: 'Remove the split before changing the amount',
+            field: 'amount'
+          });
+        }
+      }
+
       // If categoryId provided, verify it exists
       if (parsed.categoryId !== null) {
         const [existingCategory] = yield* db
           .select({ id: schema.category.id })
           .from(schema.category)
-          .where(eq(schema.category.id, parsed.categoryId))
+          .where(and(eq(schema.category.id, parsed.categoryId), eq(schema.category.userId, userId)))
           .limit(1);
 
         if (!existingCategory) {
@@ -86,6 +122,14 @@ export const updateTransactionDetailAction = async (input: UpdateTransactionDeta
         }
       }
 
+      if (parsed.accountId !== null && !(yield* getBankAccountById(userId, parsed.accountId))) {
+        return yield* new NotFoundError({
+          message: 'Account not found',
+          entity: 'bankAccount',
+          id: parsed.accountId
+        });
+      }
+
       // Update the transaction (originalHash stays the same)
       yield* db
         .update(schema.transaction)
@@ -93,16 +137,38 @@ export const updateTransactionDetailAction = async (input: UpdateTransactionDeta
           date: parsed.date,
           merchant: parsed.merchant,
           amount: String(parsed.amount),
-          categoryId: parsed.categoryId
+          // A category keeps its provenance until the user changes it
+          ...(parsed.categoryId !== existing.categoryId &&
+            categorization(parsed.categoryId, 'manual')),
+          accountId: parsed.accountId,
+          note
         })
-        .where(eq(schema.transaction.id, parsed.id));
+        .where(and(eq(schema.transaction.id, parsed.id), eq(schema.transaction.userId, userId)));
+
+      yield* activity.record(
+        userId,
+        fieldChanges(
+          'transaction',
+          parsed.id,
+          { ...existing, amount: parseFloat(existing.amount) },
+          { ...parsed, note }
+        )
+      );
+
+      if (parsed.accountId !== null) {
+        yield* linkTransfers(userId, [parsed.id]);
+      }
+
+      yield* checkBudgetAlerts(userId, session.user.email);
 
       return {
         id: parsed.id,
         date: parsed.date,
         merchant: parsed.merchant,
         amount: parsed.amount,
-        categoryId: parsed.categoryId
+        categoryId: parsed.categoryId,
+        accountId: parsed.accountId,
+        note
       };
     }).pipe(
       Effect.withSpan('action.transaction.updateDetail', {
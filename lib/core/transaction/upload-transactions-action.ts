@@ -1,285 +1,209 @@
 'use server';
 
-import { Effect, Match } from 'effect';
+import { Effect, Match, Schema as S } from 'effect';
 import { revalidatePath } from 'next/cache';
-import ExcelJS from 'exceljs';
-import { eq } from 'drizzle-orm';
-import * as fs from 'node:fs/promises';
-import * as os from 'node:os';
-import * as path from 'node:path';
 import { AppLayer } from '@/lib/layers';
 import { NextEffect } from '@/lib/next-effect';
 import { getSession } from '@/lib/services/auth/get-session';
-import { Db } from '@/lib/services/db/live-layer';
-import * as schema from '@/lib/services/db/schema';
 import { ValidationError } from '@/lib/core/errors';
-import { computeTransactionHash } from './hash';
-
-// Handelsbanken Excel row structure (row 10+, 1-indexed values array)
-// Index 2: Reskontradatum (booking date)
-// Index 3: Transaktionsdatum (transaction date)
-// Index 4: Text (merchant)
-// Index 5: Belopp (amount)
-// Index 6: Saldo (balance)
-type RawRow = {
+import { linkTransfers } from '@/lib/core/bank-account/transfers';
+import { checkBudgetAlerts } from '@/lib/core/budget/alerts';
+import { getImportProfiles } from '@/lib/core/import/queries';
+import { refreshUploadReconciliations } from '@/lib/core/import/upload-reconciliation';
+import { syncRecurringSeries } from '@/lib/core/recurring/series';
+import { expirePendingTransactions } from './pending';
+import { importUpload } from './import-upload';
+import { parseUpload, readUploadAccount, readUploadForm, type PlannedRow } from './prepare-upload';
+
+const ConfirmedRows = S.parseJson(S.Array(S.Number.pipe(S.int(), S.nonNegative())));
+
+export type AmbiguousRows = {
   date: Date;
   merchant: string;
   amount: number;
-  balance: number | null;
+  /** Identical rows in the file */
+  fileCount: number;
+  /** Of those, imported as new */
+  importedCount: number;
 };
 
-const DATA_START_ROW = 10;
-
 /**
- * Parse a date string from Handelsbanken format (YYYY-MM-DD)
+ * Identical same-day rows where new and already imported were told apart by
+ * count only, one entry per (date, amount, merchant).
  */
-const parseDate = (value: ExcelJS.CellValue): Date | null => {
-  if (value instanceof Date) return value;
-  if (typeof value === 'string') {
-    const date = new Date(value);
-    if (!isNaN(date.getTime())) return date;
+const ambiguousRows = (planned: ReadonlyArray<PlannedRow>, inserted: ReadonlySet<number>) => {
+  const byHash = new Map<string, AmbiguousRows>();
+  for (const { index, row, originalHash, ambiguous } of planned) {
+    if (!ambiguous) continue;
+    const entry = byHash.get(originalHash) ?? {
+      date: row.date,
+      merchant: row.merchant,
+      amount: row.amount,
+      fileCount: 0,
+      importedCount: 0
+    };
+    entry.fileCount += 1;
+    if (inserted.has(index)) entry.importedCount += 1;
+    byHash.set(originalHash, entry);
   }
-  return null;
+  return [...byHash.values()];
 };
 
 /**
- * Parse a numeric value (amount or balance)
- */
-const parseNumber = (value: ExcelJS.CellValue): number | null => {
-  if (typeof value === 'number') return value;
-  if (typeof value === 'string') {
-    const num = parseFloat(value.replace(',', '.'));
-    if (!isNaN(num)) return num;
-  }
-  return null;
-};
-
-/**
- * Parse Handelsbanken Excel file and extract transaction rows.
- * Handelsbanken format: Row 9 = headers, Row 10+ = data
- * Columns: Reskontradatum, Transaktionsdatum, Text, Belopp, Saldo
+ * Server action to import a bank export (xlsx, csv, camt.053 xml or OFX/QFX).
+ * Second step of the upload flow, after `previewUploadAction`.
  *
- * Uses temp file to work around exceljs Buffer type incompatibility.
- */
-const parseHandelsbankenExcel = (buffer: Buffer<ArrayBufferLike>) =>
-  Effect.gen(function* () {
-    // Write to temp file to work around exceljs Buffer type incompatibility
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(tempDir, `kostnad-upload-${Date.now()}.xlsx`);
-    yield* Effect.tryPromise({
-      try: () => fs.writeFile(tempFile, buffer),
-      catch: () => new ValidationError({ message: 'Failed to write temp file', field: 'file' })
-    });
-
-    const workbook = new ExcelJS.Workbook();
-    yield* Effect.tryPromise({
-      try: () => workbook.xlsx.readFile(tempFile),
-      catch: () => new ValidationError({ message: 'Failed to parse Excel file', field: 'file' })
-    });
-
-    // Cleanup temp file (ignore errors)
-    yield* Effect.tryPromise(() => fs.unlink(tempFile)).pipe(Effect.ignore);
-
-    const worksheet = workbook.worksheets[0];
-    if (!worksheet) {
-      return yield* new ValidationError({
-        message: 'Excel file has no worksheets',
-        field: 'file'
-      });
-    }
-
-    const rows: RawRow[] = [];
-    let minDate: Date | null = null;
-    let maxDate: Date | null = null;
-
-    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
-      if (rowNumber < DATA_START_ROW) return;
-
-      const values = row.values;
-      if (!Array.isArray(values) || values.length < 5) return;
-
-      // Handelsbanken format (1-indexed column values):
-      // Column B (index 1): Reskontradatum (booking date, empty for preliminary)
-      // Column C (index 2): Transaktionsdatum - use this for date
-      // Column D (index 3): Text (merchant)
-      // Column E (index 4): Belopp (amount)
-      // Column F (index 5): Saldo (balance)
-
-      const merchant = typeof values[3] === 'string' ? values[3].trim() : null;
-      if (!merchant) return;
-
-      // Skip preliminary transactions (Prel prefix + no Reskontradatum)
-      // These will be uploaded later when confirmed
-      const reskontradatum = parseDate(values[1]);
-      if (merchant.startsWith('Prel') && !reskontradatum) return;
-
-      const date = parseDate(values[2]);
-      if (!date) return;
-
-      const amount = parseNumber(values[4]);
-      if (amount === null) return;
-
-      const balance = parseNumber(values[5]);
-
-      rows.push({ date, merchant, amount, balance });
-
-      // Track date range
-      if (!minDate || date < minDate) minDate = date;
-      if (!maxDate || date > maxDate) maxDate = date;
-    });
-
-    return { rows, minDate, maxDate };
-  }).pipe(Effect.withSpan('parseHandelsbankenExcel'));
-
-/**
- * Server action to upload and process a Handelsbanken Excel file.
- *
- * 1. Receives file directly via FormData
- * 2. Parses Excel to extract transactions
- * 3. Creates an upload record
- * 4. Inserts transactions, deduplicating by (date, merchant, amount)
- * 5. Returns count of new vs skipped transactions
+ * 1. Receives file directly via FormData, plus `rows`: JSON array of the row
+ *    indexes the user confirmed in the preview (all new rows when omitted), and
+ *    optionally the `accountId` the upload belongs to
+ * 2. Detects the bank format and extracts transactions, the same way as the preview.
+ *    Unrecognized csv files return a preview for the column-mapping wizard,
+ *    which resubmits the file with a `mapping` (and optional `profileName`).
+ * 3. In one database transaction, holding the user's upload lock: deduplicates
+ *    by the bank's transaction id when the format has one, then by
+ *    (date, merchant, amount), counting identical rows of the same day. Duplicates
+ *    are never inserted, unless ambiguous and confirmed by the user.
+ * 4. Creates the upload record and inserts confirmed rows in batches, in the
+ *    same transaction, storing a per-row report (inserted, replaced pending,
+ *    duplicate, left out, preliminary or invalid, with the reason) on the upload.
+ *    Preliminary rows are inserted as pending; a booked row matching a pending
+ *    transaction updates it in place, keeping its category, note and tags.
+ * 5. Links transfers between the new rows and the user's other accounts,
+ *    expires pending transactions the bank never booked and checks the running
+ *    balance of the upload and its neighbours on the account
+ * 6. Returns count of new, replaced and skipped transactions, and the ambiguous
+ *    identical rows. A file without new rows fails instead of leaving an empty
+ *    upload in the history.
  */
 export const uploadTransactionsAction = async (formData: FormData) => {
   return await NextEffect.runPromise(
     Effect.gen(function* () {
-      // Extract file from FormData
-      const file = formData.get('file');
-      if (!file || !(file instanceof File)) {
-        return yield* new ValidationError({
-          message: 'No file provided',
-          field: 'file'
-        });
-      }
-
-      if (!file.name.endsWith('.xlsx')) {
-        return yield* new ValidationError({
-          message: 'Please select an Excel file (.xlsx)',
-          field: 'file'
-        });
-      }
+      const upload = yield* readUploadForm(formData);
+
+      const rowsField = formData.get('rows');
+      const confirmed =
+        typeof rowsField === 'string'
+          ? new Set(
+              yield* S.decodeUnknown(ConfirmedRows)(rowsField).pipe(
+                Effect.mapError(
+                  () => new ValidationError({ message: 'Invalid row selection', field: 'rows' })
+                )
+              )
+            )
+          : null;
 
       const session = yield* getSession();
-      const db = yield* Db;
+
+      const account = (yield* readUploadAccount(session.user.id, formData)) ?? null;
 
       yield* Effect.annotateCurrentSpan({
         'user.id': session.user.id,
-        'file.name': file.name,
-        'file.size': file.size
+        'file.name': upload.file.name,
+        'file.size': upload.file.size
       });
 
-      // Read file buffer
-      const arrayBuffer = yield* Effect.tryPromise({
-        try: () => file.arrayBuffer(),
-        catch: () => new ValidationError({ message: 'Failed to read file', field: 'file' })
-      });
-      const buffer = Buffer.from(arrayBuffer);
-
-      // Parse Excel
-      const { rows, minDate, maxDate } = yield* parseHandelsbankenExcel(buffer);
-
-      if (rows.length === 0) {
+      const parsed = yield* parseUpload(
+        {
+          fileName: upload.file.name,
+          buffer: upload.buffer,
+          mapping: upload.mapping,
+          profileName: upload.profileName
+        },
+        yield* getImportProfiles(session.user.id)
+      );
+      if (parsed.status === 'needsMapping') return parsed;
+
+      const { bank, rows, sources, rejected, minDate, maxDate } = parsed;
+
+      const result = yield* importUpload(
+        session.user.id,
+        {
+          fileName: upload.file.name,
+          bank: bank.id,
+          accountId: account?.id ?? null,
+          rows,
+          sources,
+          rejected,
+          minDate,
+          maxDate
+        },
+        confirmed
+      );
+      if (result.status === 'nothingSelected') {
         return yield* new ValidationError({
-          message: 'No valid transactions found in Excel file',
-          field: 'file'
+          message: 'No transactions selected for import',
+          field: 'rows'
         });
       }
-
-      // Create upload record
-      const [uploadRecord] = yield* db
-        .insert(schema.upload)
-        .values({
-          fileName: file.name,
-          uploadedBy: session.user.id,
-          transactionCount: 0, // Updated after deduplication
-          dateRangeStart: minDate,
-          dateRangeEnd: maxDate
-        })
-        .returning();
-
-      // Fetch all merchant mappings for auto-categorization
-      const mappings = yield* db.select().from(schema.merchantMapping);
-
-      /**
-       * Find matching category for a merchant using case-insensitive substring match.
-       * Returns the categoryId if found, null if no match or if merchant is multi-merchant.
-       * Multi-merchants (umbrella merchants) always require manual review.
-       */
-      const findCategoryForMerchant = (merchant: string): string | null => {
-        const merchantLower = merchant.toLowerCase();
-        for (const mapping of mappings) {
-          if (merchantLower.includes(mapping.merchantPattern.toLowerCase())) {
-            // Skip multi-merchants - they require manual categorization
-            if (mapping.isMultiMerchant) {
-              return null;
-            }
-            return mapping.categoryId;
-          }
-        }
-        return null;
-      };
-
-      // Check for duplicates and insert new transactions
-      // A transaction is a duplicate if originalHash already exists
-      let newCount = 0;
-      let skippedCount = 0;
-      let categorizedCount = 0;
-
-      for (const row of rows) {
-        // Compute hash for duplicate detection
-        const originalHash = computeTransactionHash(row.date, row.amount, row.merchant);
-
-        // Check for existing transaction with same hash
-        const existing = yield* db
-          .select({ id: schema.transaction.id })
-          .from(schema.transaction)
-          .where(eq(schema.transaction.originalHash, originalHash))
-          .limit(1);
-
-        if (existing.length > 0) {
-          skippedCount++;
-          continue;
-        }
-
-        // Auto-categorize using merchant mappings
-        const categoryId = findCategoryForMerchant(row.merchant);
-        if (categoryId) {
-          categorizedCount++;
-        }
-
-        // Insert new transaction
-        yield* db.insert(schema.transaction).values({
-          date: row.date,
-          merchant: row.merchant,
-          amount: String(row.amount),
-          balance: row.balance !== null ? String(row.balance) : null,
-          uploadId: uploadRecord.id,
-          categoryId,
-          originalHash
+      if (result.status === 'nothingNew') {
+        return yield* new ValidationError({
+          message: 'All transactions in this file are already imported',
+          field: 'file'
         });
-
-        newCount++;
+      }
+      const { uploadId, planned, toInsert, insertedIds, outcomes, report, reconciledCount } =
+        result;
+
+      const transferCount = account
+        ? yield* linkTransfers(session.user.id, [...insertedIds.values()])
+        : 0;
+
+      const expiredCount = yield* expirePendingTransactions(session.user.id);
+
+      const inserted = new Set(insertedIds.keys());
+      const skippedCount = outcomes.filter(row => row.duplicate && !inserted.has(row.index)).length;
+      const excludedCount = planned.length - skippedCount - inserted.size;
+      const ambiguous = ambiguousRows(planned, inserted);
+      const categorizedCount = toInsert.filter(
+        row => inserted.has(row.index) && row.categoryId !== null
+      ).length;
+
+      yield* checkBudgetAlerts(session.user.id, session.user.email);
+
+      if (minDate && maxDate) {
+        yield* refreshUploadReconciliations(session.user.id, {
+          uploadId,
+          accountId: account?.id ?? null,
+          start: minDate,
+          end: maxDate
+        }).pipe(
+          Effect.catchAll(error => Effect.logWarning('Balance reconciliation failed', error))
+        );
       }
 
-      // Update upload record with actual transaction count
-      yield* db
-        .update(schema.upload)
-        .set({ transactionCount: newCount })
-        .where(eq(schema.upload.id, uploadRecord.id));
+      // New charges can start, continue or change the price of a subscription
+      yield* syncRecurringSeries(session.user.id).pipe(
+        Effect.catchAll(error => Effect.logWarning('Recurring series detection failed', error))
+      );
 
       yield* Effect.annotateCurrentSpan({
-        'transaction.new': newCount,
+        'transaction.new': inserted.size - reconciledCount,
+        'transaction.reconciled': reconciledCount,
+        'transaction.expired': expiredCount,
         'transaction.skipped': skippedCount,
+        'transaction.excluded': excludedCount,
         'transaction.categorized': categorizedCount,
-        'upload.id': uploadRecord.id
+        'transaction.transfers': transferCount,
+        'transaction.ambiguous': ambiguous.length,
+        'transaction.rejected': rejected.length,
+        'upload.id': uploadId,
+        'upload.bank': bank.id
       });
 
       return {
-        uploadId: uploadRecord.id,
-        fileName: file.name,
-        newCount,
+        status: 'imported' as const,
+        uploadId,
+        fileName: upload.file.name,
+        bank: bank.name,
+        newCount: inserted.size - reconciledCount,
+        reconciledCount,
+        expiredCount,
         skippedCount,
+        excludedCount,
         categorizedCount,
+        transferCount,
+        ambiguous,
+        report,
         dateRangeStart: minDate,
         dateRangeEnd: maxDate
       };
@@ -301,6 +225,12 @@ export const uploadTransactionsAction = async (formData: FormData) => {
                 message: error.message
               })
             ),
+            Match.when('NotFoundError', () =>
+              Effect.succeed({
+                _tag: 'Error' as const,
+                message: error.message
+              })
+            ),
             Match.orElse(() =>
               Effect.succeed({
                 _tag: 'Error' as const,
@@ -310,6 +240,9 @@ export const uploadTransactionsAction = async (formData: FormData) => {
           ),
         onSuccess: result =>
           Effect.sync(() => {
+            if (result.status === 'needsMapping') {
+              return { _tag: 'NeedsMapping' as const, ...result };
+            }
             revalidatePath('/');
             return { _tag: 'Success' as const, ...result };
           })
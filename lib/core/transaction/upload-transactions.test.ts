@@ -15,6 +15,7 @@ type ParsedRow = {
   merchant: string;
   amount: number;
   balance: number | null;
+  pending?: boolean;
 };
 
 const parseDate = (value: ExcelJS.CellValue): Date | null => {
@@ -62,13 +63,14 @@ const parseHandelsbankenExcel = (filePath: string) =>
       // Column E (index 4): Belopp (amount)
       // Column F (index 5): Saldo (balance)
 
-      const merchant = typeof values[3] === 'string' ? values[3].trim() : null;
-      if (!merchant) return;
+      const text = typeof values[3] === 'string' ? values[3].trim() : null;
+      if (!text) return;
 
-      // Skip preliminary transactions (Prel prefix + no Reskontradatum)
-      // These will be uploaded later when confirmed
+      // Preliminary transactions (Prel prefix + no Reskontradatum) are kept as
+      // pending until the booked row replaces them
       const reskontradatum = parseDate(values[1]);
-      if (merchant.startsWith('Prel') && !reskontradatum) return;
+      const pending = text.startsWith('Prel') && !reskontradatum;
+      const merchant = pending ? text.replace(/^Prel\s*/, '') : text;
 
       const date = parseDate(values[2]);
       if (!date) return;
@@ -76,9 +78,9 @@ const parseHandelsbankenExcel = (filePath: string) =>
       const amount = parseNumber(values[4]);
       if (amount === null) return;
 
-      const balance = parseNumber(values[5]);
+      const balance = pending ? null : parseNumber(values[5]);
 
-      rows.push({ date, merchant, amount, balance });
+      rows.push({ date, merchant, amount, balance, pending });
 
       // Track date range
       if (!minDate || date < minDate) minDate = date;
@@ -152,7 +154,7 @@ describe('Handelsbanken Excel parsing', () => {
     })
   );
 
-  it.live('excludes preliminary transactions (Prel with no Reskontradatum)', () =>
+  it.live('flags preliminary transactions (Prel with no Reskontradatum) as pending', () =>
     Effect.gen(function* () {
       const filePath = path.join(
         process.cwd(),
@@ -161,15 +163,12 @@ describe('Handelsbanken Excel parsing', () => {
 
       const { rows } = yield* parseHandelsbankenExcel(filePath);
 
-      // No rows should have Prel prefix (those without Reskontradatum are filtered)
-      // Prel transactions that DO have Reskontradatum would be kept, but
-      // typically Prel = preliminary = no booking date yet
-      const prelWithoutBooking = rows.filter(r => r.merchant.startsWith('Prel'));
-
-      // If any Prel transactions remain, they must have had a Reskontradatum
-      // In the typical case, all Prel transactions lack Reskontradatum and are filtered
-      // This test ensures no preliminary transactions sneak through
-      expect(prelWithoutBooking.length).toBe(0);
+      // Preliminary rows are kept without the Prel prefix, flagged as pending
+      // and without a balance, until the booked row replaces them
+      expect(rows.filter(r => r.merchant.startsWith('Prel')).length).toBe(0);
+      for (const row of rows.filter(r => r.pending)) {
+        expect(row.balance).toBeNull();
+      }
     })
   );
 });
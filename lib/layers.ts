@@ -3,6 +3,15 @@ import { Db } from './services/db/live-layer';
 import { Auth } from './services/auth/live-layer';
 import { AI } from './services/anthropic/live-layer';
 import { Email } from './services/email/live-layer';
+import { Activity } from './services/activity/live-layer';
+import { Storage } from './services/storage/live-layer';
 
 // Combined app layer
-export const AppLayer = Layer.mergeAll(Auth.Live, Db.Live, AI.Live, Email.Live);
+export const AppLayer = Layer.mergeAll(
+  Auth.Live,
+  Db.Live,
+  AI.Live,
+  Email.Live,
+  Activity.Live,
+  Storage.Live
+);
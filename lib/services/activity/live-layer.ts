@@ -0,0 +1,64 @@
+import { Effect, Layer } from 'effect';
+import { Db } from '../db/live-layer';
+import * as schema from '../db/schema';
+
+export type ActivityEntity = schema.Activity['entity'];
+
+export type ActivityEntry = {
+  entity: ActivityEntity;
+  entityId: string;
+  action: schema.Activity['action'];
+  /** Changed field, for updates */
+  field?: string;
+  /** Stored as JSON; dates become ISO strings */
+  oldValue?: unknown;
+  newValue?: unknown;
+  /** The activity row this entry reverts */
+  revertOf?: string;
+};
+
+// Rows per insert, to stay well under Postgres' bind parameter limit on bulk edits
+const INSERT_CHUNK_SIZE = 1000;
+
+// Service definition
+// v4 migration: Change Effect.Service to ServiceMap.Service
+export class Activity extends Effect.Service<Activity>()('@app/Activity', {
+  effect: Effect.gen(function* () {
+    const db = yield* Db;
+
+    /**
+     * Append entries to the audit trail for changes made by a user. Call it
+     * inside the mutation's db transaction where there is one, so a failed
+     * mutation leaves no entries.
+     */
+    const record = (userId: string, entries: ReadonlyArray<ActivityEntry>) =>
+      Effect.gen(function* () {
+        for (let i = 0; i < entries.length; i += INSERT_CHUNK_SIZE) {
+          yield* db.insert(schema.activity).values(
+            entries.slice(i, i + INSERT_CHUNK_SIZE).map(entry => ({
+              userId,
+              entity: entry.entity,
+              entityId: entry.entityId,
+              action: entry.action,
+              field: entry.field ?? null,
+              oldValue: entry.oldValue ?? null,
+              newValue: entry.newValue ?? null,
+              revertOf: entry.revertOf ?? null
+            }))
+          );
+        }
+      }).pipe(
+        Effect.withSpan('Activity.record', {
+          attributes: { 'activity.count': entries.length }
+        })
+      );
+
+    return { record } as const;
+  })
+}) {
+  // Base layer (has unsatisfied Db dependency)
+  static layer = this.Default;
+
+  // Composed layer with all dependencies satisfied
+  static Live = this.layer.pipe(Layer.provide(Db.Live));
+}
@@ -0,0 +1,23 @@
+ALTER TABLE "category" DROP CONSTRAINT "category_name_unique";--> statement-breakpoint
+ALTER TABLE "merchant_mapping" DROP CONSTRAINT "merchant_mapping_merchantPattern_unique";--> statement-breakpoint
+ALTER TABLE "category" ADD COLUMN "userId" text;--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD COLUMN "userId" text;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "userId" text;--> statement-breakpoint
+UPDATE "transaction" SET "userId" = "upload"."uploadedBy" FROM "upload" WHERE "transaction"."uploadId" = "upload"."id";--> statement-breakpoint
+UPDATE "transaction" SET "userId" = (SELECT "id" FROM "user" ORDER BY "createdAt" LIMIT 1) WHERE "userId" IS NULL;--> statement-breakpoint
+UPDATE "category" SET "userId" = (SELECT "id" FROM "user" ORDER BY "createdAt" LIMIT 1);--> statement-breakpoint
+UPDATE "merchant_mapping" SET "userId" = (SELECT "id" FROM "user" ORDER BY "createdAt" LIMIT 1);--> statement-breakpoint
+-- Categories and mappings were shared by all users: the earliest user keeps them and every other user gets a copy
+INSERT INTO "category" ("id", "userId", "name", "description", "icon", "isDefault", "createdAt", "updatedAt") SELECT gen_random_uuid()::text, "user"."id", "category"."name", "category"."description", "category"."icon", "category"."isDefault", "category"."createdAt", "category"."updatedAt" FROM "category" JOIN "user" ON "user"."id" <> "category"."userId";--> statement-breakpoint
+INSERT INTO "merchant_mapping" ("id", "userId", "merchantPattern", "categoryId", "isMultiMerchant", "createdAt", "updatedAt") SELECT gen_random_uuid()::text, "user"."id", "merchant_mapping"."merchantPattern", "copy"."id", "merchant_mapping"."isMultiMerchant", "merchant_mapping"."createdAt", "merchant_mapping"."updatedAt" FROM "merchant_mapping" JOIN "user" ON "user"."id" <> "merchant_mapping"."userId" LEFT JOIN "category" AS "original" ON "original"."id" = "merchant_mapping"."categoryId" LEFT JOIN "category" AS "copy" ON "copy"."userId" = "user"."id" AND "copy"."name" = "original"."name";--> statement-breakpoint
+-- Other users' transactions move to their own copy of the category (names were unique)
+UPDATE "transaction" SET "categoryId" = "copy"."id" FROM "category" AS "original", "category" AS "copy" WHERE "transaction"."categoryId" = "original"."id" AND "original"."userId" <> "transaction"."userId" AND "copy"."userId" = "transaction"."userId" AND "copy"."name" = "original"."name";--> statement-breakpoint
+ALTER TABLE "category" ALTER COLUMN "userId" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ALTER COLUMN "userId" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "transaction" ALTER COLUMN "userId" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "category" ADD CONSTRAINT "category_userId_name_unique" UNIQUE("userId","name");--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD CONSTRAINT "merchant_mapping_userId_merchantPattern_unique" UNIQUE("userId","merchantPattern");--> statement-breakpoint
+CREATE INDEX "transaction_user_date_idx" ON "transaction" ("userId","date");--> statement-breakpoint
+ALTER TABLE "category" ADD CONSTRAINT "category_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD CONSTRAINT "merchant_mapping_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "transaction" ADD CONSTRAINT "transaction_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;
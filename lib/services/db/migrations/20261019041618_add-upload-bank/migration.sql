@@ -0,0 +1,3 @@
+ALTER TABLE "upload" ADD COLUMN "bank" text;--> statement-breakpoint
+-- Uploads before bank detection were all Handelsbanken exports
+UPDATE "upload" SET "bank" = 'handelsbanken';
@@ -0,0 +1,19 @@
+CREATE TABLE "import_profile" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"headerSignature" text,
+	"headerRow" integer,
+	"dateColumn" integer NOT NULL,
+	"merchantColumn" integer NOT NULL,
+	"amountColumn" integer NOT NULL,
+	"balanceColumn" integer,
+	"decimalSeparator" text NOT NULL,
+	"dateFormat" text NOT NULL,
+	"signConvention" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "import_profile_userId_name_unique" UNIQUE("userId","name")
+);
+--> statement-breakpoint
+ALTER TABLE "import_profile" ADD CONSTRAINT "import_profile_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;
\ No newline at end of file
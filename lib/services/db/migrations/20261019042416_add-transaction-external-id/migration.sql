@@ -0,0 +1,3 @@
+ALTER TABLE "transaction" ADD COLUMN "externalId" text;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "bookingDate" timestamp;--> statement-breakpoint
+CREATE INDEX "transaction_user_external_id_idx" ON "transaction" ("userId","externalId");
\ No newline at end of file
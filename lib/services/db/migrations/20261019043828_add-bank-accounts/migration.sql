@@ -0,0 +1,20 @@
+CREATE TABLE "bank_account" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"bank" text,
+	"currency" text DEFAULT 'SEK' NOT NULL,
+	"type" text DEFAULT 'checking' NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bank_account_userId_name_unique" UNIQUE("userId","name")
+);
+--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "accountId" text;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "transferPeerId" text;--> statement-breakpoint
+ALTER TABLE "upload" ADD COLUMN "accountId" text;--> statement-breakpoint
+CREATE INDEX "transaction_account_date_idx" ON "transaction" ("accountId","date");--> statement-breakpoint
+ALTER TABLE "bank_account" ADD CONSTRAINT "bank_account_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "transaction" ADD CONSTRAINT "transaction_accountId_bank_account_id_fkey" FOREIGN KEY ("accountId") REFERENCES "bank_account"("id") ON DELETE SET NULL;--> statement-breakpoint
+ALTER TABLE "transaction" ADD CONSTRAINT "transaction_transferPeerId_transaction_id_fkey" FOREIGN KEY ("transferPeerId") REFERENCES "transaction"("id") ON DELETE SET NULL;--> statement-breakpoint
+ALTER TABLE "upload" ADD CONSTRAINT "upload_accountId_bank_account_id_fkey" FOREIGN KEY ("accountId") REFERENCES "bank_account"("id") ON DELETE SET NULL;
\ No newline at end of file
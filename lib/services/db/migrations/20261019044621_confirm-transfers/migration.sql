@@ -0,0 +1 @@
+ALTER TABLE "transaction" ADD COLUMN "transferConfirmed" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "budget" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"categoryId" text NOT NULL,
+	"period" text NOT NULL,
+	"amount" numeric(12,2) NOT NULL,
+	"rollover" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "budget_userId_categoryId_unique" UNIQUE("userId","categoryId")
+);
+--> statement-breakpoint
+CREATE TABLE "budget_alert" (
+	"id" text PRIMARY KEY,
+	"budgetId" text NOT NULL,
+	"periodStart" timestamp NOT NULL,
+	"threshold" integer NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "budget_alert_budgetId_periodStart_threshold_unique" UNIQUE("budgetId","periodStart","threshold")
+);
+--> statement-breakpoint
+ALTER TABLE "budget" ADD CONSTRAINT "budget_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "budget" ADD CONSTRAINT "budget_categoryId_category_id_fkey" FOREIGN KEY ("categoryId") REFERENCES "category"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "budget_alert" ADD CONSTRAINT "budget_alert_budgetId_budget_id_fkey" FOREIGN KEY ("budgetId") REFERENCES "budget"("id") ON DELETE CASCADE;
\ No newline at end of file
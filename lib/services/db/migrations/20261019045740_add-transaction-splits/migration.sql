@@ -0,0 +1,12 @@
+CREATE TABLE "transaction_split" (
+	"id" text PRIMARY KEY,
+	"transactionId" text NOT NULL,
+	"categoryId" text,
+	"amount" numeric(12,2) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "transaction_split_transaction_idx" ON "transaction_split" ("transactionId");--> statement-breakpoint
+CREATE INDEX "transaction_split_category_idx" ON "transaction_split" ("categoryId");--> statement-breakpoint
+ALTER TABLE "transaction_split" ADD CONSTRAINT "transaction_split_transactionId_transaction_id_fkey" FOREIGN KEY ("transactionId") REFERENCES "transaction"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "transaction_split" ADD CONSTRAINT "transaction_split_categoryId_category_id_fkey" FOREIGN KEY ("categoryId") REFERENCES "category"("id");
\ No newline at end of file
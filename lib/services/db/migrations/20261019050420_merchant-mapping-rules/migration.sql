@@ -0,0 +1,7 @@
+ALTER TABLE "merchant_mapping" DROP CONSTRAINT "merchant_mapping_userId_merchantPattern_unique";--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD COLUMN "matchType" text DEFAULT 'contains' NOT NULL;--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD COLUMN "amountSign" text;--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD COLUMN "minAmount" numeric(12,2);--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD COLUMN "maxAmount" numeric(12,2);--> statement-breakpoint
+ALTER TABLE "merchant_mapping" ADD COLUMN "priority" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "merchant_mapping_plain_pattern_idx" ON "merchant_mapping" ("userId","merchantPattern") WHERE "matchType" = 'contains' and "amountSign" is null and "minAmount" is null and "maxAmount" is null;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transaction" ADD COLUMN "categorySource" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "transaction" ADD COLUMN "categoryRuleId" text;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "categorizedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "transaction" ADD CONSTRAINT "transaction_categoryRuleId_merchant_mapping_id_fkey" FOREIGN KEY ("categoryRuleId") REFERENCES "merchant_mapping"("id") ON DELETE SET NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "activity" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"entity" text NOT NULL,
+	"entityId" text NOT NULL,
+	"action" text NOT NULL,
+	"field" text,
+	"oldValue" jsonb,
+	"newValue" jsonb,
+	"revertOf" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "activity_entity_idx" ON "activity" ("entity","entityId","createdAt");--> statement-breakpoint
+CREATE INDEX "activity_user_created_idx" ON "activity" ("userId","createdAt");--> statement-breakpoint
+ALTER TABLE "activity" ADD CONSTRAINT "activity_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "activity" ADD CONSTRAINT "activity_revertOf_activity_id_fkey" FOREIGN KEY ("revertOf") REFERENCES "activity"("id");
\ No newline at end of file
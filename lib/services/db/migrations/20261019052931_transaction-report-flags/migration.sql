@@ -0,0 +1,2 @@
+ALTER TABLE "transaction" ADD COLUMN "markedTransfer" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "excludedFromReports" boolean DEFAULT false NOT NULL;
\ No newline at end of file
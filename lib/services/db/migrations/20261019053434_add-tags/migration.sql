@@ -0,0 +1,20 @@
+CREATE TABLE "tag" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tag_userId_name_unique" UNIQUE("userId","name")
+);
+--> statement-breakpoint
+CREATE TABLE "transaction_tag" (
+	"transactionId" text NOT NULL,
+	"tagId" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transaction_tag_transactionId_tagId_unique" UNIQUE("transactionId","tagId")
+);
+--> statement-breakpoint
+CREATE INDEX "transaction_tag_tag_idx" ON "transaction_tag" ("tagId");--> statement-breakpoint
+ALTER TABLE "tag" ADD CONSTRAINT "tag_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "transaction_tag" ADD CONSTRAINT "transaction_tag_transactionId_transaction_id_fkey" FOREIGN KEY ("transactionId") REFERENCES "transaction"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "transaction_tag" ADD CONSTRAINT "transaction_tag_tagId_tag_id_fkey" FOREIGN KEY ("tagId") REFERENCES "tag"("id") ON DELETE CASCADE;
\ No newline at end of file
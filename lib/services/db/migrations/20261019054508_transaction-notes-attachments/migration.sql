@@ -0,0 +1,15 @@
+CREATE TABLE "attachment" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"transactionId" text NOT NULL,
+	"fileName" text NOT NULL,
+	"contentType" text NOT NULL,
+	"size" integer NOT NULL,
+	"storageKey" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "note" text;--> statement-breakpoint
+CREATE INDEX "attachment_transaction_idx" ON "attachment" ("transactionId");--> statement-breakpoint
+ALTER TABLE "attachment" ADD CONSTRAINT "attachment_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "attachment" ADD CONSTRAINT "attachment_transactionId_transaction_id_fkey" FOREIGN KEY ("transactionId") REFERENCES "transaction"("id") ON DELETE CASCADE;
\ No newline at end of file
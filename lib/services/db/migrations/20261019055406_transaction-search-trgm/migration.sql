@@ -0,0 +1,3 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "transaction_merchant_trgm_idx" ON "transaction" USING gin ("merchant" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "transaction_note_trgm_idx" ON "transaction" USING gin ("note" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "saved_view" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"page" text NOT NULL,
+	"query" text NOT NULL,
+	"pinned" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "saved_view_userId_name_unique" UNIQUE("userId","name")
+);
+--> statement-breakpoint
+CREATE TABLE "saved_view_share" (
+	"viewId" text NOT NULL,
+	"userId" text NOT NULL,
+	"pinned" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "saved_view_share_viewId_userId_unique" UNIQUE("viewId","userId")
+);
+--> statement-breakpoint
+CREATE INDEX "saved_view_share_user_idx" ON "saved_view_share" ("userId");--> statement-breakpoint
+ALTER TABLE "saved_view" ADD CONSTRAINT "saved_view_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "saved_view_share" ADD CONSTRAINT "saved_view_share_viewId_saved_view_id_fkey" FOREIGN KEY ("viewId") REFERENCES "saved_view"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "saved_view_share" ADD CONSTRAINT "saved_view_share_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "recurring_series" (
+	"id" text PRIMARY KEY,
+	"userId" text NOT NULL,
+	"key" text NOT NULL,
+	"merchant" text NOT NULL,
+	"name" text,
+	"cadence" text NOT NULL,
+	"status" text DEFAULT 'detected' NOT NULL,
+	"amount" numeric(12,2) NOT NULL,
+	"firstDate" timestamp NOT NULL,
+	"lastDate" timestamp NOT NULL,
+	"nextDate" timestamp NOT NULL,
+	"transactionCount" integer NOT NULL,
+	"lastTransactionId" text,
+	"priceHistory" jsonb NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "recurring_series_userId_key_unique" UNIQUE("userId","key")
+);
+--> statement-breakpoint
+ALTER TABLE "recurring_series" ADD CONSTRAINT "recurring_series_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;--> statement-breakpoint
+ALTER TABLE "recurring_series" ADD CONSTRAINT "recurring_series_lastTransactionId_transaction_id_fkey" FOREIGN KEY ("lastTransactionId") REFERENCES "transaction"("id") ON DELETE SET NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "upload" ADD COLUMN "report" jsonb;
\ No newline at end of file
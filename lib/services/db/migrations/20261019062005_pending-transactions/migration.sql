@@ -0,0 +1,3 @@
+ALTER TABLE "transaction" ADD COLUMN "status" text DEFAULT 'booked' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "pendingHash" text;--> statement-breakpoint
+CREATE INDEX "transaction_user_status_idx" ON "transaction" ("userId","status");
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "transaction_user_external_id_idx";--> statement-breakpoint
+UPDATE "transaction" SET "externalId" = NULL WHERE "id" IN (SELECT "id" FROM (SELECT "id", row_number() OVER (PARTITION BY "userId", "externalId" ORDER BY "createdAt", "id") AS "occurrence" FROM "transaction" WHERE "externalId" IS NOT NULL) AS "repeated" WHERE "occurrence" > 1);--> statement-breakpoint
+CREATE UNIQUE INDEX "transaction_user_external_id_idx" ON "transaction" ("userId","externalId");
@@ -0,0 +1,3 @@
+ALTER TABLE "transaction" ADD COLUMN "bookedUploadId" text;--> statement-breakpoint
+ALTER TABLE "transaction" ADD COLUMN "pendingVersion" jsonb;--> statement-breakpoint
+ALTER TABLE "transaction" ADD CONSTRAINT "transaction_bookedUploadId_upload_id_fkey" FOREIGN KEY ("bookedUploadId") REFERENCES "upload"("id") ON DELETE SET NULL;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "household_member" (
+	"userId" text NOT NULL,
+	"email" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "household_member_userId_email_unique" UNIQUE("userId","email")
+);
+--> statement-breakpoint
+CREATE INDEX "household_member_email_idx" ON "household_member" ("email");--> statement-breakpoint
+ALTER TABLE "household_member" ADD CONSTRAINT "household_member_userId_user_id_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "upload" ADD COLUMN "reconciliation" jsonb;
\ No newline at end of file
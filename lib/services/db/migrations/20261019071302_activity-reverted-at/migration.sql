@@ -0,0 +1,2 @@
+ALTER TABLE "activity" ADD COLUMN "revertedAt" timestamp;--> statement-breakpoint
+UPDATE "activity" SET "revertedAt" = "revert"."createdAt" FROM "activity" AS "revert" WHERE "revert"."revertOf" = "activity"."id";
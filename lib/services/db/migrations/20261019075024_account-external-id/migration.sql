@@ -0,0 +1,2 @@
+DROP INDEX "transaction_user_external_id_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "transaction_user_account_external_id_idx" ON "transaction" ("userId","accountId","externalId");
\ No newline at end of file
@@ -6,38 +6,18 @@ import {
   unique,
   integer,
   decimal,
-  index
+  index,
+  jsonb,
+  uniqueIndex,
+  type AnyPgColumn
 } from 'drizzle-orm/pg-core';
-import { defineRelations } from 'drizzle-orm';
+import { defineRelations, sql } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
-
-////////////////////////////////////////////////////////////////////////
-// KOSTNAD - Expense tracking tables
-////////////////////////////////////////////////////////////////////////
-export const category = pgTable(
-  'category',
-  {
-    id: text('id')
-      .primaryKey()
-      .$defaultFn(() => createId()),
-    name: text('name').notNull(),
-    description: text('description'),
-    icon: text('icon'),
-    isDefault: boolean('isDefault').notNull().default(false),
-    createdAt: timestamp('createdAt').notNull().defaultNow(),
-    updatedAt: timestamp('updatedAt')
-      .notNull()
-      .defaultNow()
-      .$onUpdate(() => new Date())
-  },
-  t => [unique().on(t.name)]
-);
-export type Category = typeof category.$inferSelect;
-export type InsertCategory = typeof category.$inferInsert;
+import type { ImportReportRow } from '@/lib/core/import/report';
 
 ////////////////////////////////////////////////////////////////////////
 // AUTH - Better-auth expects singular model names
-// (Defined before upload table since upload.uploadedBy references user.id)
+// (Defined first since every KOSTNAD table references user.id)
 ////////////////////////////////////////////////////////////////////////
 export const user = pgTable('user', {
   id: text('id')
@@ -65,6 +45,62 @@ export const user = pgTable('user', {
 export type User = typeof user.$inferSelect;
 export type InsertUser = typeof user.$inferInsert;
 
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Expense tracking tables
+////////////////////////////////////////////////////////////////////////
+export const category = pgTable(
+  'category',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    description: text('description'),
+    icon: text('icon'),
+    isDefault: boolean('isDefault').notNull().default(false),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.name)]
+);
+export type Category = typeof category.$inferSelect;
+export type InsertCategory = typeof category.$inferInsert;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Bank accounts (named bankAccount; `account` is the better-auth table)
+////////////////////////////////////////////////////////////////////////
+export const bankAccount = pgTable(
+  'bank_account',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    bank: text('bank'), // Bank parser id, e.g. "swedbank"
+    currency: text('currency').notNull().default('SEK'),
+    type: text('type', { enum: ['checking', 'savings', 'creditCard'] })
+      .notNull()
+      .default('checking'),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.name)]
+);
+export type BankAccount = typeof bankAccount.$inferSelect;
+export type InsertBankAccount = typeof bankAccount.$inferInsert;
+
 ////////////////////////////////////////////////////////////////////////
 // KOSTNAD - Upload tracking
 ////////////////////////////////////////////////////////////////////////
@@ -73,12 +109,22 @@ export const upload = pgTable('upload', {
     .primaryKey()
     .$defaultFn(() => createId()),
   fileName: text('fileName').notNull(),
+  bank: text('bank'), // Detected bank parser id, e.g. "swedbank"
+  accountId: text('accountId').references(() => bankAccount.id, { onDelete: 'set null' }),
   uploadedBy: text('uploadedBy')
     .notNull()
     .references(() => user.id, { onDelete: 'cascade' }),
   transactionCount: integer('transactionCount').notNull().default(0),
   dateRangeStart: timestamp('dateRangeStart'),
   dateRangeEnd: timestamp('dateRangeEnd'),
+  // Outcome of every file row; null for uploads made before reports existed
+  report: jsonb('report').$type<ImportReportRow[]>(),
+  // Running-balance check of the upload's rows, refreshed when uploads on the
+  // same account change; null before the first check
+  reconciliation: jsonb('reconciliation').$type<{
+    checked: number;
+    gaps: Array<{ date: string; previousId: string; id: string; expected: number; actual: number }>;
+  }>(),
   createdAt: timestamp('createdAt').notNull().defaultNow()
 });
 export type Upload = typeof upload.$inferSelect;
@@ -93,37 +139,208 @@ export const transaction = pgTable(
     id: text('id')
       .primaryKey()
       .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
     date: timestamp('date').notNull(),
     merchant: text('merchant').notNull(),
     amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
     balance: decimal('balance', { precision: 12, scale: 2 }),
     categoryId: text('categoryId').references(() => category.id),
+    // How categoryId was set: by a merchant rule (on upload or re-run), an
+    // accepted AI suggestion, bulk categorization (of a merchant's transactions
+    // or a bulk edit), or a manual edit. Null for uncategorized rows and rows categorized before
+    // this was tracked
+    categorySource: text('categorySource', { enum: ['rule', 'ai', 'bulk', 'manual'] }),
+    // Merchant mapping that set the category, for rule sources and bulk
+    // categorization of a merchant's transactions (null for a bulk edit)
+    categoryRuleId: text('categoryRuleId').references(() => merchantMapping.id, {
+      onDelete: 'set null'
+    }),
+    categorizedAt: timestamp('categorizedAt'),
+    accountId: text('accountId').references(() => bankAccount.id, { onDelete: 'set null' }),
+    // Other leg of a detected transfer between the user's own accounts
+    transferPeerId: text('transferPeerId').references((): AnyPgColumn => transaction.id, {
+      onDelete: 'set null'
+    }),
+    // Set when the user confirms the transfer; confirmed transfers are excluded from totals
+    transferConfirmed: boolean('transferConfirmed').notNull().default(false),
+    // Marked as a transfer by hand, for transfers without a detected peer (such as
+    // to an account that is not uploaded); excluded from totals like confirmed transfers
+    markedTransfer: boolean('markedTransfer').notNull().default(false),
+    // Left out of income/expense totals, analytics and trends by the user
+    excludedFromReports: boolean('excludedFromReports').notNull().default(false),
+    // Free-text note by the user, searched along with the merchant
+    note: text('note'),
     // Nullable for manually created transactions
     uploadId: text('uploadId').references(() => upload.id, { onDelete: 'cascade' }),
     // Hash of original values (date|amount|merchant) for duplicate detection
     // Original values preserved even when user edits date/merchant/amount
     originalHash: text('originalHash').notNull(),
+    // Bank's own transaction id (camt.053 AcctSvcrRef, OFX FITID), checked before originalHash
+    externalId: text('externalId'),
+    // Date the bank booked the transaction, when the export provides it
+    bookingDate: timestamp('bookingDate'),
+    // Preliminary rows (Handelsbanken "Prel") are imported as pending and
+    // replaced in place by their booked version from a later upload. Pending rows
+    // that are never booked expire and are left out of totals
+    status: text('status', { enum: ['booked', 'pending', 'expired'] })
+      .notNull()
+      .default('booked'),
+    // originalHash the row had while pending, so re-uploading the older file
+    // does not import the preliminary row again
+    pendingHash: text('pendingHash'),
+    // Upload whose booked row replaced this pending row; the row keeps the
+    // uploadId that created it. Rolling that upload back restores pendingVersion
+    bookedUploadId: text('bookedUploadId').references(() => upload.id, {
+      onDelete: 'set null'
+    }),
+    pendingVersion: jsonb('pendingVersion').$type<{ date: string; merchant: string }>(),
     createdAt: timestamp('createdAt').notNull().defaultNow(),
     updatedAt: timestamp('updatedAt')
       .notNull()
       .defaultNow()
       .$onUpdate(() => new Date())
   },
-  t => [index('transaction_date_idx').on(t.date), index('transaction_hash_idx').on(t.originalHash)]
+  t => [
+    index('transaction_date_idx').on(t.date),
+    index('transaction_hash_idx').on(t.originalHash),
+    index('transaction_user_date_idx').on(t.userId, t.date),
+    // A bank transaction id is imported once per account (OFX FITIDs are only
+    // unique within one); batched upload inserts skip conflicts. Rows without
+    // an id or an account (null) never conflict, the upload lock covers those
+    uniqueIndex('transaction_user_account_external_id_idx').on(t.userId, t.accountId, t.externalId),
+    index('transaction_user_status_idx').on(t.userId, t.status),
+    index('transaction_account_date_idx').on(t.accountId, t.date),
+    // Trigram indexes for the list search's `ilike` matches (needs pg_trgm)
+    index('transaction_merchant_trgm_idx').using('gin', t.merchant.op('gin_trgm_ops')),
+    index('transaction_note_trgm_idx').using('gin', t.note.op('gin_trgm_ops'))
+  ]
 );
 export type Transaction = typeof transaction.$inferSelect;
 export type InsertTransaction = typeof transaction.$inferInsert;
 
+// Parts of a split transaction. When present they replace the transaction's own
+// category and amount in category aggregates; amounts sum to the transaction amount.
+export const transactionSplit = pgTable(
+  'transaction_split',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    transactionId: text('transactionId')
+      .notNull()
+      .references(() => transaction.id, { onDelete: 'cascade' }),
+    categoryId: text('categoryId').references(() => category.id),
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [
+    index('transaction_split_transaction_idx').on(t.transactionId),
+    index('transaction_split_category_idx').on(t.categoryId)
+  ]
+);
+export type TransactionSplit = typeof transactionSplit.$inferSelect;
+export type InsertTransactionSplit = typeof transactionSplit.$inferInsert;
+
+// Files attached to a transaction, such as receipts. The file itself is kept
+// in the storage service under storageKey
+export const attachment = pgTable(
+  'attachment',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    transactionId: text('transactionId')
+      .notNull()
+      .references(() => transaction.id, { onDelete: 'cascade' }),
+    fileName: text('fileName').notNull(),
+    contentType: text('contentType').notNull(),
+    size: integer('size').notNull(),
+    storageKey: text('storageKey').notNull(),
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [index('attachment_transaction_idx').on(t.transactionId)]
+);
+export type Attachment = typeof attachment.$inferSelect;
+export type InsertAttachment = typeof attachment.$inferInsert;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Tags: free-form labels across categories (e.g. a trip)
+////////////////////////////////////////////////////////////////////////
+export const tag = pgTable(
+  'tag',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.name)]
+);
+export type Tag = typeof tag.$inferSelect;
+export type InsertTag = typeof tag.$inferInsert;
+
+// Tags on a transaction. Tags apply to the whole transaction, split or not
+export const transactionTag = pgTable(
+  'transaction_tag',
+  {
+    transactionId: text('transactionId')
+      .notNull()
+      .references(() => transaction.id, { onDelete: 'cascade' }),
+    tagId: text('tagId')
+      .notNull()
+      .references(() => tag.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [unique().on(t.transactionId, t.tagId), index('transaction_tag_tag_idx').on(t.tagId)]
+);
+export type TransactionTag = typeof transactionTag.$inferSelect;
+export type InsertTransactionTag = typeof transactionTag.$inferInsert;
+
 ////////////////////////////////////////////////////////////////////////
 // KOSTNAD - Merchant to category mappings
 ////////////////////////////////////////////////////////////////////////
+// A merchant mapping matched by substring, without amount conditions
+const plainMapping = (t: {
+  matchType: AnyPgColumn;
+  amountSign: AnyPgColumn;
+  minAmount: AnyPgColumn;
+  maxAmount: AnyPgColumn;
+}) =>
+  sql`${t.matchType} = 'contains' and ${t.amountSign} is null and ${t.minAmount} is null and ${t.maxAmount} is null`;
+
 export const merchantMapping = pgTable(
   'merchant_mapping',
   {
     id: text('id')
       .primaryKey()
       .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
     merchantPattern: text('merchantPattern').notNull(),
+    // How merchantPattern is compared to the merchant (see lib/core/merchant/match.ts)
+    matchType: text('matchType', { enum: ['contains', 'exact', 'prefix', 'regex'] })
+      .notNull()
+      .default('contains'),
+    // Optional amount conditions: the sign, and a range on the absolute amount
+    amountSign: text('amountSign', { enum: ['expense', 'income'] }),
+    minAmount: decimal('minAmount', { precision: 12, scale: 2 }),
+    maxAmount: decimal('maxAmount', { precision: 12, scale: 2 }),
+    // Rules with a higher priority are tried first
+    priority: integer('priority').notNull().default(0),
     categoryId: text('categoryId').references(() => category.id),
     // Multi-merchants (umbrella merchants) always require manual review
     isMultiMerchant: boolean('isMultiMerchant').notNull().default(false),
@@ -133,11 +350,269 @@ export const merchantMapping = pgTable(
       .defaultNow()
       .$onUpdate(() => new Date())
   },
-  t => [unique().on(t.merchantPattern)]
+  t => [
+    // Plain mappings are unique per pattern; rules with another match type or
+    // amount conditions may share a pattern (e.g. SWISH under and over an amount)
+    uniqueIndex('merchant_mapping_plain_pattern_idx')
+      .on(t.userId, t.merchantPattern)
+      .where(plainMapping(t))
+  ]
 );
 export type MerchantMapping = typeof merchantMapping.$inferSelect;
 export type InsertMerchantMapping = typeof merchantMapping.$inferInsert;
 
+/** Condition (and upsert target) for the plain mapping of a pattern */
+export const isPlainMerchantMapping = plainMapping(merchantMapping);
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Saved csv column mappings (see lib/core/import/csv-mapping.ts)
+////////////////////////////////////////////////////////////////////////
+export const importProfile = pgTable(
+  'import_profile',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    // Normalized header cells; files with the same headers skip the wizard
+    headerSignature: text('headerSignature'),
+    headerRow: integer('headerRow'),
+    dateColumn: integer('dateColumn').notNull(),
+    merchantColumn: integer('merchantColumn').notNull(),
+    amountColumn: integer('amountColumn').notNull(),
+    balanceColumn: integer('balanceColumn'),
+    decimalSeparator: text('decimalSeparator', { enum: [',', '.'] }).notNull(),
+    dateFormat: text('dateFormat', {
+      enum: ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYYMMDD']
+    }).notNull(),
+    signConvention: text('signConvention', {
+      enum: ['expensesNegative', 'expensesPositive']
+    }).notNull(),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.name)]
+);
+export type ImportProfile = typeof importProfile.$inferSelect;
+export type InsertImportProfile = typeof importProfile.$inferInsert;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Category budgets (see lib/core/budget/budget.ts)
+////////////////////////////////////////////////////////////////////////
+export const budget = pgTable(
+  'budget',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    categoryId: text('categoryId')
+      .notNull()
+      .references(() => category.id, { onDelete: 'cascade' }),
+    period: text('period', { enum: ['monthly', 'weekly'] }).notNull(),
+    // Spending limit per period, positive
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    // Carry unspent amounts into the next period
+    rollover: boolean('rollover').notNull().default(false),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.categoryId)]
+);
+export type Budget = typeof budget.$inferSelect;
+export type InsertBudget = typeof budget.$inferInsert;
+
+// One row per alert email sent, so each threshold fires once per budget period
+export const budgetAlert = pgTable(
+  'budget_alert',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    budgetId: text('budgetId')
+      .notNull()
+      .references(() => budget.id, { onDelete: 'cascade' }),
+    periodStart: timestamp('periodStart').notNull(),
+    threshold: integer('threshold').notNull(), // Percent of the limit, 80 or 100
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [unique().on(t.budgetId, t.periodStart, t.threshold)]
+);
+export type BudgetAlert = typeof budgetAlert.$inferSelect;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Append-only audit trail (see lib/services/activity)
+////////////////////////////////////////////////////////////////////////
+// One row per changed field, or one per create/delete with the whole record
+// in newValue/oldValue. entityId has no foreign key so history outlives the
+// record. Rows are never deleted and only updated to set revertedAt; a revert
+// is a new row
+export const activity = pgTable(
+  'activity',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    // Who made the change
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    entity: text('entity', {
+      enum: [
+        'transaction',
+        'category',
+        'merchantMapping',
+        'tag',
+        'bankAccount',
+        'recurringSeries',
+        'upload'
+      ]
+    }).notNull(),
+    entityId: text('entityId').notNull(),
+    action: text('action', { enum: ['create', 'update', 'delete'] }).notNull(),
+    field: text('field'), // Null for create and delete
+    oldValue: jsonb('oldValue'),
+    newValue: jsonb('newValue'),
+    // The change this row reverts
+    revertOf: text('revertOf').references((): AnyPgColumn => activity.id),
+    // Set once, in the transaction recording the revert of this change
+    revertedAt: timestamp('revertedAt'),
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [
+    index('activity_entity_idx').on(t.entity, t.entityId, t.createdAt),
+    index('activity_user_created_idx').on(t.userId, t.createdAt)
+  ]
+);
+export type Activity = typeof activity.$inferSelect;
+export type InsertActivity = typeof activity.$inferInsert;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Recurring series (see lib/core/recurring/detect.ts)
+////////////////////////////////////////////////////////////////////////
+// Refreshed by detection after uploads; name and status are the user's and
+// survive re-detection. Detected series that are no longer found are removed
+export const recurringSeries = pgTable(
+  'recurring_series',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // Merchant and cadence, see DetectedSeries.key
+    key: text('key').notNull(),
+    merchant: text('merchant').notNull(),
+    // Set by the user; shown instead of the merchant
+    name: text('name'),
+    cadence: text('cadence', { enum: ['weekly', 'monthly', 'quarterly', 'yearly'] }).notNull(),
+    status: text('status', { enum: ['detected', 'confirmed', 'dismissed'] })
+      .notNull()
+      .default('detected'),
+    // Latest charge, positive
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    firstDate: timestamp('firstDate').notNull(),
+    lastDate: timestamp('lastDate').notNull(),
+    nextDate: timestamp('nextDate').notNull(),
+    transactionCount: integer('transactionCount').notNull(),
+    lastTransactionId: text('lastTransactionId').references(() => transaction.id, {
+      onDelete: 'set null'
+    }),
+    // First charge and each charge at a new price, oldest first
+    priceHistory: jsonb('priceHistory').$type<Array<{ date: string; amount: number }>>().notNull(),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.key)]
+);
+export type RecurringSeries = typeof recurringSeries.$inferSelect;
+export type InsertRecurringSeries = typeof recurringSeries.$inferInsert;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Household members
+////////////////////////////////////////////////////////////////////////
+
+// Sign-in emails a user counts to their household. Two users are household
+// members once each lists the other's email; only members can share views.
+// Stored by email so adding someone never reveals whether they have an account
+export const householdMember = pgTable(
+  'household_member',
+  {
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // Lowercased
+    email: text('email').notNull(),
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [unique().on(t.userId, t.email), index('household_member_email_idx').on(t.email)]
+);
+export type HouseholdMember = typeof householdMember.$inferSelect;
+export type InsertHouseholdMember = typeof householdMember.$inferInsert;
+
+////////////////////////////////////////////////////////////////////////
+// KOSTNAD - Saved views of the transactions and merchants lists
+////////////////////////////////////////////////////////////////////////
+export const savedView = pgTable(
+  'saved_view',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    page: text('page', { enum: ['transactions', 'merchants'] }).notNull(),
+    // URL search params of the page, without the leading '?'
+    query: text('query').notNull(),
+    // Shown in the owner's header nav
+    pinned: boolean('pinned').notNull().default(false),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date())
+  },
+  t => [unique().on(t.userId, t.name)]
+);
+export type SavedView = typeof savedView.$inferSelect;
+export type InsertSavedView = typeof savedView.$inferInsert;
+
+// Household members a view is shared with; they can open and pin it, not edit it
+export const savedViewShare = pgTable(
+  'saved_view_share',
+  {
+    viewId: text('viewId')
+      .notNull()
+      .references(() => savedView.id, { onDelete: 'cascade' }),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // Shown in the member's header nav
+    pinned: boolean('pinned').notNull().default(false),
+    createdAt: timestamp('createdAt').notNull().defaultNow()
+  },
+  t => [unique().on(t.viewId, t.userId), index('saved_view_share_user_idx').on(t.userId)]
+);
+export type SavedViewShare = typeof savedViewShare.$inferSelect;
+export type InsertSavedViewShare = typeof savedViewShare.$inferInsert;
+
 export const session = pgTable('session', {
   id: text('id').primaryKey(),
   expiresAt: timestamp('expiresAt').notNull(),
@@ -191,12 +666,76 @@ export const verification = pgTable('verification', {
 // RELATIONS - Drizzle v1.0 RQB v2 API
 ////////////////////////////////////////////////////////////////////////
 export const relations = defineRelations(
-  { user, session, account, verification, upload, transaction, category, merchantMapping },
+  {
+    user,
+    session,
+    account,
+    verification,
+    bankAccount,
+    upload,
+    transaction,
+    transactionSplit,
+    attachment,
+    tag,
+    transactionTag,
+    category,
+    merchantMapping,
+    importProfile,
+    budget,
+    budgetAlert,
+    activity,
+    recurringSeries,
+    savedView,
+    savedViewShare
+  },
   r => ({
     user: {
       uploads: r.many.upload({
         from: r.user.id,
         to: r.upload.uploadedBy
+      }),
+      transactions: r.many.transaction({
+        from: r.user.id,
+        to: r.transaction.userId
+      }),
+      categories: r.many.category({
+        from: r.user.id,
+        to: r.category.userId
+      }),
+      tags: r.many.tag({
+        from: r.user.id,
+        to: r.tag.userId
+      }),
+      merchantMappings: r.many.merchantMapping({
+        from: r.user.id,
+        to: r.merchantMapping.userId
+      }),
+      importProfiles: r.many.importProfile({
+        from: r.user.id,
+        to: r.importProfile.userId
+      }),
+      bankAccounts: r.many.bankAccount({
+        from: r.user.id,
+        to: r.bankAccount.userId
+      }),
+      budgets: r.many.budget({
+        from: r.user.id,
+        to: r.budget.userId
+      })
+    },
+    bankAccount: {
+      user: r.one.user({
+        from: r.bankAccount.userId,
+        to: r.user.id,
+        optional: false
+      }),
+      uploads: r.many.upload({
+        from: r.bankAccount.id,
+        to: r.upload.accountId
+      }),
+      transactions: r.many.transaction({
+        from: r.bankAccount.id,
+        to: r.transaction.accountId
       })
     },
     upload: {
@@ -205,12 +744,22 @@ export const relations = defineRelations(
         to: r.user.id,
         optional: false
       }),
+      account: r.one.bankAccount({
+        from: r.upload.accountId,
+        to: r.bankAccount.id,
+        optional: true
+      }),
       transactions: r.many.transaction({
         from: r.upload.id,
         to: r.transaction.uploadId
       })
     },
     transaction: {
+      user: r.one.user({
+        from: r.transaction.userId,
+        to: r.user.id,
+        optional: false
+      }),
       upload: r.one.upload({
         from: r.transaction.uploadId,
         to: r.upload.id,
@@ -220,9 +769,78 @@ export const relations = defineRelations(
         from: r.transaction.categoryId,
         to: r.category.id,
         optional: true
+      }),
+      account: r.one.bankAccount({
+        from: r.transaction.accountId,
+        to: r.bankAccount.id,
+        optional: true
+      }),
+      splits: r.many.transactionSplit({
+        from: r.transaction.id,
+        to: r.transactionSplit.transactionId
+      }),
+      tags: r.many.transactionTag({
+        from: r.transaction.id,
+        to: r.transactionTag.transactionId
+      }),
+      attachments: r.many.attachment({
+        from: r.transaction.id,
+        to: r.attachment.transactionId
+      })
+    },
+    transactionSplit: {
+      transaction: r.one.transaction({
+        from: r.transactionSplit.transactionId,
+        to: r.transaction.id,
+        optional: false
+      }),
+      category: r.one.category({
+        from: r.transactionSplit.categoryId,
+        to: r.category.id,
+        optional: true
+      })
+    },
+    attachment: {
+      user: r.one.user({
+        from: r.attachment.userId,
+        to: r.user.id,
+        optional: false
+      }),
+      transaction: r.one.transaction({
+        from: r.attachment.transactionId,
+        to: r.transaction.id,
+        optional: false
+      })
+    },
+    tag: {
+      user: r.one.user({
+        from: r.tag.userId,
+        to: r.user.id,
+        optional: false
+      }),
+      transactions: r.many.transactionTag({
+        from: r.tag.id,
+        to: r.transactionTag.tagId
+      })
+    },
+    transactionTag: {
+      transaction: r.one.transaction({
+        from: r.transactionTag.transactionId,
+        to: r.transaction.id,
+        optional: false
+      }),
+      tag: r.one.tag({
+        from: r.transactionTag.tagId,
+        to: r.tag.id,
+        optional: false
       })
     },
     category: {
+      user: r.one.user({
+        from: r.category.userId,
+        to: r.user.id,
+        optional: false
+      }),
       transactions: r.many.transaction({
         from: r.category.id,
         to: r.transaction.categoryId
@@ -230,14 +848,94 @@ export const relations = defineRelations(
       merchantMappings: r.many.merchantMapping({
         from: r.category.id,
         to: r.merchantMapping.categoryId
+      }),
+      budgets: r.many.budget({
+        from: r.category.id,
+        to: r.budget.categoryId
       })
     },
     merchantMapping: {
+      user: r.one.user({
+        from: r.merchantMapping.userId,
+        to: r.user.id,
+        optional: false
+      }),
       category: r.one.category({
         from: r.merchantMapping.categoryId,
         to: r.category.id,
         optional: false
       })
+    },
+    importProfile: {
+      user: r.one.user({
+        from: r.importProfile.userId,
+        to: r.user.id,
+        optional: false
+      })
+    },
+    budget: {
+      user: r.one.user({
+        from: r.budget.userId,
+        to: r.user.id,
+        optional: false
+      }),
+      category: r.one.category({
+        from: r.budget.categoryId,
+        to: r.category.id,
+        optional: false
+      }),
+      alerts: r.many.budgetAlert({
+        from: r.budget.id,
+        to: r.budgetAlert.budgetId
+      })
+    },
+    budgetAlert: {
+      budget: r.one.budget({
+        from: r.budgetAlert.budgetId,
+        to: r.budget.id,
+        optional: false
+      })
+    },
+    activity: {
+      user: r.one.user({
+        from: r.activity.userId,
+        to: r.user.id,
+        optional: false
+      })
+    },
+    recurringSeries: {
+      user: r.one.user({
+        from: r.recurringSeries.userId,
+        to: r.user.id,
+        optional: false
+      }),
+      lastTransaction: r.one.transaction({
+        from: r.recurringSeries.lastTransactionId,
+        to: r.transaction.id
+      })
+    },
+    savedView: {
+      user: r.one.user({
+        from: r.savedView.userId,
+        to: r.user.id,
+        optional: false
+      }),
+      shares: r.many.savedViewShare({
+        from: r.savedView.id,
+        to: r.savedViewShare.viewId
+      })
+    },
+    savedViewShare: {
+      view: r.one.savedView({
+        from: r.savedViewShare.viewId,
+        to: r.savedView.id,
+        optional: false
+      }),
+      user: r.one.user({
+        from: r.savedViewShare.userId,
+        to: r.user.id,
+        optional: false
+      })
     }
   })
 );
@@ -1,6 +1,7 @@
 import { config } from 'dotenv';
+import { eq } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/postgres-js';
-import { category, merchantMapping } from './schema';
+import { category, isPlainMerchantMapping, merchantMapping, user } from './schema';
 
 config({ path: '.env' });
 
@@ -153,40 +154,52 @@ const MERCHANT_MAPPINGS: Record<string, readonly string[]> = {
 async function seed() {
   const db = drizzle({ connection: getDatabaseUrl(), casing: 'snake_case' });
 
-  console.log('Seeding default categories...');
+  // Categories and mappings are per-user, so every existing user gets the defaults
+  const users = await db.select({ id: user.id, email: user.email }).from(user);
 
-  for (const cat of DEFAULT_CATEGORIES) {
-    await db
-      .insert(category)
-      .values(cat)
-      .onConflictDoUpdate({
-        target: category.name,
-        set: { icon: cat.icon, description: cat.description }
-      });
+  if (users.length === 0) {
+    console.log('No users found, nothing to seed.');
+    await db.$client.end();
+    return;
   }
 
-  console.log('Seeding merchant mappings...');
+  for (const { id: userId, email } of users) {
+    console.log(`Seeding default categories for ${email}...`);
 
-  // Get all categories to map names to IDs
-  const categories = await db.select().from(category);
-  const categoryByName = new Map(categories.map(c => [c.name, c.id]));
-
-  for (const [categoryName, patterns] of Object.entries(MERCHANT_MAPPINGS)) {
-    const categoryId = categoryByName.get(categoryName);
-    if (!categoryId) {
-      console.warn(`Category "${categoryName}" not found, skipping mappings`);
-      continue;
-    }
-
-    for (const pattern of patterns) {
+    for (const cat of DEFAULT_CATEGORIES) {
       await db
-        .insert(merchantMapping)
-        .values({ merchantPattern: pattern, categoryId })
+        .insert(category)
+        .values({ ...cat, userId })
         .onConflictDoUpdate({
-          target: merchantMapping.merchantPattern,
-          set: { categoryId }
+          target: [category.userId, category.name],
+          set: { icon: cat.icon, description: cat.description }
         });
     }
+
+    console.log(`Seeding merchant mappings for ${email}...`);
+
+    // Get the user's categories to map names to IDs
+    const categories = await db.select().from(category).where(eq(category.userId, userId));
+    const categoryByName = new Map(categories.map(c => [c.name, c.id]));
+
+    for (const [categoryName, patterns] of Object.entries(MERCHANT_MAPPINGS)) {
+      const categoryId = categoryByName.get(categoryName);
+      if (!categoryId) {
+        console.warn(`Category "${categoryName}" not found, skipping mappings`);
+        continue;
+      }
+
+      for (const pattern of patterns) {
+        await db
+          .insert(merchantMapping)
+          .values({ userId, merchantPattern: pattern, categoryId })
+          .onConflictDoUpdate({
+            target: [merchantMapping.userId, merchantMapping.merchantPattern],
+            targetWhere: isPlainMerchantMapping,
+            set: { categoryId }
+          });
+      }
+    }
   }
 
   console.log('Seeding complete.');
@@ -0,0 +1,7 @@
+import { Data } from 'effect';
+
+export class StorageError extends Data.TaggedError('StorageError')<{
+  message: string;
+  key: string;
+  cause?: unknown;
+}> {}
@@ -0,0 +1,49 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from '@effect/vitest';
+import { ConfigProvider, Effect, Layer } from 'effect';
+import { Storage } from './live-layer';
+
+const directory = mkdtempSync(join(tmpdir(), 'kostnad-storage-'));
+
+const TestStorage = Storage.Live.pipe(
+  Layer.provide(Layer.setConfigProvider(ConfigProvider.fromJson({ STORAGE_DIR: directory })))
+);
+
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+describe('Storage (local disk)', () => {
+  it.effect('stores and reads back a file under a nested key', () =>
+    Effect.gen(function* () {
+      const storage = yield* Storage;
+      yield* storage.put('user-1/attachment-1', new TextEncoder().encode('receipt'));
+
+      const data = yield* storage.get('user-1/attachment-1');
+      expect(new TextDecoder().decode(data)).toBe('receipt');
+    }).pipe(Effect.provide(TestStorage))
+  );
+
+  it.effect('removes files, and removing a missing file succeeds', () =>
+    Effect.gen(function* () {
+      const storage = yield* Storage;
+      yield* storage.put('user-1/attachment-2', new Uint8Array([1, 2, 3]));
+
+      yield* storage.remove('user-1/attachment-2');
+      yield* storage.remove('user-1/attachment-2');
+
+      const error = yield* Effect.flip(storage.get('user-1/attachment-2'));
+      expect(error._tag).toBe('StorageError');
+    }).pipe(Effect.provide(TestStorage))
+  );
+
+  it.effect('rejects keys outside the storage directory', () =>
+    Effect.gen(function* () {
+      const storage = yield* Storage;
+
+      const error = yield* Effect.flip(storage.put('../escape', new Uint8Array([1])));
+
+      expect(error.message).toBe('Invalid storage key');
+    }).pipe(Effect.provide(TestStorage))
+  );
+});
@@ -0,0 +1,92 @@
+import { FileSystem, Path } from '@effect/platform';
+import { NodeContext } from '@effect/platform-node';
+import { Config, Context, Effect, Layer } from 'effect';
+import { StorageError } from './errors';
+
+export { StorageError };
+
+// Configuration service (internal)
+class StorageConfig extends Context.Tag('@app/StorageConfig')<
+  StorageConfig,
+  {
+    /** Root directory of stored files, relative to the working directory */
+    readonly directory: string;
+  }
+>() {}
+
+const StorageConfigLive = Layer.effect(
+  StorageConfig,
+  Effect.gen(function* () {
+    const directory = yield* Config.string('STORAGE_DIR').pipe(Config.withDefault('.storage'));
+    return { directory };
+  })
+);
+
+// Service definition
+// Files are addressed by key (a relative path such as `user/attachment`). This
+// implementation keeps them on local disk; another backend (e.g. S3) only has
+// to provide the same put/get/remove.
+// v4 migration: Change Effect.Service to ServiceMap.Service
+export class Storage extends Effect.Service<Storage>()('@app/Storage', {
+  effect: Effect.gen(function* () {
+    const config = yield* StorageConfig;
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    const root = path.resolve(config.directory);
+
+    // Keys never escape the root directory
+    const resolve = (key: string): Effect.Effect<string, StorageError> => {
+      const file = path.resolve(root, key);
+      return file.startsWith(root + path.sep)
+        ? Effect.succeed(file)
+        : Effect.fail(new StorageError({ message: 'Invalid storage key', key }));
+    };
+
+    const put = (key: string, data: Uint8Array): Effect.Effect<void, StorageError> =>
+      Effect.gen(function* () {
+        const file = yield* resolve(key);
+        yield* fs.makeDirectory(path.dirname(file), { recursive: true });
+        yield* fs.writeFile(file, data);
+      }).pipe(
+        Effect.catchTag(
+          'SystemError',
+          'BadArgument',
+          cause => new StorageError({ message: 'Failed to store file', key, cause })
+        ),
+        Effect.withSpan('Storage.put', {
+          attributes: { 'storage.key': key, 'storage.size': data.length }
+        })
+      );
+
+    const get = (key: string): Effect.Effect<Uint8Array, StorageError> =>
+      resolve(key).pipe(
+        Effect.flatMap(file => fs.readFile(file)),
+        Effect.catchTag(
+          'SystemError',
+          'BadArgument',
+          cause => new StorageError({ message: 'Failed to read file', key, cause })
+        ),
+        Effect.withSpan('Storage.get', { attributes: { 'storage.key': key } })
+      );
+
+    // Removing a missing file succeeds
+    const remove = (key: string): Effect.Effect<void, StorageError> =>
+      resolve(key).pipe(
+        Effect.flatMap(file => fs.remove(file, { force: true })),
+        Effect.catchTag(
+          'SystemError',
+          'BadArgument',
+          cause => new StorageError({ message: 'Failed to remove file', key, cause })
+        ),
+        Effect.withSpan('Storage.remove', { attributes: { 'storage.key': key } })
+      );
+
+    return { put, get, remove } as const;
+  })
+}) {
+  // Base layer (has unsatisfied StorageConfig and platform dependencies)
+  static layer = this.Default;
+
+  // Composed layer with all dependencies satisfied
+  static Live = this.layer.pipe(Layer.provide(StorageConfigLive), Layer.provide(NodeContext.layer));
+}
@@ -1,7 +1,13 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  reactCompiler: true
+  reactCompiler: true,
+  experimental: {
+    // Receipt attachments are sent to a server action; leave room over their 10 MB limit
+    serverActions: {
+      bodySizeLimit: '11mb'
+    }
+  }
 };
 
 export default nextConfig;